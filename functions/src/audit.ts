@@ -0,0 +1,49 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { CallableRequest } from 'firebase-functions/v2/https';
+
+// Event types match AuditEventType in src/types/auditLog.ts
+export type ServerAuditEvent =
+  | 'LOGIN_SUCCESS'
+  | 'LOGIN_FAILURE'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'PASSWORD_CHANGE'
+  | 'MFA_ENROLLED'
+  | 'MFA_DISABLED'
+  | 'MFA_FAILURE'
+  | 'MFA_RECOVERY_CODE_USED'
+  | 'MFA_RECOVERY_CODES_REGENERATED'
+  | 'STAFF_INVITED'
+  | 'STAFF_DEACTIVATED'
+  | 'STAFF_REACTIVATED';
+
+export interface RequestContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+export const getRequestContext = (request: CallableRequest): RequestContext => ({
+  ipAddress: request.rawRequest.ip || 'unknown',
+  userAgent: request.rawRequest.get('user-agent') || ''
+});
+
+export const logAuditEvent = async (
+  eventType: ServerAuditEvent,
+  email: string,
+  context: RequestContext,
+  details?: string,
+  userId?: string
+) => {
+  try {
+    await getFirestore().collection('auditLogs').add({
+      eventType,
+      userEmail: email,
+      ...(userId ? { userId } : {}),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      ...(details ? { details } : {}),
+      timestamp: FieldValue.serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Failed to log audit event:', error);
+  }
+};
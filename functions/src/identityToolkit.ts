@@ -0,0 +1,29 @@
+import { defineString } from 'firebase-functions/params';
+
+// Web API key of the project, used for the Auth REST API calls the Admin SDK has no equivalent for
+const webApiKey = defineString('WEB_API_KEY');
+
+export type IdentityToolkitResult<T> =
+  | { ok: true; body: T }
+  | { ok: false; code: string };
+
+/**
+ * POST to an Identity Toolkit endpoint such as `accounts:signInWithPassword`.
+ * Failures come back as the API's error code, e.g. INVALID_PASSWORD.
+ */
+export const callIdentityToolkit = async <T>(endpoint: string, payload: object): Promise<IdentityToolkitResult<T>> => {
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/${endpoint}?key=${webApiKey.value()}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    }
+  );
+  const body = await response.json() as T & { error?: { message?: string } };
+  if (response.ok) {
+    return { ok: true, body };
+  }
+  // Messages look like "INVALID_PASSWORD" or "TOO_MANY_ATTEMPTS_TRY_LATER : ..."
+  return { ok: false, code: (body.error?.message || 'UNKNOWN').split(' ')[0] };
+};
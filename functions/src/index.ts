@@ -0,0 +1,8 @@
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { staffLogin } from './staffLogin';
+export { startMfaEnrollment, confirmMfaEnrollment, regenerateRecoveryCodes, disableMfa } from './mfa';
+export { changeStaffPassword, resetStaffPassword } from './passwords';
+export { inviteStaff, setStaffActive } from './staffAdmin';
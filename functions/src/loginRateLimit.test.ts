@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { LimitSubject, applyFailure, refundFailure } from './loginRateLimit';
+
+const ACCOUNT: LimitSubject = { kind: 'account', subject: 'dispatcher@springfield.gov' };
+const NOW = Date.UTC(2025, 2, 1, 9);
+
+const failTimes = (count: number, at: number = NOW) => {
+  let limit = applyFailure(undefined, ACCOUNT, at);
+  for (let i = 1; i < count; i++) limit = applyFailure(limit, ACCOUNT, at);
+  return limit;
+};
+
+describe('refundFailure', () => {
+  it('takes back one counted failure', () => {
+    expect(refundFailure(failTimes(3), NOW).failures).toBe(2);
+  });
+
+  it('lifts a lock the refunded attempt started', () => {
+    const locked = failTimes(5);
+    expect(locked.blockedUntil).not.toBeNull();
+    expect(refundFailure(locked, NOW)).toMatchObject({ blockedUntil: null, lockouts: 0, failures: 4 });
+  });
+
+  it('keeps a lock started by a later failure', () => {
+    const locked = failTimes(5, NOW + 1000);
+    expect(refundFailure(locked, NOW).blockedUntil).toEqual(locked.blockedUntil);
+  });
+});
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+
+// Counters live here; security rules only let admins read and delete them
+export const RATE_LIMITS_COLLECTION = 'loginRateLimits';
+
+export type LimitKind = 'account' | 'ip';
+
+export interface LimitSubject {
+  kind: LimitKind;
+  // Lower-cased email for accounts, the caller's address for IPs
+  subject: string;
+}
+
+// Offices share an address, so an IP may fail more often than a single account
+const MAX_FAILURES: Record<LimitKind, number> = {
+  account: 5,
+  ip: 20
+};
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const BASE_LOCK_MS = 15 * 60 * 1000;
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+
+interface LimitDoc {
+  kind: LimitKind;
+  subject: string;
+  failures: number;
+  windowStartedAt: Timestamp;
+  // Lockouts so far; each one doubles the next lock
+  lockouts: number;
+  blockedUntil: Timestamp | null;
+  lastFailureAt: Timestamp;
+}
+
+export interface LimitStatus {
+  retryAfterMs: number;
+  remainingAttempts: number;
+}
+
+// Either a subject is locked, or the attempt has been counted as a failure until it is given back
+export type AttemptReservation =
+  | { allowed: false; retryAfterMs: number }
+  | { allowed: true; status: LimitStatus };
+
+export const limitDocId = ({ kind, subject }: LimitSubject): string =>
+  `${kind}_${createHash('sha256').update(subject).digest('hex').slice(0, 40)}`;
+
+export const getLockDurationMs = (lockouts: number): number =>
+  Math.min(BASE_LOCK_MS * Math.pow(2, lockouts), MAX_LOCK_MS);
+
+const getRetryAfterMs = (limit: LimitDoc | undefined, now: number): number =>
+  limit?.blockedUntil ? Math.max(0, limit.blockedUntil.toMillis() - now) : 0;
+
+/**
+ * Count one more failed sign-in. Failures reset after the window passes, and the
+ * backoff resets once a subject has gone a full day without failing.
+ */
+export const applyFailure = (limit: LimitDoc | undefined, { kind, subject }: LimitSubject, now: number): LimitDoc => {
+  const stale = !limit || now - limit.lastFailureAt.toMillis() > MAX_LOCK_MS;
+  const next: LimitDoc = stale
+    ? { kind, subject, failures: 0, windowStartedAt: Timestamp.fromMillis(now), lockouts: 0, blockedUntil: null, lastFailureAt: Timestamp.fromMillis(now) }
+    : { ...limit };
+
+  if (now - next.windowStartedAt.toMillis() > FAILURE_WINDOW_MS) {
+    next.failures = 0;
+    next.windowStartedAt = Timestamp.fromMillis(now);
+  }
+
+  next.failures += 1;
+  next.lastFailureAt = Timestamp.fromMillis(now);
+  if (next.failures >= MAX_FAILURES[kind]) {
+    next.blockedUntil = Timestamp.fromMillis(now + getLockDurationMs(next.lockouts));
+    next.lockouts += 1;
+    next.failures = 0;
+    next.windowStartedAt = Timestamp.fromMillis(now);
+  }
+  return next;
+};
+
+/**
+ * Take back a failure counted by applyFailure at `now` for an attempt that did not
+ * fail after all. A lock that attempt started is lifted if nothing has failed since.
+ */
+export const refundFailure = (limit: LimitDoc, now: number): LimitDoc => {
+  const next: LimitDoc = { ...limit };
+  if (next.failures > 0) {
+    next.failures -= 1;
+  } else if (next.blockedUntil && next.lockouts > 0 && next.lastFailureAt.toMillis() === now) {
+    next.blockedUntil = null;
+    next.lockouts -= 1;
+    next.failures = MAX_FAILURES[next.kind] - 1;
+  }
+  return next;
+};
+
+const limitRefs = (db: Firestore, subjects: LimitSubject[]) =>
+  subjects.map(s => db.collection(RATE_LIMITS_COLLECTION).doc(limitDocId(s)));
+
+/**
+ * Check the limits and count the attempt as a failed sign-in against every subject in
+ * one transaction, before the password is checked, so parallel attempts cannot all get
+ * past the check. An attempt that does not fail is given back with refundAttempt.
+ * remainingAttempts is for the first subject, the account the user is signing in to.
+ */
+export const reserveAttempt = async (db: Firestore, subjects: LimitSubject[], now: number): Promise<AttemptReservation> => {
+  const refs = limitRefs(db, subjects);
+  return db.runTransaction(async (tx) => {
+    const limits = (await tx.getAll(...refs)).map(snap => snap.data() as LimitDoc | undefined);
+    const retryAfterMs = Math.max(0, ...limits.map(limit => getRetryAfterMs(limit, now)));
+    if (retryAfterMs > 0) return { allowed: false, retryAfterMs };
+
+    const updated = limits.map((limit, i) => applyFailure(limit, subjects[i], now));
+    updated.forEach((limit, i) => tx.set(refs[i], limit));
+    return {
+      allowed: true,
+      status: {
+        retryAfterMs: Math.max(0, ...updated.map(limit => getRetryAfterMs(limit, now))),
+        remainingAttempts: Math.max(0, MAX_FAILURES[subjects[0].kind] - updated[0].failures)
+      }
+    };
+  });
+};
+
+// Give back an attempt reserved at `now` that turned out not to be a failed sign-in
+export const refundAttempt = async (db: Firestore, subjects: LimitSubject[], now: number): Promise<void> => {
+  const refs = limitRefs(db, subjects);
+  await db.runTransaction(async (tx) => {
+    const snaps = await tx.getAll(...refs);
+    snaps.forEach((snap, i) => {
+      if (snap.exists) tx.set(refs[i], refundFailure(snap.data() as LimitDoc, now));
+    });
+  });
+};
+
+export const clearLimit = async (db: Firestore, subject: LimitSubject): Promise<void> => {
+  await db.collection(RATE_LIMITS_COLLECTION).doc(limitDocId(subject)).delete();
+};
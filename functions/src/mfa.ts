@@ -0,0 +1,160 @@
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, Firestore, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import { getRequestContext, logAuditEvent } from './audit';
+import { requireAdmin, requireRecentAuth } from './staffAuth';
+import { buildOtpauthUrl, generateRecoveryCodes, generateSecret, hashRecoveryCode, verifyTotp } from './totp';
+
+// Secrets live here; security rules deny all client access
+const MFA_COLLECTION = 'staffMfa';
+
+interface MfaDoc {
+  enabled: boolean;
+  secret?: string;
+  // Set by startMfaEnrollment until a code from the app confirms it
+  pendingSecret?: string;
+  // Time step of the last accepted code, so a code cannot be replayed
+  lastUsedStep?: number;
+  recoveryCodeHashes?: string[];
+  enrolledAt?: Timestamp;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export type SecondFactorResult = 'not_enrolled' | 'missing' | 'invalid' | 'ok' | 'recovery_code_used';
+
+/**
+ * Check the second factor for a sign-in whose password was already verified.
+ * Accepted codes are recorded and recovery codes are used up in the same transaction.
+ */
+export const verifySecondFactor = async (db: Firestore, uid: string, factor: SecondFactor): Promise<SecondFactorResult> => {
+  const ref = db.collection(MFA_COLLECTION).doc(uid);
+  return db.runTransaction(async (tx) => {
+    const mfa = (await tx.get(ref)).data() as MfaDoc | undefined;
+    if (!mfa?.enabled || !mfa.secret) return 'not_enrolled';
+
+    if (factor.code) {
+      const step = verifyTotp(mfa.secret, factor.code);
+      if (step === null || step <= (mfa.lastUsedStep ?? -1)) return 'invalid';
+      tx.update(ref, { lastUsedStep: step });
+      return 'ok';
+    }
+    if (factor.recoveryCode) {
+      const hash = hashRecoveryCode(factor.recoveryCode);
+      if (!(mfa.recoveryCodeHashes || []).includes(hash)) return 'invalid';
+      tx.update(ref, { recoveryCodeHashes: FieldValue.arrayRemove(hash) });
+      return 'recovery_code_used';
+    }
+    return 'missing';
+  });
+};
+
+// Mirror the status onto the staff's users documents for the admin view
+const setUsersMfaFlag = async (db: Firestore, email: string, enabled: boolean) => {
+  const snapshot = await db.collection('users').where('email', '==', email).get();
+  const batch = db.batch();
+  snapshot.docs.forEach(doc => batch.update(doc.ref, {
+    mfaEnabled: enabled,
+    mfaEnrolledAt: enabled ? FieldValue.serverTimestamp() : null
+  }));
+  await batch.commit();
+};
+
+const getMfa = async (db: Firestore, uid: string): Promise<MfaDoc | undefined> =>
+  (await db.collection(MFA_COLLECTION).doc(uid).get()).data() as MfaDoc | undefined;
+
+const newRecoveryCodes = () => {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Step one of enrollment: a new secret for the authenticator app
+export const startMfaEnrollment = onCall(async (request) => {
+  const { uid, email } = requireRecentAuth(request);
+  const db = getFirestore();
+  if ((await getMfa(db, uid))?.enabled) {
+    throw new HttpsError('already-exists', 'Two-factor authentication is already enabled.');
+  }
+  const secret = generateSecret();
+  await db.collection(MFA_COLLECTION).doc(uid).set({ enabled: false, pendingSecret: secret });
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, email) };
+});
+
+// Step two: a code from the app proves it was set up; returns the recovery codes once
+export const confirmMfaEnrollment = onCall(async (request) => {
+  const { uid, email } = requireRecentAuth(request);
+  const context = getRequestContext(request);
+  const db = getFirestore();
+  const mfa = await getMfa(db, uid);
+  if (!mfa?.pendingSecret) {
+    throw new HttpsError('failed-precondition', 'Start enrollment again.');
+  }
+  const step = verifyTotp(mfa.pendingSecret, String(request.data?.code || ''));
+  if (step === null) {
+    await logAuditEvent('MFA_FAILURE', email, context, 'Invalid code during enrollment', uid);
+    throw new HttpsError('invalid-argument', 'That code is not valid. Check the time on your device and try again.');
+  }
+
+  const { codes, hashes } = newRecoveryCodes();
+  await db.collection(MFA_COLLECTION).doc(uid).set({
+    enabled: true,
+    secret: mfa.pendingSecret,
+    lastUsedStep: step,
+    recoveryCodeHashes: hashes,
+    enrolledAt: FieldValue.serverTimestamp()
+  });
+  await setUsersMfaFlag(db, email, true);
+  await logAuditEvent('MFA_ENROLLED', email, context, 'Authenticator app enrolled', uid);
+  return { recoveryCodes: codes };
+});
+
+export const regenerateRecoveryCodes = onCall(async (request) => {
+  const { uid, email } = requireRecentAuth(request);
+  const context = getRequestContext(request);
+  const db = getFirestore();
+  const result = await verifySecondFactor(db, uid, { code: String(request.data?.code || '') });
+  if (result === 'not_enrolled') {
+    throw new HttpsError('failed-precondition', 'Two-factor authentication is not enabled.');
+  }
+  if (result !== 'ok') {
+    await logAuditEvent('MFA_FAILURE', email, context, 'Invalid code when regenerating recovery codes', uid);
+    throw new HttpsError('invalid-argument', 'That code is not valid.');
+  }
+
+  const { codes, hashes } = newRecoveryCodes();
+  await db.collection(MFA_COLLECTION).doc(uid).update({ recoveryCodeHashes: hashes });
+  await logAuditEvent('MFA_RECOVERY_CODES_REGENERATED', email, context, undefined, uid);
+  return { recoveryCodes: codes };
+});
+
+/**
+ * Remove a user's second factor. Staff turning off their own need a current code;
+ * an admin may reset anyone, e.g. after a lost phone.
+ */
+export const disableMfa = onCall(async (request) => {
+  const { uid, email } = requireRecentAuth(request);
+  const context = getRequestContext(request);
+  const db = getFirestore();
+  const targetEmail = String(request.data?.email || email).trim().toLowerCase();
+
+  let targetUid = uid;
+  if (targetEmail !== email.toLowerCase()) {
+    await requireAdmin(db, { uid, email }, 'Only admins can reset another user\'s two-factor authentication.');
+    targetUid = (await getAuth().getUserByEmail(targetEmail)).uid;
+  } else {
+    const result = await verifySecondFactor(db, uid, { code: String(request.data?.code || '') });
+    if (result === 'invalid' || result === 'missing') {
+      await logAuditEvent('MFA_FAILURE', email, context, 'Invalid code when disabling two-factor authentication', uid);
+      throw new HttpsError('invalid-argument', 'That code is not valid.');
+    }
+  }
+
+  await db.collection(MFA_COLLECTION).doc(targetUid).delete();
+  await setUsersMfaFlag(db, targetEmail, false);
+  await logAuditEvent('MFA_DISABLED', email, context,
+    targetUid === uid ? 'Two-factor authentication turned off' : `Two-factor authentication reset for ${targetEmail}`, uid);
+  return { ok: true };
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { checkPasswordPolicy, hashPassword, matchesHash } from './passwordPolicy';
+import { checkPasswordPolicy as checkInApp } from '../../src/utils/passwordPolicy';
+
+describe('checkPasswordPolicy', () => {
+  const samples = ['short', 'Password123!!!', 'Pothole-Crew-42', 'jsmith-rocks-99', 'ALLCAPS-AND-123'];
+
+  it('breaks the same rules as the checklist in the app', () => {
+    samples.forEach(password => {
+      const inApp = checkInApp(password, 'j.smith@springfield.gov').filter(rule => !rule.passed).map(rule => rule.id);
+      expect(checkPasswordPolicy(password, 'j.smith@springfield.gov')).toEqual(inApp);
+    });
+  });
+});
+
+describe('password hashes', () => {
+  it('match only the password they were made from', () => {
+    const hash = hashPassword('Pothole-Crew-42');
+    expect(matchesHash('Pothole-Crew-42', hash)).toBe(true);
+    expect(matchesHash('Pothole-Crew-43', hash)).toBe(false);
+  });
+
+  it('are salted', () => {
+    expect(hashPassword('Pothole-Crew-42').hash).not.toBe(hashPassword('Pothole-Crew-42').hash);
+  });
+});
@@ -0,0 +1,56 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+// Server copy of the rules in src/utils/passwordPolicy.ts, which drives the
+// live feedback in the app. Keep the two in step.
+
+export const MIN_LENGTH = 12;
+
+// Passwords that may not be reused
+export const HISTORY_SIZE = 5;
+
+// Most common passwords and obvious choices for this app
+const BANNED_PASSWORDS = [
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'qwerty', 'qwerty123', 'qwertyuiop',
+  'letmein', 'welcome', 'welcome1', 'welcome123', 'admin', 'admin123', 'administrator', 'changeme',
+  'iloveyou', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'trustno1',
+  '123456', '1234567', '12345678', '123456789', '1234567890', '111111', '000000', 'abc123',
+  'cityfix', 'municipal', 'municipality', 'incident', 'dispatcher', 'supervisor'
+];
+
+// Compare without case, digits and symbols so "Password123!" counts as "password"
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Names of the rules a password breaks; empty when it is acceptable.
+ * Names match the rule ids in the app so messages line up.
+ */
+export const checkPasswordPolicy = (password: string, email: string = ''): string[] => {
+  const failures: string[] = [];
+  if (password.length < MIN_LENGTH) failures.push('length');
+  if (!/[a-z]/.test(password)) failures.push('lowercase');
+  if (!/[A-Z]/.test(password)) failures.push('uppercase');
+  if (!/[0-9]/.test(password)) failures.push('digit');
+  if (!/[^A-Za-z0-9]/.test(password)) failures.push('symbol');
+
+  const core = normalize(password);
+  const emailName = normalize(email.split('@')[0]);
+  const banned = BANNED_PASSWORDS.some(word => {
+    const bannedCore = normalize(word);
+    return bannedCore.length > 0 ? core === bannedCore : password.toLowerCase() === word;
+  });
+  if (banned || (emailName.length >= 3 && core.includes(emailName))) failures.push('common');
+  return failures;
+};
+
+export interface PasswordHash {
+  hash: string;
+  salt: string;
+}
+
+export const hashPassword = (password: string): PasswordHash => {
+  const salt = randomBytes(16).toString('hex');
+  return { hash: scryptSync(password, salt, 64).toString('hex'), salt };
+};
+
+export const matchesHash = (password: string, { hash, salt }: PasswordHash): boolean =>
+  timingSafeEqual(scryptSync(password, salt, 64), Buffer.from(hash, 'hex'));
@@ -0,0 +1,117 @@
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, Firestore, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import { RequestContext, getRequestContext, logAuditEvent } from './audit';
+import { callIdentityToolkit } from './identityToolkit';
+import { requireRecentAuth } from './staffAuth';
+import { HISTORY_SIZE, PasswordHash, checkPasswordPolicy, hashPassword, matchesHash } from './passwordPolicy';
+
+// Hashes of recent passwords; security rules deny all client access
+const PASSWORD_HISTORY_COLLECTION = 'staffPasswords';
+
+interface PasswordHistoryDoc {
+  // Newest first, at most HISTORY_SIZE entries
+  history: (PasswordHash & { changedAt: Timestamp })[];
+}
+
+const POLICY_MESSAGES: Record<string, string> = {
+  length: 'is too short',
+  lowercase: 'needs a lowercase letter',
+  uppercase: 'needs an uppercase letter',
+  digit: 'needs a number',
+  symbol: 'needs a symbol',
+  common: 'is too common or contains your name',
+  reused: 'was used recently'
+};
+
+const describeFailures = (failures: string[]) =>
+  `Password ${failures.map(f => POLICY_MESSAGES[f] || f).join(', ')}.`;
+
+/**
+ * Check a new password against the policy and the user's history. Rejections are
+ * audited with the rules that failed and thrown with them in the error details.
+ */
+const enforcePolicy = async (
+  db: Firestore,
+  uid: string,
+  email: string,
+  newPassword: string,
+  context: RequestContext
+): Promise<PasswordHistoryDoc> => {
+  const failures = checkPasswordPolicy(newPassword, email);
+  const historyDoc = (await db.collection(PASSWORD_HISTORY_COLLECTION).doc(uid).get()).data() as PasswordHistoryDoc | undefined;
+  const history = historyDoc?.history || [];
+  if (history.some(entry => matchesHash(newPassword, entry))) failures.push('reused');
+
+  if (failures.length > 0) {
+    await logAuditEvent('PASSWORD_CHANGE', email, context, `Rejected by password policy: ${failures.join(', ')}`, uid);
+    throw new HttpsError('invalid-argument', describeFailures(failures), { policyFailures: failures });
+  }
+  return { history };
+};
+
+// Record the new password's hash and mark every users document for the account as changed
+const recordPasswordChange = async (
+  db: Firestore,
+  uid: string,
+  email: string,
+  newPassword: string,
+  { history }: PasswordHistoryDoc
+) => {
+  const batch = db.batch();
+  batch.set(db.collection(PASSWORD_HISTORY_COLLECTION).doc(uid), {
+    history: [{ ...hashPassword(newPassword), changedAt: Timestamp.now() }, ...history].slice(0, HISTORY_SIZE)
+  });
+  const users = await db.collection('users').where('email', '==', email).get();
+  users.docs.forEach(doc => batch.update(doc.ref, {
+    passwordChangedAt: FieldValue.serverTimestamp(),
+    requiresPasswordSetup: false,
+    tempPassword: FieldValue.delete(),
+    // Older accounts kept a plain-text copy here
+    password: FieldValue.delete()
+  }));
+  await batch.commit();
+};
+
+// Change the signed-in user's password: first-login setup and expired passwords
+export const changeStaffPassword = onCall(async (request) => {
+  // The first-login reset follows straight on from signing in, so this only stops a stale session
+  const { uid, email } = requireRecentAuth(request, 'Please sign in again to change your password.');
+  const context = getRequestContext(request);
+  const db = getFirestore();
+  const newPassword = String(request.data?.newPassword || '');
+
+  const history = await enforcePolicy(db, uid, email, newPassword, context);
+  await getAuth().updateUser(uid, { password: newPassword });
+  await recordPasswordChange(db, uid, email, newPassword, history);
+  await logAuditEvent('PASSWORD_CHANGE', email, context, 'Password changed; meets policy', uid);
+  return { ok: true };
+});
+
+/**
+ * Finish a forgotten-password reset with the code from the reset email. Used instead of
+ * Firebase's hosted reset page so the policy and history apply here too.
+ */
+export const resetStaffPassword = onCall(async (request) => {
+  const context = getRequestContext(request);
+  const oobCode = String(request.data?.oobCode || '');
+  const newPassword = String(request.data?.newPassword || '');
+
+  // Without a new password this only checks the code and returns the account's email
+  const verified = await callIdentityToolkit<{ email: string }>('accounts:resetPassword', { oobCode });
+  if (!verified.ok) {
+    throw new HttpsError('invalid-argument', 'This reset link is invalid or has expired. Request a new one.');
+  }
+  const email = verified.body.email.toLowerCase();
+  const { uid } = await getAuth().getUserByEmail(email);
+  const db = getFirestore();
+
+  const history = await enforcePolicy(db, uid, email, newPassword, context);
+  const applied = await callIdentityToolkit('accounts:resetPassword', { oobCode, newPassword });
+  if (!applied.ok) {
+    throw new HttpsError('invalid-argument', 'This reset link is invalid or has expired. Request a new one.');
+  }
+  await recordPasswordChange(db, uid, email, newPassword, history);
+  await logAuditEvent('PASSWORD_CHANGE', email, context, 'Password reset by email link; meets policy', uid);
+  return { ok: true };
+});
@@ -0,0 +1,101 @@
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { randomBytes } from 'crypto';
+import { getRequestContext, logAuditEvent } from './audit';
+import { requireAdmin, requireRecentAuth } from './staffAuth';
+
+// Roles match StaffRole in src/types/staff.ts
+const STAFF_ROLES = ['viewer', 'dispatcher', 'supervisor', 'admin'];
+
+// Random, and long enough to pass the password policy; the user replaces it at first sign-in
+const generateTempPassword = () => `${randomBytes(12).toString('base64url')}-Aa1`;
+
+/**
+ * Create a staff account. Returns a temporary password for the admin to pass on;
+ * the new user must choose their own at first sign-in.
+ */
+export const inviteStaff = onCall(async (request) => {
+  const caller = requireRecentAuth(request);
+  const db = getFirestore();
+  await requireAdmin(db, caller, 'Only admins can invite staff.');
+
+  const email = String(request.data?.email || '').trim().toLowerCase();
+  const name = String(request.data?.name || '').trim();
+  const municipal = String(request.data?.municipal || '').trim();
+  // Further municipalities covered besides the home one
+  const municipalities: string[] = Array.isArray(request.data?.municipalities)
+    ? Array.from(new Set<string>(request.data.municipalities.map((m: unknown) => String(m).trim())))
+      .filter(m => m && m !== municipal)
+    : [];
+  const staffRole = String(request.data?.staffRole || 'dispatcher');
+  const team = String(request.data?.team || '').trim();
+  if (!email || !municipal) {
+    throw new HttpsError('invalid-argument', 'Email and municipality are required.');
+  }
+  if (!STAFF_ROLES.includes(staffRole)) {
+    throw new HttpsError('invalid-argument', `Unknown role: ${staffRole}`);
+  }
+
+  const tempPassword = generateTempPassword();
+  let uid: string;
+  try {
+    uid = (await getAuth().createUser({ email, password: tempPassword, displayName: name || undefined })).uid;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/email-already-exists') {
+      throw new HttpsError('already-exists', 'An account with this email already exists.');
+    }
+    throw error;
+  }
+
+  await db.collection('users').doc(uid).set({
+    email,
+    name,
+    municipal,
+    ...(municipalities.length ? { municipalities } : {}),
+    role: 'staff',
+    staffRole,
+    ...(team ? { team } : {}),
+    active: true,
+    requiresPasswordSetup: true,
+    invitedBy: caller.email,
+    createdAt: FieldValue.serverTimestamp()
+  });
+  await logAuditEvent('STAFF_INVITED', caller.email, getRequestContext(request),
+    `Invited ${email} as ${staffRole} in ${municipal}`, caller.uid);
+  return { uid, tempPassword };
+});
+
+/**
+ * Deactivate or reactivate a staff account. Deactivating disables the Auth user, so
+ * staffLogin refuses it, and ends any open sessions.
+ */
+export const setStaffActive = onCall(async (request) => {
+  const caller = requireRecentAuth(request);
+  const db = getFirestore();
+  await requireAdmin(db, caller, 'Only admins can deactivate staff.');
+
+  const email = String(request.data?.email || '').trim().toLowerCase();
+  const active = request.data?.active === true;
+  if (email === caller.email.toLowerCase()) {
+    throw new HttpsError('failed-precondition', 'You cannot deactivate your own account.');
+  }
+
+  const { uid } = await getAuth().getUserByEmail(email);
+  await getAuth().updateUser(uid, { disabled: !active });
+  if (!active) {
+    await getAuth().revokeRefreshTokens(uid);
+  }
+
+  const users = await db.collection('users').where('email', '==', email).get();
+  const batch = db.batch();
+  users.docs.forEach(doc => batch.update(doc.ref, {
+    active,
+    deactivatedAt: active ? null : FieldValue.serverTimestamp()
+  }));
+  await batch.commit();
+
+  await logAuditEvent(active ? 'STAFF_REACTIVATED' : 'STAFF_DEACTIVATED', caller.email, getRequestContext(request),
+    `${active ? 'Reactivated' : 'Deactivated'} ${email}`, caller.uid);
+  return { ok: true };
+});
@@ -0,0 +1,40 @@
+import { CallableRequest, HttpsError } from 'firebase-functions/v2/https';
+import { DocumentData, Firestore } from 'firebase-admin/firestore';
+
+// Staff actions need a sign-in this recent, as for merges in firestore.rules
+const RECENT_AUTH_SECONDS = 10 * 60;
+
+export interface Caller {
+  uid: string;
+  email: string;
+}
+
+export const requireRecentAuth = (request: CallableRequest, message = 'Please confirm your password and try again.'): Caller => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  // Same as staffSession() in firestore.rules
+  if (request.auth.token.staffSession !== true) {
+    throw new HttpsError('permission-denied', 'Please sign in through the staff login.');
+  }
+  if (request.auth.token.auth_time < Date.now() / 1000 - RECENT_AUTH_SECONDS) {
+    throw new HttpsError('failed-precondition', message, { recentAuthRequired: true });
+  }
+  return { uid: request.auth.uid, email: request.auth.token.email || '' };
+};
+
+// Same check as isAdmin() in firestore.rules
+export const requireAdmin = async (db: Firestore, caller: Caller, message = 'Only admins can do this.') => {
+  const staff = (await db.collection('users').doc(caller.uid).get()).data();
+  if (staff?.role !== 'staff' || staff?.staffRole !== 'admin' || staff?.active === false) {
+    throw new HttpsError('permission-denied', message);
+  }
+};
+
+// The users document under the uid, or a legacy one not yet linked to it (see linkStaffAccount)
+export const findStaffAccount = async (db: Firestore, uid: string, email: string): Promise<DocumentData | undefined> => {
+  const own = await db.collection('users').doc(uid).get();
+  if (own.exists) return own.data();
+  const legacy = await db.collection('users').where('email', '==', email).limit(1).get();
+  return legacy.docs[0]?.data();
+};
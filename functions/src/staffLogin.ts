@@ -0,0 +1,124 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { LimitSubject, clearLimit, refundAttempt, reserveAttempt } from './loginRateLimit';
+import { getRequestContext, logAuditEvent } from './audit';
+import { verifySecondFactor } from './mfa';
+import { callIdentityToolkit } from './identityToolkit';
+import { findStaffAccount } from './staffAuth';
+
+type PasswordCheck =
+  | { ok: true; uid: string }
+  | { ok: false; code: string };
+
+// Error codes from the Auth REST API that mean the email or password was wrong
+const CREDENTIAL_ERRORS = ['EMAIL_NOT_FOUND', 'INVALID_PASSWORD', 'INVALID_LOGIN_CREDENTIALS', 'INVALID_EMAIL'];
+
+const verifyPassword = async (email: string, password: string): Promise<PasswordCheck> => {
+  const result = await callIdentityToolkit<{ localId: string }>('accounts:signInWithPassword', {
+    email,
+    password,
+    returnSecureToken: false
+  });
+  return result.ok ? { ok: true, uid: result.body.localId } : result;
+};
+
+/**
+ * Staff sign-in with rate limiting and two-factor authentication. The password is
+ * checked here rather than in the browser so failures are counted against the account
+ * and the caller's real IP, and a locked account cannot be retried by refreshing the page.
+ * Staff with an authenticator enrolled must also send a code or a recovery code.
+ * Returns a custom token for signInWithCustomToken.
+ */
+export const staffLogin = onCall(async (request) => {
+  const email = String(request.data?.email || '').trim().toLowerCase();
+  const password = String(request.data?.password || '');
+  if (!email || !password) {
+    throw new HttpsError('invalid-argument', 'Email and password are required.');
+  }
+
+  const context = getRequestContext(request);
+  const subjects: LimitSubject[] = [
+    { kind: 'account', subject: email },
+    { kind: 'ip', subject: context.ipAddress }
+  ];
+  const db = getFirestore();
+  const now = Date.now();
+
+  const reservation = await reserveAttempt(db, subjects, now);
+  if (!reservation.allowed) {
+    await logAuditEvent('RATE_LIMIT_EXCEEDED', email, context, 'Sign-in attempted while locked');
+    throw new HttpsError('resource-exhausted', 'Too many failed attempts. Please try again later.', {
+      retryAfterMs: reservation.retryAfterMs
+    });
+  }
+
+  // The attempt is already counted as a failure; anything but a wrong password or code gives it back
+  let failed = false;
+  try {
+    // Wrong passwords and wrong codes keep the attempt counted, against the same limits
+    const rejectAttempt = async (message: string, mfaRequired: boolean): Promise<never> => {
+      const { status } = reservation;
+      failed = true;
+      if (status.retryAfterMs > 0) {
+        await logAuditEvent('RATE_LIMIT_EXCEEDED', email, context,
+          `Locked for ${Math.ceil(status.retryAfterMs / 60000)} minutes`);
+        throw new HttpsError('resource-exhausted', 'Too many failed attempts. Please try again later.', {
+          retryAfterMs: status.retryAfterMs
+        });
+      }
+      throw new HttpsError('unauthenticated', message, {
+        remainingAttempts: status.remainingAttempts,
+        mfaRequired
+      });
+    };
+
+    const check = await verifyPassword(email, password);
+    if (!check.ok) {
+      if (check.code === 'USER_DISABLED') {
+        await logAuditEvent('LOGIN_FAILURE', email, context, 'Account disabled');
+        throw new HttpsError('permission-denied', 'This account has been disabled.');
+      }
+      if (!CREDENTIAL_ERRORS.includes(check.code)) {
+        console.error('Unexpected sign-in error:', check.code);
+        throw new HttpsError('unavailable', 'Sign-in is unavailable. Please try again.');
+      }
+      await logAuditEvent('LOGIN_FAILURE', email, context, 'Invalid email or password');
+      return rejectAttempt('Invalid email or password.', false);
+    }
+
+    // Only staff get a session; the failure is logged here because the browser cannot write audit entries for non-staff
+    const staff = await findStaffAccount(db, check.uid, email);
+    if (staff?.role !== 'staff' || staff.active === false) {
+      const reason = !staff ? 'No staff account found' : staff.role !== 'staff' ? 'Not a staff account' : 'Account deactivated';
+      await logAuditEvent('LOGIN_FAILURE', email, context, reason, check.uid);
+      throw new HttpsError('permission-denied', staff?.role === 'staff'
+        ? 'This account has been deactivated. Contact your administrator.'
+        : 'Access denied: Not a staff account.');
+    }
+
+    const secondFactor = await verifySecondFactor(db, check.uid, {
+      code: request.data?.code ? String(request.data.code) : undefined,
+      recoveryCode: request.data?.recoveryCode ? String(request.data.recoveryCode) : undefined
+    });
+    if (secondFactor === 'missing') {
+      throw new HttpsError('failed-precondition', 'Enter the code from your authenticator app.', { mfaRequired: true });
+    }
+    if (secondFactor === 'invalid') {
+      await logAuditEvent('MFA_FAILURE', email, context, 'Invalid authentication code at sign-in', check.uid);
+      return rejectAttempt('Invalid authentication code.', true);
+    }
+    if (secondFactor === 'recovery_code_used') {
+      await logAuditEvent('MFA_RECOVERY_CODE_USED', email, context, 'Signed in with a recovery code', check.uid);
+    }
+
+    // A successful sign-in clears the account's failures; the IP counter keeps running
+    await clearLimit(db, subjects[0]);
+    await logAuditEvent('LOGIN_SUCCESS', email, context, undefined, check.uid);
+    // firestore.rules only treat sessions carrying this claim as staff, so signing in
+    // directly with the password cannot get round the limits and the second factor
+    return { token: await getAuth().createCustomToken(check.uid, { staffSession: true }) };
+  } finally {
+    if (!failed) await refundAttempt(db, subjects, now);
+  }
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildOtpauthUrl, generateRecoveryCodes, generateSecret, hashRecoveryCode, verifyTotp } from './totp';
+
+// The RFC 6238 test secret, "12345678901234567890" in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTotp', () => {
+  it('accepts the RFC 6238 test vectors and returns their time step', () => {
+    expect(verifyTotp(SECRET, '287082', 59 * 1000)).toBe(1);
+    expect(verifyTotp(SECRET, '081804', 1111111109 * 1000)).toBe(37037036);
+    expect(verifyTotp(SECRET, '005 924', 1234567890 * 1000)).toBe(41152263);
+  });
+
+  it('allows one step of clock drift either way', () => {
+    expect(verifyTotp(SECRET, '081804', 1111111139 * 1000)).toBe(37037036);
+    expect(verifyTotp(SECRET, '081804', 1111111079 * 1000)).toBe(37037036);
+    expect(verifyTotp(SECRET, '081804', 1111111169 * 1000)).toBeNull();
+  });
+
+  it('rejects codes that are not six digits', () => {
+    expect(verifyTotp(SECRET, '28708', 59 * 1000)).toBeNull();
+    expect(verifyTotp(SECRET, 'abcdef', 59 * 1000)).toBeNull();
+  });
+});
+
+describe('secrets and recovery codes', () => {
+  it('generates a 160-bit base32 secret', () => {
+    expect(generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  it('names the issuer in the otpauth link', () => {
+    expect(buildOtpauthUrl(SECRET, 'dispatcher@springfield.gov')).toBe(
+      'otpauth://totp/CityFix%20Staff%3Adispatcher%40springfield.gov' +
+      `?secret=${SECRET}&issuer=CityFix%20Staff&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+
+  it('hashes recovery codes however they are typed', () => {
+    const [code] = generateRecoveryCodes(1);
+    expect(code).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{2}$/);
+    expect(hashRecoveryCode(` ${code.toUpperCase().replace(/-/g, '')} `)).toBe(hashRecoveryCode(code));
+  });
+});
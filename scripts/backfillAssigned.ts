@@ -0,0 +1,74 @@
+/**
+ * Writes isAssigned on reports stored without it, so the Incidents "Unassigned"
+ * filter can query them. Safe to run again; reports that already have the field
+ * are left alone. The citizen app stores new reports without it, so keep this
+ * running on an interval alongside the SLA sweeper.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run reports:backfill-assigned
+ *
+ * Environment (see jobAuth.ts for how the job signs in):
+ *   FIREBASE_PROJECT_ID             project to connect to (default: city-fix-62029)
+ *   FIRESTORE_EMULATOR_HOST         host:port of the Firestore emulator
+ *   BACKFILL_INTERVAL_MINUTES       keep running and backfill on this interval; runs
+ *                                   after the first only look at the last day's reports
+ *   BACKFILL_UID                    admin staff account to sign in as; security rules only
+ *                                   let admins update reports in every municipality
+ *   GOOGLE_APPLICATION_CREDENTIALS  service account key used to sign in as BACKFILL_UID
+ */
+import { initializeApp } from 'firebase/app';
+import { collection, connectFirestoreEmulator, doc, getDocs, getFirestore, query, where, writeBatch } from 'firebase/firestore';
+import { signInAsJob } from './jobAuth';
+
+const projectId = process.env.FIREBASE_PROJECT_ID || 'city-fix-62029';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const backfillUid = process.env.BACKFILL_UID;
+const intervalMinutes = Number(process.env.BACKFILL_INTERVAL_MINUTES || 0);
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const app = initializeApp({ projectId });
+const db = getFirestore(app);
+
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+// Reports from `since` on, or every report without it
+const backfill = async (since?: Date) => {
+  // A derived field, so it is written without an event in the report's log
+  const reports = collection(db, 'reports');
+  const snapshot = await getDocs(since ? query(reports, where('timestamp', '>=', since)) : reports);
+  const missing = snapshot.docs.filter(d => d.data().isAssigned === undefined);
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + BATCH_SIZE).forEach(d => {
+      batch.update(doc(db, 'reports', d.id), { isAssigned: !!(d.data().assignedTo || d.data().team) });
+    });
+    await batch.commit();
+  }
+  console.log(`Backfilled isAssigned: scanned ${snapshot.size}, updated ${missing.length}`);
+};
+
+const main = async () => {
+  if (backfillUid) {
+    await signInAsJob(app, backfillUid);
+  }
+
+  await backfill();
+  if (intervalMinutes > 0) {
+    setInterval(() => {
+      backfill(new Date(Date.now() - DAY_MS)).catch(error => console.error('Backfill failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    return;
+  }
+  process.exit(0);
+};
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
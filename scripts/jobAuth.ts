@@ -0,0 +1,17 @@
+/**
+ * Sign-in for the Node jobs. There is no password: firebase-admin, authorised by a
+ * service account (GOOGLE_APPLICATION_CREDENTIALS), mints a custom token for the job's
+ * staff account with the same staffSession claim the staffLogin function adds, and the
+ * job signs in with it. The account needs a users document with the admin staff role
+ * so the security rules let it write outside any one municipality.
+ */
+import { applicationDefault, initializeApp as initializeAdminApp } from 'firebase-admin/app';
+import { getAuth as getAdminAuth } from 'firebase-admin/auth';
+import { FirebaseApp } from 'firebase/app';
+import { getAuth, signInWithCustomToken } from 'firebase/auth';
+
+export const signInAsJob = async (app: FirebaseApp, uid: string) => {
+  const admin = initializeAdminApp({ credential: applicationDefault(), projectId: app.options.projectId });
+  const token = await getAdminAuth(admin).createCustomToken(uid, { staffSession: true });
+  await signInWithCustomToken(getAuth(app), token);
+};
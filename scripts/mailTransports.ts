@@ -0,0 +1,231 @@
+/**
+ * Mail transports for the Node jobs: SMTP for real delivery, and a file sink
+ * that writes .eml files for trying reports out locally.
+ */
+import { randomBytes } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import net, { Socket } from 'node:net';
+import path from 'node:path';
+import tls from 'node:tls';
+import { MailMessage, MailTransport } from '../src/types/mail';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // e.g. "CityFix <reports@example.org>"
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// The bare address from "Name <address>"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+// RFC 2047 encoded word for headers that are not plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (content: string | Uint8Array) =>
+  (Buffer.from(content).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+const boundary = () => `----=_Part_${randomBytes(12).toString('hex')}`;
+
+/**
+ * Build the raw RFC 5322 message: text and HTML as alternatives,
+ * wrapped with any attachments in multipart/mixed.
+ */
+export const buildMimeMessage = (message: MailMessage, from: string, date: Date = new Date()): string => {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  const textPart = ['Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: base64', '', base64Lines(message.text)];
+  let body = textPart;
+  if (message.html) {
+    const alternative = boundary();
+    body = [
+      `Content-Type: multipart/alternative; boundary="${alternative}"`,
+      '',
+      `--${alternative}`,
+      ...textPart,
+      `--${alternative}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(message.html),
+      `--${alternative}--`
+    ];
+  }
+
+  if (message.attachments && message.attachments.length > 0) {
+    const mixed = boundary();
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixed}"`,
+      '',
+      `--${mixed}`,
+      ...body,
+      ...message.attachments.flatMap(attachment => [
+        `--${mixed}`,
+        `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        '',
+        base64Lines(attachment.content)
+      ]),
+      `--${mixed}--`
+    ];
+  }
+
+  return [...headers, ...body].join('\r\n');
+};
+
+// Reads replies off a socket in order; multi-line replies are joined
+const createSmtpSession = (socket: Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end = buffer.indexOf('\r\n');
+    while (end !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      // The last line of a reply has a space after the code, earlier ones a hyphen
+      if (/^\d{3}( |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), message: lines.map(l => l.slice(4)).join('\n') };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+      end = buffer.indexOf('\r\n');
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  const read = (): Promise<SmtpReply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  // Send a line and check the reply; `label` is logged instead of the line so credentials stay out of errors
+  const command = async (line: string, expected: number[], label: string = line): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.message}`);
+    }
+    return reply;
+  };
+
+  // Stop reading, e.g. before the socket is handed over to TLS
+  const detach = () => {
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('close', onClose);
+  };
+
+  return { read, command, detach };
+};
+
+const connect = (options: SmtpOptions): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+  });
+
+const upgradeToTls = (socket: Socket, host: string): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+
+/**
+ * Send each message over a new SMTP connection. The jobs send a handful of
+ * messages per run, so there is no connection pooling.
+ */
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  async send(message: MailMessage) {
+    let socket = await connect(options);
+    let session = createSmtpSession(socket);
+    let encrypted = options.secure;
+    try {
+      const greeting = await session.read();
+      if (greeting.code !== 220) throw new Error(`SMTP greeting failed: ${greeting.code} ${greeting.message}`);
+
+      const features = await session.command('EHLO localhost', [250]);
+      if (!options.secure && /^STARTTLS$/im.test(features.message)) {
+        await session.command('STARTTLS', [220]);
+        session.detach();
+        socket = await upgradeToTls(socket, options.host);
+        session = createSmtpSession(socket);
+        encrypted = true;
+        await session.command('EHLO localhost', [250]);
+      }
+
+      if (options.user) {
+        // AUTH PLAIN sends the password as base64, so never over a plain connection
+        if (!encrypted) throw new Error('SMTP server did not offer STARTTLS; refusing to send credentials without TLS');
+        const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(options.from)}>`, [250]);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      // Lines starting with a dot are doubled so they are not read as the end of the message
+      const data = buildMimeMessage(message, options.from).replace(/^\./gm, '..');
+      await session.command(`${data}\r\n.`, [250], 'message');
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.detach();
+      socket.destroy();
+    }
+  }
+});
+
+/**
+ * Write each message to an .eml file instead of sending it. The files open
+ * in most mail clients, so reports can be checked without an SMTP server.
+ */
+export const createFileTransport = (directory: string, from: string): MailTransport => ({
+  async send(message: MailMessage) {
+    await mkdir(directory, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9.@-]+/g, '_')}.eml`;
+    const file = path.join(directory, name);
+    await writeFile(file, buildMimeMessage(message, from), 'utf8');
+    console.log(`Wrote ${file}`);
+  }
+});
@@ -0,0 +1,67 @@
+/**
+ * Builds the incident search index in Firestore from Node.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run search:index
+ *
+ * Environment (see jobAuth.ts for how the job signs in):
+ *   FIREBASE_PROJECT_ID             project to connect to (default: city-fix-62029)
+ *   FIRESTORE_EMULATOR_HOST         host:port of the Firestore emulator
+ *   SEARCH_INDEX_MUNICIPAL          only index reports for this municipality
+ *   SEARCH_INDEX_INTERVAL_MINUTES   keep running and reindex on this interval
+ *   SEARCH_INDEX_UID                admin staff account to sign in as; security rules only
+ *                                   let admins write the searchIndex collection
+ *   GOOGLE_APPLICATION_CREDENTIALS  service account key used to sign in as SEARCH_INDEX_UID
+ */
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { FirestoreReportRepository } from '../src/repositories/reportRepository';
+import { FirestoreSearchIndexRepository } from '../src/repositories/searchIndexRepository';
+import { runSearchIndex } from '../src/jobs/searchIndexer';
+import { signInAsJob } from './jobAuth';
+
+const projectId = process.env.FIREBASE_PROJECT_ID || 'city-fix-62029';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const municipal = process.env.SEARCH_INDEX_MUNICIPAL || undefined;
+const intervalMinutes = Number(process.env.SEARCH_INDEX_INTERVAL_MINUTES || 0);
+const indexUid = process.env.SEARCH_INDEX_UID;
+
+const app = initializeApp({ projectId });
+const db = getFirestore(app);
+
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+const reportRepository = new FirestoreReportRepository(db);
+const searchIndexRepository = new FirestoreSearchIndexRepository(db);
+
+const reindex = async () => {
+  const startedAt = new Date();
+  const result = await runSearchIndex(reportRepository, searchIndexRepository, { municipal });
+  console.log(`[${startedAt.toISOString()}] Search index: scanned ${result.scanned}, ` +
+    `indexed ${result.indexed}, failed ${result.failed.length}`);
+  return result;
+};
+
+const main = async () => {
+  if (indexUid) {
+    await signInAsJob(app, indexUid);
+  }
+
+  if (intervalMinutes > 0) {
+    await reindex();
+    setInterval(() => {
+      reindex().catch(error => console.error('Search indexing failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    return;
+  }
+
+  const result = await reindex();
+  process.exit(result.failed.length > 0 ? 1 : 0);
+};
+
+main().catch(error => {
+  console.error('Search indexing failed:', error);
+  process.exit(1);
+});
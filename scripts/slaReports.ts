@@ -0,0 +1,104 @@
+/**
+ * Emails scheduled SLA compliance reports to subscribed staff from Node.
+ *
+ *   SLA_REPORT_TRANSPORT=file FIRESTORE_EMULATOR_HOST=localhost:8080 npm run sla:report
+ *
+ * Weekly reports cover the last Monday to Sunday and monthly ones the last calendar
+ * month, in this machine's time zone. Each is sent once per recipient, so the job
+ * can run on an interval; reports go out on the first run after a period ends.
+ *
+ * Environment (see jobAuth.ts for how the job signs in):
+ *   FIREBASE_PROJECT_ID             project to connect to (default: city-fix-62029)
+ *   FIRESTORE_EMULATOR_HOST         host:port of the Firestore emulator
+ *   SLA_REPORT_INTERVAL_MINUTES     keep running and check for due reports on this interval
+ *   SLA_REPORT_FREQUENCIES          only send these, e.g. "monthly" (default: weekly,monthly)
+ *   SLA_REPORT_UID                  admin staff account to sign in as; security rules only
+ *                                   let admins read staff settings and record deliveries
+ *   GOOGLE_APPLICATION_CREDENTIALS  service account key used to sign in as SLA_REPORT_UID
+ *   SLA_REPORT_TRANSPORT            smtp, or file to write .eml files instead (default: smtp)
+ *   SLA_REPORT_FROM                 sender, e.g. "CityFix <reports@example.org>"
+ *   SLA_REPORT_OUTBOX               directory for the file transport (default: ./outbox)
+ *   SMTP_HOST, SMTP_PORT            mail server (port default: 587, or 465 when secure)
+ *   SMTP_SECURE                     "true" for TLS from the start rather than STARTTLS
+ *   SMTP_USER, SMTP_PASSWORD        credentials, when the server needs them
+ */
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { FirestoreReportRepository } from '../src/repositories/reportRepository';
+import { FirestoreSlaPolicyRepository } from '../src/repositories/slaPolicyRepository';
+import { FirestoreSlaCalendarRepository } from '../src/repositories/slaCalendarRepository';
+import { FirestoreSlaReportRepository } from '../src/repositories/slaReportRepository';
+import { runSlaReports } from '../src/jobs/slaReporter';
+import { SLA_REPORT_FREQUENCIES } from '../src/utils/slaReports';
+import { signInAsJob } from './jobAuth';
+import { createFileTransport, createSmtpTransport } from './mailTransports';
+
+const projectId = process.env.FIREBASE_PROJECT_ID || 'city-fix-62029';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const intervalMinutes = Number(process.env.SLA_REPORT_INTERVAL_MINUTES || 0);
+const frequencies = SLA_REPORT_FREQUENCIES.filter(frequency =>
+  (process.env.SLA_REPORT_FREQUENCIES || SLA_REPORT_FREQUENCIES.join(',')).split(',').map(f => f.trim()).includes(frequency));
+const reportUid = process.env.SLA_REPORT_UID;
+const from = process.env.SLA_REPORT_FROM || 'CityFix <no-reply@localhost>';
+const smtpSecure = process.env.SMTP_SECURE === 'true';
+
+const transport = process.env.SLA_REPORT_TRANSPORT === 'file'
+  ? createFileTransport(process.env.SLA_REPORT_OUTBOX || 'outbox', from)
+  : createSmtpTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || (smtpSecure ? 465 : 587)),
+    secure: smtpSecure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD,
+    from
+  });
+
+const app = initializeApp({ projectId });
+const db = getFirestore(app);
+
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+const reportRepository = new FirestoreReportRepository(db);
+const slaReportRepository = new FirestoreSlaReportRepository(db);
+const policyRepository = new FirestoreSlaPolicyRepository(db);
+const calendarRepository = new FirestoreSlaCalendarRepository(db);
+
+const sendReports = async () => {
+  const startedAt = new Date();
+  // Reload policies and calendars every run so edits on the SLA Policies page are picked up
+  const policies = await policyRepository.list();
+  const calendars = await calendarRepository.list();
+  const result = await runSlaReports(reportRepository, slaReportRepository, transport, startedAt, {
+    policies,
+    calendars,
+    frequencies
+  });
+  console.log(`[${startedAt.toISOString()}] SLA reports: ${result.recipients} recipients, ` +
+    `sent ${result.sent.length}, already sent ${result.skipped}, failed ${result.failed.length}`);
+  return result;
+};
+
+const main = async () => {
+  if (reportUid) {
+    await signInAsJob(app, reportUid);
+  }
+
+  if (intervalMinutes > 0) {
+    await sendReports();
+    setInterval(() => {
+      sendReports().catch(error => console.error('SLA reports failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    return;
+  }
+
+  const result = await sendReports();
+  process.exit(result.failed.length > 0 ? 1 : 0);
+};
+
+main().catch(error => {
+  console.error('SLA reports failed:', error);
+  process.exit(1);
+});
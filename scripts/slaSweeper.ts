@@ -0,0 +1,85 @@
+/**
+ * Runs the SLA sweeper against Firestore from Node.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run sla:sweep
+ *
+ * Environment (see jobAuth.ts for how the job signs in):
+ *   FIREBASE_PROJECT_ID             project to connect to (default: city-fix-62029)
+ *   FIRESTORE_EMULATOR_HOST         host:port of the Firestore emulator
+ *   SLA_SWEEP_MUNICIPAL             only sweep reports for this municipality
+ *   SLA_SWEEP_INTERVAL_MINUTES      keep running and sweep on this interval
+ *   SLA_SWEEP_UID                   admin staff account to sign in as; security rules only
+ *                                   let admins update reports outside their municipality
+ *   GOOGLE_APPLICATION_CREDENTIALS  service account key used to sign in as SLA_SWEEP_UID
+ */
+import { initializeApp } from 'firebase/app';
+import { collection, connectFirestoreEmulator, getDocs, getFirestore } from 'firebase/firestore';
+import { FirestoreReportRepository } from '../src/repositories/reportRepository';
+import { FirestoreSlaPolicyRepository } from '../src/repositories/slaPolicyRepository';
+import { FirestoreSlaCalendarRepository } from '../src/repositories/slaCalendarRepository';
+import { runSlaSweep } from '../src/jobs/slaSweeper';
+import { Severity } from '../src/types/report';
+import { signInAsJob } from './jobAuth';
+
+const projectId = process.env.FIREBASE_PROJECT_ID || 'city-fix-62029';
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const municipal = process.env.SLA_SWEEP_MUNICIPAL || undefined;
+const intervalMinutes = Number(process.env.SLA_SWEEP_INTERVAL_MINUTES || 0);
+const sweepUid = process.env.SLA_SWEEP_UID;
+
+const app = initializeApp({ projectId });
+const db = getFirestore(app);
+
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+const repository = new FirestoreReportRepository(db);
+const policyRepository = new FirestoreSlaPolicyRepository(db);
+const calendarRepository = new FirestoreSlaCalendarRepository(db);
+
+// Incident type severities keyed by id and lower-cased name, as the browser looks them up
+const loadTypeSeverities = async (): Promise<Record<string, Severity>> => {
+  const severities: Record<string, Severity> = {};
+  (await getDocs(collection(db, 'incidentTypes'))).forEach(d => {
+    const { name, severity } = d.data();
+    severities[d.id] = severity || 'Medium';
+    if (name) severities[String(name).toLowerCase()] = severity || 'Medium';
+  });
+  return severities;
+};
+
+const sweep = async () => {
+  const startedAt = new Date();
+  // Reload policies and calendars every run so edits on the SLA Policies page are picked up
+  const policies = await policyRepository.list(municipal);
+  const calendars = await calendarRepository.list();
+  const typeSeverities = await loadTypeSeverities();
+  const result = await runSlaSweep(repository, startedAt, { municipal, policies, calendars, typeSeverities });
+  console.log(`[${startedAt.toISOString()}] SLA sweep: scanned ${result.scanned}, updated ${result.updated}, ` +
+    `overdue ${result.markedOverdue.length}, cleared ${result.cleared.length}, failed ${result.failed.length}`);
+  return result;
+};
+
+const main = async () => {
+  if (sweepUid) {
+    await signInAsJob(app, sweepUid);
+  }
+
+  if (intervalMinutes > 0) {
+    await sweep();
+    setInterval(() => {
+      sweep().catch(error => console.error('SLA sweep failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    return;
+  }
+
+  const result = await sweep();
+  process.exit(result.failed.length > 0 ? 1 : 0);
+};
+
+main().catch(error => {
+  console.error('SLA sweep failed:', error);
+  process.exit(1);
+});
@@ -8,55 +8,50 @@ import IncidentChat from './pages/IncidentChat';
 import Notifications from './pages/Notifications';
 import NavBar from './components/NavBar';
 import { useEffect, useState } from 'react';
-import { collection, query, where, onSnapshot, getDocs } from 'firebase/firestore';
-import { db, auth } from './config/firebase';
-import { onAuthStateChanged } from 'firebase/auth';
 import SLA from './pages/SLA';
 import SmartMergeDashboard from './pages/SmartMergeDashboard';
+import SlaPolicies from './pages/SlaPolicies';
+import RequireRole from './components/RequireRole';
+import AuditLog from './pages/AuditLog';
+import { reportRepository } from './repositories';
+import SessionTimeout from './components/SessionTimeout';
+import AccountSecurity from './pages/AccountSecurity';
+import ResetPassword from './pages/ResetPassword';
+import StaffAdmin from './pages/StaffAdmin';
+import ImportIncidents from './pages/ImportIncidents';
+import WorkOrders from './pages/WorkOrders';
+import StaffSessionProvider from './components/StaffSessionProvider';
+import { useStaffSession } from './hooks/useStaffSession';
+import { useMunicipalScope } from './hooks/useMunicipalScope';
+
+// Pages shown without the NavBar or idle timeout
+const PUBLIC_PATHS = ['/', '/reset-password'];
 
 
 function AppRoutes() {
   const [notificationCount, setNotificationCount] = useState<number>(0);
-  const [municipal, setMunicipal] = useState<string>('');
+  const { user } = useStaffSession();
+  const { scope } = useMunicipalScope();
   const location = useLocation();
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      if (!currentUser) {
-        setMunicipal('');
-        setNotificationCount(0);
-        return;
-      }
-      const fetchUserMunicipal = async () => {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          setMunicipal(userDoc.municipal);
-        }
-      };
-      fetchUserMunicipal();
-    });
-    return () => unsubscribe();
-  }, []);
-
-  useEffect(() => {
-    if (!municipal) {
+    if (scope.length === 0) {
       setNotificationCount(0);
       return;
     }
-    const q = query(collection(db, 'reports'), where('reportState', '==', 'New'), where('municipal', '==', municipal));
-    const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      setNotificationCount(querySnapshot.size);
+    const unsubscribe = reportRepository.watch({ reportState: 'New', municipal: scope }, (reports) => {
+      setNotificationCount(reports.length);
     });
     return () => unsubscribe();
-  }, [municipal]);
+  }, [scope]);
 
   return (
     <>
-      {location.pathname !== '/' && <NavBar notificationCount={notificationCount} />}
+      {!PUBLIC_PATHS.includes(location.pathname) && <NavBar notificationCount={notificationCount} />}
+      {user && !PUBLIC_PATHS.includes(location.pathname) && <SessionTimeout />}
       <Routes>
         <Route path="/" element={<MunicipalStaffLogin />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
         <Route path="/dashboard" element={
           <ProtectedRoute>
             <Dashboard />
@@ -67,6 +62,13 @@ function AppRoutes() {
             <Incidents />
           </ProtectedRoute>
         } />
+        <Route path="/incidents/import" element={
+          <ProtectedRoute>
+            <RequireRole permission="incident.import">
+              <ImportIncidents />
+            </RequireRole>
+          </ProtectedRoute>
+        } />
         <Route path="/incidents/:id" element={
           <ProtectedRoute>
             <IncidentDetail />
@@ -77,6 +79,11 @@ function AppRoutes() {
             <IncidentChat />
           </ProtectedRoute>
         } />
+        <Route path="/work-orders" element={
+          <ProtectedRoute>
+            <WorkOrders />
+          </ProtectedRoute>
+        } />
         <Route path="/notifications" element={
           <ProtectedRoute>
             <Notifications />
@@ -87,6 +94,32 @@ function AppRoutes() {
             <SLA />
           </ProtectedRoute>
         } />
+        <Route path="/sla/policies" element={
+          <ProtectedRoute>
+            <RequireRole permission="sla.managePolicies">
+              <SlaPolicies />
+            </RequireRole>
+          </ProtectedRoute>
+        } />
+        <Route path="/audit-log" element={
+          <ProtectedRoute>
+            <RequireRole permission="audit.view">
+              <AuditLog />
+            </RequireRole>
+          </ProtectedRoute>
+        } />
+        <Route path="/staff" element={
+          <ProtectedRoute>
+            <RequireRole permission="staff.manage">
+              <StaffAdmin />
+            </RequireRole>
+          </ProtectedRoute>
+        } />
+        <Route path="/account/security" element={
+          <ProtectedRoute>
+            <AccountSecurity />
+          </ProtectedRoute>
+        } />
         <Route path="/smart-merge" element={
           <ProtectedRoute>
             <SmartMergeDashboard />
@@ -101,7 +134,9 @@ function AppRoutes() {
 function App() {
   return (
     <Router>
-      <AppRoutes />
+      <StaffSessionProvider>
+        <AppRoutes />
+      </StaffSessionProvider>
     </Router>
   );
 }
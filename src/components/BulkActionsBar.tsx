@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { AssignIncidentModal, BulkMergeModal, BulkResultsModal, FlagReportModal } from './IncidentModals';
+import { SeverityChangeModal } from './SeverityChangeModal';
+import ReauthModal from './ReauthModal';
+import { reportRepository } from '../repositories';
+import { Assignment, BulkAction, BulkItemResult, Report, Severity } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { StaffProfile } from '../types/staff';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
+import { getFlagReasonText } from '../utils/incidentUtils';
+import { updateReporterTrustOnFalseReport, updateReporterTrustOnVerification } from '../utils/reporterUtils';
+import { getCrews, listStaff } from '../utils/staffUtils';
+
+interface BulkActionsBarProps {
+  // The selected reports, in the order they appear in the list
+  reports: Report[];
+  slaPolicies: SlaPolicy[];
+  slaCalendars: Record<string, SlaCalendar>;
+  onClearSelection: () => void;
+}
+
+type BulkModal = 'assign' | 'severity' | 'flag' | 'merge' | null;
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.45rem 1rem',
+  borderRadius: 20,
+  border: '1px solid #ddd',
+  background: '#fff',
+  fontSize: 14,
+  fontWeight: 500,
+  cursor: 'pointer'
+};
+
+/**
+ * Actions for the rows selected on the Incidents page. Each action is written in
+ * batches and ends with a per-report summary of what was updated, skipped or failed.
+ */
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({ reports, slaPolicies, slaCalendars, onClearSelection }) => {
+  const { staff, can } = useCurrentStaff();
+  const { withRecentAuth, reauthModalProps } = useRecentAuth();
+  const [modal, setModal] = useState<BulkModal>(null);
+  const [pendingSeverity, setPendingSeverity] = useState<Severity>('High');
+  const [staffMembers, setStaffMembers] = useState<StaffProfile[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<{ title: string; items: BulkItemResult[] } | null>(null);
+
+  const ids = reports.map(report => report.id);
+  const updatedReports = (items: BulkItemResult[]) =>
+    reports.filter(report => items.some(item => item.id === report.id && item.status === 'updated'));
+
+  const finish = (title: string, items: BulkItemResult[]) => {
+    setModal(null);
+    setResults({ title, items });
+    onClearSelection();
+  };
+
+  const runBulkUpdate = async (title: string, action: BulkAction): Promise<BulkItemResult[] | null> => {
+    setSubmitting(true);
+    try {
+      const items = await reportRepository.bulkUpdate(ids, action);
+      finish(title, items);
+      return items;
+    } catch (error) {
+      console.error(`Error running bulk action "${title}":`, error);
+      alert(`${title} failed. Please try again.`);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Offer the staff of every municipality in the selection
+  const openAssign = async () => {
+    const municipalities = Array.from(new Set(reports.map(report => report.municipal)));
+    const lists = await Promise.all(municipalities.map(m => listStaff(m)));
+    const byEmail = new Map(lists.flat().map(member => [member.email, member]));
+    setStaffMembers(Array.from(byEmail.values()).sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email)));
+    setModal('assign');
+  };
+
+  const handleAssign = async (assignment: Assignment, note: string) => {
+    await runBulkUpdate('Bulk Assign', { type: 'assign', assignment, assignedBy: staff?.email || '', note });
+  };
+
+  const handleSeverity = async () => {
+    const items = await runBulkUpdate(`Change Severity to ${pendingSeverity}`, { type: 'severity', severity: pendingSeverity });
+    if (!items) return;
+    await Promise.all(updatedReports(items).map(report => logStaffAction(
+      AuditEventType.SEVERITY_CHANGE,
+      report.id,
+      `Severity changed from ${report.severity || 'unset'} to ${pendingSeverity} (bulk)`
+    )));
+  };
+
+  const handleComplete = async () => {
+    if (!window.confirm(`Mark ${reports.length} incident${reports.length !== 1 ? 's' : ''} as resolved?`)) return;
+    const items = await runBulkUpdate('Bulk Resolve', { type: 'complete' });
+    if (!items) return;
+    for (const report of updatedReports(items)) {
+      await logStaffAction(AuditEventType.REPORT_COMPLETE, report.id, 'Resolved (bulk)');
+      // Completed reports count towards the reporter's trust level
+      if (!report.isAnonymous && report.reporterEmail) {
+        await updateReporterTrustOnVerification(report.reporterEmail).catch(error => {
+          console.error('Error updating reporter trust level:', error);
+        });
+      }
+    }
+  };
+
+  const handleFlag = async (reason: string, notes: string) => {
+    const items = await runBulkUpdate('Bulk Flag', { type: 'flag', reason, notes });
+    if (!items) return;
+    for (const report of updatedReports(items)) {
+      await logStaffAction(AuditEventType.REPORT_FLAG, report.id, `${getFlagReasonText(reason)}${notes ? `: ${notes}` : ''} (bulk)`);
+      if (reason === 'false_report' && !report.isAnonymous && report.reporterEmail) {
+        await updateReporterTrustOnFalseReport(report.reporterEmail).catch(error => {
+          console.error('Error updating reporter trust level:', error);
+        });
+      }
+    }
+  };
+
+  // Merging needs a recent sign-in, like merges from the incident page
+  const handleMerge = async (primaryId: string) => {
+    await withRecentAuth(async () => {
+      setSubmitting(true);
+      try {
+        const items = await reportRepository.bulkMerge(primaryId, ids);
+        const merged = items.filter(item => item.status === 'updated').map(item => `#${item.id}`);
+        if (merged.length > 0) {
+          await logStaffAction(AuditEventType.REPORT_MERGE, primaryId, `Merged ${merged.join(', ')} into #${primaryId} (bulk)`);
+        }
+        finish(`Merge into #${primaryId}`, items);
+      } catch (error) {
+        console.error('Error merging reports:', error);
+        alert(error instanceof Error ? error.message : 'Failed to merge reports.');
+      }
+      setSubmitting(false);
+    });
+  };
+
+  return (
+    <>
+      {reports.length > 0 && (
+        <div style={{
+          display: 'flex',
+          gap: 10,
+          alignItems: 'center',
+          flexWrap: 'wrap',
+          background: '#e3f2fd',
+          borderRadius: 12,
+          padding: '0.7rem 1rem',
+          marginBottom: 16
+        }}>
+          <span style={{ fontWeight: 600, marginRight: 8 }}>{reports.length} selected</span>
+          {can('incident.assign') && (
+            <button onClick={openAssign} disabled={submitting} style={buttonStyle}>Assign</button>
+          )}
+          {can('incident.changeSeverity') && (
+            <select
+              value=""
+              disabled={submitting}
+              onChange={e => {
+                setPendingSeverity(e.target.value as Severity);
+                setModal('severity');
+              }}
+              style={{ ...buttonStyle, paddingRight: '0.6rem' }}
+            >
+              <option value="" disabled>Change severity</option>
+              <option value="Critical">Critical</option>
+              <option value="High">High</option>
+              <option value="Medium">Medium</option>
+              <option value="Low">Low</option>
+            </select>
+          )}
+          {can('incident.update') && (
+            <button onClick={handleComplete} disabled={submitting} style={buttonStyle}>Mark Resolved</button>
+          )}
+          {can('incident.flag') && (
+            <button onClick={() => setModal('flag')} disabled={submitting} style={buttonStyle}>Flag</button>
+          )}
+          {can('incident.merge') && reports.length > 1 && (
+            <button onClick={() => setModal('merge')} disabled={submitting} style={buttonStyle}>Merge</button>
+          )}
+          <div style={{ flex: 1 }} />
+          <button onClick={onClearSelection} style={{ ...buttonStyle, border: 'none', background: 'none', color: '#1976d2' }}>
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      <AssignIncidentModal
+        isOpen={modal === 'assign'}
+        staff={staffMembers}
+        crews={getCrews(staffMembers)}
+        current={{}}
+        onClose={() => setModal(null)}
+        onConfirm={handleAssign}
+        isSubmitting={submitting}
+      />
+      <SeverityChangeModal
+        isOpen={modal === 'severity'}
+        currentSeverity=""
+        newSeverity={pendingSeverity}
+        incident={null}
+        incidents={reports}
+        slaPolicies={slaPolicies}
+        slaCalendars={slaCalendars}
+        onClose={() => setModal(null)}
+        onConfirm={handleSeverity}
+      />
+      <FlagReportModal
+        isOpen={modal === 'flag'}
+        onClose={() => setModal(null)}
+        onConfirm={handleFlag}
+        isSubmitting={submitting}
+      />
+      <BulkMergeModal
+        isOpen={modal === 'merge'}
+        reports={reports}
+        onClose={() => setModal(null)}
+        onConfirm={handleMerge}
+        isSubmitting={submitting}
+      />
+      <BulkResultsModal title={results?.title || ''} results={results?.items || null} onClose={() => setResults(null)} />
+      <ReauthModal {...reauthModalProps} />
+    </>
+  );
+};
+
+export default BulkActionsBar;
@@ -1,20 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, where, doc, updateDoc, arrayUnion } from 'firebase/firestore';
-import { db } from '../config/firebase';
-import { calculateDistance, checkDescriptionSimilarity, formatDate } from '../utils/incidentUtils';
+import { calculateDistance, checkDescriptionSimilarity, formatDate, toDate } from '../utils/incidentUtils';
 import { useNavigate } from 'react-router-dom';
+import { reportRepository } from '../repositories';
+import { Report as StoredReport } from '../types/report';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import ReauthModal from './ReauthModal';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
 
-interface Report {
-    id: string;
-    latitude: number;
-    longitude: number;
-    incidentType: string;
-    description: string;
-    timestamp: any;
-    reportState: string;
-    municipal: string;
-    [key: string]: any;
-}
+// Only reports with coordinates take part in duplicate detection
+type Report = StoredReport & { latitude: number; longitude: number };
 
 interface DuplicateGroup {
     primary: Report;
@@ -28,6 +23,9 @@ const DuplicateDetection: React.FC = () => {
     const [processing, setProcessing] = useState(false);
     const [selectedDuplicates, setSelectedDuplicates] = useState<Record<string, Set<string>>>({});
     const navigate = useNavigate();
+    const { can } = useCurrentStaff();
+    const canMerge = can('incident.merge');
+    const { withRecentAuth, reauthModalProps } = useRecentAuth();
 
     useEffect(() => {
         fetchAndAnalyzeReports();
@@ -37,19 +35,12 @@ const DuplicateDetection: React.FC = () => {
         setLoading(true);
         try {
             // Fetch all active reports including Overdue
-            const q = query(
-                collection(db, 'reports'),
-                where('reportState', 'in', ['New', 'In Progress', 'Overdue'])
-            );
-
-            const querySnapshot = await getDocs(q);
-            const reports: Report[] = [];
-            querySnapshot.forEach(doc => {
-                const data = doc.data();
-                if (data.latitude && data.longitude) {
-                    reports.push({ id: doc.id, ...data } as Report);
-                }
+            const activeReports = await reportRepository.list({
+                reportState: ['New', 'In Progress', 'Paused', 'Overdue']
             });
+            const reports = activeReports.filter(
+                (r): r is Report => !!r.latitude && !!r.longitude
+            );
 
             // Analyze for duplicates
             const detectedGroups: DuplicateGroup[] = [];
@@ -57,8 +48,8 @@ const DuplicateDetection: React.FC = () => {
 
             // Sort by timestamp (oldest first as primary)
             reports.sort((a, b) => {
-                const timeA = a.timestamp?.seconds || 0;
-                const timeB = b.timestamp?.seconds || 0;
+                const timeA = toDate(a.timestamp)?.getTime() || 0;
+                const timeB = toDate(b.timestamp)?.getTime() || 0;
                 return timeA - timeB;
             });
 
@@ -132,47 +123,31 @@ const DuplicateDetection: React.FC = () => {
 
     const handleMergeGroup = async (group: DuplicateGroup) => {
         const selectedIds = selectedDuplicates[group.primary.id];
-        if (!selectedIds || selectedIds.size === 0) return;
+        if (!selectedIds || selectedIds.size === 0 || !canMerge) return;
 
         const reportsToMerge = group.duplicates.filter(d => selectedIds.has(d.id));
 
         if (!window.confirm(`Merge ${reportsToMerge.length} reports into ${group.primary.id}?`)) return;
 
-        setProcessing(true);
-        try {
-            const primaryRef = doc(db, 'reports', group.primary.id);
-
-            // 1. Update Primary Report
-            const mergedInfo = reportsToMerge.map(d => ({
-                id: d.id,
-                timestamp: d.timestamp,
-                mergedAt: new Date()
-            }));
-
-            await updateDoc(primaryRef, {
-                mergedReports: arrayUnion(...mergedInfo),
-                description: group.primary.description +
-                    reportsToMerge.map(d => `\n\n--- Merged from #${d.id.slice(-6)} ---\n${d.description}`).join('')
-            });
-
-            // 2. Update Duplicate Reports
-            for (const duplicate of reportsToMerge) {
-                const dupRef = doc(db, 'reports', duplicate.id);
-                await updateDoc(dupRef, {
-                    reportState: 'Merged',
-                    mergedInto: group.primary.id,
-                    mergedAt: new Date()
-                });
+        await withRecentAuth(async () => {
+            setProcessing(true);
+            try {
+                await reportRepository.merge(group.primary.id, reportsToMerge.map(d => d.id));
+                await logStaffAction(
+                    AuditEventType.REPORT_MERGE,
+                    group.primary.id,
+                    `Merged ${reportsToMerge.map(d => `#${d.id}`).join(', ')} into #${group.primary.id}`
+                );
+
+                // Refresh list
+                await fetchAndAnalyzeReports();
+                alert("Merge successful!");
+            } catch (error) {
+                console.error("Error merging group:", error);
+                alert("Failed to merge reports.");
             }
-
-            // Refresh list
-            await fetchAndAnalyzeReports();
-            alert("Merge successful!");
-        } catch (error) {
-            console.error("Error merging group:", error);
-            alert("Failed to merge reports.");
-        }
-        setProcessing(false);
+            setProcessing(false);
+        });
     };
 
     if (loading) return <div style={{ padding: 20 }}>Scanning for duplicates...</div>;
@@ -212,15 +187,16 @@ const DuplicateDetection: React.FC = () => {
                                         <span style={{ marginLeft: 12, fontSize: 14, color: '#555' }}>{group.primary.incidentType} • {group.primary.municipal}</span>
                                     </div>
                                     <button
-                                        disabled={processing || selectedCount === 0}
+                                        disabled={processing || selectedCount === 0 || !canMerge}
                                         onClick={() => handleMergeGroup(group)}
+                                        title={canMerge ? undefined : 'Your role does not allow merging reports'}
                                         style={{
                                             padding: '6px 16px',
-                                            background: processing || selectedCount === 0 ? '#ccc' : '#1976d2',
+                                            background: processing || selectedCount === 0 || !canMerge ? '#ccc' : '#1976d2',
                                             color: 'white',
                                             border: 'none',
                                             borderRadius: 4,
-                                            cursor: processing || selectedCount === 0 ? 'not-allowed' : 'pointer',
+                                            cursor: processing || selectedCount === 0 || !canMerge ? 'not-allowed' : 'pointer',
                                             fontWeight: 600
                                         }}
                                     >
@@ -288,6 +264,7 @@ const DuplicateDetection: React.FC = () => {
                     })}
                 </div>
             )}
+            <ReauthModal {...reauthModalProps} />
         </div>
     );
 };
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { ReportFilter, ReportSort } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exportWriters';
+import { exportIncidents } from '../utils/incidentExport';
+
+interface ExportMenuProps {
+  // Null while the filter is still being worked out
+  filter: ReportFilter | null;
+  sort?: ReportSort;
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Downloads the reports matching the current filter as CSV, XLSX or GeoJSON,
+ * showing how many have been written while a large export runs.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ filter, sort = 'newest', policies, calendars, style }) => {
+  const [exported, setExported] = useState<number | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!filter) return;
+    setExported(0);
+    try {
+      const count = await exportIncidents({ format, filter, sort, policies, calendars, onProgress: setExported });
+      if (count === 0) alert('No incidents match the current filters.');
+    } catch (error) {
+      console.error('Error exporting incidents:', error);
+      alert('Export failed. Please try again.');
+    } finally {
+      setExported(null);
+    }
+  };
+
+  return (
+    <select
+      value=""
+      disabled={!filter || exported !== null}
+      onChange={e => handleExport(e.target.value as ExportFormat)}
+      style={style}
+    >
+      <option value="" disabled>{exported !== null ? `Exporting… ${exported}` : 'Export'}</option>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+        <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+      ))}
+    </select>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { searchIndexRepository } from '../repositories';
+import { SearchResult } from '../types/searchIndex';
+import { toDate } from '../utils/incidentUtils';
+import { isEmptySearchQuery, parseSearchQuery } from '../utils/searchIndex';
+
+const MAX_RESULTS = 8;
+
+// Wait for a pause in typing before querying the index
+const SEARCH_DEBOUNCE_MS = 300;
+
+const hintStyle: React.CSSProperties = { padding: '0.8rem 1rem', color: '#888', fontSize: 13 };
+
+/**
+ * NavBar search over report descriptions, locations and chat, backed by the
+ * searchIndex collection. Reports appear once the search indexer has run.
+ */
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const { scope } = useMunicipalScope();
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const q = parseSearchQuery(input);
+    if (isEmptySearchQuery(q) || (Array.isArray(scope) ? scope.length === 0 : !scope)) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchIndexRepository.search(q, scope, MAX_RESULTS);
+        if (cancelled) return;
+        setResults(found);
+        setError('');
+      } catch (err) {
+        console.error('Error searching incidents:', err);
+        if (cancelled) return;
+        setResults([]);
+        setError('Search is unavailable right now.');
+      }
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, scope]);
+
+  const openResult = (reportId: string) => {
+    setOpen(false);
+    setInput('');
+    navigate(`/incidents/${reportId}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') setOpen(false);
+    if (e.key === 'Enter' && results.length > 0) openResult(results[0].document.reportId);
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <input
+        type="search"
+        placeholder="Search incidents..."
+        aria-label="Search incidents"
+        value={input}
+        onChange={e => {
+          setInput(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a result lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        style={{ padding: '0.4rem 0.8rem', borderRadius: 8, border: '1px solid #ddd', fontSize: '0.95rem', width: 240 }}
+      />
+      {open && (
+        <div style={{
+          position: 'absolute',
+          top: 'calc(100% + 6px)',
+          right: 0,
+          width: 420,
+          maxHeight: 480,
+          overflowY: 'auto',
+          background: '#fff',
+          borderRadius: 12,
+          boxShadow: '0 4px 24px rgba(0,0,0,0.12)',
+          zIndex: 100
+        }}>
+          {!input.trim() ? (
+            <div style={hintStyle}>
+              Search descriptions, locations and chat. Use "quotes" for a phrase,
+              location:ampang, and from:/to: with a date (2026-09-01), a month (2026-09) or days back (30d).
+            </div>
+          ) : loading ? (
+            <div style={hintStyle}>Searching...</div>
+          ) : error ? (
+            <div style={{ ...hintStyle, color: '#e53935' }}>{error}</div>
+          ) : results.length === 0 ? (
+            <div style={hintStyle}>No matching incidents.</div>
+          ) : results.map(({ document, snippet }) => (
+            <div
+              key={document.reportId}
+              role="link"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => openResult(document.reportId)}
+              style={{ padding: '0.7rem 1rem', borderTop: '1px solid #f0f0f0', cursor: 'pointer' }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: 14 }}>
+                <span style={{ fontWeight: 600 }}>{document.incidentType || 'Incident'}</span>
+                <span style={{ color: '#888', whiteSpace: 'nowrap' }}>
+                  {document.reportState} · {toDate(document.timestamp)?.toLocaleDateString() || ''}
+                </span>
+              </div>
+              <div style={{ color: '#555', fontSize: 13 }}>{document.location.split('\n')[0] || '-'}</div>
+              {snippet && <div style={{ color: '#888', fontSize: 13, marginTop: 2 }}>{snippet}</div>}
+              <div style={{ color: '#1976d2', fontSize: 12, marginTop: 2 }}>#{document.reportId}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
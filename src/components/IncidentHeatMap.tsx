@@ -1,6 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { collection, query, getDocs, where } from 'firebase/firestore';
-import { db } from '../config/firebase';
+import { reportRepository } from '../repositories';
 
 // Note: You need to include the Google Maps script in your index.html
 // <script src="https://maps.googleapis.com/maps/api/js?key=YOUR_API_KEY&libraries=visualization"></script>
@@ -93,28 +92,18 @@ const IncidentHeatMap: React.FC<IncidentHeatMapProps> = ({
       }
 
       try {
-        const reportsRef = collection(db, 'reports');
-        let q = query(reportsRef);
-
         // Add filters if specified
-        if (incidentType) {
-          q = query(q, where('incidentType', '==', incidentType));
-        }
-
-        // Add time range filter if specified
         const startDate = getDateForRange(timeRange);
-        if (startDate) {
-          q = query(q, where('timestamp', '>=', startDate));
-        }
-
-        const querySnapshot = await getDocs(q);
+        const reportsData = await reportRepository.list({
+          incidentType: incidentType || undefined,
+          since: startDate || undefined
+        });
 
         const incidentsData: Incident[] = [];
-        querySnapshot.forEach(doc => {
-          const data = doc.data();
+        reportsData.forEach(data => {
           if (data.latitude && data.longitude) {
             incidentsData.push({
-              id: doc.id,
+              id: data.id,
               latitude: data.latitude,
               longitude: data.longitude,
               severity: data.severity || 'Low',
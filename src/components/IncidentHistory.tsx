@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { reportRepository } from '../repositories';
+import { ReportEvent } from '../types/reportEvent';
+import { toDate } from '../utils/incidentUtils';
+import { SYSTEM_ACTOR, describeReportEvent } from '../utils/reportEvents';
+
+interface IncidentHistoryProps {
+  incidentId: string;
+}
+
+const getEventIcon = (action: ReportEvent['action']) => {
+  switch (action) {
+    case 'completed':
+      return '✅';
+    case 'merged':
+    case 'merged_into':
+    case 'unmerged':
+      return '🔗';
+    case 'flagged':
+      return '⚠️';
+    case 'paused':
+      return '⏸';
+    case 'resumed':
+      return '▶';
+    case 'assigned':
+      return '👤';
+    default:
+      return '🔄';
+  }
+};
+
+const getEventColor = (action: ReportEvent['action']) => {
+  switch (action) {
+    case 'completed':
+      return '#4caf50';
+    case 'merged':
+    case 'merged_into':
+    case 'unmerged':
+      return '#9c27b0';
+    case 'flagged':
+      return '#f44336';
+    case 'paused':
+    case 'resumed':
+      return '#8e24aa';
+    case 'sla_updated':
+    case 'sla_overdue':
+    case 'sla_recalculated':
+      return '#ff9800';
+    default:
+      return '#2196f3';
+  }
+};
+
+// Activity log for an incident, read from its events subcollection (newest first)
+const IncidentHistory: React.FC<IncidentHistoryProps> = ({ incidentId }) => {
+  const [events, setEvents] = useState<ReportEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    const unsubscribe = reportRepository.watchEvents(incidentId, (latest) => {
+      setEvents(latest.slice().reverse());
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [incidentId]);
+
+  if (loading) {
+    return <div style={{ padding: 16, textAlign: 'center' }}>Loading history...</div>;
+  }
+
+  return (
+    <div style={{ padding: '8px 0' }}>
+      <h3 style={{ margin: '8px 0 16px', fontSize: 18 }}>History</h3>
+      {events.length === 0 ? (
+        <div style={{ color: '#666', fontSize: 15 }}>No changes have been recorded for this incident yet.</div>
+      ) : (
+        <div style={{ position: 'relative' }}>
+          {/* Timeline line */}
+          <div style={{
+            position: 'absolute',
+            left: 16,
+            top: 0,
+            bottom: 0,
+            width: 2,
+            background: '#e0e0e0',
+            zIndex: 1
+          }}></div>
+
+          {events.map((event) => (
+            <div key={event.id} style={{ position: 'relative', marginBottom: 16, paddingLeft: 50 }}>
+              {/* Timeline node */}
+              <div style={{
+                position: 'absolute',
+                left: 6,
+                top: 2,
+                width: 22,
+                height: 22,
+                borderRadius: '50%',
+                background: getEventColor(event.action),
+                color: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: 12,
+                zIndex: 2,
+                border: '2px solid white'
+              }}>
+                {getEventIcon(event.action)}
+              </div>
+
+              <div style={{ borderRadius: 8, padding: '10px 14px', background: '#f5f5f5' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 8 }}>
+                  <div style={{ fontWeight: 600, fontSize: 15 }}>{describeReportEvent(event)}</div>
+                  <div style={{ fontSize: 13, color: '#666', whiteSpace: 'nowrap' }}>
+                    {toDate(event.at)?.toLocaleString() || ''}
+                  </div>
+                </div>
+                {event.reason && (
+                  <div style={{ fontSize: 14, marginTop: 4, color: '#555' }}>{event.reason}</div>
+                )}
+                <div style={{ fontSize: 13, marginTop: 4, color: '#888' }}>
+                  {event.actor === SYSTEM_ACTOR ? 'Automatic (SLA sweeper)' : `by ${event.actor}`}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentHistory;
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
-import { formatDate } from '../utils/incidentUtils';
+import React, { useEffect, useState } from 'react';
+import { formatDate, toDate } from '../utils/incidentUtils';
+import { PAUSE_REASONS, getPauseReasonText } from '../utils/slaPause';
+import { Assignment, BulkItemResult, PauseReason, Report } from '../types/report';
+import { StaffProfile } from '../types/staff';
 
 // Modal component for merge confirmation
 interface MergeModalProps {
@@ -220,4 +223,481 @@ export const FlagReportModal: React.FC<FlagReportModalProps> = ({ isOpen, onClos
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
+
+// Pause SLA Modal
+interface PauseSlaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: PauseReason, note: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export const PauseSlaModal: React.FC<PauseSlaModalProps> = ({ isOpen, onClose, onConfirm, isSubmitting }) => {
+  const [pauseReason, setPauseReason] = useState<PauseReason>('waiting_on_reporter');
+  const [pauseNote, setPauseNote] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(pauseReason, pauseNote);
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: 'white',
+        borderRadius: 8,
+        padding: 24,
+        width: '90%',
+        maxWidth: 500
+      }}>
+        <h3 style={{ marginTop: 0 }}>Pause SLA Clock</h3>
+        <p style={{ color: '#666' }}>
+          Time spent paused does not count towards the deadline. Resume the clock once the blocker is cleared.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+              Waiting On:
+            </label>
+            <select
+              value={pauseReason}
+              onChange={(e) => setPauseReason(e.target.value as PauseReason)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                fontSize: 16
+              }}
+            >
+              {PAUSE_REASONS.map(reason => (
+                <option key={reason} value={reason}>{getPauseReasonText(reason)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+              Details:
+            </label>
+            <textarea
+              value={pauseNote}
+              onChange={(e) => setPauseNote(e.target.value)}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                fontSize: 16,
+                minHeight: 100,
+                resize: 'vertical'
+              }}
+              placeholder="e.g. Waiting for the water utility to isolate the main..."
+            />
+          </div>
+
+          <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                background: 'white',
+                color: 'black',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: 4,
+                background: isSubmitting ? '#ccc' : '#8e24aa',
+                color: 'white',
+                fontWeight: 600,
+                cursor: isSubmitting ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSubmitting ? 'Pausing...' : 'Pause SLA'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Modal component for assigning an incident to a staff member and/or crew
+interface AssignIncidentModalProps {
+  isOpen: boolean;
+  staff: StaffProfile[];
+  crews: string[];
+  current: Assignment;
+  onClose: () => void;
+  onConfirm: (assignment: Assignment, note: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export const AssignIncidentModal: React.FC<AssignIncidentModalProps> = ({
+  isOpen, staff, crews, current, onClose, onConfirm, isSubmitting
+}) => {
+  const [assignedTo, setAssignedTo] = useState('');
+  const [team, setTeam] = useState('');
+  const [note, setNote] = useState('');
+
+  // Start from the current assignment each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setAssignedTo(current.assignedTo || '');
+      setTeam(current.team || '');
+      setNote('');
+    }
+  }, [isOpen, current.assignedTo, current.team]);
+
+  if (!isOpen) return null;
+
+  const handleStaffChange = (email: string) => {
+    setAssignedTo(email);
+    // Dispatch to the staff member's own crew unless one was already picked
+    const member = staff.find(s => s.email === email);
+    if (member?.team && !team) setTeam(member.team);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const member = staff.find(s => s.email === assignedTo);
+    onConfirm({
+      assignedTo: assignedTo || undefined,
+      assignedToName: member ? member.name || member.email : current.assignedToName,
+      team: team || undefined
+    }, note);
+  };
+
+  const selectStyle = {
+    width: '100%',
+    padding: '8px 12px',
+    border: '1px solid #ccc',
+    borderRadius: 4,
+    fontSize: 16
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: 'white',
+        borderRadius: 8,
+        padding: 24,
+        width: '90%',
+        maxWidth: 500
+      }}>
+        <h3 style={{ marginTop: 0 }}>Assign Incident</h3>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+              Staff Member:
+            </label>
+            <select value={assignedTo} onChange={(e) => handleStaffChange(e.target.value)} style={selectStyle}>
+              <option value="">Unassigned</option>
+              {/* Keep a previous assignee selectable even if they left the municipality */}
+              {current.assignedTo && !staff.some(s => s.email === current.assignedTo) && (
+                <option value={current.assignedTo}>{current.assignedToName || current.assignedTo}</option>
+              )}
+              {staff.map(member => (
+                <option key={member.id} value={member.email}>
+                  {member.name || member.email}{member.team ? ` (${member.team})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+              Crew:
+            </label>
+            <select value={team} onChange={(e) => setTeam(e.target.value)} style={selectStyle}>
+              <option value="">No crew</option>
+              {current.team && !crews.includes(current.team) && (
+                <option value={current.team}>{current.team}</option>
+              )}
+              {crews.map(crew => (
+                <option key={crew} value={crew}>{crew}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: 16 }}>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+              Dispatch Notes:
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              style={{
+                ...selectStyle,
+                minHeight: 80,
+                resize: 'vertical'
+              }}
+              placeholder="Optional instructions for the crew..."
+            />
+          </div>
+
+          <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                background: 'white',
+                color: 'black',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: 4,
+                background: isSubmitting ? '#ccc' : '#0277bd',
+                color: 'white',
+                fontWeight: 600,
+                cursor: isSubmitting ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSubmitting ? 'Assigning...' : 'Assign'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Modal component for merging several selected reports into one of them
+interface BulkMergeModalProps {
+  isOpen: boolean;
+  reports: Report[];
+  onClose: () => void;
+  onConfirm: (primaryId: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export const BulkMergeModal: React.FC<BulkMergeModalProps> = ({ isOpen, reports, onClose, onConfirm, isSubmitting }) => {
+  const [chosenId, setPrimaryId] = useState('');
+
+  if (!isOpen) return null;
+
+  // Default to the earliest report, which the others most likely duplicate
+  const earliest = [...reports].sort((a, b) =>
+    (toDate(a.timestamp)?.getTime() ?? 0) - (toDate(b.timestamp)?.getTime() ?? 0))[0];
+  const primaryId = reports.some(report => report.id === chosenId) ? chosenId : earliest?.id || '';
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: 'white',
+        borderRadius: 8,
+        padding: 24,
+        width: '90%',
+        maxWidth: 560,
+        maxHeight: '80vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginTop: 0 }}>Merge {reports.length} Reports</h3>
+        <p>Choose the primary report. The others will be merged into it:</p>
+
+        {reports.map(report => (
+          <label
+            key={report.id}
+            style={{
+              display: 'flex',
+              gap: 10,
+              padding: 12,
+              marginBottom: 8,
+              borderRadius: 8,
+              background: report.id === primaryId ? '#e1f5fe' : '#f9f9f9',
+              cursor: 'pointer'
+            }}
+          >
+            <input
+              type="radio"
+              name="primary"
+              checked={report.id === primaryId}
+              onChange={() => setPrimaryId(report.id)}
+            />
+            <div>
+              <div style={{ fontWeight: 600 }}>#{report.id} · {report.incidentType}</div>
+              <div>{report.description?.substring(0, 100)}{report.description?.length > 100 ? '...' : ''}</div>
+              <div style={{ fontSize: 14, color: '#666', marginTop: 4 }}>
+                {formatDate(report.timestamp)} · {report.reportState}
+              </div>
+            </div>
+          </label>
+        ))}
+
+        <p style={{ color: '#d32f2f' }}><strong>Warning:</strong> This action cannot be undone.</p>
+
+        <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #ccc',
+              borderRadius: 4,
+              background: 'white',
+              color: 'black',
+              cursor: 'pointer'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(primaryId)}
+            disabled={!primaryId || isSubmitting}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: 4,
+              background: '#d32f2f',
+              color: 'white',
+              fontWeight: 600,
+              cursor: isSubmitting ? 'not-allowed' : 'pointer',
+              opacity: isSubmitting ? 0.7 : 1
+            }}
+          >
+            {isSubmitting ? 'Merging...' : 'Merge Reports'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BULK_RESULT_COLORS: Record<BulkItemResult['status'], string> = {
+  updated: '#43a047',
+  skipped: '#888',
+  failed: '#e53935'
+};
+
+// Per-report outcome of a bulk action
+interface BulkResultsModalProps {
+  title: string;
+  results: BulkItemResult[] | null;
+  onClose: () => void;
+}
+
+export const BulkResultsModal: React.FC<BulkResultsModalProps> = ({ title, results, onClose }) => {
+  if (!results) return null;
+
+  const count = (status: BulkItemResult['status']) => results.filter(r => r.status === status).length;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: 'white',
+        borderRadius: 8,
+        padding: 24,
+        width: '90%',
+        maxWidth: 560,
+        maxHeight: '80vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ marginTop: 0 }}>{title}</h3>
+        <p>
+          {count('updated')} updated, {count('skipped')} skipped, {count('failed')} failed.
+        </p>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+          <tbody>
+            {results.map(result => (
+              <tr key={result.id} style={{ borderTop: '1px solid #f0f0f0' }}>
+                <td style={{ padding: '6px 4px' }}>#{result.id}</td>
+                <td style={{ color: BULK_RESULT_COLORS[result.status], fontWeight: 600, textTransform: 'capitalize' }}>
+                  {result.status}
+                </td>
+                <td style={{ color: '#555' }}>{result.message || ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: 4,
+              background: '#1976d2',
+              color: 'white',
+              fontWeight: 600,
+              cursor: 'pointer'
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
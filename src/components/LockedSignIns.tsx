@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { loginLockRepository } from '../repositories';
+import { LoginLock } from '../types/loginLock';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
+import { toDate } from '../utils/incidentUtils';
+
+// Accounts and IPs locked out by the staffLogin function, with an unlock button per lock
+const LockedSignIns: React.FC = () => {
+  const [locks, setLocks] = useState<LoginLock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchLocks = async () => {
+      setLoading(true);
+      try {
+        setLocks(await loginLockRepository.listLocked());
+        setError('');
+      } catch (err) {
+        console.error('Error loading locked sign-ins:', err);
+        setError('Failed to load locked sign-ins.');
+      }
+      setLoading(false);
+    };
+    fetchLocks();
+  }, [refreshKey]);
+
+  const handleUnlock = async (lock: LoginLock) => {
+    const label = lock.kind === 'account' ? lock.subject : `IP ${lock.subject}`;
+    if (!window.confirm(`Unlock sign-in for ${label}?`)) return;
+    try {
+      await loginLockRepository.unlock(lock.id);
+      await logStaffAction(AuditEventType.LOGIN_UNLOCK, undefined, `Unlocked sign-in for ${label}`);
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error unlocking sign-in:', err);
+      setError('Failed to unlock sign-in.');
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div style={{ background: '#fff', borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: '1rem 1.25rem', marginBottom: 24 }}>
+      <div style={{ fontWeight: 700, fontSize: 17, marginBottom: 8 }}>Locked Sign-ins</div>
+      {error && <div style={{ color: 'red', marginBottom: 8 }}>{error}</div>}
+      {locks.length === 0 ? (
+        <div style={{ color: '#888', fontSize: 14 }}>No accounts or IP addresses are locked out.</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {locks.map(lock => (
+            <li key={lock.id} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '6px 0', borderTop: '1px solid #f0f0f0', fontSize: 14 }}>
+              <span style={{ flex: 1 }}>
+                <b>{lock.kind === 'account' ? lock.subject : `IP ${lock.subject}`}</b>
+                <span style={{ color: '#666' }}>
+                  {' '}until {toDate(lock.blockedUntil)?.toLocaleString() || '-'} ({lock.lockouts} lockout{lock.lockouts !== 1 ? 's' : ''})
+                </span>
+              </span>
+              <button
+                onClick={() => handleUnlock(lock)}
+                style={{ padding: '4px 12px', borderRadius: 6, border: '1px solid #1976d2', background: '#fff', color: '#1976d2', cursor: 'pointer' }}
+              >
+                Unlock
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LockedSignIns;
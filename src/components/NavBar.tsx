@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
-import { signOut } from 'firebase/auth';
-import { auth } from '../config/firebase';
 import { useNavigate } from 'react-router-dom';
 import newIcon from '../assets/new_icon.png';
+import GlobalSearch from './GlobalSearch';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { ALL_MUNICIPALITIES, useMunicipalScope } from '../hooks/useMunicipalScope';
+import { signOutStaff } from '../utils/session';
 
 interface NavBarProps {
   notificationCount?: number;
@@ -11,10 +13,12 @@ interface NavBarProps {
 const NavBar: React.FC<NavBarProps> = ({ notificationCount }) => {
   const navigate = useNavigate();
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const { can } = useCurrentStaff();
+  const { municipalities, selected, setSelected } = useMunicipalScope();
 
   const handleLogout = async () => {
     try {
-      await signOut(auth);
+      await signOutStaff();
       navigate('/');
     } catch (error) {
       console.error('Logout failed:', error);
@@ -54,6 +58,14 @@ const NavBar: React.FC<NavBarProps> = ({ notificationCount }) => {
             <a href="/dashboard" style={{ color: '#222', textDecoration: 'none' }}>Dashboard</a>
             <a href="/incidents" style={{ color: '#222', textDecoration: 'none' }}>Incidents</a>
             <a href="/sla" style={{ color: '#222', textDecoration: 'none' }}>SLA</a>
+            <a href="/work-orders" style={{ color: '#222', textDecoration: 'none' }}>Work Orders</a>
+            {can('audit.view') && (
+              <a href="/audit-log" style={{ color: '#222', textDecoration: 'none' }}>Audit Log</a>
+            )}
+            {can('staff.manage') && (
+              <a href="/staff" style={{ color: '#222', textDecoration: 'none' }}>Staff</a>
+            )}
+            <a href="/account/security" style={{ color: '#222', textDecoration: 'none' }}>Security</a>
             <div style={{ position: 'relative', display: 'inline-block' }}>
               <a href="/notifications" style={{ color: '#222', textDecoration: 'none' }}>Notifications</a>
               <span style={{ display: 'inline-block', width: 8 }} />
@@ -81,22 +93,36 @@ const NavBar: React.FC<NavBarProps> = ({ notificationCount }) => {
             </div>
           </div>
 
-          {/* Right: Logout Button */}
-          <button
-            style={{
-              background: '#1976d2',
-              color: '#fff',
-              border: 'none',
-              borderRadius: 20,
-              padding: '0.5rem 1.2rem',
-              fontWeight: 600,
-              fontSize: '1rem',
-              cursor: 'pointer'
-            }}
-            onClick={() => setShowLogoutModal(true)}
-          >
-            Logout
-          </button>
+          {/* Right: Search, municipality switcher and Logout Button */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+            <GlobalSearch />
+            {municipalities.length > 1 && (
+              <select
+                value={selected}
+                onChange={e => setSelected(e.target.value)}
+                aria-label="Municipality"
+                style={{ padding: '0.4rem 0.6rem', borderRadius: 8, border: '1px solid #ddd', fontSize: '0.95rem' }}
+              >
+                <option value={ALL_MUNICIPALITIES}>All my municipalities</option>
+                {municipalities.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            )}
+            <button
+              style={{
+                background: '#1976d2',
+                color: '#fff',
+                border: 'none',
+                borderRadius: 20,
+                padding: '0.5rem 1.2rem',
+                fontWeight: 600,
+                fontSize: '1rem',
+                cursor: 'pointer'
+              }}
+              onClick={() => setShowLogoutModal(true)}
+            >
+              Logout
+            </button>
+          </div>
         </div>
       </div>
       {/* Logout Modal */}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { checkPasswordPolicy, getPasswordStrength, PASSWORD_POLICY } from '../utils/passwordPolicy';
+
+interface PasswordChecklistProps {
+  password: string;
+  email?: string;
+}
+
+const STRENGTH_COLORS = ['#d32f2f', '#f57c00', '#fbc02d', '#7cb342', '#2e7d32'];
+
+// Live strength meter and policy checklist under a new password field
+const PasswordChecklist: React.FC<PasswordChecklistProps> = ({ password, email }) => {
+  const rules = checkPasswordPolicy(password, email);
+  const strength = getPasswordStrength(password, email);
+
+  return (
+    <div style={{ marginBottom: '1rem', fontSize: '0.9rem' }}>
+      <div style={{ display: 'flex', gap: 4, marginBottom: 4 }}>
+        {[0, 1, 2, 3].map(i => (
+          <div
+            key={i}
+            style={{
+              flex: 1,
+              height: 6,
+              borderRadius: 3,
+              background: password && i < Math.max(1, strength.score) ? STRENGTH_COLORS[strength.score] : '#e0e0e0'
+            }}
+          />
+        ))}
+      </div>
+      {password && (
+        <div style={{ color: STRENGTH_COLORS[strength.score], fontWeight: 600, marginBottom: 6 }}>{strength.label}</div>
+      )}
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {rules.map(rule => (
+          <li key={rule.id} style={{ color: rule.passed ? '#2e7d32' : '#888' }}>
+            {rule.passed ? '✓' : '○'} {rule.label}
+          </li>
+        ))}
+        <li style={{ color: '#888' }}>○ Not one of your last {PASSWORD_POLICY.historySize} passwords</li>
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordChecklist;
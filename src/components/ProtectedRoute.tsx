@@ -1,29 +1,45 @@
-import React, { useEffect, useState } from 'react';
-import { onAuthStateChanged, User } from 'firebase/auth';
-import { auth } from '../config/firebase';
+import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { needsNewPassword, useStaffSession } from '../hooks/useStaffSession';
+import { signOutStaff } from '../utils/session';
+
+// Shown instead of the page when signed in without a usable staff account
+const SESSION_PROBLEMS: Record<string, string> = {
+  missingProfile: 'No staff profile was found for this account. Contact your administrator.',
+  deactivated: 'This staff account has been deactivated. Contact your administrator.'
+};
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [loading, setLoading] = useState(true);
-  const [, setCurrentUser] = useState<User | null>(null);
+  const { status } = useStaffSession();
   const navigate = useNavigate();
 
+  // The login page shows the new password form to a session that still needs one
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setCurrentUser(user);
-      setLoading(false);
-      if (!user) {
-        navigate('/');
-      }
-    });
-    return () => unsubscribe();
-  }, [navigate]);
+    if (status === 'signedOut' || needsNewPassword(status)) {
+      navigate('/');
+    }
+  }, [status, navigate]);
 
-  if (loading) {
+  if (status === 'loading' || status === 'signedOut' || needsNewPassword(status)) {
     return <div style={{textAlign: 'center', marginTop: '2rem'}}>Loading...</div>;
   }
 
+  if (status !== 'ready') {
+    return (
+      <div style={{ textAlign: 'center', marginTop: '4rem', color: '#555' }}>
+        <h2 style={{ color: '#222' }}>Unable to open this page</h2>
+        <p>{SESSION_PROBLEMS[status]}</p>
+        <button
+          onClick={() => signOutStaff()}
+          style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 20, padding: '0.5rem 1.2rem', fontWeight: 600, cursor: 'pointer' }}
+        >
+          Back to sign in
+        </button>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute; 
\ No newline at end of file
+export default ProtectedRoute;
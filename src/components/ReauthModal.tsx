@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { auth } from '../config/firebase';
+
+interface ReauthModalProps {
+  isOpen: boolean;
+  // Show the authenticator code field as well
+  mfaRequired?: boolean;
+  // Resolves to an error message, or '' when the password was accepted
+  onConfirm: (password: string, code?: string) => Promise<string>;
+  onClose: () => void;
+}
+
+// Password prompt shown before destructive actions; see useRecentAuth
+const ReauthModal: React.FC<ReauthModalProps> = ({ isOpen, mfaRequired, onConfirm, onClose }) => {
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassword('');
+      setCode('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(await onConfirm(password, mfaRequired ? code : undefined));
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1100
+    }}>
+      <div style={{
+        background: 'white',
+        borderRadius: 8,
+        padding: 24,
+        width: '90%',
+        maxWidth: 400
+      }}>
+        <h3 style={{ marginTop: 0 }}>Confirm Your Password</h3>
+        <p style={{ color: '#555' }}>
+          This action needs a recent sign-in. Enter the password for {auth.currentUser?.email || 'your account'} to continue.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            required
+            style={{
+              width: '100%',
+              padding: '8px 12px',
+              border: '1px solid #ccc',
+              borderRadius: 4,
+              fontSize: 16,
+              boxSizing: 'border-box'
+            }}
+          />
+          {mfaRequired && (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="6-digit authentication code"
+              required
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                fontSize: 16,
+                boxSizing: 'border-box',
+                marginTop: 12
+              }}
+            />
+          )}
+          {error && <div style={{ color: '#d32f2f', marginTop: 8 }}>{error}</div>}
+
+          <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                background: 'white',
+                color: 'black',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !password}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: 4,
+                background: isSubmitting || !password ? '#ccc' : '#0277bd',
+                color: 'white',
+                fontWeight: 600,
+                cursor: isSubmitting || !password ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSubmitting ? 'Checking...' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReauthModal;
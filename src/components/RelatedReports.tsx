@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { doc, getDoc, updateDoc, collection, getDocs, arrayUnion } from 'firebase/firestore';
-import { db } from '../config/firebase';
 import { calculateDistance, formatDate, checkDescriptionSimilarity } from '../utils/incidentUtils';
 import { MergeModal } from './IncidentModals';
+import ReauthModal from './ReauthModal';
+import { reportRepository } from '../repositories';
+import { Report } from '../types/report';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
 
 interface RelatedReportProps {
   incidentId: string;
@@ -12,14 +16,23 @@ interface RelatedReportProps {
   incidentType: string;
 }
 
+interface RelatedReport extends Report {
+  distance: number;
+  typeMatches: boolean;
+  descriptionMatches: boolean;
+  formattedDistance: string;
+}
+
 const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, longitude, incidentType }) => {
-  const [relatedReports, setRelatedReports] = useState<any[]>([]);
+  const [relatedReports, setRelatedReports] = useState<RelatedReport[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAllReports, setShowAllReports] = useState(false);
   const [isMerging, setIsMerging] = useState(false);
-  const [selectedReport, setSelectedReport] = useState<any>(null);
-  const [currentReport, setCurrentReport] = useState<any>(null);
+  const [selectedReport, setSelectedReport] = useState<RelatedReport | null>(null);
+  const [currentReport, setCurrentReport] = useState<Report | null>(null);
   const navigate = useNavigate();
+  const { can } = useCurrentStaff();
+  const { withRecentAuth, reauthModalProps } = useRecentAuth();
 
   useEffect(() => {
     const fetchRelatedReports = async () => {
@@ -30,27 +43,19 @@ const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, lo
 
       try {
         // Fetch the current report first
-        const currentDocRef = doc(db, 'reports', incidentId);
-        const currentDocSnap = await getDoc(currentDocRef);
-        if (currentDocSnap.exists()) {
-          setCurrentReport({
-            id: incidentId,
-            ...currentDocSnap.data()
-          });
-        }
+        const current = await reportRepository.get(incidentId);
+        setCurrentReport(current);
 
         // Get the current report's description
-        const currentDescription = currentDocSnap.exists() ? currentDocSnap.data().description : '';
+        const currentDescription = current ? current.description : '';
 
         // Query ALL reports for potential matches
-        const reportsRef = collection(db, 'reports');
-        const querySnapshot = await getDocs(reportsRef);
+        const allReports = await reportRepository.list();
 
-        const reports: any[] = [];
-        querySnapshot.forEach(doc => {
-          const data = doc.data();
+        const reports: RelatedReport[] = [];
+        allReports.forEach(data => {
           // Skip if it's the current incident, doesn't have location data, is merged, or is completed
-          if (doc.id === incidentId || !data.latitude || !data.longitude || data.reportState === 'Merged' || data.reportState === 'Completed') return;
+          if (data.id === incidentId || !data.latitude || !data.longitude || data.reportState === 'Merged' || data.reportState === 'Completed') return;
 
           // Calculate distance
           const distance = calculateDistance(
@@ -70,11 +75,10 @@ const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, lo
           // 1. Within 100 meters AND (types match OR descriptions are similar)
           if (distance <= 100 && (typeMatches || descriptionMatches)) {
             reports.push({
-              id: doc.id,
+              ...data,
               distance,
               typeMatches,
               descriptionMatches,
-              ...data,
               formattedDistance: distance < 1000
                 ? `${Math.round(distance)}m`
                 : `${(distance / 1000).toFixed(1)}km`
@@ -97,72 +101,32 @@ const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, lo
     fetchRelatedReports();
   }, [incidentId, latitude, longitude, incidentType]);
 
-  const handleMergeClick = (e: React.MouseEvent, report: any) => {
+  const handleMergeClick = (e: React.MouseEvent, report: RelatedReport) => {
     e.stopPropagation(); // Prevent navigation when clicking the merge button
     setSelectedReport(report);
     setIsMerging(true);
   };
 
   const confirmMerge = async () => {
-    if (!selectedReport || !currentReport) return;
+    if (!selectedReport || !currentReport || !can('incident.merge')) return;
 
-    try {
-      // Reference to both documents
-      const targetDocRef = doc(db, 'reports', selectedReport.id);
-      const currentDocRef = doc(db, 'reports', incidentId);
+    const targetId = selectedReport.id;
+    setIsMerging(false);
+    await withRecentAuth(async () => {
+      try {
+        // Merge the current report into the selected one
+        await reportRepository.merge(targetId, [incidentId]);
+        await logStaffAction(AuditEventType.REPORT_MERGE, targetId, `Merged #${incidentId} into #${targetId}`);
 
-      // Get current data for both documents
-      const targetDoc = await getDoc(targetDocRef);
-      const currentDoc = await getDoc(currentDocRef);
+        alert("Reports merged successfully! Redirecting to the target report.");
 
-      if (!targetDoc.exists() || !currentDoc.exists()) {
-        alert("One of the reports no longer exists.");
-        setIsMerging(false);
-        return;
+        // Navigate to the target incident
+        navigate(`/incidents/${targetId}`);
+      } catch (error) {
+        console.error("Error merging reports:", error);
+        alert("Failed to merge reports. Please try again.");
       }
-
-      const targetData = targetDoc.data();
-      const currentData = currentDoc.data();
-
-      // Prepare updates for target document
-      const updates: any = {
-        // Add reference to merged report
-        mergedReports: arrayUnion({
-          id: incidentId,
-          timestamp: currentData.timestamp,
-          mergedAt: new Date()
-        }),
-
-        // Combine media URLs (if they exist)
-        mediaUrls: [
-          ...(targetData.mediaUrls || []),
-          ...(currentData.mediaUrls || [])
-        ],
-
-        // Add note about merged report to description
-        description: `${targetData.description || ''}\n\n--- Merged from report #${incidentId} ---\n${currentData.description || ''}`
-      };
-
-      // Update target document with merged data
-      await updateDoc(targetDocRef, updates);
-
-      // Mark current document as merged
-      await updateDoc(currentDocRef, {
-        reportState: 'Merged',
-        mergedInto: selectedReport.id,
-        mergedAt: new Date()
-      });
-
-      alert("Reports merged successfully! Redirecting to the target report.");
-
-      // Navigate to the target incident
-      navigate(`/incidents/${selectedReport.id}`);
-    } catch (error) {
-      console.error("Error merging reports:", error);
-      alert("Failed to merge reports. Please try again.");
-    }
-
-    setIsMerging(false);
+    });
   };
 
   if (loading) return <div>Loading related reports...</div>;
@@ -271,21 +235,24 @@ const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, lo
             <div style={{ fontSize: 12, color: '#999', marginBottom: 4 }}>
               {formatDate(report.timestamp)}
             </div>
-            <button
-              onClick={(e) => handleMergeClick(e, report)}
-              style={{
-                padding: '4px 12px',
-                background: '#ffebee',
-                color: '#d32f2f',
-                border: 'none',
-                borderRadius: 4,
-                fontSize: 12,
-                fontWeight: 600,
-                cursor: 'pointer'
-              }}
-            >
-              Merge
-            </button>
+            {/* Merging is limited to supervisors and admins */}
+            {can('incident.merge') && (
+              <button
+                onClick={(e) => handleMergeClick(e, report)}
+                style={{
+                  padding: '4px 12px',
+                  background: '#ffebee',
+                  color: '#d32f2f',
+                  border: 'none',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  fontWeight: 600,
+                  cursor: 'pointer'
+                }}
+              >
+                Merge
+              </button>
+            )}
           </div>
         </div>
       ))}
@@ -315,6 +282,7 @@ const RelatedReports: React.FC<RelatedReportProps> = ({ incidentId, latitude, lo
         onClose={() => setIsMerging(false)}
         onConfirm={confirmMerge}
       />
+      <ReauthModal {...reauthModalProps} />
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { Permission, StaffRole } from '../types/staff';
+import { getStaffRoleLabel } from '../utils/permissions';
+
+interface RequireRoleProps {
+  children: React.ReactNode;
+  // Allow access if the staff member has this permission...
+  permission?: Permission;
+  // ...or one of these roles
+  roles?: StaffRole[];
+  // Rendered instead of the children when access is denied; defaults to an access denied notice
+  fallback?: React.ReactNode;
+}
+
+const RequireRole: React.FC<RequireRoleProps> = ({ children, permission, roles, fallback }) => {
+  const { staff, loading, can } = useCurrentStaff();
+
+  if (loading) {
+    return fallback === undefined ? <div style={{ textAlign: 'center', marginTop: '2rem' }}>Loading...</div> : null;
+  }
+
+  const allowed = !!staff &&
+    (!permission || can(permission)) &&
+    (!roles || roles.includes(staff.staffRole));
+
+  if (allowed) {
+    return <>{children}</>;
+  }
+
+  if (fallback !== undefined) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <div style={{ textAlign: 'center', marginTop: '4rem', color: '#555' }}>
+      <h2 style={{ color: '#222' }}>Access denied</h2>
+      <p>
+        {staff
+          ? `Your role (${getStaffRoleLabel(staff.staffRole)}) does not have access to this page.`
+          : 'This page is only available to staff accounts.'}
+      </p>
+    </div>
+  );
+};
+
+export default RequireRole;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AuditEventType } from '../utils/auditLogger';
+import { SESSION_TIMEOUT_MS, SESSION_WARNING_MS, signOutStaff } from '../utils/session';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'];
+
+// Shared across tabs so working in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = 'cityfix.lastActivityAt';
+
+// Activity within this long of the last write is not written again
+const ACTIVITY_THROTTLE_MS = 5000;
+
+const getLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+const markActive = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+// Warns before the idle timeout and then signs the user out
+const SessionTimeout: React.FC = () => {
+  const navigate = useNavigate();
+  // Milliseconds left once the warning is showing, otherwise null
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  useEffect(() => {
+    const handleActivity = () => {
+      if (Date.now() - getLastActivity() > ACTIVITY_THROTTLE_MS) markActive();
+    };
+    markActive();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const interval = setInterval(() => {
+      const idleMs = Date.now() - getLastActivity();
+      if (idleMs >= SESSION_TIMEOUT_MS) {
+        clearInterval(interval);
+        const signOutIdle = async () => {
+          try {
+            await signOutStaff(AuditEventType.SESSION_TIMEOUT,
+              `Signed out after ${Math.round(SESSION_TIMEOUT_MS / 60000)} minutes of inactivity`);
+          } catch (error) {
+            console.error('Idle sign-out failed:', error);
+          }
+          navigate('/');
+        };
+        signOutIdle();
+        return;
+      }
+      setRemainingMs(idleMs >= SESSION_TIMEOUT_MS - SESSION_WARNING_MS ? SESSION_TIMEOUT_MS - idleMs : null);
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [navigate]);
+
+  if (remainingMs === null) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1200
+    }}>
+      <div style={{ background: 'white', borderRadius: 8, padding: 24, width: '90%', maxWidth: 400, textAlign: 'center' }}>
+        <h3 style={{ marginTop: 0 }}>Are you still there?</h3>
+        <p style={{ color: '#555' }}>
+          You will be signed out in {Math.ceil(remainingMs / 1000)} seconds because of inactivity.
+        </p>
+        <button
+          onClick={() => {
+            markActive();
+            setRemainingMs(null);
+          }}
+          style={{
+            padding: '8px 16px',
+            border: 'none',
+            borderRadius: 4,
+            background: '#0277bd',
+            color: 'white',
+            fontWeight: 600,
+            cursor: 'pointer'
+          }}
+        >
+          Stay signed in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeout;
@@ -1,5 +1,9 @@
 import React from 'react';
-import { getTimeRemaining, calculateDeadline, normalizeSeverity } from '../utils/incidentUtils';
+import { getTimeRemaining, normalizeSeverity } from '../utils/incidentUtils';
+import { calculateReportDeadline, resolveSlaPolicy, summarizeSeverityChange } from '../utils/slaPolicyUtils';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { Report } from '../types/report';
 
 interface SeverityChangeModalProps {
     isOpen: boolean;
@@ -8,8 +12,106 @@ interface SeverityChangeModalProps {
     incident: any;
     onClose: () => void;
     onConfirm: () => void;
+    slaPolicies?: SlaPolicy[];
+    slaCalendar?: SlaCalendar;
+    // Bulk change: summarise the deadline changes across these reports instead
+    incidents?: Report[];
+    slaCalendars?: Record<string, SlaCalendar>;
 }
 
+// Shared layout for the single and bulk confirmations
+const SeverityModalFrame: React.FC<{
+    onClose: () => void;
+    onConfirm: () => void;
+    children: React.ReactNode;
+}> = ({ onClose, onConfirm, children }) => (
+    <div
+        style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            background: 'rgba(0,0,0,0.5)',
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            zIndex: 1000,
+        }}
+    >
+        <div
+            style={{
+                background: 'white',
+                borderRadius: 8,
+                padding: 24,
+                width: '90%',
+                maxWidth: 500,
+            }}
+        >
+            <h3 style={{ marginTop: 0 }}>Confirm Severity Change</h3>
+            {children}
+            <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+                <button
+                    onClick={onClose}
+                    style={{
+                        padding: '8px 16px',
+                        border: '1px solid #ccc',
+                        borderRadius: 4,
+                        background: 'white',
+                        color: 'black',
+                        cursor: 'pointer',
+                    }}
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={onConfirm}
+                    style={{
+                        padding: '8px 16px',
+                        border: 'none',
+                        borderRadius: 4,
+                        background: '#d32f2f',
+                        color: 'white',
+                        fontWeight: 600,
+                        cursor: 'pointer',
+                    }}
+                >
+                    Confirm
+                </button>
+            </div>
+        </div>
+    </div>
+);
+
+const BulkSeverityPreview: React.FC<{
+    incidents: Report[];
+    newSeverity: 'Low' | 'Medium' | 'High' | 'Critical';
+    slaPolicies: SlaPolicy[];
+    slaCalendars?: Record<string, SlaCalendar>;
+}> = ({ incidents, newSeverity, slaPolicies, slaCalendars }) => {
+    const summary = summarizeSeverityChange(incidents, newSeverity, slaPolicies, slaCalendars);
+    return (
+        <>
+            <p>
+                Change the severity of <strong>{summary.changing}</strong> incident{summary.changing !== 1 ? 's' : ''} to{' '}
+                <strong>{newSeverity}</strong>?
+                {summary.unchanged > 0 && ` ${summary.unchanged} already ${newSeverity} or merged will be skipped.`}
+            </p>
+            <ul style={{ paddingLeft: 20 }}>
+                <li>Deadlines brought forward: {summary.earlier}</li>
+                <li>Deadlines pushed back: {summary.later}</li>
+                <li>Deadlines unchanged: {summary.sameDeadline}</li>
+                <li style={{ color: summary.overdueNow > 0 ? '#d32f2f' : 'inherit' }}>
+                    Overdue straight away: {summary.overdueNow}
+                </li>
+            </ul>
+            {summary.earliestDeadline && (
+                <p>Earliest new deadline: {getTimeRemaining(summary.earliestDeadline, 'In Progress', true)}</p>
+            )}
+        </>
+    );
+};
+
 export const SeverityChangeModal: React.FC<SeverityChangeModalProps> = ({
     isOpen,
     currentSeverity,
@@ -17,76 +119,50 @@ export const SeverityChangeModal: React.FC<SeverityChangeModalProps> = ({
     incident,
     onClose,
     onConfirm,
+    slaPolicies = [],
+    slaCalendar,
+    incidents,
+    slaCalendars,
 }) => {
-    if (!isOpen || !incident) return null;
+    if (!isOpen) return null;
+    if (incidents) {
+        return (
+            <SeverityModalFrame onClose={onClose} onConfirm={onConfirm}>
+                <BulkSeverityPreview
+                    incidents={incidents}
+                    newSeverity={newSeverity}
+                    slaPolicies={slaPolicies}
+                    slaCalendars={slaCalendars}
+                />
+            </SeverityModalFrame>
+        );
+    }
+    if (!incident) return null;
 
-    const currentTimeRemaining = getTimeRemaining(incident.deadline, incident.status, true);
-    const newDeadline = calculateDeadline(incident.timestamp, newSeverity);
+    const resolveSla = (severity: 'Low' | 'Medium' | 'High' | 'Critical') => resolveSlaPolicy(slaPolicies, {
+        municipal: incident.municipal,
+        incidentType: incident.incidentType,
+        severity,
+    });
+    const currentSla = resolveSla(normalizeSeverity(currentSeverity));
+    const newSla = resolveSla(newSeverity);
+
+    const currentTimeRemaining = getTimeRemaining(incident.deadline, incident.status, true, undefined,
+        currentSla.businessHoursOnly ? slaCalendar : undefined);
+    const newDeadline = calculateReportDeadline({ ...incident, severity: newSeverity }, slaPolicies, slaCalendar);
     const newTimeRemaining = newDeadline
-        ? getTimeRemaining(newDeadline, incident.status, true)
+        ? getTimeRemaining(newDeadline, incident.status, true, undefined,
+            newSla.businessHoursOnly ? slaCalendar : undefined)
         : 'N/A';
 
     return (
-        <div
-            style={{
-                position: 'fixed',
-                top: 0,
-                left: 0,
-                right: 0,
-                bottom: 0,
-                background: 'rgba(0,0,0,0.5)',
-                display: 'flex',
-                justifyContent: 'center',
-                alignItems: 'center',
-                zIndex: 1000,
-            }}
-        >
-            <div
-                style={{
-                    background: 'white',
-                    borderRadius: 8,
-                    padding: 24,
-                    width: '90%',
-                    maxWidth: 500,
-                }}
-            >
-                <h3 style={{ marginTop: 0 }}>Confirm Severity Change</h3>
-                <p>
-                    Are you sure you want to change the severity from <strong>{normalizeSeverity(currentSeverity)}</strong> to{' '}
-                    <strong>{newSeverity}</strong>?
-                </p>
-                <p>Current time remaining: {currentTimeRemaining}</p>
-                <p>New time remaining will be: {newTimeRemaining}</p>
-                <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
-                    <button
-                        onClick={onClose}
-                        style={{
-                            padding: '8px 16px',
-                            border: '1px solid #ccc',
-                            borderRadius: 4,
-                            background: 'white',
-                            color: 'black',
-                            cursor: 'pointer',
-                        }}
-                    >
-                        Cancel
-                    </button>
-                    <button
-                        onClick={onConfirm}
-                        style={{
-                            padding: '8px 16px',
-                            border: 'none',
-                            borderRadius: 4,
-                            background: '#d32f2f',
-                            color: 'white',
-                            fontWeight: 600,
-                            cursor: 'pointer',
-                        }}
-                    >
-                        Confirm
-                    </button>
-                </div>
-            </div>
-        </div>
+        <SeverityModalFrame onClose={onClose} onConfirm={onConfirm}>
+            <p>
+                Are you sure you want to change the severity from <strong>{normalizeSeverity(currentSeverity)}</strong> to{' '}
+                <strong>{newSeverity}</strong>?
+            </p>
+            <p>Current time remaining: {currentTimeRemaining}</p>
+            <p>New time remaining will be: {newTimeRemaining}</p>
+        </SeverityModalFrame>
     );
 };
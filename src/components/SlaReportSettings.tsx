@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { useSlaReportSubscription } from '../hooks/useSlaReportSubscription';
+import { reportRepository } from '../repositories';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { SlaReportFormat, SlaReportFrequency } from '../types/slaReport';
+import { renderSlaReportHtml } from '../utils/slaReportRenderers';
+import {
+  SLA_REPORT_FREQUENCIES,
+  buildSlaComplianceReport,
+  getSlaReportPeriod,
+  getSubscriptionMunicipalities
+} from '../utils/slaReports';
+
+interface SlaReportSettingsProps {
+  // Every municipality the staff member covers
+  municipalities: string[];
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+}
+
+const FREQUENCY_LABELS: Record<SlaReportFrequency, string> = {
+  weekly: 'Weekly (Mondays, for the previous week)',
+  monthly: 'Monthly (on the 1st, for the previous month)'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 15
+};
+
+/**
+ * The signed-in staff member's choice of scheduled SLA compliance emails,
+ * with a preview of the last complete period built in the browser.
+ */
+const SlaReportSettings: React.FC<SlaReportSettingsProps> = ({ municipalities, policies, calendars }) => {
+  const { subscription, email, loaded, saveSubscription } = useSlaReportSubscription();
+  const [frequencies, setFrequencies] = useState<SlaReportFrequency[]>([]);
+  const [format, setFormat] = useState<SlaReportFormat>('html');
+  const [municipal, setMunicipal] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Start from the stored settings whenever they are loaded or saved
+  useEffect(() => {
+    setFrequencies(subscription?.frequencies || []);
+    setFormat(subscription?.format || 'html');
+    setMunicipal(subscription?.municipal || '');
+  }, [subscription]);
+
+  const toggleFrequency = (frequency: SlaReportFrequency) => {
+    setSaved(false);
+    setFrequencies(current => current.includes(frequency)
+      ? current.filter(f => f !== frequency)
+      : SLA_REPORT_FREQUENCIES.filter(f => f === frequency || current.includes(f)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSubscription(frequencies.length > 0 ? { frequencies, format, municipal: municipal || undefined } : null);
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving SLA report settings:', error);
+      alert('Could not save your email report settings. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const scope = getSubscriptionMunicipalities({ frequencies, format, municipal: municipal || undefined }, municipalities);
+      const report = buildSlaComplianceReport({
+        reports: await reportRepository.list({ municipal: scope }),
+        period: getSlaReportPeriod(frequencies[0] || 'weekly'),
+        municipalities: scope,
+        policies,
+        calendars
+      });
+      const url = URL.createObjectURL(new Blob([renderSlaReportHtml(report)], { type: 'text/html' }));
+      window.open(url, '_blank');
+      // Give the new tab time to load the page before the URL is released
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      console.error('Error building SLA report preview:', error);
+      alert('Could not build the preview. Please try again.');
+    }
+    setPreviewing(false);
+  };
+
+  if (!loaded) return null;
+
+  return (
+    <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24, marginTop: 32 }}>
+      <h3 style={{ fontWeight: 700, fontSize: 22, marginBottom: 8 }}>Email Reports</h3>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        Compliance, average resolution by severity and type, overdue incidents and the trend against the
+        previous period, sent to {email}.
+      </p>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24, alignItems: 'center', marginBottom: 16 }}>
+        {SLA_REPORT_FREQUENCIES.map(frequency => (
+          <label key={frequency} style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
+            <input type="checkbox" checked={frequencies.includes(frequency)} onChange={() => toggleFrequency(frequency)} />
+            {FREQUENCY_LABELS[frequency]}
+          </label>
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'center' }}>
+        <select value={format} onChange={e => { setFormat(e.target.value as SlaReportFormat); setSaved(false); }} style={inputStyle}>
+          <option value="html">In the email</option>
+          <option value="pdf">In the email, with a PDF attached</option>
+        </select>
+        {municipalities.length > 1 && (
+          <select value={municipal} onChange={e => { setMunicipal(e.target.value); setSaved(false); }} style={inputStyle}>
+            <option value="">All my municipalities</option>
+            {municipalities.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{ padding: '8px 16px', borderRadius: 8, border: 'none', background: '#2ec4b6', color: '#fff', fontWeight: 600, cursor: 'pointer' }}>
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+        <button
+          onClick={handlePreview}
+          disabled={previewing || municipalities.length === 0}
+          style={{ padding: '8px 16px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', color: '#333', cursor: 'pointer' }}>
+          {previewing ? 'Building…' : 'Preview'}
+        </button>
+        {saved && (
+          <span style={{ color: '#2e7d32' }}>
+            {frequencies.length > 0 ? 'Saved.' : 'You will no longer receive email reports.'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlaReportSettings;
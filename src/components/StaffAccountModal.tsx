@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { StaffRole } from '../types/staff';
+import { getStaffRoleLabel, STAFF_ROLES } from '../utils/permissions';
+
+export interface StaffAccountValues {
+  email: string;
+  name: string;
+  municipal: string;
+  // Further municipalities covered, comma separated
+  otherMunicipalities: string;
+  staffRole: StaffRole;
+  team: string;
+}
+
+interface StaffAccountModalProps {
+  isOpen: boolean;
+  // Existing account to edit; the email cannot be changed. Omit to invite someone new.
+  initial?: StaffAccountValues;
+  // Suggestions for the municipality and crew fields
+  municipalities: string[];
+  crews: string[];
+  onClose: () => void;
+  onConfirm: (values: StaffAccountValues) => void;
+  isSubmitting: boolean;
+}
+
+const EMPTY_VALUES: StaffAccountValues = {
+  email: '', name: '', municipal: '', otherMunicipalities: '', staffRole: 'dispatcher', team: ''
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 16,
+  boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = { display: 'block', marginBottom: 8, fontWeight: 600 };
+
+const StaffAccountModal: React.FC<StaffAccountModalProps> = ({
+  isOpen, initial, municipalities, crews, onClose, onConfirm, isSubmitting
+}) => {
+  const [values, setValues] = useState<StaffAccountValues>(EMPTY_VALUES);
+
+  // Start from the account being edited each time the modal opens
+  useEffect(() => {
+    if (isOpen) setValues(initial || EMPTY_VALUES);
+  }, [isOpen, initial]);
+
+  if (!isOpen) return null;
+
+  const set = (field: keyof StaffAccountValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({ ...values, email: values.email.trim().toLowerCase(), municipal: values.municipal.trim(), team: values.team.trim() });
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{ background: 'white', borderRadius: 8, padding: 24, width: '90%', maxWidth: 500 }}>
+        <h3 style={{ marginTop: 0 }}>{initial ? `Edit ${initial.email}` : 'Invite Staff Member'}</h3>
+
+        <form onSubmit={handleSubmit}>
+          {!initial && (
+            <div style={{ marginBottom: 16 }}>
+              <label style={labelStyle}>Email:</label>
+              <input type="email" value={values.email} onChange={set('email')} required style={fieldStyle} />
+            </div>
+          )}
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Name:</label>
+            <input type="text" value={values.name} onChange={set('name')} required style={fieldStyle} />
+          </div>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Municipality:</label>
+            <input type="text" list="staff-municipalities" value={values.municipal} onChange={set('municipal')} required style={fieldStyle} />
+            <datalist id="staff-municipalities">
+              {municipalities.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Also covers:</label>
+            <input
+              type="text"
+              value={values.otherMunicipalities}
+              onChange={set('otherMunicipalities')}
+              placeholder="Optional, comma separated"
+              style={fieldStyle}
+            />
+          </div>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Role:</label>
+            <select value={values.staffRole} onChange={set('staffRole')} style={fieldStyle}>
+              {STAFF_ROLES.map(role => <option key={role} value={role}>{getStaffRoleLabel(role)}</option>)}
+            </select>
+          </div>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Crew:</label>
+            <input type="text" list="staff-crews" value={values.team} onChange={set('team')} placeholder="Optional" style={fieldStyle} />
+            <datalist id="staff-crews">
+              {crews.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+
+          <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{ padding: '8px 16px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer' }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              style={{
+                padding: '8px 16px',
+                border: 'none',
+                borderRadius: 4,
+                background: isSubmitting ? '#ccc' : '#0277bd',
+                color: 'white',
+                fontWeight: 600,
+                cursor: isSubmitting ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {isSubmitting ? 'Saving...' : initial ? 'Save' : 'Invite'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StaffAccountModal;
@@ -0,0 +1,62 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { auth } from '../config/firebase';
+import { StaffSession, StaffSessionContext, StaffSessionStatus } from '../hooks/useStaffSession';
+import { StaffProfile } from '../types/staff';
+import { getStaffProfile } from '../utils/staffUtils';
+import { isPasswordExpired } from '../utils/passwordPolicy';
+
+const statusFor = (profile: StaffProfile | null): StaffSessionStatus => {
+  if (!profile) return 'missingProfile';
+  if (!profile.active) return 'deactivated';
+  if (profile.requiresPasswordSetup) return 'passwordChangeRequired';
+  return isPasswordExpired(profile.passwordChangedAt) ? 'passwordExpired' : 'ready';
+};
+
+// Loads the signed-in staff member's profile once and shares it with every page
+const StaffSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<StaffProfile | null>(null);
+  const [status, setStatus] = useState<StaffSessionStatus>('loading');
+
+  useEffect(() => {
+    // Ignore a profile that finishes loading after the user has changed
+    let latestUid: string | null = null;
+    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+      latestUid = currentUser?.uid || null;
+      setUser(currentUser);
+      setProfile(null);
+      if (!currentUser) {
+        setStatus('signedOut');
+        return;
+      }
+      setStatus('loading');
+      const fetchProfile = async () => {
+        const loaded = await getStaffProfile(currentUser);
+        if (latestUid !== currentUser.uid) return;
+        setProfile(loaded);
+        setStatus(statusFor(loaded));
+      };
+      fetchProfile();
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    const loaded = await getStaffProfile(user);
+    setProfile(loaded);
+    setStatus(statusFor(loaded));
+  }, [user]);
+
+  const session = useMemo<StaffSession>(() => ({
+    status,
+    user,
+    staff: status === 'ready' ? profile : null,
+    refresh
+  }), [status, user, profile, refresh]);
+
+  return <StaffSessionContext.Provider value={session}>{children}</StaffSessionContext.Provider>;
+};
+
+export default StaffSessionProvider;
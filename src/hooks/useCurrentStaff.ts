@@ -0,0 +1,15 @@
+import { Permission } from '../types/staff';
+import { hasPermission } from '../utils/permissions';
+import { useStaffSession } from './useStaffSession';
+
+/**
+ * The signed-in staff member and a `can` helper for per-action permission checks.
+ * Checks here only shape the UI; firestore.rules enforces the same permissions.
+ */
+export const useCurrentStaff = () => {
+  const { staff, status } = useStaffSession();
+
+  const can = (permission: Permission) => hasPermission(staff?.staffRole, permission);
+
+  return { staff, loading: status === 'loading', can };
+};
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { reportRepository } from '../repositories';
+import { Report, ReportFilter, ReportPageOptions } from '../types/report';
+import { diffReports, isEmptyDiff, ReportDiff } from '../utils/reportDiff';
+
+// How long newly arrived or changed reports stay highlighted
+const HIGHLIGHT_MS = 10 * 1000;
+
+export type ReportHighlight = 'new' | 'changed';
+
+// Row backgrounds for highlighted reports
+export const HIGHLIGHT_COLORS: Record<ReportHighlight, string> = {
+  new: '#e8f5e9',
+  changed: '#fff8e1'
+};
+
+// `initial` is set on the first snapshot after subscribing, which replaces any earlier list
+export type LiveReportChanges = ReportDiff & { initial: boolean };
+
+/**
+ * Reports matching a filter, kept up to date as they change. `changes` is the diff
+ * from the previous snapshot, so views can reprocess only what changed, and
+ * `highlights` marks reports that arrived or changed after the first load.
+ * Pass a memoized filter, or null to wait, and memoized page options to follow
+ * one page instead of every match.
+ */
+export const useLiveReports = (filter: ReportFilter | null, page?: ReportPageOptions) => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [changes, setChanges] = useState<LiveReportChanges | null>(null);
+  const [highlights, setHighlights] = useState<Record<string, ReportHighlight>>({});
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!filter) return;
+    setLoading(true);
+    let previous: Report[] | null = null;
+    const timers: number[] = [];
+
+    const handleReports = (next: Report[]) => {
+      const diff = diffReports(previous || [], next);
+      const initial = previous === null;
+      previous = next;
+      if (!initial && isEmptyDiff(diff)) return;
+
+      setReports(next);
+      setChanges({ ...diff, initial });
+      setLoading(false);
+      if (initial) return;
+
+      const marked: Record<string, ReportHighlight> = {};
+      diff.added.forEach(id => { marked[id] = 'new'; });
+      diff.modified.forEach(id => { marked[id] = 'changed'; });
+      if (Object.keys(marked).length === 0) return;
+      setHighlights(prev => ({ ...prev, ...marked }));
+      timers.push(window.setTimeout(() => {
+        setHighlights(prev => {
+          const rest = { ...prev };
+          Object.keys(marked).forEach(id => {
+            if (rest[id] === marked[id]) delete rest[id];
+          });
+          return rest;
+        });
+      }, HIGHLIGHT_MS));
+    };
+
+    const unsubscribe = page
+      ? reportRepository.watchPage(filter, page, (result) => {
+        setHasMore(result.hasMore);
+        handleReports(result.reports);
+      })
+      : reportRepository.watch(filter, handleReports);
+
+    return () => {
+      unsubscribe();
+      timers.forEach(timer => window.clearTimeout(timer));
+      setHighlights({});
+    };
+  }, [filter, page]);
+
+  return { reports, changes, highlights, hasMore, loading };
+};
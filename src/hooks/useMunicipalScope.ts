@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getStaffMunicipalities } from '../utils/staffUtils';
+import { useCurrentStaff } from './useCurrentStaff';
+
+// The NavBar switcher stores the choice here so every page shows the same municipality
+const SCOPE_KEY = 'cityfix.municipalScope';
+const SCOPE_CHANGED_EVENT = 'cityfix:municipalScopeChanged';
+
+// Switcher value for the combined view of every municipality the staff member covers
+export const ALL_MUNICIPALITIES = '*';
+
+/**
+ * The municipality the signed-in staff member is working in. `scope` is what to pass
+ * as ReportFilter.municipal: one municipality, or all of them in aggregate mode.
+ */
+export const useMunicipalScope = () => {
+  const { staff, loading } = useCurrentStaff();
+  const [stored, setStored] = useState(() => localStorage.getItem(SCOPE_KEY) || '');
+
+  // Follow changes made by the switcher, including in other tabs
+  useEffect(() => {
+    const sync = () => setStored(localStorage.getItem(SCOPE_KEY) || '');
+    window.addEventListener(SCOPE_CHANGED_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(SCOPE_CHANGED_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  // Keyed on the names so reloading the profile (e.g. after saving a view) keeps the same scope
+  const municipalityKey = getStaffMunicipalities(staff).join('\n');
+  const municipalities = useMemo(() => (municipalityKey ? municipalityKey.split('\n') : []), [municipalityKey]);
+
+  // Fall back to the home municipality if the stored choice is no longer covered
+  const isAggregate = stored === ALL_MUNICIPALITIES && municipalities.length > 1;
+  const selected = isAggregate || municipalities.includes(stored) ? stored : municipalities[0] || '';
+
+  const scope = useMemo<string | string[]>(
+    () => (isAggregate ? municipalities : selected),
+    [isAggregate, municipalities, selected]
+  );
+
+  const setSelected = (value: string) => {
+    localStorage.setItem(SCOPE_KEY, value);
+    window.dispatchEvent(new Event(SCOPE_CHANGED_EVENT));
+  };
+
+  return { municipalities, selected, setSelected, isAggregate, scope, loading };
+};
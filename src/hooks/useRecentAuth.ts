@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import { hasRecentAuth, reauthenticate } from '../utils/session';
+
+type SensitiveAction = () => void | Promise<void>;
+
+/**
+ * Gate for destructive actions. withRecentAuth runs the action straight away if the
+ * user signed in recently, otherwise it waits until they re-enter their password
+ * in the ReauthModal wired up with reauthModalProps.
+ */
+export const useRecentAuth = () => {
+  const [pending, setPending] = useState<SensitiveAction | null>(null);
+  // Set once the server asks for an authenticator code as well
+  const [mfaRequired, setMfaRequired] = useState(false);
+
+  const withRecentAuth = useCallback(async (action: SensitiveAction) => {
+    if (await hasRecentAuth()) {
+      await action();
+      return;
+    }
+    setPending(() => action);
+  }, []);
+
+  // Resolves to an error message, or '' once the action has run
+  const handleConfirm = async (password: string, code?: string): Promise<string> => {
+    const result = await reauthenticate(password, code ? { code } : {});
+    if (!result.ok) {
+      if (result.reason === 'mfa_required') {
+        setMfaRequired(true);
+        return 'Enter the code from your authenticator app.';
+      }
+      if (result.reason === 'blocked') return 'Too many failed attempts. Please try again later.';
+      if (result.reason === 'invalid') return result.mfaRequired ? 'Incorrect authentication code.' : 'Incorrect password.';
+      return result.message;
+    }
+    const action = pending;
+    setPending(null);
+    setMfaRequired(false);
+    if (action) await action();
+    return '';
+  };
+
+  return {
+    withRecentAuth,
+    reauthModalProps: {
+      isOpen: pending !== null,
+      mfaRequired,
+      onConfirm: handleConfirm,
+      onClose: () => {
+        setPending(null);
+        setMfaRequired(false);
+      }
+    }
+  };
+};
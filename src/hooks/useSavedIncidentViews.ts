@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { IncidentViewFilters, SavedIncidentView } from '../types/incidentView';
+import { createViewId, getDefaultViewId, getSavedViews, withSavedViews } from '../utils/incidentViews';
+import { saveStaffPreferences } from '../utils/staffUtils';
+import { useStaffSession } from './useStaffSession';
+
+/**
+ * The signed-in staff member's saved Incidents views, kept in their preferences.
+ * Changes are written straight away and the profile is reloaded.
+ */
+export const useSavedIncidentViews = () => {
+  const { staff, refresh } = useStaffSession();
+  const preferences = useMemo(() => staff?.preferences || {}, [staff]);
+  const views = useMemo(() => getSavedViews(preferences), [preferences]);
+  const defaultViewId = getDefaultViewId(preferences);
+
+  const save = async (nextViews: SavedIncidentView[], nextDefault?: string) => {
+    await saveStaffPreferences(withSavedViews(preferences, nextViews, nextDefault));
+    await refresh();
+  };
+
+  const saveView = async (name: string, filters: IncidentViewFilters): Promise<SavedIncidentView> => {
+    const view = { id: createViewId(), name, filters };
+    await save([...views, view], defaultViewId);
+    return view;
+  };
+
+  const deleteView = (id: string) => save(views.filter(view => view.id !== id), defaultViewId);
+
+  // Pass undefined to open Incidents unfiltered
+  const setDefaultView = (id?: string) => save(views, id);
+
+  return { views, defaultViewId, loaded: !!staff, saveView, deleteView, setDefaultView };
+};
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { SlaReportSubscription } from '../types/slaReport';
+import { getSlaReportSubscription, withSlaReportSubscription } from '../utils/slaReports';
+import { saveStaffPreferences } from '../utils/staffUtils';
+import { useStaffSession } from './useStaffSession';
+
+/**
+ * The signed-in staff member's scheduled SLA report settings, kept in their preferences.
+ * The report job (npm run sla:report) reads them from there.
+ */
+export const useSlaReportSubscription = () => {
+  const { staff, refresh } = useStaffSession();
+  const preferences = useMemo(() => staff?.preferences || {}, [staff]);
+  const subscription = useMemo(() => getSlaReportSubscription(preferences), [preferences]);
+
+  // Pass null to stop the emails
+  const saveSubscription = async (next: SlaReportSubscription | null) => {
+    await saveStaffPreferences(withSlaReportSubscription(preferences, next));
+    await refresh();
+  };
+
+  return { subscription, email: staff?.email || '', loaded: !!staff, saveSubscription };
+};
@@ -0,0 +1,45 @@
+import { createContext, useContext } from 'react';
+import { User } from 'firebase/auth';
+import { StaffProfile } from '../types/staff';
+
+/**
+ * - loading: waiting for Firebase Auth or the staff profile
+ * - signedOut: nobody is signed in
+ * - missingProfile: signed in, but there is no staff profile for the account
+ * - deactivated: the staff account has been deactivated by an admin
+ * - passwordChangeRequired: must choose a new password (on the login page) before anything else
+ * - passwordExpired: the same, because the password is past its maximum age
+ * - ready: a signed-in, active staff member
+ */
+export type StaffSessionStatus =
+  | 'loading'
+  | 'signedOut'
+  | 'missingProfile'
+  | 'deactivated'
+  | 'passwordChangeRequired'
+  | 'passwordExpired'
+  | 'ready';
+
+// Sessions that may only use the login page's new password form
+export const needsNewPassword = (status: StaffSessionStatus): boolean =>
+  status === 'passwordChangeRequired' || status === 'passwordExpired';
+
+export interface StaffSession {
+  status: StaffSessionStatus;
+  user: User | null;
+  // Only set once the session is ready
+  staff: StaffProfile | null;
+  // Reload the profile, e.g. after the signed-in user's account was edited
+  refresh: () => Promise<void>;
+}
+
+export const StaffSessionContext = createContext<StaffSession | null>(null);
+
+// The signed-in user and staff profile, loaded once by StaffSessionProvider
+export const useStaffSession = (): StaffSession => {
+  const session = useContext(StaffSessionContext);
+  if (!session) {
+    throw new Error('useStaffSession must be used inside StaffSessionProvider');
+  }
+  return session;
+};
@@ -0,0 +1,87 @@
+import { ReportRepository } from '../repositories/reportRepository';
+import { SearchIndexRepository } from '../repositories/searchIndexRepository';
+import { Report, ReportMessage } from '../types/report';
+import { SearchDocument } from '../types/searchIndex';
+import { toDate } from '../utils/incidentUtils';
+import { collectTerms } from '../utils/searchIndex';
+
+// Long chats are cut here so an index document stays small; earlier messages are kept
+const MAX_CHAT_LENGTH = 20000;
+
+export interface IndexResult {
+  scanned: number;
+  indexed: number;
+  failed: string[];
+}
+
+export interface IndexOptions {
+  municipal?: string;
+}
+
+/**
+ * Build the search index document for a report and its chat messages
+ */
+export const buildSearchDocument = (report: Report, messages: ReportMessage[]): SearchDocument => {
+  const location = [report.location, report.locationInfo].filter(Boolean).join('\n');
+  const description = report.description || '';
+  const chat = messages.map(message => message.text).filter(Boolean).join('\n').slice(0, MAX_CHAT_LENGTH);
+  const incidentType = report.incidentType || '';
+
+  return {
+    reportId: report.id,
+    municipal: report.municipal || '',
+    incidentType,
+    reportState: report.reportState,
+    timestamp: toDate(report.timestamp) || undefined,
+    // Chat terms come last so they are the ones dropped when the cap is reached
+    terms: collectTerms([incidentType, location, description, chat]),
+    location,
+    description,
+    chat
+  };
+};
+
+// Whether the stored document already matches what would be written
+const isCurrent = (stored: SearchDocument | undefined, next: SearchDocument): boolean => {
+  if (!stored) return false;
+  return stored.municipal === next.municipal
+    && stored.incidentType === next.incidentType
+    && stored.reportState === next.reportState
+    && (toDate(stored.timestamp)?.getTime() ?? 0) === (toDate(next.timestamp)?.getTime() ?? 0)
+    && stored.location === next.location
+    && stored.description === next.description
+    && stored.chat === next.chat
+    && stored.terms.join(' ') === next.terms.join(' ');
+};
+
+/**
+ * Rebuild the search index from reports and their chat messages.
+ * Every run reads all chats, but only documents that changed are written.
+ */
+export const runSearchIndex = async (
+  reports: ReportRepository,
+  index: SearchIndexRepository,
+  options: IndexOptions = {}
+): Promise<IndexResult> => {
+  const result: IndexResult = { scanned: 0, indexed: 0, failed: [] };
+  const [allReports, stored] = await Promise.all([
+    reports.list({ municipal: options.municipal }),
+    index.list(options.municipal)
+  ]);
+  const storedById = new Map(stored.map(document => [document.reportId, document]));
+
+  for (const report of allReports) {
+    result.scanned++;
+    try {
+      const document = buildSearchDocument(report, await reports.listMessages(report.id));
+      if (isCurrent(storedById.get(report.id), document)) continue;
+      await index.save(document);
+      result.indexed++;
+    } catch (error) {
+      console.error(`Failed to index report ${report.id}:`, error);
+      result.failed.push(report.id);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,127 @@
+import { ReportRepository } from '../repositories/reportRepository';
+import { SlaReportRepository } from '../repositories/slaReportRepository';
+import { MailMessage, MailTransport } from '../types/mail';
+import { Report } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { SlaComplianceReport, SlaReportFrequency, SlaReportPeriod, SlaReportRecipient } from '../types/slaReport';
+import {
+  getSlaReportSubject,
+  renderSlaReportHtml,
+  renderSlaReportPdf,
+  renderSlaReportText
+} from '../utils/slaReportRenderers';
+import { buildSlaComplianceReport, getSlaReportPeriod, getSubscriptionMunicipalities } from '../utils/slaReports';
+
+export interface SlaReportResult {
+  recipients: number;
+  sent: string[];
+  // Already sent for the period
+  skipped: number;
+  failed: string[];
+}
+
+export interface SlaReportOptions {
+  // Policies from the severityConfigs collection; FALLBACK_TIMEFRAMES when empty
+  policies?: SlaPolicy[];
+  // Working calendars keyed by municipality; the default calendar is used when missing
+  calendars?: Record<string, SlaCalendar>;
+  // Only send these frequencies, e.g. to try out monthly reports
+  frequencies?: SlaReportFrequency[];
+}
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// One delivery per recipient and period, so reruns do not send the same report twice
+export const getSlaReportDeliveryId = (recipient: SlaReportRecipient, period: SlaReportPeriod) =>
+  `${recipient.id}-${period.frequency}-${dateKey(period.start)}`;
+
+export const buildSlaReportMessage = async (
+  recipient: SlaReportRecipient,
+  report: SlaComplianceReport
+): Promise<MailMessage> => {
+  const message: MailMessage = {
+    to: recipient.email,
+    subject: getSlaReportSubject(report),
+    text: renderSlaReportText(report),
+    html: renderSlaReportHtml(report)
+  };
+  if (recipient.subscription.format === 'pdf') {
+    const pdf = renderSlaReportPdf(report);
+    message.attachments = [{
+      filename: `sla-report-${report.period.frequency}-${dateKey(report.period.start)}.pdf`,
+      contentType: 'application/pdf',
+      content: new Uint8Array(await pdf.arrayBuffer())
+    }];
+  }
+  return message;
+};
+
+/**
+ * Send each subscriber the reports for the last complete week or month.
+ * Safe to run as often as needed: a period is only sent once per recipient,
+ * and a failed send is retried on the next run.
+ */
+export const runSlaReports = async (
+  reportRepository: ReportRepository,
+  slaReportRepository: SlaReportRepository,
+  transport: MailTransport,
+  now: Date = new Date(),
+  options: SlaReportOptions = {}
+): Promise<SlaReportResult> => {
+  const recipients = await slaReportRepository.listRecipients();
+  const result: SlaReportResult = { recipients: recipients.length, sent: [], skipped: 0, failed: [] };
+  // Recipients covering the same municipalities share one query
+  const reportsByScope = new Map<string, Promise<Report[]>>();
+
+  for (const recipient of recipients) {
+    const municipalities = getSubscriptionMunicipalities(recipient.subscription, recipient.municipalities);
+    const frequencies = recipient.subscription.frequencies
+      .filter(frequency => !options.frequencies || options.frequencies.includes(frequency));
+
+    for (const frequency of frequencies) {
+      const period = getSlaReportPeriod(frequency, now);
+      const deliveryId = getSlaReportDeliveryId(recipient, period);
+
+      try {
+        if (await slaReportRepository.hasDelivery(deliveryId)) {
+          result.skipped++;
+          continue;
+        }
+
+        const scopeKey = [...municipalities].sort().join('|');
+        let reports = reportsByScope.get(scopeKey);
+        if (!reports) {
+          reports = reportRepository.list({ municipal: municipalities });
+          reportsByScope.set(scopeKey, reports);
+        }
+        const report = buildSlaComplianceReport({
+          reports: await reports,
+          period,
+          municipalities,
+          policies: options.policies || [],
+          calendars: options.calendars || {},
+          now
+        });
+
+        await transport.send(await buildSlaReportMessage(recipient, report));
+        await slaReportRepository.recordDelivery({
+          id: deliveryId,
+          recipientId: recipient.id,
+          email: recipient.email,
+          frequency,
+          periodStart: period.start,
+          periodEnd: period.end,
+          sentAt: new Date()
+        });
+        result.sent.push(deliveryId);
+      } catch (error) {
+        console.error(`Failed to send ${frequency} SLA report to ${recipient.email}:`, error);
+        result.failed.push(deliveryId);
+      }
+    }
+  }
+
+  return result;
+};
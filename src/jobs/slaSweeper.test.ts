@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from '../types/report';
+import { InMemoryReportRepository } from '../repositories/inMemoryReportRepository';
+import { toDate } from '../utils/incidentUtils';
+import { runSlaSweep } from './slaSweeper';
+
+const report = (id: string, fields: Partial<Report> = {}): Report => ({
+  id,
+  municipal: 'Springfield',
+  reportState: 'New',
+  location: '',
+  locationInfo: '',
+  incidentType: 'Pothole',
+  description: '',
+  photos: [],
+  mediaUrls: [],
+  contact: '',
+  reporterName: '',
+  reporterEmail: '',
+  timestamp: new Date('2025-03-01T09:00:00Z'),
+  ...fields
+});
+
+describe('runSlaSweep', () => {
+  it('marks reports past their deadline overdue and leaves the rest alone', async () => {
+    const repository = new InMemoryReportRepository([
+      report('late', { severity: 'Critical' }),
+      report('early', { severity: 'Low' })
+    ]);
+    const now = new Date('2025-03-02T10:00:00Z');
+    expect(await runSlaSweep(repository, now)).toMatchObject({ scanned: 2, updated: 2, markedOverdue: ['late'] });
+    expect((await repository.listEvents('late')).map(e => e.action)).toEqual(['sla_overdue']);
+    expect((await repository.listEvents('early')).map(e => e.action)).toEqual(['sla_recalculated']);
+
+    // Nothing has changed since, so a second sweep writes nothing
+    expect(await runSlaSweep(repository, now)).toMatchObject({ scanned: 2, updated: 0 });
+  });
+
+  it('stores the incident type severity for reports without one', async () => {
+    const repository = new InMemoryReportRepository([report('a', { incidentType: 'Gas leak' })]);
+    await runSlaSweep(repository, new Date('2025-03-01T10:00:00Z'), { typeSeverities: { 'gas leak': 'Critical' } });
+    const swept = await repository.get('a');
+    expect(swept?.severity).toBe('Critical');
+    expect(toDate(swept?.deadline)?.toISOString()).toBe('2025-03-02T09:00:00.000Z');
+    expect((await repository.listEvents('a'))[0]).toMatchObject({
+      action: 'sla_recalculated',
+      reason: 'Severity derived from incident type'
+    });
+  });
+});
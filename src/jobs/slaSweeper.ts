@@ -0,0 +1,67 @@
+import { ReportRepository } from '../repositories/reportRepository';
+import { ReportStatus, ReportUpdate, Severity } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { getSeverityForType } from '../utils/incidentUtils';
+import { computeSlaUpdate } from '../utils/slaPolicyUtils';
+
+// Only these states have a running SLA clock
+export const ACTIVE_STATES: ReportStatus[] = ['New', 'In Progress', 'Overdue'];
+
+export interface SweepResult {
+  scanned: number;
+  updated: number;
+  markedOverdue: string[];
+  cleared: string[];
+  failed: string[];
+}
+
+export interface SweepOptions {
+  municipal?: string;
+  // Policies from the severityConfigs collection; FALLBACK_TIMEFRAMES when empty
+  policies?: SlaPolicy[];
+  // Working calendars keyed by municipality; the default calendar is used when missing
+  calendars?: Record<string, SlaCalendar>;
+  // Severities from the incidentTypes collection keyed by id and lower-cased name, to
+  // store a severity on reports that have none (e.g. from the citizen app)
+  typeSeverities?: Record<string, Severity>;
+}
+
+/**
+ * Recompute deadlines and overdue state for every active report, e.g. as
+ * deadlines pass or after a policy or calendar is edited. Changes to a single
+ * report's severity or SLA clock recompute its deadline in the same write
+ * (see ReportRepository); the UI only reads deadline, isOverdue and Overdue.
+ */
+export const runSlaSweep = async (
+  repository: ReportRepository,
+  now: Date = new Date(),
+  options: SweepOptions = {}
+): Promise<SweepResult> => {
+  const result: SweepResult = { scanned: 0, updated: 0, markedOverdue: [], cleared: [], failed: [] };
+  const reports = await repository.list({ reportState: ACTIVE_STATES, municipal: options.municipal });
+
+  for (const report of reports) {
+    result.scanned++;
+    // The deadline follows the severity, so one that is missing is stored with it
+    const severity = !report.severity && report.incidentType && options.typeSeverities
+      ? getSeverityForType(report.incidentType, options.typeSeverities)
+      : undefined;
+    const swept = severity ? { ...report, severity } : report;
+    const slaUpdate = computeSlaUpdate(swept, now, options.policies, options.calendars?.[report.municipal]);
+    const updates: ReportUpdate | null = severity ? { severity, ...slaUpdate } : slaUpdate;
+    if (!updates) continue;
+
+    try {
+      if (!await repository.updateSla(report, updates, severity ? 'Severity derived from incident type' : undefined)) continue;
+      result.updated++;
+      if (updates.reportState === 'Overdue') result.markedOverdue.push(report.id);
+      if (updates.overdueClearedAt) result.cleared.push(report.id);
+    } catch (error) {
+      console.error(`Failed to update SLA state for report ${report.id}:`, error);
+      result.failed.push(report.id);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import Footer from '../components/Footer';
+import ReauthModal from '../components/ReauthModal';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import { downloadFile } from '../utils/csv';
+import {
+  MfaEnrollment,
+  confirmMfaEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+  startMfaEnrollment
+} from '../utils/mfa';
+import { getFunctionErrorMessage } from '../utils/callableErrors';
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 16,
+  boxSizing: 'border-box',
+  width: 220
+};
+
+const buttonStyle = (background: string, disabled = false): React.CSSProperties => ({
+  padding: '8px 16px',
+  border: 'none',
+  borderRadius: 4,
+  background: disabled ? '#ccc' : background,
+  color: 'white',
+  fontWeight: 600,
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+const cardStyle: React.CSSProperties = {
+  background: '#fff',
+  borderRadius: 12,
+  boxShadow: '0 2px 8px rgba(0,0,0,0.04)',
+  padding: '1.5rem',
+  marginBottom: 24
+};
+
+// Two-factor authentication settings for the signed-in staff member
+const AccountSecurity: React.FC = () => {
+  const { staff, loading } = useCurrentStaff();
+  const { withRecentAuth, reauthModalProps } = useRecentAuth();
+  const [mfaEnabled, setMfaEnabled] = useState(false);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setMfaEnabled(!!staff?.mfaEnabled);
+  }, [staff?.mfaEnabled]);
+
+  // Runs a call to the MFA functions behind the password prompt
+  const run = (action: () => Promise<void>) => withRecentAuth(async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error('Two-factor authentication request failed:', err);
+      setError(getFunctionErrorMessage(err));
+    }
+    setBusy(false);
+  });
+
+  const handleStart = () => run(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await startMfaEnrollment());
+  });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setRecoveryCodes(await confirmMfaEnrollment(code));
+      setEnrollment(null);
+      setMfaEnabled(true);
+      setCode('');
+    });
+  };
+
+  const handleRegenerate = () => run(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+    setCode('');
+  });
+
+  const handleDisable = () => {
+    if (!window.confirm('Turn off two-factor authentication? Your account will be protected by your password only.')) return;
+    run(async () => {
+      await disableMfa(code);
+      setMfaEnabled(false);
+      setRecoveryCodes(null);
+      setCode('');
+    });
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    downloadFile('cityfix-recovery-codes.txt', `${recoveryCodes.join('\n')}\n`, 'text/plain');
+  };
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ flex: 1, width: '100%', maxWidth: 800, margin: '0 auto', padding: '2rem 0' }}>
+        <h2 style={{ fontWeight: 700, fontSize: 28, margin: '0 0 24px' }}>Account Security</h2>
+
+        {error && <div style={{ color: 'red', marginBottom: 16 }}>{error}</div>}
+
+        <div style={cardStyle}>
+          <div style={{ fontWeight: 700, fontSize: 18, marginBottom: 8 }}>Two-Factor Authentication</div>
+          {loading ? (
+            <div style={{ color: '#888' }}>Loading...</div>
+          ) : mfaEnabled ? (
+            <>
+              <p style={{ color: '#2e7d32', fontWeight: 600 }}>Enabled for {staff?.email}</p>
+              <p style={{ color: '#555' }}>
+                Enter a current code from your authenticator app to get new recovery codes or to turn two-factor authentication off.
+              </p>
+              <div style={{ display: 'flex', gap: 10, alignItems: 'center', flexWrap: 'wrap' }}>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="6-digit code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  style={inputStyle}
+                />
+                <button onClick={handleRegenerate} disabled={busy || !code} style={buttonStyle('#0277bd', busy || !code)}>
+                  New Recovery Codes
+                </button>
+                <button onClick={handleDisable} disabled={busy || !code} style={buttonStyle('#f44336', busy || !code)}>
+                  Turn Off
+                </button>
+              </div>
+            </>
+          ) : enrollment ? (
+            <form onSubmit={handleConfirm}>
+              <p style={{ color: '#555' }}>
+                Add an account in your authenticator app (such as Google Authenticator or Microsoft Authenticator)
+                using this key, or open the setup link on your phone.
+              </p>
+              <div style={{ fontFamily: 'monospace', fontSize: 18, letterSpacing: 2, background: '#f5f6f8', padding: '10px 14px', borderRadius: 6, wordBreak: 'break-all' }}>
+                {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+              </div>
+              <p>
+                <a href={enrollment.otpauthUrl} style={{ color: '#1976d2' }}>Open in authenticator app</a>
+              </p>
+              <p style={{ color: '#555' }}>Then enter the 6-digit code the app shows to finish.</p>
+              <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  style={inputStyle}
+                />
+                <button type="submit" disabled={busy || !code} style={buttonStyle('#0277bd', busy || !code)}>
+                  {busy ? 'Checking...' : 'Turn On'}
+                </button>
+                <button type="button" onClick={() => setEnrollment(null)} style={{ ...buttonStyle('#fff'), color: '#222', border: '1px solid #ccc' }}>
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <p style={{ color: '#555' }}>
+                Staff accounts can close and merge public reports. Protect yours with a code from an authenticator app as well as your password.
+              </p>
+              <button onClick={handleStart} disabled={busy} style={buttonStyle('#0277bd', busy)}>
+                Set Up Authenticator App
+              </button>
+            </>
+          )}
+        </div>
+
+        {recoveryCodes && (
+          <div style={cardStyle}>
+            <div style={{ fontWeight: 700, fontSize: 18, marginBottom: 8 }}>Recovery Codes</div>
+            <p style={{ color: '#555' }}>
+              Each code signs you in once if you lose your phone. Store them somewhere safe; they will not be shown again.
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, max-content)', gap: '6px 32px', fontFamily: 'monospace', fontSize: 16, marginBottom: 16 }}>
+              {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+            </div>
+            <button onClick={handleDownloadCodes} style={buttonStyle('#2ec4b6')}>Download</button>
+          </div>
+        )}
+      </div>
+      <ReauthModal {...reauthModalProps} />
+      <Footer />
+    </div>
+  );
+};
+
+export default AccountSecurity;
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Footer from '../components/Footer';
+import LockedSignIns from '../components/LockedSignIns';
+import { auditLogRepository } from '../repositories';
+import { AuditEventType, AuditLog as AuditLogRecord, AuditLogCursor, AuditLogFilter } from '../types/auditLog';
+import { toDate } from '../utils/incidentUtils';
+import { downloadFile, toCsv } from '../utils/csv';
+
+const LOGS_PER_PAGE = 100;
+
+// The export reads every matching entry, this many per query
+const EXPORT_PAGE_SIZE = 500;
+
+// Wait for typing to pause before querying by user or incident
+const SEARCH_DELAY_MS = 300;
+
+const EVENT_TYPES = Object.values(AuditEventType);
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.6rem 0.8rem',
+  borderRadius: 8,
+  border: '1px solid #ddd',
+  fontSize: 15,
+  boxSizing: 'border-box'
+};
+
+const pageButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  padding: '8px 16px',
+  borderRadius: '8px',
+  border: '1px solid #ddd',
+  background: '#fff',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5
+});
+
+// e.g. REPORT_MERGE -> Report Merge
+const formatEventType = (eventType: string) =>
+  eventType.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// The cursors of the pages visited so far, for the filter they were visited with
+interface Paging {
+  filter: AuditLogFilter | null;
+  cursors: (AuditLogCursor | undefined)[];
+}
+
+const AuditLog: React.FC = () => {
+  const navigate = useNavigate();
+  const [logs, setLogs] = useState<AuditLogRecord[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Every filter is applied by the query; user and incident must match exactly
+  const [fromDate, setFromDate] = useState('');
+  const [toDateValue, setToDateValue] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [eventTypeFilter, setEventTypeFilter] = useState('');
+  const [incidentFilter, setIncidentFilter] = useState('');
+  const [typed, setTyped] = useState({ user: '', incident: '' });
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setTyped({ user: userFilter.trim(), incident: incidentFilter.trim() });
+    }, SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [userFilter, incidentFilter]);
+
+  const filter = useMemo((): AuditLogFilter => ({
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDateValue ? new Date(`${toDateValue}T23:59:59.999`) : undefined,
+    eventType: (eventTypeFilter || undefined) as AuditEventType | undefined,
+    userEmail: typed.user || undefined,
+    incidentId: typed.incident || undefined
+  }), [fromDate, toDateValue, eventTypeFilter, typed]);
+
+  // Changing the filter starts again from the first page
+  const [paging, setPaging] = useState<Paging>({ filter: null, cursors: [undefined] });
+  const cursors = paging.filter === filter ? paging.cursors : [undefined];
+  const pageIndex = cursors.length - 1;
+  const after = cursors[pageIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchLogs = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const page = await auditLogRepository.listPage(filter, { pageSize: LOGS_PER_PAGE, after });
+        if (cancelled) return;
+        setLogs(page.logs);
+        setHasMore(page.hasMore);
+      } catch (err) {
+        console.error('Error loading audit logs:', err);
+        if (cancelled) return;
+        setLogs([]);
+        setHasMore(false);
+        setError('Failed to load audit logs.');
+      }
+      setLoading(false);
+    };
+    fetchLogs();
+    return () => {
+      cancelled = true;
+    };
+  }, [filter, after]);
+
+  const goToNextPage = () => {
+    const last = logs[logs.length - 1];
+    if (!last?.timestamp) return;
+    setPaging({ filter, cursors: [...cursors, { timestamp: last.timestamp, id: last.id }] });
+  };
+
+  const goToPreviousPage = () => {
+    setPaging({ filter, cursors: cursors.slice(0, -1) });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows: AuditLogRecord[] = [];
+      let cursor: AuditLogCursor | undefined;
+      for (;;) {
+        const page = await auditLogRepository.listPage(filter, { pageSize: EXPORT_PAGE_SIZE, after: cursor });
+        rows.push(...page.logs);
+        const last = page.logs[page.logs.length - 1];
+        if (!page.hasMore || !last?.timestamp) break;
+        cursor = { timestamp: last.timestamp, id: last.id };
+      }
+      const csv = toCsv(
+        ['Timestamp', 'Event', 'User', 'Incident', 'Details', 'IP Address', 'User Agent'],
+        rows.map(log => [
+          toDate(log.timestamp)?.toISOString() || '',
+          log.eventType,
+          log.userEmail || '',
+          log.incidentId || '',
+          log.details || '',
+          log.ipAddress || '',
+          log.userAgent || ''
+        ])
+      );
+      downloadFile(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+    } catch (err) {
+      console.error('Error exporting audit logs:', err);
+      alert('Could not export the audit log. Please try again.');
+    }
+    setExporting(false);
+  };
+
+  const canExport = logs.length > 0 && !exporting;
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ flex: 1, width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
+          <h2 style={{ fontWeight: 700, fontSize: 28, margin: 0 }}>Audit Log</h2>
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            style={{
+              padding: '8px 16px',
+              borderRadius: 8,
+              border: 'none',
+              background: canExport ? '#2ec4b6' : '#ccc',
+              color: '#fff',
+              fontWeight: 600,
+              cursor: canExport ? 'pointer' : 'not-allowed'
+            }}
+          >
+            {exporting ? 'Exporting…' : 'Export CSV'}
+          </button>
+        </div>
+
+        <LockedSignIns />
+
+        <div style={{ display: 'flex', gap: 12, marginBottom: 24, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 13, color: '#666' }}>
+            From
+            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 13, color: '#666' }}>
+            To
+            <input type="date" value={toDateValue} onChange={e => setToDateValue(e.target.value)} style={inputStyle} />
+          </label>
+          <input
+            type="text"
+            placeholder="User email (exact)"
+            value={userFilter}
+            onChange={e => setUserFilter(e.target.value)}
+            style={{ ...inputStyle, flex: 2 }}
+          />
+          <select value={eventTypeFilter} onChange={e => setEventTypeFilter(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+            <option value="">All events</option>
+            {EVENT_TYPES.map(type => (
+              <option key={type} value={type}>{formatEventType(type)}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Incident ID (exact)"
+            value={incidentFilter}
+            onChange={e => setIncidentFilter(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+        </div>
+
+        {error && <div style={{ color: 'red', marginBottom: 16 }}>{error}</div>}
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>Loading audit log...</div>
+        ) : (
+          <>
+            <table style={{ width: '100%', background: '#fff', borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', borderCollapse: 'separate', borderSpacing: 0 }}>
+              <thead>
+                <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 15 }}>
+                  <th style={{ padding: '1rem 0.5rem' }}>Time</th>
+                  <th>Event</th>
+                  <th>User</th>
+                  <th>Incident</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map(log => (
+                  <tr key={log.id} style={{ borderTop: '1px solid #f0f0f0', fontSize: 14 }}>
+                    <td style={{ padding: '0.8rem 0.5rem', whiteSpace: 'nowrap' }}>
+                      {toDate(log.timestamp)?.toLocaleString() || ''}
+                    </td>
+                    <td style={{ whiteSpace: 'nowrap' }}>{formatEventType(log.eventType || '')}</td>
+                    <td>{log.userEmail || '-'}</td>
+                    <td>
+                      {log.incidentId ? (
+                        <span
+                          role="link"
+                          onClick={() => navigate(`/incidents/${log.incidentId}`)}
+                          style={{ color: '#1976d2', cursor: 'pointer' }}
+                        >
+                          #{log.incidentId}
+                        </span>
+                      ) : '-'}
+                    </td>
+                    <td style={{ color: '#555' }}>{log.details || ''}</td>
+                  </tr>
+                ))}
+                {logs.length === 0 && (
+                  <tr><td colSpan={5} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No audit events found.</td></tr>
+                )}
+              </tbody>
+            </table>
+
+            {(pageIndex > 0 || hasMore) && (
+              <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', alignItems: 'center', margin: '24px 0' }}>
+                <button onClick={goToPreviousPage} disabled={pageIndex === 0} style={pageButtonStyle(pageIndex > 0)}>
+                  Previous
+                </button>
+                <div style={{ margin: '0 16px' }}>Page {pageIndex + 1}</div>
+                <button onClick={goToNextPage} disabled={!hasMore} style={pageButtonStyle(hasMore)}>
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default AuditLog;
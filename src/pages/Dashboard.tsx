@@ -1,19 +1,11 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo } from 'react';
 import { useJsApiLoader } from '@react-google-maps/api';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db, auth } from '../config/firebase';
-import { onAuthStateChanged } from 'firebase/auth';
 import Footer from '../components/Footer';
 import IncidentHeatMap from '../components/IncidentHeatMap';
-
-interface Report {
-  id: string;
-  latitude?: number;
-  longitude?: number;
-  municipal: string;
-  reportState: string;
-  [key: string]: any;
-}
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { useLiveReports } from '../hooks/useLiveReports';
+import { Report } from '../types/report';
+import { toDate } from '../utils/incidentUtils';
 
 const containerStyle = {
   width: '100%',
@@ -37,56 +29,16 @@ const statsBoxStyle = {
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
 
 const Dashboard: React.FC = () => {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [municipal, setMunicipal] = useState<string>('');
+  const { scope, isAggregate } = useMunicipalScope();
+  // Counters and the map follow reports as they arrive and change
+  const reportFilter = useMemo(() => (scope.length > 0 ? { municipal: scope } : null), [scope]);
+  const { reports } = useLiveReports(reportFilter);
 
   const { isLoaded } = useJsApiLoader({
     googleMapsApiKey: GOOGLE_MAPS_API_KEY,
     libraries: ['visualization'] // Required for Heatmap
   });
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      if (!currentUser) {
-        setMunicipal('');
-        return;
-      }
-      console.log('Current user email:', currentUser.email);
-      const fetchUserAndMunicipal = async () => {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          console.log('User data:', userDoc);
-          setMunicipal(userDoc.municipal);
-        } else {
-          console.log('No user document found');
-        }
-      };
-      fetchUserAndMunicipal();
-    });
-    return () => unsubscribe();
-  }, []);
-
-  useEffect(() => {
-    const fetchReports = async () => {
-      if (!municipal) {
-        console.log('No municipal value set');
-        return;
-      }
-      console.log('Fetching reports for municipal:', municipal);
-      const q = query(collection(db, 'reports'), where('municipal', '==', municipal));
-      const querySnapshot = await getDocs(q);
-      console.log('Number of reports found:', querySnapshot.size);
-      const reportsData = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Report[];
-      setReports(reportsData);
-    };
-    fetchReports();
-  }, [municipal]);
-
   // Updated counters with proper logic
   // Total New Issues - only count reports with status "New"
   const total = reports.filter(r => r.reportState === 'New').length;
@@ -94,33 +46,45 @@ const Dashboard: React.FC = () => {
   // In Progress count (only active "In Progress" reports)
   const pending = reports.filter(r => r.reportState === 'In Progress').length;
 
-  // Resolved count (both "Completed" and "Resolved" reports)
-  const resolved = reports.filter(r =>
-    r.reportState === 'Completed' ||
-    r.reportState === 'Resolved'
-  ).length;
+  // Resolved count (legacy "Resolved" reports are mapped to "Completed")
+  const resolved = reports.filter(r => r.reportState === 'Completed').length;
 
   // Overdue count (check deadline against current time)
   const overdue = reports.filter(report => {
     // First check if status is already marked as overdue
     if (report.reportState === 'Overdue') return true;
 
-    // Skip completed/resolved reports
-    if (report.reportState === 'Completed' || report.reportState === 'Resolved') return false;
+    // Skip completed reports, and paused ones whose SLA clock is stopped
+    if (report.reportState === 'Completed' || report.reportState === 'Paused') return false;
 
     // Check if deadline is passed
-    if (report.deadline) {
-      const deadlineDate = report.deadline instanceof Date
-        ? report.deadline
-        : report.deadline.toDate ? report.deadline.toDate()
-          : new Date(report.deadline.seconds * 1000);
-
-      return deadlineDate < new Date();
-    }
-
-    return false;
+    const deadlineDate = toDate(report.deadline);
+    return deadlineDate ? deadlineDate < new Date() : false;
   }).length;
 
+  // Open workload per crew; reports dispatched to a person without a crew count as unassigned
+  const crewWorkload = reports
+    .filter(r => r.reportState !== 'Completed' && r.reportState !== 'Merged')
+    .reduce<Record<string, { open: number; overdue: number }>>((acc, r) => {
+      const crew = r.team || 'Unassigned';
+      acc[crew] = acc[crew] || { open: 0, overdue: 0 };
+      acc[crew].open += 1;
+      if (r.reportState === 'Overdue') acc[crew].overdue += 1;
+      return acc;
+    }, {});
+  const crewNames = Object.keys(crewWorkload).sort((a, b) => crewWorkload[b].open - crewWorkload[a].open);
+
+  // Breakdown shown when viewing all of the user's municipalities together
+  const municipalWorkload = reports
+    .filter(r => r.reportState !== 'Completed' && r.reportState !== 'Merged')
+    .reduce<Record<string, { open: number; overdue: number }>>((acc, r) => {
+      acc[r.municipal] = acc[r.municipal] || { open: 0, overdue: 0 };
+      acc[r.municipal].open += 1;
+      if (r.reportState === 'Overdue') acc[r.municipal].overdue += 1;
+      return acc;
+    }, {});
+  const municipalNames = Object.keys(municipalWorkload).sort();
+
   // Filter out completed reports for map display
   const visibleReports = reports.filter(r => r.reportState !== 'Completed');
 
@@ -200,6 +164,44 @@ const Dashboard: React.FC = () => {
             <div>Overdue Issues</div>
             <div style={{ color: '#e53935', fontSize: '2rem', fontWeight: 700 }}>{overdue}</div>
           </div>
+          {isAggregate && (
+            <div style={{ ...statsBoxStyle, textAlign: 'left', fontSize: '1rem' }}>
+              <div style={{ textAlign: 'center', fontSize: '1.2rem', marginBottom: 8 }}>By Municipality</div>
+              {municipalNames.length === 0 ? (
+                <div style={{ textAlign: 'center', color: '#888', fontWeight: 400 }}>No open incidents</div>
+              ) : (
+                municipalNames.map(name => (
+                  <div key={name} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderTop: '1px solid #f0f0f0' }}>
+                    <span>{name}</span>
+                    <span>
+                      {municipalWorkload[name].open} open
+                      {municipalWorkload[name].overdue > 0 && (
+                        <span style={{ color: '#e53935', marginLeft: 8 }}>{municipalWorkload[name].overdue} overdue</span>
+                      )}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+          <div style={{ ...statsBoxStyle, textAlign: 'left', fontSize: '1rem' }}>
+            <div style={{ textAlign: 'center', fontSize: '1.2rem', marginBottom: 8 }}>Crew Workload</div>
+            {crewNames.length === 0 ? (
+              <div style={{ textAlign: 'center', color: '#888', fontWeight: 400 }}>No open incidents</div>
+            ) : (
+              crewNames.map(crew => (
+                <div key={crew} style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderTop: '1px solid #f0f0f0' }}>
+                  <span style={{ color: crew === 'Unassigned' ? '#888' : 'inherit' }}>{crew}</span>
+                  <span>
+                    {crewWorkload[crew].open} open
+                    {crewWorkload[crew].overdue > 0 && (
+                      <span style={{ color: '#e53935', marginLeft: 8 }}>{crewWorkload[crew].overdue} overdue</span>
+                    )}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import Footer from '../components/Footer';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { reportRepository } from '../repositories';
+import { ColumnMapping, ImportCandidate, ImportField, ImportSource, ImportStatus } from '../types/incidentImport';
+import { BulkItemResult, Report } from '../types/report';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
+import { buildImportCandidates, checkAgainstExistingReports, guessColumnMapping, IMPORT_FIELDS, parseImportFile } from '../utils/incidentImport';
+import { getAllIncidentTypes } from '../utils/incidentTypeUtils';
+import { toDate } from '../utils/incidentUtils';
+
+// Reports written per call; progress is shown between chunks
+const IMPORT_CHUNK_SIZE = 400;
+// Rows listed in the preview; the counts cover the whole file
+const PREVIEW_ROWS = 200;
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  ready: 'Ready',
+  invalid: 'Invalid',
+  existing: 'Already imported',
+  duplicate: 'Possible duplicate'
+};
+
+const STATUS_COLORS: Record<ImportStatus, string> = {
+  ready: '#2e7d32',
+  invalid: '#e53935',
+  existing: '#757575',
+  duplicate: '#fb8c00'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 16,
+  boxSizing: 'border-box'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  borderRadius: 8,
+  border: 'none',
+  background: '#2ec4b6',
+  color: '#fff',
+  fontWeight: 600,
+  cursor: 'pointer'
+};
+
+const cardStyle: React.CSSProperties = {
+  background: '#fff',
+  borderRadius: 16,
+  boxShadow: '0 2px 8px rgba(0,0,0,0.04)',
+  padding: 24,
+  marginBottom: 24
+};
+
+/**
+ * Brings historical incidents from an older system into `reports`. A dry run
+ * validates every row and checks it against existing reports before anything is
+ * written; records keep a stable id, so importing the same file twice is harmless.
+ */
+const ImportIncidents: React.FC = () => {
+  const { municipalities, selected } = useMunicipalScope();
+  const [sourceName, setSourceName] = useState('legacy');
+  const [defaultMunicipal, setDefaultMunicipal] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImportStatus | ''>('');
+  const [working, setWorking] = useState('');
+  const [error, setError] = useState('');
+  const [results, setResults] = useState<BulkItemResult[] | null>(null);
+
+  const municipal = defaultMunicipal || selected;
+
+  // Any change to the input makes the last dry run stale
+  const resetPreview = () => {
+    setCandidates(null);
+    setResults(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    resetPreview();
+    setError('');
+    setSource(null);
+    if (!file) return;
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      setFileName(file.name);
+      setSource(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    resetPreview();
+    setMapping({ ...mapping, [field]: column || undefined });
+  };
+
+  const handlePreview = async () => {
+    if (!source) return;
+    setError('');
+    setResults(null);
+    setWorking('Checking rows…');
+    try {
+      const incidentTypes = await getAllIncidentTypes();
+      const built = buildImportCandidates(source, mapping, {
+        source: sourceName.trim() || 'legacy',
+        defaultMunicipal: municipal,
+        municipalities,
+        incidentTypes
+      });
+
+      // Only reports from around the earliest imported date can be duplicates
+      const ready = built.filter(c => c.report).map(c => c.report as Report);
+      const earliest = ready.reduce((min, report) => Math.min(min, toDate(report.timestamp)?.getTime() ?? min), Date.now());
+      const since = new Date(earliest - 24 * 60 * 60 * 1000);
+      const targets = Array.from(new Set(ready.map(report => report.municipal)));
+      setWorking('Checking for duplicates…');
+      const existing = (await Promise.all(targets.map(m => reportRepository.list({ municipal: m, since })))).flat();
+
+      setCandidates(checkAgainstExistingReports(built, existing));
+    } catch (err) {
+      console.error('Error previewing import:', err);
+      setError('The dry run failed. Please try again.');
+    } finally {
+      setWorking('');
+    }
+  };
+
+  const readyReports = (candidates || []).filter(c => c.status === 'ready' && c.report).map(c => c.report as Report);
+
+  const handleImport = async () => {
+    if (readyReports.length === 0) return;
+    if (!window.confirm(`Import ${readyReports.length} report${readyReports.length !== 1 ? 's' : ''} from ${fileName}?`)) return;
+    const written: BulkItemResult[] = [];
+    try {
+      for (let i = 0; i < readyReports.length; i += IMPORT_CHUNK_SIZE) {
+        setWorking(`Importing… ${i} of ${readyReports.length}`);
+        written.push(...await reportRepository.importReports(readyReports.slice(i, i + IMPORT_CHUNK_SIZE)));
+      }
+    } catch (err) {
+      console.error('Error importing reports:', err);
+      setError('The import stopped part way. Run it again to pick up where it left off.');
+    } finally {
+      setWorking('');
+      setResults(written);
+      setCandidates(null);
+    }
+
+    const count = (status: BulkItemResult['status']) => written.filter(r => r.status === status).length;
+    await logStaffAction(
+      AuditEventType.REPORTS_IMPORTED,
+      undefined,
+      `Imported ${count('updated')} reports from ${fileName} (source "${sourceName}"); ${count('skipped')} already imported, ${count('failed')} failed`
+    );
+  };
+
+  const counts: Partial<Record<ImportStatus, number>> = {};
+  (candidates || []).forEach(c => {
+    counts[c.status] = (counts[c.status] || 0) + 1;
+  });
+  const shown = (candidates || []).filter(c => !statusFilter || c.status === statusFilter).slice(0, PREVIEW_ROWS);
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        <h2 style={{ fontWeight: 700, fontSize: 28, margin: '0 0 24px' }}>Import Incidents</h2>
+        <p style={{ color: '#666', marginTop: 0 }}>
+          Bring in historical incidents from a CSV or GeoJSON file. Nothing is written until you run a dry run and confirm.
+          Rows already imported from the same source are skipped, so an import can safely be run again.
+        </p>
+
+        {error && <div style={{ background: '#ffebee', color: '#c62828', borderRadius: 8, padding: 12, marginBottom: 16 }}>{error}</div>}
+
+        <div style={cardStyle}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16 }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>File</label>
+              <input type="file" accept=".csv,.json,.geojson" onChange={e => handleFile(e.target.files?.[0])} />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Source system</label>
+              <input
+                value={sourceName}
+                onChange={e => {
+                  resetPreview();
+                  setSourceName(e.target.value);
+                }}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Municipality for rows without one</label>
+              <select
+                value={municipal}
+                onChange={e => {
+                  resetPreview();
+                  setDefaultMunicipal(e.target.value);
+                }}
+                style={inputStyle}
+              >
+                {municipalities.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {source && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0 }}>Columns</h3>
+            <p style={{ color: '#666', marginTop: 0 }}>
+              {source.rows.length} row{source.rows.length !== 1 ? 's' : ''} in {fileName}. Match each field to a column in the file.
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 16 }}>
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>
+                    {label}{required && <span style={{ color: '#e53935' }}> *</span>}
+                  </label>
+                  <select value={mapping[field] || ''} onChange={e => updateMapping(field, e.target.value)} style={inputStyle}>
+                    <option value="">Not imported</option>
+                    {source.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginTop: 24 }}>
+              <button
+                onClick={handlePreview}
+                disabled={!!working || missingRequired.length > 0 || !municipal}
+                style={buttonStyle}
+              >
+                Dry Run
+              </button>
+              {missingRequired.length > 0 && (
+                <span style={{ color: '#e53935' }}>Map {missingRequired.map(f => f.label.toLowerCase()).join(' and ')} first.</span>
+              )}
+              {working && <span style={{ color: '#666' }}>{working}</span>}
+            </div>
+          </div>
+        )}
+
+        {candidates && (
+          <div style={cardStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+              <h3 style={{ margin: 0 }}>Dry Run</h3>
+              <button onClick={handleImport} disabled={!!working || readyReports.length === 0} style={buttonStyle}>
+                Import {readyReports.length} Report{readyReports.length !== 1 ? 's' : ''}
+              </button>
+            </div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 16 }}>
+              <button onClick={() => setStatusFilter('')} style={{ ...inputStyle, width: 'auto', cursor: 'pointer', fontWeight: statusFilter ? 400 : 600 }}>
+                All ({candidates.length})
+              </button>
+              {(Object.keys(STATUS_LABELS) as ImportStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  style={{ ...inputStyle, width: 'auto', cursor: 'pointer', color: STATUS_COLORS[status], fontWeight: statusFilter === status ? 600 : 400 }}
+                >
+                  {STATUS_LABELS[status]} ({counts[status] || 0})
+                </button>
+              ))}
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: '#888' }}>
+                  <th style={{ padding: '6px 4px' }}>Row</th>
+                  <th>Status</th>
+                  <th>Reported</th>
+                  <th>Type</th>
+                  <th>Municipality</th>
+                  <th>Location</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(candidate => (
+                  <tr key={candidate.row} style={{ borderTop: '1px solid #f0f0f0', verticalAlign: 'top' }}>
+                    <td style={{ padding: '6px 4px' }}>{candidate.row}</td>
+                    <td style={{ color: STATUS_COLORS[candidate.status], fontWeight: 600, whiteSpace: 'nowrap' }}>{STATUS_LABELS[candidate.status]}</td>
+                    <td>{toDate(candidate.report?.timestamp)?.toLocaleString() || ''}</td>
+                    <td>{candidate.report?.incidentType || ''}</td>
+                    <td>{candidate.report?.municipal || ''}</td>
+                    <td>{candidate.report?.location || ''}</td>
+                    <td style={{ color: '#555' }}>
+                      {candidate.errors.join('; ')}
+                      {candidate.duplicateOf && <a href={`/incidents/${candidate.duplicateOf}`}>Matches #{candidate.duplicateOf}</a>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shown.length === PREVIEW_ROWS && (
+              <p style={{ color: '#666' }}>Showing the first {PREVIEW_ROWS} rows.</p>
+            )}
+          </div>
+        )}
+
+        {results && (
+          <div style={{ background: '#e0f7fa', borderRadius: 8, padding: 12, marginBottom: 16 }}>
+            Imported {results.filter(r => r.status === 'updated').length} reports;{' '}
+            {results.filter(r => r.status === 'skipped').length} were already imported and{' '}
+            {results.filter(r => r.status === 'failed').length} failed.
+          </div>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default ImportIncidents;
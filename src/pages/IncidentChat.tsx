@@ -1,8 +1,11 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import { db, auth } from '../config/firebase';
-import { collection, addDoc, query, orderBy, onSnapshot, doc, getDoc, getDocs, where } from 'firebase/firestore';
-import { onAuthStateChanged } from 'firebase/auth';
+import { db } from '../config/firebase';
+import { collection, addDoc, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { useStaffSession } from '../hooks/useStaffSession';
+import { reportRepository } from '../repositories';
+import { Report } from '../types/report';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
 
 interface Message {
   senderId: string;
@@ -23,58 +26,28 @@ const IncidentChat: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [incident, setIncident] = useState<any>(null);
+  const [incident, setIncident] = useState<Report | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [staffInfo, setStaffInfo] = useState<{ name: string; id: string } | null>(null);
   const [linkedReports, setLinkedReports] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
-      if (!currentUser) {
-        setStaffInfo(null);
-        return;
-      }
-      try {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          setStaffInfo({
-            name: userDoc.name || currentUser.displayName || currentUser.email?.split('@')[0] || 'Staff Member',
-            id: currentUser.uid
-          });
-        }
-      } catch (e) {
-        console.error('Error fetching staff info:', e);
-        setStaffInfo({
-          name: currentUser.displayName || currentUser.email?.split('@')[0] || 'Staff Member',
-          id: currentUser.uid
-        });
-      }
-    });
-    return () => unsubscribe();
-  }, []);
+  const { user, staff } = useStaffSession();
+  const staffInfo = user && staff ? {
+    name: staff.name || user.displayName || user.email?.split('@')[0] || 'Staff Member',
+    id: user.uid
+  } : null;
 
   useEffect(() => {
     const fetchIncident = async () => {
       if (!id) return;
       try {
-        const docRef = doc(db, 'reports', id);
-        const docSnap = await getDoc(docRef);
-        if (docSnap.exists()) {
-          const incidentData = docSnap.data();
+        const incidentData = await reportRepository.get(id);
+        if (incidentData) {
           setIncident(incidentData);
           
           // Look for merged reports (reports that have been merged into this one)
-          const mergedReportsQuery = query(
-            collection(db, 'reports'),
-            where('mergedInto', '==', id)
-          );
-          const mergedDocs = await getDocs(mergedReportsQuery);
-          const mergedIds = mergedDocs.docs.map(doc => doc.id);
-          setLinkedReports(mergedIds);
+          const mergedReports = await reportRepository.list({ mergedInto: id });
+          setLinkedReports(mergedReports.map(r => r.id));
         } else {
           setError('Incident not found.');
         }
@@ -131,6 +104,10 @@ const IncidentChat: React.FC = () => {
         }
       }
       
+      await logStaffAction(AuditEventType.CHAT_MESSAGE, id, linkedReports.length > 0
+        ? `Message sent to reporter (also sent to ${linkedReports.length} merged reports)`
+        : 'Message sent to reporter');
+
       setInput('');
     } catch (error) {
       console.error("Error sending message:", error);
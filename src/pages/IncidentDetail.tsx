@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { doc, getDoc, updateDoc, Timestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import { Timestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import Footer from '../components/Footer';
 import {
@@ -9,42 +9,53 @@ import {
   statusColors,
   IncidentDetailData,
   getFlagReasonText,
-  calculateDeadline,
   isOverdue,
-  determineSeverityFromType,
-  getSeverityColor
+  getSeverityColor,
+  normalizeSeverity,
+  toDate,
+  formatAssignment
 } from '../utils/incidentUtils';
-import { FlagReportModal } from '../components/IncidentModals';
+import { determineSeverityFromType } from '../utils/incidentTypeUtils';
+import { AssignIncidentModal, FlagReportModal, PauseSlaModal } from '../components/IncidentModals';
 import { SeverityChangeModal } from '../components/SeverityChangeModal';
 import RelatedReports from '../components/RelatedReports';
 import ReporterBadge from '../components/ReporterBadge';
+import IncidentHistory from '../components/IncidentHistory';
+import ReauthModal from '../components/ReauthModal';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
 import {
   calculateIncidentPriority,
   updateReporterTrustOnVerification,
   updateReporterTrustOnFalseReport
 } from '../utils/reporterUtils';
-
-// Extend the IncidentDetailData interface locally to add isOverdue and stricter severity
-interface ExtendedIncidentDetailData extends Omit<IncidentDetailData, 'severity'> {
+import { reportRepository, slaCalendarRepository, slaPolicyRepository } from '../repositories';
+import { Assignment, MergedReportRef, PauseReason, Report } from '../types/report';
+import { StaffProfile } from '../types/staff';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { calculateReportDeadline, describeSlaTimeframe, resolveSlaPolicy } from '../utils/slaPolicyUtils';
+import { getPauseReasonText } from '../utils/slaPause';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import { hasPermission } from '../utils/permissions';
+import { getCrews, getCurrentStaffProfile, listStaff } from '../utils/staffUtils';
+import { downloadWorkOrders } from '../utils/workOrders';
+
+// Extend the IncidentDetailData interface locally to add isOverdue, municipal, SLA pause state,
+// the current assignment and the raw report timestamp
+interface ExtendedIncidentDetailData extends IncidentDetailData,
+  Pick<Report, 'pauseReason' | 'pauseNote' | 'pausedAt' | 'pausedTotalMs' | 'pauseHistory'>,
+  Pick<Report, 'assignedTo' | 'assignedToName' | 'team' | 'assignmentHistory'> {
   isOverdue: boolean;
-  timestamp?: any;
-  severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  municipal: string;
+  timestamp?: Timestamp | Date;
 }
 
-// Helper function to normalize severity
-const normalizeSeverity = (severity: string | undefined | null): 'Low' | 'Medium' | 'High' | 'Critical' => {
-  if (!severity) return "Low";
-  const s = severity.trim().toLowerCase();
-  if (s === "low") return "Low";
-  if (s === "medium") return "Medium";
-  if (s === "high") return "High";
-  if (s === "critical") return "Critical";
-  return "Low";
-};
-
 const IncidentDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { staff: currentStaff, can } = useCurrentStaff();
+  const { withRecentAuth, reauthModalProps } = useRecentAuth();
   const [incident, setIncident] = useState<ExtendedIncidentDetailData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -57,14 +68,26 @@ const IncidentDetail: React.FC = () => {
   const [incidentPriority, setIncidentPriority] = useState<number | null>(null);
 
   // Merged reports state
-  const [mergedReports, setMergedReports] = useState<any[]>([]);
+  const [mergedReports, setMergedReports] = useState<MergedReportRef[]>([]);
   const [isMainReport, setIsMainReport] = useState(false);
 
+  // SLA policies and working calendar for this incident's municipality, used to preview deadlines
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicy[]>([]);
+  const [slaCalendar, setSlaCalendar] = useState<SlaCalendar | undefined>(undefined);
+
+  // Staff and crews the incident can be dispatched to
+  const [staffMembers, setStaffMembers] = useState<StaffProfile[]>([]);
+
   // Modals state
   const [showFlagModal, setShowFlagModal] = useState(false);
   const [flagging, setFlagging] = useState(false);
+  const [showPauseModal, setShowPauseModal] = useState(false);
+  const [pausing, setPausing] = useState(false);
+  const [showAssignModal, setShowAssignModal] = useState(false);
+  const [assigning, setAssigning] = useState(false);
   const [showSeverityModal, setShowSeverityModal] = useState(false);
   const [pendingSeverity, setPendingSeverity] = useState<'Low' | 'Medium' | 'High' | 'Critical' | null>(null);
+  const [printingWorkOrder, setPrintingWorkOrder] = useState(false);
 
   // Main effect to fetch incident data
   useEffect(() => {
@@ -72,14 +95,14 @@ const IncidentDetail: React.FC = () => {
       if (!id) return;
       setLoading(true);
       try {
-        const docRef = doc(db, 'reports', id);
-        const docSnap = await getDoc(docRef);
+        const d = await reportRepository.get(id);
 
-        if (docSnap.exists()) {
-          const d = docSnap.data();
+        if (d) {
+          // Viewers can open incidents, but must not trigger any writes
+          const canWrite = hasPermission((await getCurrentStaffProfile())?.staffRole, 'incident.update');
 
           console.log('Initial incident data:', {
-            id: docSnap.id,
+            id: d.id,
             timestamp: d.timestamp,
             deadline: d.deadline,
             severity: d.severity,
@@ -87,11 +110,12 @@ const IncidentDetail: React.FC = () => {
             isOverdue: d.isOverdue
           });
 
-          // Normalize severity from DB
+          // Severity is normalized by the repository
           // CRITICAL FIX: Trust the DB severity if it exists. Only default to 'Low' if missing.
-          const currentSeverity = d.severity ? normalizeSeverity(d.severity) : null;
+          const currentSeverity = d.severity || null;
 
-          // Only attempt to auto-calculate if severity is completely missing
+          // Only attempt to auto-calculate if severity is completely missing; the SLA sweeper
+          // stores it, so the derived value is only shown until then
           const shouldUpdateSeverity = !d.severity;
 
           console.log('Debug Severity:', {
@@ -118,93 +142,38 @@ const IncidentDetail: React.FC = () => {
             }
           }
 
-          const deadline = calculateDeadline(d.timestamp, severity);
-          let needsUpdate = false;
-          const updates: any = {};
-
-          if (d.severity !== severity) {
-            needsUpdate = true;
-            updates.severity = severity;
-          }
-
-          if (deadline && d.deadline) {
-            let existingDeadlineDate: Date | null = null;
-            if (d.deadline instanceof Timestamp) {
-              existingDeadlineDate = d.deadline.toDate();
-            } else if (d.deadline.seconds) {
-              existingDeadlineDate = new Date(d.deadline.seconds * 1000);
-            }
-
-            if (existingDeadlineDate &&
-              Math.abs(existingDeadlineDate.getTime() - deadline.getTime()) > 60 * 60 * 1000) {
-              needsUpdate = true;
-              console.log('Deadline needs update:', {
-                old: existingDeadlineDate.toISOString(),
-                new: deadline.toISOString()
-              });
-            }
-          } else if (deadline) {
-            needsUpdate = true;
-          }
-
-          let status = d.reportState || 'New';
-
-          // Calculate the actual overdue state
-          const shouldBeOverdue = isOverdue(deadline, status);
-
-          let isOverdueFlag = false;
-          if (status !== 'Completed' && status !== 'Merged') {
-            isOverdueFlag = shouldBeOverdue;
-
-            if (d.isOverdue !== shouldBeOverdue) {
-              needsUpdate = true;
-              updates.isOverdue = shouldBeOverdue;
-            }
-
-            if (shouldBeOverdue && status !== 'Overdue') {
-              status = 'Overdue';
-              needsUpdate = true;
-              updates.reportState = 'Overdue';
-            } else if (!shouldBeOverdue && status === 'Overdue') {
-              status = 'In Progress';
-              needsUpdate = true;
-              updates.reportState = 'In Progress';
-            }
-          }
-
-          if (needsUpdate) {
-            if (deadline) {
-              updates.deadline = Timestamp.fromDate(deadline);
-            }
-            // Ensure we don't overwrite if we didn't mean to
-            if (!updates.reportState && status !== d.reportState) {
-              updates.reportState = status;
-            }
-            if (updates.isOverdue === undefined) {
-              updates.isOverdue = isOverdueFlag;
-            }
-
-            await updateDoc(docRef, updates);
-            console.log('Updated incident with:', updates);
-          }
+          // Deadline and Overdue state are written with the changes that move them and by the
+          // SLA sweeper; only read them here. Fall back to a locally calculated deadline until then.
+          const policies = await slaPolicyRepository.list(d.municipal).catch(policyError => {
+            console.error('Error loading SLA policies:', policyError);
+            return [];
+          });
+          const calendar = await slaCalendarRepository.get(d.municipal).catch(calendarError => {
+            console.error('Error loading SLA calendar:', calendarError);
+            return undefined;
+          });
+          setSlaPolicies(policies);
+          setSlaCalendar(calendar);
+          const deadline = toDate(d.deadline) || calculateReportDeadline({ ...d, severity }, policies, calendar);
+          const status = d.reportState;
 
           const incidentData: ExtendedIncidentDetailData = {
-            id: docSnap.id,
-            location: d.location || '',
-            locationInfo: d.locationInfo || '',
+            id: d.id,
+            location: d.location,
+            locationInfo: d.locationInfo,
             latitude: d.latitude,
             longitude: d.longitude,
-            incidentType: d.incidentType || '',
-            description: d.description || '',
-            photos: d.photos || [],
-            mediaUrls: d.mediaUrls || [],
-            contact: d.contact || '',
+            incidentType: d.incidentType,
+            description: d.description,
+            photos: d.photos,
+            mediaUrls: d.mediaUrls,
+            contact: d.contact,
             severity: severity, // This is now strictly typed
             deadline: deadline || d.timestamp,
             status: status,
             dateReported: formatDate(d.timestamp),
-            reporterName: d.reporterName || '',
-            reporterEmail: d.reporterEmail || '',
+            reporterName: d.reporterName,
+            reporterEmail: d.reporterEmail,
             isAnonymous: d.isAnonymous,
             resolutionTimeHours: d.resolutionTimeHours,
             resolutionTimeFormatted: d.resolutionTimeFormatted,
@@ -214,7 +183,17 @@ const IncidentDetail: React.FC = () => {
             flagNotes: d.flagNotes,
             flagStatus: d.flagStatus,
             mergedInto: d.mergedInto,
-            isOverdue: isOverdueFlag,
+            isOverdue: isOverdue(deadline, status),
+            municipal: d.municipal,
+            pauseReason: d.pauseReason,
+            pauseNote: d.pauseNote,
+            pausedAt: d.pausedAt,
+            pausedTotalMs: d.pausedTotalMs,
+            pauseHistory: d.pauseHistory,
+            assignedTo: d.assignedTo,
+            assignedToName: d.assignedToName,
+            team: d.team,
+            assignmentHistory: d.assignmentHistory,
             timestamp: d.timestamp
           };
           setIncident(incidentData);
@@ -223,11 +202,11 @@ const IncidentDetail: React.FC = () => {
           setMergedReports(mergedRpts);
           setIsMainReport(mergedRpts.length > 0);
 
-          if (incidentData.status === 'New') {
-            await updateDoc(docRef, {
+          if (canWrite && incidentData.status === 'New') {
+            await reportRepository.update(d.id, {
               reportState: 'In Progress',
               lastViewed: new Date()
-            });
+            }, { reason: 'Opened by staff' });
             setIncident(prev => prev ? { ...prev, status: 'In Progress' } : null);
           }
         } else {
@@ -263,6 +242,15 @@ const IncidentDetail: React.FC = () => {
     fetchReporterId();
   }, [incident?.reporterEmail, incident?.isAnonymous]);
 
+  // Effect to load the staff of the incident's municipality for assignment
+  useEffect(() => {
+    if (!incident?.municipal) return;
+    const fetchStaff = async () => {
+      setStaffMembers(await listStaff(incident.municipal));
+    };
+    fetchStaff();
+  }, [incident?.municipal]);
+
   // Effect to calculate priority
   useEffect(() => {
     if (incident?.severity && reporterTrustLevel !== null) {
@@ -271,18 +259,21 @@ const IncidentDetail: React.FC = () => {
     }
   }, [incident?.severity, reporterTrustLevel]);
 
+  const resolveSla = (severity: 'Low' | 'Medium' | 'High' | 'Critical') => resolveSlaPolicy(slaPolicies, {
+    municipal: incident?.municipal,
+    incidentType: incident?.incidentType,
+    severity
+  });
+
   const applySeverityChange = async (newSeverity: 'Low' | 'Medium' | 'High' | 'Critical') => {
-    if (!incident || !id) return;
+    if (!incident || !id || !can('incident.changeSeverity')) return;
     try {
-      const docRef = doc(db, 'reports', id);
-      const newDeadline = calculateDeadline(incident.timestamp, newSeverity);
-      if (!newDeadline) throw new Error('Could not calculate new deadline');
-
-      await updateDoc(docRef, {
-        severity: newSeverity,
-        deadline: Timestamp.fromDate(newDeadline)
-      });
+      // The stored deadline is recalculated in the same write
+      await reportRepository.update(id, { severity: newSeverity });
+      await logStaffAction(AuditEventType.SEVERITY_CHANGE, id, `Severity changed from ${incident.severity} to ${newSeverity}`);
 
+      const newDeadline = calculateReportDeadline({ ...incident, severity: newSeverity }, slaPolicies, slaCalendar) ||
+        incident.deadline;
       setIncident(prev => prev ? { ...prev, severity: newSeverity, deadline: newDeadline } : null);
     } catch (e) {
       console.error('Failed to update severity:', e);
@@ -291,88 +282,21 @@ const IncidentDetail: React.FC = () => {
 
   const handleSeverityChange = (newSeverity: 'Low' | 'Medium' | 'High' | 'Critical') => {
     if (!incident) return;
+    if (!can('incident.changeSeverity')) {
+      alert('Your role does not allow changing severity.');
+      return;
+    }
     if (newSeverity === incident.severity) return;
     setPendingSeverity(newSeverity);
     setShowSeverityModal(true);
   };
 
   const handleMarkAsCompleted = async () => {
-    if (!id || !incident) return;
+    if (!id || !incident || !can('incident.update')) return;
     try {
-      const docRef = doc(db, 'reports', id);
-
-      // Fetch the latest data to ensure we have accurate timestamps
-      const docSnap = await getDoc(docRef);
-      if (!docSnap.exists()) {
-        throw new Error('Incident not found');
-      }
-
-      const incidentData = docSnap.data();
-      const startTime = incidentData.timestamp;
-      const endTime = new Date();
-
-      // Calculate resolution time in hours
-      let resolutionTimeHours = 0;
-      let resolutionTimeFormatted = '';
-
-      if (startTime) {
-        let startDate: Date;
-        if (startTime instanceof Timestamp) {
-          startDate = startTime.toDate();
-        } else if (startTime.seconds) {
-          startDate = new Date(startTime.seconds * 1000);
-        } else {
-          startDate = new Date(startTime);
-        }
-
-        // Calculate difference in milliseconds
-        const diffMs = endTime.getTime() - startDate.getTime();
-        // Convert to hours (including fractional part)
-        resolutionTimeHours = diffMs / (1000 * 60 * 60);
-
-        // Format for display - consistent with time remaining format (days first)
-        const days = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-        const hours = Math.floor((diffMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-        const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-
-        // Create a properly formatted time string with days first
-        if (days > 0) {
-          if (hours > 0 && minutes > 0) {
-            resolutionTimeFormatted = `${days}d ${hours}h ${minutes}m`;
-          } else if (hours > 0) {
-            resolutionTimeFormatted = `${days}d ${hours}h`;
-          } else {
-            resolutionTimeFormatted = `${days}d`;
-          }
-        } else if (hours > 0) {
-          if (minutes > 0) {
-            resolutionTimeFormatted = `${hours}h ${minutes}m`;
-          } else {
-            resolutionTimeFormatted = `${hours}h`;
-          }
-        } else if (minutes > 0) {
-          resolutionTimeFormatted = `${minutes}m`;
-        } else {
-          resolutionTimeFormatted = 'Less than 1 minute';
-        }
-
-        console.log('Resolution time:', {
-          startDate,
-          endTime,
-          diffMs,
-          resolutionTimeHours,
-          resolutionTimeFormatted
-        });
-      }
-
-      // Update with resolution information and ensure not marked as overdue
-      await updateDoc(docRef, {
-        reportState: 'Completed',
-        isOverdue: false, // Explicitly set overdue to false when completing
-        completedAt: endTime,
-        resolutionTimeHours,
-        resolutionTimeFormatted
-      });
+      // Resolution time is calculated from the latest stored timestamps
+      const { resolutionTimeHours, resolutionTimeFormatted } = await reportRepository.complete(id);
+      await logStaffAction(AuditEventType.REPORT_COMPLETE, id, `Resolved after ${resolutionTimeFormatted}`);
 
       setIncident(prev => prev ? {
         ...prev,
@@ -383,9 +307,9 @@ const IncidentDetail: React.FC = () => {
       } : null);
 
       // Update reporter trust level since the report is now verified
-      if (!incidentData.isAnonymous && incidentData.reporterEmail) {
+      if (!incident.isAnonymous && incident.reporterEmail) {
         try {
-          const success = await updateReporterTrustOnVerification(incidentData.reporterEmail);
+          const success = await updateReporterTrustOnVerification(incident.reporterEmail);
           console.log('Reporter trust level update on verification:', success ? 'successful' : 'failed');
         } catch (error) {
           console.error('Error updating reporter trust level:', error);
@@ -400,28 +324,13 @@ const IncidentDetail: React.FC = () => {
   };
 
   const handleFlagReport = async (reason: string, notes: string) => {
-    if (!id || !incident) return;
+    if (!id || !incident || !can('incident.flag')) return;
 
     setFlagging(true);
     try {
-      const docRef = doc(db, 'reports', id);
-
-      // Get the current data to access reporter information
-      const docSnap = await getDoc(docRef);
-      if (!docSnap.exists()) {
-        throw new Error('Incident not found');
-      }
-
-      const incidentData = docSnap.data();
-
       // Update the report with flagged status
-      await updateDoc(docRef, {
-        flagged: true,
-        flaggedAt: new Date(),
-        flagReason: reason,
-        flagNotes: notes,
-        flagStatus: 'pending_review'  // Could be 'pending_review', 'confirmed_false', 'legitimate'
-      });
+      await reportRepository.flag(id, reason, notes);
+      await logStaffAction(AuditEventType.REPORT_FLAG, id, `${getFlagReasonText(reason)}${notes ? `: ${notes}` : ''}`);
 
       // Update local state
       setIncident(prev => prev ? {
@@ -431,9 +340,9 @@ const IncidentDetail: React.FC = () => {
       } : null);
 
       // Update reporter trust level if this is confirmed as a false report
-      if (reason === 'false_report' && !incidentData.isAnonymous && incidentData.reporterEmail) {
+      if (reason === 'false_report' && !incident.isAnonymous && incident.reporterEmail) {
         try {
-          const success = await updateReporterTrustOnFalseReport(incidentData.reporterEmail);
+          const success = await updateReporterTrustOnFalseReport(incident.reporterEmail);
           console.log('Reporter trust level update on false report:', success ? 'successful' : 'failed');
         } catch (error) {
           console.error('Error updating reporter trust level:', error);
@@ -449,6 +358,117 @@ const IncidentDetail: React.FC = () => {
     setFlagging(false);
   };
 
+  // A PDF for crews in the field, who do not use the web app
+  const handleWorkOrder = async () => {
+    if (!id) return;
+    setPrintingWorkOrder(true);
+    try {
+      const report = await reportRepository.get(id);
+      if (!report) throw new Error(`Report ${id} not found`);
+      await downloadWorkOrders(
+        [report],
+        { policies: slaPolicies, calendars: slaCalendar ? { [report.municipal]: slaCalendar } : {} },
+        `work-order-${report.id}.pdf`
+      );
+    } catch (error) {
+      console.error('Error creating work order:', error);
+      alert('Could not create the work order. Please try again.');
+    }
+    setPrintingWorkOrder(false);
+  };
+
+  const handleUnmerge = async () => {
+    if (!id || !incident?.mergedInto || !can('incident.merge')) return;
+    if (!window.confirm(`Unmerge this report from #${incident.mergedInto}? Media and descriptions already combined into that report will stay there.`)) return;
+
+    const primaryId = incident.mergedInto;
+    await withRecentAuth(async () => {
+      try {
+        await reportRepository.unmerge(id);
+        await logStaffAction(AuditEventType.REPORT_UNMERGE, id, `Unmerged from #${primaryId}`);
+        setIncident(prev => prev ? { ...prev, status: 'In Progress', mergedInto: undefined } : null);
+      } catch (error) {
+        console.error('Error unmerging report:', error);
+        alert('Failed to unmerge the report. Please try again.');
+      }
+    });
+  };
+
+  const handlePauseSla = async (reason: PauseReason, note: string) => {
+    if (!id || !incident || !can('incident.update')) return;
+
+    setPausing(true);
+    try {
+      await reportRepository.pause(id, reason, note);
+      setIncident(prev => prev ? {
+        ...prev,
+        status: 'Paused',
+        isOverdue: false,
+        pauseReason: reason,
+        pauseNote: note,
+        pausedAt: new Date()
+      } : null);
+      setShowPauseModal(false);
+    } catch (error) {
+      console.error('Error pausing SLA:', error);
+      alert('Failed to pause the SLA clock. Please try again.');
+    }
+    setPausing(false);
+  };
+
+  const handleResumeSla = async () => {
+    if (!id || !incident || !can('incident.update')) return;
+
+    setPausing(true);
+    try {
+      // Resuming pushes the stored deadline out by the paused time
+      await reportRepository.resume(id);
+
+      const updated = await reportRepository.get(id);
+      if (updated) {
+        setIncident(prev => prev ? {
+          ...prev,
+          status: updated.reportState,
+          deadline: toDate(updated.deadline) || prev.deadline,
+          isOverdue: !!updated.isOverdue,
+          pauseReason: undefined,
+          pauseNote: undefined,
+          pausedAt: undefined,
+          pausedTotalMs: updated.pausedTotalMs,
+          pauseHistory: updated.pauseHistory
+        } : null);
+      }
+    } catch (error) {
+      console.error('Error resuming SLA:', error);
+      alert('Failed to resume the SLA clock. Please try again.');
+    }
+    setPausing(false);
+  };
+
+  const handleAssign = async (assignment: Assignment, note: string) => {
+    if (!id || !incident || !can('incident.assign')) return;
+
+    setAssigning(true);
+    try {
+      await reportRepository.assign(id, assignment, currentStaff?.email || '', note);
+      const updated = await reportRepository.get(id);
+      if (updated) {
+        setIncident(prev => prev ? {
+          ...prev,
+          assignedTo: updated.assignedTo,
+          assignedToName: updated.assignedToName,
+          team: updated.team,
+          assignmentHistory: updated.assignmentHistory
+        } : null);
+      }
+      setShowAssignModal(false);
+    } catch (error) {
+      console.error('Error assigning incident:', error);
+      alert('Failed to assign the incident. Please try again.');
+    }
+    setAssigning(false);
+  };
+
   // Add a helper function to determine the time remaining color
   const getTimeRemainingColor = () => {
     if (!incident) return '#2ec4b6'; // default color
@@ -464,10 +484,18 @@ const IncidentDetail: React.FC = () => {
       return '#e53935'; // red for overdue
     }
 
+    if (status === 'Paused') {
+      return statusColors['Paused'];
+    }
+
     return '#2ec4b6'; // default teal color
   };
 
   const handleUpdateIncidentProgress = () => {
+    if (!can('incident.update')) {
+      window.alert('Your role does not allow updating incident progress.');
+      return;
+    }
     if (incident?.isAnonymous) {
       window.alert('Cannot update incident progress: The reporter is anonymous and cannot receive updates.');
       return;
@@ -479,6 +507,12 @@ const IncidentDetail: React.FC = () => {
   if (error) return <div style={{ textAlign: 'center', marginTop: 40, color: 'red' }}>{error}</div>;
   if (!incident) return null;
 
+  const canUpdate = can('incident.update');
+  const updateDisabled = incident.status === 'Completed' || !canUpdate;
+  const pauseDisabled = incident.status === 'Completed' || incident.status === 'Merged' || !canUpdate;
+  const assignDisabled = incident.status === 'Completed' || incident.status === 'Merged' || !can('incident.assign');
+  const assignmentHistory = incident.assignmentHistory || [];
+
   const renderReporterInfo = () => (
     <div style={{ marginBottom: 10, fontSize: 17, display: 'flex', alignItems: 'center' }}>
       <b>Reporter:</b>
@@ -565,11 +599,29 @@ const IncidentDetail: React.FC = () => {
                 alignItems: 'center',
                 gap: 6
               }}
-              disabled={flagging}
-              title="Flag as suspicious or false report"
+              disabled={flagging || !can('incident.flag')}
+              title={can('incident.flag') ? 'Flag as suspicious or false report' : 'Your role does not allow flagging reports'}
             >
               {incident.flagged ? '⚠️ Flagged' : '⚠️ Flag Report'}
             </button>
+
+            <button
+              onClick={handleWorkOrder}
+              disabled={printingWorkOrder}
+              style={{
+                background: 'transparent',
+                border: '1px solid #0277bd',
+                color: '#0277bd',
+                borderRadius: 20,
+                padding: '0.4rem 1rem',
+                fontWeight: 600,
+                fontSize: 15,
+                cursor: printingWorkOrder ? 'wait' : 'pointer'
+              }}
+              title="Download a printable work order for field crews"
+            >
+              {printingWorkOrder ? 'Preparing…' : '🖨️ Work Order'}
+            </button>
           </div>
 
           {/* Show flag status if flagged */}
@@ -590,6 +642,25 @@ const IncidentDetail: React.FC = () => {
             </div>
           )}
 
+          {/* Show why the SLA clock is stopped */}
+          {incident.status === 'Paused' && (
+            <div style={{
+              background: '#f3e5f5',
+              padding: '10px 15px',
+              borderRadius: 6,
+              marginBottom: 16,
+              border: '1px solid #e1bee7'
+            }}>
+              <div style={{ fontWeight: 600, color: '#6a1b9a' }}>
+                ⏸ SLA paused: {getPauseReasonText(incident.pauseReason)}
+                {toDate(incident.pausedAt) && ` since ${toDate(incident.pausedAt)!.toLocaleString()}`}
+              </div>
+              {incident.pauseNote && (
+                <div style={{ fontSize: 14, marginTop: 4 }}>{incident.pauseNote}</div>
+              )}
+            </div>
+          )}
+
           {/* Display merged info at the top if this is a merged report */}
           {incident.status === 'Merged' && incident.mergedInto && (
             <div style={{
@@ -617,6 +688,23 @@ const IncidentDetail: React.FC = () => {
               >
                 View Merged Report
               </button>
+              {can('incident.merge') && (
+                <button
+                  onClick={handleUnmerge}
+                  style={{
+                    marginLeft: 8,
+                    background: 'white',
+                    color: '#0069d9',
+                    border: '1px solid #0069d9',
+                    borderRadius: 4,
+                    padding: '6px 12px',
+                    fontSize: 14,
+                    cursor: 'pointer'
+                  }}
+                >
+                  Unmerge
+                </button>
+              )}
             </div>
           )}
 
@@ -634,7 +722,7 @@ const IncidentDetail: React.FC = () => {
                 Merged Reports ({mergedReports.length})
               </h4>
               <div style={{ maxHeight: '150px', overflowY: 'auto', marginBottom: '12px' }}>
-                {mergedReports.map((report: any, index: number) => (
+                {mergedReports.map((report, index) => (
                   <div key={index} style={{
                     display: 'flex',
                     justifyContent: 'space-between',
@@ -729,11 +817,71 @@ const IncidentDetail: React.FC = () => {
           <div style={{ marginBottom: 10, fontSize: 17 }}>
             <b>Contact:</b> {incident.contact}
           </div>
+          <div style={{ marginBottom: 10, fontSize: 17, display: 'flex', alignItems: 'center' }}>
+            <b>Assigned To:</b>
+            <span style={{ marginLeft: 8, color: incident.assignedTo || incident.team ? '#222' : '#888' }}>
+              {formatAssignment(incident)}
+            </span>
+            <button
+              onClick={() => setShowAssignModal(true)}
+              disabled={assignDisabled}
+              style={{
+                marginLeft: 12,
+                padding: '4px 12px',
+                background: assignDisabled ? '#eee' : '#e1f5fe',
+                color: assignDisabled ? '#999' : '#0277bd',
+                border: 'none',
+                borderRadius: 4,
+                fontSize: 14,
+                fontWeight: 600,
+                cursor: assignDisabled ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {incident.assignedTo || incident.team ? 'Reassign' : 'Assign'}
+            </button>
+            {currentStaff && incident.assignedTo !== currentStaff.email && !assignDisabled && (
+              <button
+                onClick={() => handleAssign({
+                  assignedTo: currentStaff.email,
+                  assignedToName: currentStaff.name || currentStaff.email,
+                  team: incident.team || currentStaff.team
+                }, '')}
+                disabled={assigning}
+                style={{
+                  marginLeft: 8,
+                  padding: '4px 12px',
+                  background: 'white',
+                  color: '#0277bd',
+                  border: '1px solid #0277bd',
+                  borderRadius: 4,
+                  fontSize: 14,
+                  cursor: assigning ? 'not-allowed' : 'pointer'
+                }}
+              >
+                Assign to me
+              </button>
+            )}
+          </div>
+          {assignmentHistory.length > 0 && (
+            <div style={{ marginBottom: 10, fontSize: 14, color: '#666' }}>
+              <b>Assignment History:</b>
+              <ul style={{ margin: '4px 0 0 0', paddingLeft: 20 }}>
+                {assignmentHistory.slice().reverse().map((entry, index) => (
+                  <li key={index}>
+                    {formatDate(entry.assignedAt)}: {formatAssignment(entry)}
+                    {entry.assignedBy && ` by ${entry.assignedBy}`}
+                    {entry.note && <span style={{ fontStyle: 'italic' }}> ({entry.note})</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div style={{ marginBottom: 10, fontSize: 17 }}>
             <b>Severity:</b>
             <select
               value={normalizeSeverity(incident.severity)}
               onChange={(e) => handleSeverityChange(e.target.value as 'Low' | 'Medium' | 'High' | 'Critical')}
+              disabled={!can('incident.changeSeverity')}
               style={{
                 marginLeft: 8,
                 padding: '0.3rem 1rem',
@@ -744,10 +892,10 @@ const IncidentDetail: React.FC = () => {
                 fontWeight: 600
               }}
             >
-              <option value="Low" style={{ color: getSeverityColor('Low') }}>Low (7 days)</option>
-              <option value="Medium" style={{ color: getSeverityColor('Medium') }}>Medium (5 days)</option>
-              <option value="High" style={{ color: getSeverityColor('High') }}>High (3 days)</option>
-              <option value="Critical" style={{ color: getSeverityColor('Critical') }}>Critical (1 day)</option>
+              <option value="Low" style={{ color: getSeverityColor('Low') }}>Low ({describeSlaTimeframe(resolveSla('Low'))})</option>
+              <option value="Medium" style={{ color: getSeverityColor('Medium') }}>Medium ({describeSlaTimeframe(resolveSla('Medium'))})</option>
+              <option value="High" style={{ color: getSeverityColor('High') }}>High ({describeSlaTimeframe(resolveSla('High'))})</option>
+              <option value="Critical" style={{ color: getSeverityColor('Critical') }}>Critical ({describeSlaTimeframe(resolveSla('Critical'))})</option>
             </select>
           </div>
           <div style={{ marginBottom: 18, fontSize: 17 }}>
@@ -757,7 +905,8 @@ const IncidentDetail: React.FC = () => {
               fontWeight: 600,
               marginLeft: 8
             }}>
-              {getTimeRemaining(incident.deadline, incident.status, true)}
+              {getTimeRemaining(incident.deadline, incident.status, true, undefined,
+                resolveSla(incident.severity).businessHoursOnly ? slaCalendar : undefined)}
             </span>
           </div>
 
@@ -772,9 +921,7 @@ const IncidentDetail: React.FC = () => {
               {incident.status === 'Completed' && incident.completedAt
                 ? (() => {
                   // Calculate time elapsed from report to completion
-                  const startDate = incident.timestamp instanceof Timestamp
-                    ? incident.timestamp.toDate()
-                    : new Date(incident.timestamp.seconds * 1000);
+                  const startDate = toDate(incident.timestamp) || new Date();
 
                   const endDate = incident.completedAt instanceof Timestamp
                     ? incident.completedAt.toDate()
@@ -797,9 +944,7 @@ const IncidentDetail: React.FC = () => {
                 })()
                 : (() => {
                   // Calculate time elapsed from report until now
-                  const startDate = incident.timestamp instanceof Timestamp
-                    ? incident.timestamp.toDate()
-                    : new Date(incident.timestamp.seconds * 1000);
+                  const startDate = toDate(incident.timestamp) || new Date();
 
                   const now = new Date();
                   const diffMs = now.getTime() - startDate.getTime();
@@ -869,40 +1014,83 @@ const IncidentDetail: React.FC = () => {
           <div style={{ marginTop: 30, display: 'flex', gap: 16 }}>
             <button
               onClick={handleUpdateIncidentProgress}
-              disabled={incident.status === 'Completed'}
+              disabled={updateDisabled}
               style={{
                 flex: 1,
-                background: incident.status === 'Completed' ? '#ccc' : '#0277bd',
+                background: updateDisabled ? '#ccc' : '#0277bd',
                 color: 'white',
                 border: 'none',
                 borderRadius: 8,
                 padding: '14px',
                 fontSize: 16,
                 fontWeight: 600,
-                cursor: incident.status === 'Completed' ? 'not-allowed' : 'pointer',
-                boxShadow: incident.status === 'Completed' ? 'none' : '0 2px 4px rgba(0,0,0,0.1)'
+                cursor: updateDisabled ? 'not-allowed' : 'pointer',
+                boxShadow: updateDisabled ? 'none' : '0 2px 4px rgba(0,0,0,0.1)'
               }}
             >
               Update Progress
             </button>
             <button
               onClick={handleMarkAsCompleted}
-              disabled={incident.status === 'Completed'}
+              disabled={updateDisabled}
               style={{
                 flex: 1,
-                background: incident.status === 'Completed' ? '#ccc' : '#2e7d32',
+                background: updateDisabled ? '#ccc' : '#2e7d32',
                 color: 'white',
                 border: 'none',
                 borderRadius: 8,
                 padding: '14px',
                 fontSize: 16,
                 fontWeight: 600,
-                cursor: incident.status === 'Completed' ? 'not-allowed' : 'pointer',
-                boxShadow: incident.status === 'Completed' ? 'none' : '0 2px 4px rgba(0,0,0,0.1)'
+                cursor: updateDisabled ? 'not-allowed' : 'pointer',
+                boxShadow: updateDisabled ? 'none' : '0 2px 4px rgba(0,0,0,0.1)'
               }}
             >
               {incident.status === 'Completed' ? 'Resolved' : 'Mark as Resolved'}
             </button>
+            {incident.status === 'Paused' ? (
+              <button
+                onClick={handleResumeSla}
+                disabled={pausing || !canUpdate}
+                style={{
+                  flex: 1,
+                  background: pausing || !canUpdate ? '#ccc' : '#8e24aa',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: 8,
+                  padding: '14px',
+                  fontSize: 16,
+                  fontWeight: 600,
+                  cursor: pausing || !canUpdate ? 'not-allowed' : 'pointer',
+                  boxShadow: pausing || !canUpdate ? 'none' : '0 2px 4px rgba(0,0,0,0.1)'
+                }}
+              >
+                Resume SLA
+              </button>
+            ) : (
+              <button
+                onClick={() => setShowPauseModal(true)}
+                disabled={pauseDisabled}
+                style={{
+                  flex: 1,
+                  background: 'white',
+                  color: pauseDisabled ? '#ccc' : '#8e24aa',
+                  border: `2px solid ${pauseDisabled ? '#ccc' : '#8e24aa'}`,
+                  borderRadius: 8,
+                  padding: '14px',
+                  fontSize: 16,
+                  fontWeight: 600,
+                  cursor: pauseDisabled ? 'not-allowed' : 'pointer'
+                }}
+              >
+                Pause SLA
+              </button>
+            )}
+          </div>
+
+          {/* Activity history from the incident's event log */}
+          <div style={{ marginTop: 30, paddingTop: 15, borderTop: '1px solid #eaeaea' }}>
+            <IncidentHistory incidentId={incident.id} />
           </div>
         </div>
       </div>
@@ -915,6 +1103,25 @@ const IncidentDetail: React.FC = () => {
         isSubmitting={flagging}
       />
 
+      {/* Pause SLA Modal */}
+      <PauseSlaModal
+        isOpen={showPauseModal}
+        onClose={() => setShowPauseModal(false)}
+        onConfirm={handlePauseSla}
+        isSubmitting={pausing}
+      />
+
+      {/* Assign Incident Modal */}
+      <AssignIncidentModal
+        isOpen={showAssignModal}
+        staff={staffMembers}
+        crews={getCrews(staffMembers)}
+        current={incident}
+        onClose={() => setShowAssignModal(false)}
+        onConfirm={handleAssign}
+        isSubmitting={assigning}
+      />
+
       {/* Severity Change Modal */}
       <SeverityChangeModal
         isOpen={showSeverityModal}
@@ -928,8 +1135,13 @@ const IncidentDetail: React.FC = () => {
         currentSeverity={incident.severity}
         newSeverity={pendingSeverity || 'Low'}
         incident={incident}
+        slaPolicies={slaPolicies}
+        slaCalendar={slaCalendar}
       />
 
+      {/* Password prompt before unmerging */}
+      <ReauthModal {...reauthModalProps} />
+
       <Footer />
     </div>
   );
@@ -1,262 +1,340 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Footer from '../components/Footer';
-import { collection, query, where, getDocs, doc as firestoreDoc, updateDoc } from 'firebase/firestore';
-import { db, auth } from '../config/firebase';
-import { onAuthStateChanged } from 'firebase/auth';
-import { Timestamp } from 'firebase/firestore';
-import { useNavigate } from 'react-router-dom';
+import BulkActionsBar from '../components/BulkActionsBar';
+import ExportMenu from '../components/ExportMenu';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   formatDate,
   getTimeRemaining,
   statusColors,
-  calculateDeadline,
-  isOverdue,
-  determineSeverityFromType,
   getSeverityColor,
-  formatSeverity
+  formatSeverity,
+  formatAssignment,
+  IncidentDetailData
 } from '../utils/incidentUtils';
 import { getAllIncidentTypes, IncidentTypeConfig } from '../utils/incidentTypeUtils';
+import { reportRepository, slaCalendarRepository, slaPolicyRepository } from '../repositories';
+import { Report, ReportCursor, ReportFilter, ReportSort, ReportStatus, Severity } from '../types/report';
+import { AssignmentFilter, IncidentViewFilters } from '../types/incidentView';
+import { SlaCalendar } from '../types/slaCalendar';
+import { SlaPolicy } from '../types/slaPolicy';
+import { calculateReportDeadline, resolveSlaPolicy } from '../utils/slaPolicyUtils';
+import { getDefaultSlaCalendar } from '../utils/slaCalendar';
+import { getPauseReasonText } from '../utils/slaPause';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { HIGHLIGHT_COLORS, useLiveReports } from '../hooks/useLiveReports';
+import { useSavedIncidentViews } from '../hooks/useSavedIncidentViews';
+import { filtersFromSearchParams, filtersToSearchParams, hasViewFilters, isSameView } from '../utils/incidentViews';
+
+type Incident = Pick<IncidentDetailData, 'id' | 'incidentType' | 'status' | 'dateReported' | 'deadline' | 'mergedInto'> & {
+  // The stored severity, which the severity filter queries; unset until the SLA sweeper stores one
+  severity?: Severity;
+  timestamp?: Report['timestamp'];
+  // Set when the incident's SLA policy only counts business hours
+  slaCalendar?: SlaCalendar;
+  pauseReason?: Report['pauseReason'];
+} & Pick<Report, 'municipal' | 'assignedTo' | 'assignedToName' | 'team'>;
 
-interface Incident {
-  id: string;
-  incidentType: string;
-  status: 'New' | 'In Progress' | 'Overdue' | 'Completed' | 'Merged';
-  severity: 'Low' | 'Medium' | 'High' | 'Critical';
-  dateReported: string;
-  deadline?: any;
-  timestamp?: any;
-  mergedInto?: string; // ID of the parent report this one is merged into
+const REPORTS_PER_PAGE = 50;
+
+// Wait for typing to pause before running the search queries
+const SEARCH_DELAY_MS = 300;
+
+// What the search box resolves to: one report by id, or the incident types it names
+interface SearchQuery {
+  id?: string;
+  incidentTypes?: string[];
 }
 
-type SortOption = 'newest' | 'oldest' | '';
+// Cursors for the start of each page visited, so Previous can go back
+interface Paging {
+  filter: ReportFilter | null;
+  sort: ReportSort;
+  cursors: (ReportCursor | undefined)[];
+}
 
-const REPORTS_PER_PAGE = 50;
+interface SlaConfig {
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+}
+
+const selectStyle: React.CSSProperties = { flex: 1, padding: '0.7rem 1rem', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 };
+
+const tabStyle = (active: boolean): React.CSSProperties => ({
+  padding: '0.5rem 1.1rem',
+  borderRadius: 20,
+  border: active ? '1px solid #1976d2' : '1px solid #ddd',
+  background: active ? '#1976d2' : '#fff',
+  color: active ? '#fff' : '#222',
+  fontWeight: 500,
+  fontSize: 14,
+  cursor: 'pointer'
+});
+
+const linkButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#1976d2',
+  fontSize: 14,
+  cursor: 'pointer',
+  padding: '0.5rem'
+};
+
+const toIncident = (report: Report, { policies, calendars }: SlaConfig): Incident => {
+  const severity = report.severity;
+
+  // Deadline and Overdue state are maintained by the SLA sweeper.
+  // Only fall back to a locally calculated deadline for display until it has run.
+  const calendar = calendars[report.municipal] || getDefaultSlaCalendar(report.municipal);
+  const sla = resolveSlaPolicy(policies, { municipal: report.municipal, incidentType: report.incidentType, severity: severity || 'Low' });
+  const deadline = report.deadline || calculateReportDeadline(report, policies, calendar);
+
+  return {
+    id: report.id,
+    municipal: report.municipal,
+    incidentType: report.incidentType,
+    status: report.reportState,
+    severity: severity,
+    dateReported: formatDate(report.timestamp),
+    deadline: deadline,
+    timestamp: report.timestamp, // Store original timestamp for time calculations
+    mergedInto: report.mergedInto || '', // Store the ID of the parent report (if merged)
+    slaCalendar: sla.businessHoursOnly ? calendar : undefined,
+    pauseReason: report.pauseReason,
+    assignedTo: report.assignedTo,
+    assignedToName: report.assignedToName,
+    team: report.team
+  };
+};
 
 const Incidents: React.FC = () => {
   const [incidents, setIncidents] = useState<Incident[]>([]);
-  const [search, setSearch] = useState('');
-  const [statusFilter, setStatusFilter] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('');
-  const [dateSort, setDateSort] = useState<SortOption>('');
-  const [loading, setLoading] = useState(true);
-  const [municipal, setMunicipal] = useState<string>('');
-  const [currentPage, setCurrentPage] = useState(1);
+  // Filters live in the query string so they survive navigation and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const search = filters.search || '';
+  const statusFilter = filters.status || '';
+  const categoryFilter = filters.category || '';
+  const severityFilter = filters.severity || '';
+  const assignmentFilter = filters.assignment || '';
+  const dateSort: ReportSort = filters.sort || 'newest';
+  const [searchQuery, setSearchQuery] = useState<SearchQuery | null>(null);
+  const [defaultApplied, setDefaultApplied] = useState(false);
+  const [viewError, setViewError] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [slaConfig, setSlaConfig] = useState<SlaConfig | null>(null);
+  const [paging, setPaging] = useState<Paging>({ filter: null, sort: 'newest', cursors: [undefined] });
+  const [totalCount, setTotalCount] = useState<number | null>(null);
   const [categories, setCategories] = useState<IncidentTypeConfig[]>([]);
   const navigate = useNavigate();
+  const { staff, can } = useCurrentStaff();
+  // Saving a view reloads the profile; the filter only depends on these, so paging and the live query carry on
+  const staffEmail = staff?.email;
+  const staffTeam = staff?.team;
+  const { scope, isAggregate, municipalities } = useMunicipalScope();
+  const { views, defaultViewId, loaded: viewsLoaded, saveView, deleteView, setDefaultView } = useSavedIncidentViews();
+
+  // A view's municipality narrows the NavBar scope, as long as the staff member covers it
+  const viewMunicipal = filters.municipal && municipalities.includes(filters.municipal) ? filters.municipal : undefined;
+  const listScope = viewMunicipal || scope;
+  const showMunicipality = isAggregate && !viewMunicipal;
+
+  // Typing in the search box replaces the history entry rather than adding one per key
+  const updateFilters = (changes: IncidentViewFilters, replace = false) => {
+    setSearchParams(filtersToSearchParams({ ...filters, ...changes }), { replace });
+  };
 
+  // Opening Incidents without filters in the URL shows the staff member's default view
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      if (!currentUser) {
-        setMunicipal('');
-        return;
-      }
-      const fetchUserMunicipal = async () => {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          setMunicipal(userDoc.municipal);
-        }
-      };
-      fetchUserMunicipal();
-    });
-    return () => unsubscribe();
+    if (defaultApplied || !viewsLoaded) return;
+    const defaultView = views.find(view => view.id === defaultViewId);
+    if (defaultView && !hasViewFilters(searchParams)) {
+      setSearchParams(filtersToSearchParams(defaultView.filters), { replace: true });
+    }
+    setDefaultApplied(true);
+  }, [defaultApplied, viewsLoaded, views, defaultViewId, searchParams, setSearchParams]);
+
+  const activeView = views.find(view => isSameView(view.filters, filters));
+  const isUnfiltered = Object.keys(filters).length === 0;
+
+  const handleSaveView = async () => {
+    const name = window.prompt('Name this view, e.g. "Critical overdue in Ward 3"')?.trim();
+    if (!name) return;
+    setViewError('');
+    try {
+      await saveView(name, filters);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      setViewError('Failed to save view.');
+    }
+  };
+
+  const handleViewChange = async (change: () => Promise<void>) => {
+    setViewError('');
+    try {
+      await change();
+    } catch (error) {
+      console.error('Error updating saved views:', error);
+      setViewError('Failed to update saved views.');
+    }
+  };
+
+  // Policies and calendars for every municipality; each report is matched to its own
+  useEffect(() => {
+    const fetchSlaConfig = async () => {
+      const [policies, calendars] = await Promise.all([
+        slaPolicyRepository.list().catch(error => {
+          console.error('Error loading SLA policies:', error);
+          return [];
+        }),
+        slaCalendarRepository.list().catch((error): Record<string, SlaCalendar> => {
+          console.error('Error loading SLA calendars:', error);
+          return {};
+        })
+      ]);
+      setSlaConfig({ policies, calendars });
+    };
+    fetchSlaConfig();
   }, []);
 
+  // The search box is backed by queries: an exact report id, or else the incident types it names
   useEffect(() => {
-    const fetchIncidents = async () => {
-      if (!municipal) return;
-      setLoading(true);
-      const q = query(collection(db, 'reports'), where('municipal', '==', municipal));
-      const querySnapshot = await getDocs(q);
-
-      // Process all incidents with Promise.all to handle asynchronous severity determination
-      const incidentPromises = querySnapshot.docs.map(async (docSnapshot) => {
-        const d = docSnapshot.data();
-
-        // Determine severity based on incident type if not set
-        let severity = d.severity;
-        if (!severity && d.incidentType) {
-          try {
-            severity = await determineSeverityFromType(d.incidentType);
-
-            // If severity changed, update the document
-            if (severity !== d.severity) {
-              console.log(`Updating severity for ${docSnapshot.id} from ${d.severity || 'unset'} to ${severity} based on type ${d.incidentType}`);
-              const docRef = firestoreDoc(db, 'reports', docSnapshot.id);
-              await updateDoc(docRef, { severity });
-            }
-          } catch (error) {
-            console.error(`Error determining severity for incident ${docSnapshot.id}:`, error);
-            severity = d.severity || 'Low';
-          }
-        } else {
-          severity = d.severity || 'Low';
-        }
-
-        // Get the current status
-        let status = d.reportState || 'New';
-
-        // Calculate deadline based on severity and report time
-        const deadline = calculateDeadline(d.timestamp, severity);
-
-        // Check if the incident is overdue
-        const shouldBeOverdue = isOverdue(deadline, status);
-
-        // If overdue, update status
-        if (shouldBeOverdue && status !== 'Completed' && status !== 'Merged') {
-          status = 'Overdue';
-
-          // Update status in Firestore
-          try {
-            const docRef = firestoreDoc(db, 'reports', docSnapshot.id);
-            await updateDoc(docRef, {
-              reportState: status,
-              deadline: deadline ? Timestamp.fromDate(deadline) : null
-            });
-            console.log(`Updated status for incident ${docSnapshot.id} to Overdue`);
-          } catch (e) {
-            console.error(`Failed to update status for incident ${docSnapshot.id}:`, e);
-          }
-        }
-
-        return {
-          id: docSnapshot.id,
-          incidentType: d.incidentType || '',
-          status: status,
-          severity: severity,
-          dateReported: formatDate(d.timestamp),
-          deadline: deadline,
-          timestamp: d.timestamp, // Store original timestamp for time calculations
-          mergedInto: d.mergedInto || '' // Store the ID of the parent report (if merged)
-        } as Incident;
-      });
-
-      // Wait for all promises to resolve
-      const data = await Promise.all(incidentPromises);
-
-      setIncidents(data);
-      setLoading(false);
-
-      // Reset to first page when data changes
-      setCurrentPage(1);
+    const term = search.trim();
+    if (!term) {
+      setSearchQuery(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const byId = /^[\w-]+$/.test(term) ? await reportRepository.get(term).catch(() => null) : null;
+      if (cancelled) return;
+      const lower = term.toLowerCase();
+      setSearchQuery(byId
+        ? { id: byId.id }
+        : { incidentTypes: categories.map(c => c.name).filter(name => name.toLowerCase().includes(lower)) });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
     };
-    fetchIncidents();
-  }, [municipal]);
+  }, [search, categories]);
+
+  // Filters run as Firestore queries; listening waits for the SLA configuration
+  // so every report can be given a deadline
+  const reportFilter = useMemo((): ReportFilter | null => {
+    if (!slaConfig || !defaultApplied || listScope.length === 0) return null;
+    const filter: ReportFilter = { municipal: listScope };
+    if (statusFilter) filter.reportState = statusFilter;
+    if (categoryFilter) filter.incidentType = categoryFilter;
+    if (severityFilter) filter.severity = severityFilter;
+    if (searchQuery?.id) filter.id = searchQuery.id;
+    if (searchQuery?.incidentTypes) {
+      filter.incidentType = categoryFilter
+        ? searchQuery.incidentTypes.filter(type => type === categoryFilter)
+        : searchQuery.incidentTypes;
+    }
+    if (assignmentFilter === 'me' && staffEmail) filter.assignedTo = staffEmail;
+    if (assignmentFilter === 'team' && staffTeam) filter.team = staffTeam;
+    if (assignmentFilter === 'unassigned') filter.unassigned = true;
+    return filter;
+  }, [slaConfig, defaultApplied, listScope, statusFilter, categoryFilter, severityFilter, searchQuery, assignmentFilter, staffEmail, staffTeam]);
+
+  // Changing the filter or sort starts again from the first page
+  const cursors = paging.filter === reportFilter && paging.sort === dateSort ? paging.cursors : [undefined];
+  const pageIndex = cursors.length - 1;
+  const after = cursors[pageIndex];
+  const pageOptions = useMemo(() => ({ sort: dateSort, pageSize: REPORTS_PER_PAGE, after }), [dateSort, after]);
+
+  const { reports, changes, highlights, hasMore, loading: reportsLoading } = useLiveReports(reportFilter, pageOptions);
+  const [processing, setProcessing] = useState(true);
+  const loading = reportsLoading || processing;
+
+  // Only reports that arrived or changed since the last snapshot are reprocessed
+  useEffect(() => {
+    if (!changes || !slaConfig) return;
+    const byId = new Map(reports.map(r => [r.id, r]));
+    const changed = [...changes.added, ...changes.modified]
+      .map(id => byId.get(id))
+      .filter((r): r is Report => !!r);
+
+    const updated = changed.map(report => toIncident(report, slaConfig));
+    setIncidents(prev => {
+      const next = new Map(changes.initial ? [] : prev.map(inc => [inc.id, inc]));
+      changes.removed.forEach(id => next.delete(id));
+      updated.forEach(inc => next.set(inc.id, inc));
+      return Array.from(next.values());
+    });
+    setProcessing(false);
+  }, [changes, reports, slaConfig]);
 
-  // Reset to first page when filters change
+  // Count queries are cheap, so the total is refreshed whenever reports arrive or leave
   useEffect(() => {
-    setCurrentPage(1);
-  }, [search, statusFilter, categoryFilter, dateSort]);
-
-  // Filtering and sorting logic
-  const filteredIncidents = incidents.filter(inc => {
-    // Split incident types by common separators and trim whitespace
-    const incidentTypes = inc.incidentType.split(/[,;\/]/).map(type => type.trim());
-
-    return (
-      (!search || inc.incidentType.toLowerCase().includes(search.toLowerCase()) || inc.id.includes(search)) &&
-      (!statusFilter || inc.status === statusFilter) &&
-      (!categoryFilter || incidentTypes.includes(categoryFilter))
-    );
-  });
-
-  // Create a map to group merged reports with their parents
-  const getMergedGroupsMap = () => {
-    const mergedMap = new Map<string, Incident[]>();
-
-    // Find all merged reports and group them by parent ID
-    filteredIncidents.forEach(inc => {
-      if (inc.status === 'Merged' && inc.mergedInto) {
-        if (!mergedMap.has(inc.mergedInto)) {
-          mergedMap.set(inc.mergedInto, []);
-        }
-        mergedMap.get(inc.mergedInto)?.push(inc);
-      }
+    if (!reportFilter || !changes) return;
+    if (!changes.initial && changes.added.length === 0 && changes.removed.length === 0) return;
+    reportRepository.count(reportFilter).then(setTotalCount).catch(error => {
+      console.error('Error counting incidents:', error);
+      setTotalCount(null);
     });
+  }, [reportFilter, changes]);
 
-    return mergedMap;
+  const goToNextPage = () => {
+    const last = reports[reports.length - 1];
+    if (!last?.timestamp) return;
+    setPaging({ filter: reportFilter, sort: dateSort, cursors: [...cursors, { timestamp: last.timestamp, id: last.id }] });
   };
 
-  // Sort incidents with merged reports grouped under their parents
-  const getSortedIncidents = () => {
-    const mergedGroupsMap = getMergedGroupsMap();
-
-    // First, get all non-merged reports
-    const mainReports = filteredIncidents.filter(inc => inc.status !== 'Merged');
-
-    // Sort main reports first
-    mainReports.sort((a, b) => {
-      // First prioritize New status at the top
-      if (a.status === 'New' && b.status !== 'New') return -1;
-      if (a.status !== 'New' && b.status === 'New') return 1;
-
-      // First sort by status - completed goes to the bottom
-      if (a.status === 'Completed' && b.status !== 'Completed') return 1;
-      if (a.status !== 'Completed' && b.status === 'Completed') return -1;
-
-      // Then apply date sort if specified
-      if (dateSort !== '') {
-        // Convert timestamps to comparable values
-        const getTime = (timestamp: any) => {
-          if (timestamp instanceof Timestamp) return timestamp.toDate().getTime();
-          if (timestamp?.seconds) return timestamp.seconds * 1000;
-          if (timestamp instanceof Date) return timestamp.getTime();
-          return 0;
-        };
-
-        const timeA = getTime(a.timestamp);
-        const timeB = getTime(b.timestamp);
-
-        return dateSort === 'newest' ? timeB - timeA : timeA - timeB;
-      }
-
-      // Then prioritize overdue items
-      if (a.status === 'Overdue' && b.status !== 'Overdue') return -1;
-      if (a.status !== 'Overdue' && b.status === 'Overdue') return 1;
+  const goToPreviousPage = () => {
+    setPaging({ filter: reportFilter, sort: dateSort, cursors: cursors.slice(0, -1) });
+  };
 
-      return 0;
+  // Keep the query's order
+  const incidentsById = new Map(incidents.map(inc => [inc.id, inc]));
+  const pageIncidents = reports
+    .map(report => incidentsById.get(report.id))
+    .filter((inc): inc is Incident => !!inc);
+
+  // Merged reports are listed under their parent when both are on this page
+  const getGroupedIncidents = () => {
+    const onPage = new Set(pageIncidents.map(inc => inc.id));
+    const mergedByParent = new Map<string, Incident[]>();
+    pageIncidents.forEach(inc => {
+      if (inc.status === 'Merged' && inc.mergedInto && onPage.has(inc.mergedInto)) {
+        mergedByParent.set(inc.mergedInto, [...(mergedByParent.get(inc.mergedInto) || []), inc]);
+      }
     });
 
-    // Create the final sorted list with merged reports below their parents
     const result: Incident[] = [];
-
-    mainReports.forEach(report => {
-      result.push(report);
-
-      // If this report has merged reports, add them right after
-      if (mergedGroupsMap.has(report.id)) {
-        const mergedReports = mergedGroupsMap.get(report.id) || [];
-        // Sort merged reports by date (newest first)
-        mergedReports.sort((a, b) => {
-          const getTime = (timestamp: any) => {
-            if (timestamp instanceof Timestamp) return timestamp.toDate().getTime();
-            if (timestamp?.seconds) return timestamp.seconds * 1000;
-            if (timestamp instanceof Date) return timestamp.getTime();
-            return 0;
-          };
-
-          const timeA = getTime(a.timestamp);
-          const timeB = getTime(b.timestamp);
-
-          return timeB - timeA; // Newest first
-        });
-
-        result.push(...mergedReports);
-      }
+    pageIncidents.forEach(inc => {
+      if (inc.status === 'Merged' && inc.mergedInto && onPage.has(inc.mergedInto)) return;
+      result.push(inc, ...(mergedByParent.get(inc.id) || []));
     });
-
     return result;
   };
 
-  const sortedIncidents = getSortedIncidents();
+  const paginatedIncidents = getGroupedIncidents();
+
+  // Only rows on the current page stay selected
+  const selectedReports = reports.filter(report => selectedIds.has(report.id) && incidentsById.has(report.id));
+  const canBulkEdit = (['incident.assign', 'incident.changeSeverity', 'incident.update', 'incident.flag', 'incident.merge'] as const)
+    .some(permission => can(permission));
+  const allSelected = paginatedIncidents.length > 0 && paginatedIncidents.every(inc => selectedIds.has(inc.id));
+  const columnCount = 8 + (showMunicipality ? 1 : 0) + (canBulkEdit ? 1 : 0);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
 
-  // Pagination
-  const totalPages = Math.ceil(sortedIncidents.length / REPORTS_PER_PAGE);
-  const paginatedIncidents = sortedIncidents.slice(
-    (currentPage - 1) * REPORTS_PER_PAGE,
-    currentPage * REPORTS_PER_PAGE
-  );
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(paginatedIncidents.map(inc => inc.id)));
+  };
+
+  const totalPages = totalCount !== null ? Math.max(Math.ceil(totalCount / REPORTS_PER_PAGE), 1) : null;
 
   // Fetch incident types from database
   useEffect(() => {
@@ -274,38 +352,130 @@ const Incidents: React.FC = () => {
   return (
     <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
       <div style={{ flex: 1, width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        {/* Saved views */}
+        <div style={{ display: 'flex', gap: 8, marginBottom: 16, alignItems: 'center', flexWrap: 'wrap' }}>
+          <button onClick={() => setSearchParams(new URLSearchParams())} style={tabStyle(isUnfiltered)}>
+            All Incidents
+          </button>
+          {views.map(view => (
+            <button
+              key={view.id}
+              onClick={() => setSearchParams(filtersToSearchParams(view.filters))}
+              style={tabStyle(view.id === activeView?.id)}
+              title={view.id === defaultViewId ? 'Your default view' : undefined}
+            >
+              {view.id === defaultViewId && '★ '}{view.name}
+            </button>
+          ))}
+          <div style={{ flex: 1 }} />
+          {activeView ? (
+            <>
+              <button
+                onClick={() => handleViewChange(() => setDefaultView(activeView.id === defaultViewId ? undefined : activeView.id))}
+                style={linkButtonStyle}
+              >
+                {activeView.id === defaultViewId ? 'Remove as default' : 'Set as default'}
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the view "${activeView.name}"?`)) handleViewChange(() => deleteView(activeView.id));
+                }}
+                style={{ ...linkButtonStyle, color: '#e53935' }}
+              >
+                Delete view
+              </button>
+            </>
+          ) : !isUnfiltered && (
+            <button onClick={handleSaveView} style={linkButtonStyle}>Save as view</button>
+          )}
+          {can('incident.import') && (
+            <Link to="/incidents/import" style={{ ...linkButtonStyle, textDecoration: 'none' }}>Import</Link>
+          )}
+        </div>
+        {viewError && <div style={{ color: 'red', marginBottom: 16 }}>{viewError}</div>}
+
         <div style={{ display: 'flex', gap: 16, marginBottom: 32 }}>
           <input
             type="text"
-            placeholder="Search by keywords"
+            placeholder="Search by incident ID or type"
             value={search}
-            onChange={e => setSearch(e.target.value)}
+            onChange={e => updateFilters({ search: e.target.value || undefined }, true)}
             style={{ flex: 2, padding: '0.7rem 1rem', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 }}
           />
-          <select value={statusFilter} onChange={e => setStatusFilter(e.target.value)} style={{ flex: 1, padding: '0.7rem 1rem', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 }}>
+          {municipalities.length > 1 && (
+            <select
+              value={viewMunicipal || ''}
+              onChange={e => updateFilters({ municipal: e.target.value || undefined })}
+              style={selectStyle}
+            >
+              <option value="">Municipality</option>
+              {municipalities.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          )}
+          <select
+            value={statusFilter}
+            onChange={e => updateFilters({ status: (e.target.value || undefined) as ReportStatus | undefined })}
+            style={selectStyle}
+          >
             <option value="">Status</option>
             <option value="New">New</option>
             <option value="In Progress">In Progress</option>
+            <option value="Paused">Paused</option>
             <option value="Overdue">Overdue</option>
             <option value="Completed">Completed</option>
             <option value="Merged">Merged</option>
           </select>
-          <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} style={{ flex: 1, padding: '0.7rem 1rem', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 }}>
+          <select
+            value={severityFilter}
+            onChange={e => updateFilters({ severity: (e.target.value || undefined) as Severity | undefined })}
+            style={selectStyle}
+          >
+            <option value="">Severity</option>
+            <option value="Critical">Critical</option>
+            <option value="High">High</option>
+            <option value="Medium">Medium</option>
+            <option value="Low">Low</option>
+          </select>
+          <select value={categoryFilter} onChange={e => updateFilters({ category: e.target.value || undefined })} style={selectStyle}>
             <option value="">Category</option>
             {categories.map(cat => (
               <option key={cat.id} value={cat.name}>{cat.name}</option>
             ))}
           </select>
+          <select
+            value={assignmentFilter}
+            onChange={e => updateFilters({ assignment: (e.target.value || undefined) as AssignmentFilter | undefined })}
+            style={selectStyle}
+          >
+            <option value="">Assignment</option>
+            <option value="me">Assigned to me</option>
+            <option value="team" disabled={!staff?.team}>My team{staff?.team ? ` (${staff.team})` : ''}</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
           <select
             value={dateSort}
-            onChange={e => setDateSort(e.target.value as SortOption)}
-            style={{ flex: 1, padding: '0.7rem 1rem', borderRadius: 8, border: '1px solid #ddd', fontSize: 16 }}
+            onChange={e => updateFilters({ sort: e.target.value as ReportSort })}
+            style={selectStyle}
           >
-            <option value="">Sort by Date</option>
             <option value="newest">Newest First</option>
             <option value="oldest">Oldest First</option>
           </select>
+          <ExportMenu
+            filter={reportFilter}
+            sort={dateSort}
+            policies={slaConfig?.policies || []}
+            calendars={slaConfig?.calendars || {}}
+            style={selectStyle}
+          />
         </div>
+        {canBulkEdit && slaConfig && (
+          <BulkActionsBar
+            reports={selectedReports}
+            slaPolicies={slaConfig.policies}
+            slaCalendars={slaConfig.calendars}
+            onClearSelection={() => setSelectedIds(new Set())}
+          />
+        )}
         {loading ? (
           <div style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>Loading incidents...</div>
         ) : (
@@ -313,10 +483,17 @@ const Incidents: React.FC = () => {
             <table style={{ width: '100%', background: '#fff', borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', borderCollapse: 'separate', borderSpacing: 0 }}>
               <thead>
                 <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 16 }}>
+                  {canBulkEdit && (
+                    <th style={{ padding: '1rem 0 1rem 0.8rem', width: 24 }}>
+                      <input type="checkbox" checked={allSelected} onChange={toggleAllSelected} aria-label="Select all on this page" />
+                    </th>
+                  )}
                   <th style={{ padding: '1rem 0.5rem' }}>Incident ID</th>
+                  {showMunicipality && <th>Municipality</th>}
                   <th>Category</th>
                   <th>Status</th>
                   <th>Severity</th>
+                  <th>Assigned To</th>
                   <th>Time Remaining</th>
                   <th>Date Reported</th>
                   <th></th>
@@ -327,8 +504,20 @@ const Incidents: React.FC = () => {
                   <tr key={inc.id} style={{
                     borderTop: '1px solid #f0f0f0',
                     fontSize: 15,
-                    background: inc.status === 'Merged' ? '#f9f9f9' : 'transparent', // Lighter background for merged reports
+                    background: highlights[inc.id] ? HIGHLIGHT_COLORS[highlights[inc.id]]
+                      : inc.status === 'Merged' ? '#f9f9f9' : 'transparent', // Lighter background for merged reports
+                    transition: 'background 0.6s',
                   }}>
+                    {canBulkEdit && (
+                      <td style={{ paddingLeft: '0.8rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(inc.id)}
+                          onChange={() => toggleSelected(inc.id)}
+                          aria-label={`Select incident ${inc.id}`}
+                        />
+                      </td>
+                    )}
                     <td style={{
                       padding: '1rem 0.5rem',
                       paddingLeft: inc.status === 'Merged' ? '2rem' : '0.5rem' // Indent merged reports
@@ -336,17 +525,27 @@ const Incidents: React.FC = () => {
                       {inc.status === 'Merged' && <span style={{ color: '#888', marginRight: '8px' }}>↳</span>}
                       {inc.id}
                     </td>
+                    {showMunicipality && <td>{inc.municipal}</td>}
                     <td>{inc.incidentType}</td>
-                    <td style={{ color: statusColors[inc.status], fontWeight: inc.status !== 'Completed' ? 600 : 400 }}>{inc.status}</td>
-                    <td style={{ color: getSeverityColor(inc.severity), fontWeight: 600 }}>
-                      {formatSeverity(inc.severity)}
+                    <td
+                      style={{ color: statusColors[inc.status], fontWeight: inc.status !== 'Completed' ? 600 : 400 }}
+                      title={inc.status === 'Paused' ? getPauseReasonText(inc.pauseReason) : undefined}
+                    >
+                      {inc.status}
+                    </td>
+                    <td style={{ color: getSeverityColor(inc.severity || ''), fontWeight: 600 }}>
+                      {inc.severity ? formatSeverity(inc.severity) : '-'}
+                    </td>
+                    <td style={{ color: inc.assignedTo || inc.team ? 'inherit' : '#888' }}>
+                      {formatAssignment(inc)}
                     </td>
                     <td style={{
                       color: inc.status === 'Overdue' ? '#e53935' :
-                        inc.status === 'Completed' ? '#43a047' : '#2ec4b6',
+                        inc.status === 'Completed' ? '#43a047' :
+                          inc.status === 'Paused' ? statusColors['Paused'] : '#2ec4b6',
                       fontWeight: 600
                     }}>
-                      {getTimeRemaining(inc.deadline, inc.status)}
+                      {getTimeRemaining(inc.deadline, inc.status, false, undefined, inc.slaCalendar)}
                     </td>
                     <td>{inc.dateReported}</td>
                     <td>
@@ -360,44 +559,44 @@ const Incidents: React.FC = () => {
                   </tr>
                 ))}
                 {paginatedIncidents.length === 0 && !loading && (
-                  <tr><td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No incidents found.</td></tr>
+                  <tr><td colSpan={columnCount} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No incidents found.</td></tr>
                 )}
               </tbody>
             </table>
 
             {/* Pagination controls */}
-            {totalPages > 1 && (
+            {(pageIndex > 0 || hasMore) && (
               <div style={{ display: 'flex', justifyContent: 'center', margin: '24px 0' }}>
                 <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
                   <button
-                    onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                    disabled={currentPage === 1}
+                    onClick={goToPreviousPage}
+                    disabled={pageIndex === 0}
                     style={{
                       padding: '8px 16px',
                       borderRadius: '8px',
                       border: '1px solid #ddd',
                       background: '#fff',
-                      cursor: currentPage === 1 ? 'default' : 'pointer',
-                      opacity: currentPage === 1 ? 0.5 : 1
+                      cursor: pageIndex === 0 ? 'default' : 'pointer',
+                      opacity: pageIndex === 0 ? 0.5 : 1
                     }}
                   >
                     Previous
                   </button>
 
                   <div style={{ margin: '0 16px' }}>
-                    Page {currentPage} of {totalPages}
+                    Page {pageIndex + 1}{totalPages !== null && ` of ${totalPages}`}
                   </div>
 
                   <button
-                    onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                    disabled={currentPage === totalPages}
+                    onClick={goToNextPage}
+                    disabled={!hasMore}
                     style={{
                       padding: '8px 16px',
                       borderRadius: '8px',
                       border: '1px solid #ddd',
                       background: '#fff',
-                      cursor: currentPage === totalPages ? 'default' : 'pointer',
-                      opacity: currentPage === totalPages ? 0.5 : 1
+                      cursor: hasMore ? 'pointer' : 'default',
+                      opacity: hasMore ? 1 : 0.5
                     }}
                   >
                     Next
@@ -1,23 +1,65 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { db, auth } from '../config/firebase';
-import { collection, query, where, getDocs, doc, updateDoc } from 'firebase/firestore';
-import { signInWithEmailAndPassword, updatePassword as firebaseUpdatePassword } from 'firebase/auth';
-import { rateLimiter } from '../utils/rateLimiter';
-import { logAuditEvent, AuditEventType, getClientInfo } from '../utils/auditLogger';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { sendPasswordResetEmail, signInWithCustomToken, signOut } from 'firebase/auth';
+import { requestStaffLogin } from '../utils/rateLimiter';
+import { linkStaffAccount } from '../utils/staffUtils';
+import { isPasswordExpired, meetsPasswordPolicy } from '../utils/passwordPolicy';
+import { changeStaffPassword } from '../utils/passwords';
+import PasswordChecklist from '../components/PasswordChecklist';
+import { needsNewPassword, useStaffSession } from '../hooks/useStaffSession';
 import { FaEye, FaEyeSlash } from 'react-icons/fa';
 
 // Forgot Password Modal Component
+// The reset email's action URL must point at /reset-password (Authentication > Templates
+// in the Firebase console) so the new password goes through the password policy.
 const ForgotPasswordModal = ({ onClose }: { onClose: () => void }) => {
+  const [resetEmail, setResetEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      await sendPasswordResetEmail(auth, resetEmail, { url: `${window.location.origin}/` });
+    } catch (error) {
+      // Shown the same either way so the form does not reveal which emails have accounts
+      console.error('Password reset email failed:', error);
+    }
+    setSending(false);
+    setSent(true);
+  };
+
   return (
     <div style={modalOverlayStyle}>
       <div style={modalStyle}>
         <h3 style={{ marginTop: 0, marginBottom: '1rem' }}>Password Reset</h3>
-        <p>
-          For security reasons, staff password resets must be handled by an administrator.
-        </p>
-        <p>
-          Please contact your system administrator to reset your password.
+        {sent ? (
+          <p>
+            If a staff account exists for {resetEmail}, a link to choose a new password has been sent to it.
+          </p>
+        ) : (
+          <form onSubmit={handleSend}>
+            <p>
+              Enter your staff email and we will send you a link to choose a new password.
+            </p>
+            <input
+              type="email"
+              placeholder="Email"
+              value={resetEmail}
+              onChange={e => setResetEmail(e.target.value)}
+              required
+              style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+            />
+            <button type="submit" style={{ ...buttonStyle, width: '100%' }} disabled={sending}>
+              {sending ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+        <p style={{ color: '#666', fontSize: '0.9rem' }}>
+          No access to your email? Contact your system administrator to reset your password.
         </p>
         
         <div style={{ marginTop: '1.5rem', display: 'flex', justifyContent: 'flex-end' }}>
@@ -49,117 +91,110 @@ const MunicipalStaffLogin: React.FC = () => {
   const [showReset, setShowReset] = useState(false);
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [userDocId, setUserDocId] = useState('');
+  // Shown on the reset form when the password is past its maximum age
+  const [passwordExpired, setPasswordExpired] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [_, setRemainingAttempts] = useState(5);
   const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [iconHover, setIconHover] = useState(false);
   const [iconHoverNew, setIconHoverNew] = useState(false);
   const [iconHoverConfirm, setIconHoverConfirm] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  // Second step for staff with an authenticator app enrolled
+  const [mfaStep, setMfaStep] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const navigate = useNavigate();
+  const { status, user: sessionUser } = useStaffSession();
+  // After a reload the email field is empty, so the password checks use the signed-in account's
+  const accountEmail = email || sessionUser?.email || '';
+
+  // A session still owing a new password is sent back here, e.g. after a reload or
+  // going straight to another page, and gets the same form as at sign-in
+  useEffect(() => {
+    if (needsNewPassword(status)) {
+      setShowReset(true);
+      setPasswordExpired(status === 'passwordExpired');
+    }
+  }, [status]);
 
+  // Tick once a second while locked so the countdown updates, and unlock when it runs out
   useEffect(() => {
-    const checkRateLimit = () => {
-      const clientInfo = getClientInfo();
-      const isBlocked = rateLimiter.isBlocked(clientInfo.ipAddress);
-      if (isBlocked) {
-        const remainingTime = rateLimiter.getRemainingTime(clientInfo.ipAddress);
-        setBlockedUntil(Date.now() + remainingTime);
-      } else {
+    if (blockedUntil === null) return;
+    const interval = setInterval(() => {
+      if (Date.now() >= blockedUntil) {
         setBlockedUntil(null);
       }
-    };
-    checkRateLimit();
-    const interval = setInterval(checkRateLimit, 1000);
+      setNow(Date.now());
+    }, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [blockedUntil]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    const clientInfo = getClientInfo();
-    if (rateLimiter.isBlocked(clientInfo.ipAddress)) {
+    if (blockedUntil !== null) {
       setError('Too many failed attempts. Please try again later.');
       return;
     }
     setLoading(true);
     setShowReset(false);
-    setUserDocId('');
     try {
-      const q = query(collection(db, 'users'), where('email', '==', email));
-      const querySnapshot = await getDocs(q);
-      if (querySnapshot.empty) {
-        setError('No staff account found with this email.');
+      // The password is checked first so unknown emails count against the limit too
+      const secondFactor = mfaStep ? (useRecoveryCode ? { recoveryCode: mfaCode } : { code: mfaCode }) : {};
+      const result = await requestStaffLogin(email, password, secondFactor);
+      if (!result.ok) {
+        if (result.reason === 'mfa_required') {
+          setMfaStep(true);
+        } else if (result.reason === 'blocked') {
+          setBlockedUntil(Date.now() + result.retryAfterMs);
+          setNow(Date.now());
+        } else if (result.reason === 'invalid') {
+          const message = result.mfaRequired ? 'Invalid authentication code.' : 'Invalid email or password.';
+          setError(result.remainingAttempts !== undefined
+            ? `${message} ${result.remainingAttempts} attempts remaining.`
+            : message);
+        } else {
+          setError(result.message);
+        }
         setLoading(false);
-        await logAuditEvent({
-          eventType: AuditEventType.LOGIN_FAILURE,
-          userEmail: email,
-          details: 'No staff account found',
-          ...clientInfo
-        });
         return;
       }
+      const credential = await signInWithCustomToken(auth, result.token);
+
+      // Staff emails are stored lower-cased, as the staffLogin function compares them
+      const q = query(collection(db, 'users'), where('email', '==', email.trim().toLowerCase()));
+      const querySnapshot = await getDocs(q);
       const userDoc = querySnapshot.docs[0];
-      const user = userDoc.data();
-      if (user.role !== 'staff') {
-        setError('Access denied: Not a staff account.');
+      const user = userDoc?.data();
+      // staffLogin refuses these and logs the failure; this covers a users document changed since
+      if (!user || user.role !== 'staff') {
+        await signOut(auth);
+        setError(user ? 'Access denied: Not a staff account.' : 'No staff account found with this email.');
         setLoading(false);
-        await logAuditEvent({
-          eventType: AuditEventType.LOGIN_FAILURE,
-          userEmail: email,
-          details: 'Not a staff account',
-          ...clientInfo
-        });
         return;
       }
-      if (user.requiresPasswordSetup && user.tempPassword) {
-        if (password === user.tempPassword) {
-          try {
-            await signInWithEmailAndPassword(auth, email, password);
-            setShowReset(true);
-            setUserDocId(userDoc.id);
-          } catch (authErr: any) {
-            setError('Temporary password is incorrect or not set in Auth.');
-          }
-        } else {
-          setError('Temporary password is incorrect.');
-        }
+      // The Auth account is disabled as well; this covers documents deactivated by hand
+      if (user.active === false) {
+        await signOut(auth);
+        setError('This account has been deactivated. Contact your administrator.');
         setLoading(false);
         return;
       }
-      try {
-        await signInWithEmailAndPassword(auth, email, password);
-        await logAuditEvent({
-          eventType: AuditEventType.LOGIN_SUCCESS,
-          userEmail: email,
-          ...clientInfo
-        });
-        navigate('/dashboard');
-      } catch (error: any) {
-        const { blocked, remainingAttempts: attempts } = rateLimiter.recordAttempt(clientInfo.ipAddress);
-        setRemainingAttempts(attempts);
-        if (blocked) {
-          setBlockedUntil(Date.now() + 15 * 60 * 1000);
-        }
-        await logAuditEvent({
-          eventType: AuditEventType.LOGIN_FAILURE,
-          userEmail: email,
-          details: error.message,
-          ...clientInfo
-        });
-        if (error.code === 'auth/user-not-found' || error.code === 'auth/wrong-password') {
-          setError(`Invalid email or password. ${attempts} attempts remaining.`);
-        } else if (error.code === 'auth/too-many-requests') {
-          setError('Too many failed attempts. Please try again later.');
-        } else {
-          setError('An error occurred during login. Please try again.');
-        }
+      const expired = isPasswordExpired(user.passwordChangedAt);
+      if (user.requiresPasswordSetup || expired) {
+        setShowReset(true);
+        setPasswordExpired(expired);
+        setLoading(false);
+        return;
       }
-    } catch (err: any) {
-      setError('Login failed: ' + (err.message || err.toString()));
+      await linkStaffAccount(credential.user, userDoc.id, user);
+      navigate('/dashboard');
+    } catch (err) {
+      console.error('Staff login failed:', err);
+      setError('Login failed: ' + (err instanceof Error ? err.message : String(err)));
     }
     setLoading(false);
   };
@@ -167,36 +202,28 @@ const MunicipalStaffLogin: React.FC = () => {
   const handlePasswordReset = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    if (newPassword.length < 8) {
-      setError('Password must be at least 8 characters.');
+    if (!meetsPasswordPolicy(newPassword, accountEmail)) {
+      setError('Password does not meet the requirements below.');
       return;
     }
     if (newPassword !== confirmPassword) {
       setError('Passwords do not match.');
       return;
     }
-    try {
-      if (auth.currentUser) {
-        await firebaseUpdatePassword(auth.currentUser, newPassword);
-      } else {
-        setError('User not authenticated. Please log in again.');
-        return;
-      }
-      const userRef = doc(db, 'users', userDocId);
-      await updateDoc(userRef, {
-        password: newPassword,
-        requiresPasswordSetup: false,
-        tempPassword: null,
-      });
-      alert('Password updated! Please log in with your new password.');
-      setShowReset(false);
-      setNewPassword('');
-      setConfirmPassword('');
-      setPassword('');
-      navigate('/');
-    } catch (err: any) {
-      setError('Failed to update password: ' + (err.message || err.toString()));
+    // The server checks the policy again along with password history
+    const result = await changeStaffPassword(newPassword);
+    if (!result.ok) {
+      setError(result.message);
+      return;
     }
+    await signOut(auth);
+    alert('Password updated! Please log in with your new password.');
+    setShowReset(false);
+    setPasswordExpired(false);
+    setNewPassword('');
+    setConfirmPassword('');
+    setPassword('');
+    navigate('/');
   };
 
   const formatTimeRemaining = (ms: number) => {
@@ -218,7 +245,7 @@ const MunicipalStaffLogin: React.FC = () => {
               onChange={e => setEmail(e.target.value)}
               required
               style={inputStyle}
-              disabled={loading || blockedUntil !== null}
+              disabled={loading || blockedUntil !== null || mfaStep}
             />
             <div style={{ position: 'relative' }}>
               <input
@@ -228,7 +255,7 @@ const MunicipalStaffLogin: React.FC = () => {
                 onChange={e => setPassword(e.target.value)}
                 required
                 style={inputStyle}
-                disabled={loading || blockedUntil !== null}
+                disabled={loading || blockedUntil !== null || mfaStep}
               />
               <button
                 type="button"
@@ -241,22 +268,57 @@ const MunicipalStaffLogin: React.FC = () => {
                 {showPassword ? <FaEyeSlash /> : <FaEye />}
               </button>
             </div>
+            {mfaStep && (
+              <>
+                <input
+                  type="text"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  placeholder={useRecoveryCode ? 'Recovery code' : '6-digit authentication code'}
+                  value={mfaCode}
+                  onChange={e => setMfaCode(e.target.value)}
+                  required
+                  autoFocus
+                  style={inputStyle}
+                  disabled={loading || blockedUntil !== null}
+                />
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.9rem' }}>
+                  <a
+                    href="#"
+                    onClick={(e) => { e.preventDefault(); setUseRecoveryCode(v => !v); setMfaCode(''); }}
+                    style={linkStyle}
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </a>
+                  <a
+                    href="#"
+                    onClick={(e) => { e.preventDefault(); setMfaStep(false); setMfaCode(''); setUseRecoveryCode(false); setError(''); }}
+                    style={linkStyle}
+                  >
+                    Use a different account
+                  </a>
+                </div>
+              </>
+            )}
             {error && (
               <div style={errorStyle}>{error}</div>
             )}
             {blockedUntil && (
               <div style={errorStyle}>
-                Account temporarily locked. Please try again in {formatTimeRemaining(blockedUntil - Date.now())}
+                Account temporarily locked. Please try again in {formatTimeRemaining(Math.max(0, blockedUntil - now))}
               </div>
             )}
-            <button type="submit" style={buttonStyle} disabled={loading || blockedUntil !== null}>{loading ? 'Logging in...' : 'Login'}</button>
+            <button type="submit" style={buttonStyle} disabled={loading || blockedUntil !== null}>{loading ? 'Logging in...' : mfaStep ? 'Verify' : 'Login'}</button>
           </form>
         ) : (
           <form onSubmit={handlePasswordReset} style={{ width: '100%', display: 'flex', flexDirection: 'column' }}>
+            <p style={{ marginTop: 0, color: '#555', fontSize: '0.95rem', textAlign: 'center' }}>
+              {passwordExpired ? 'Your password has expired. Choose a new one to continue.' : 'Choose a new password for your account.'}
+            </p>
             <div style={{ position: 'relative' }}>
               <input
                 type={showNewPassword ? 'text' : 'password'}
-                placeholder="New Password (min 8 chars)"
+                placeholder="New Password"
                 value={newPassword}
                 onChange={e => setNewPassword(e.target.value)}
                 required
@@ -273,6 +335,7 @@ const MunicipalStaffLogin: React.FC = () => {
                 {showNewPassword ? <FaEyeSlash /> : <FaEye />}
               </button>
             </div>
+            <PasswordChecklist password={newPassword} email={accountEmail} />
             <div style={{ position: 'relative' }}>
               <input
                 type={showConfirmPassword ? 'text' : 'password'}
@@ -297,6 +360,13 @@ const MunicipalStaffLogin: React.FC = () => {
               <div style={errorStyle}>{error}</div>
             )}
             <button type="submit" style={buttonStyle}>Set New Password</button>
+            <a
+              href="#"
+              onClick={async (e) => { e.preventDefault(); await signOut(auth); setShowReset(false); setPasswordExpired(false); setError(''); }}
+              style={{ ...linkStyle, textAlign: 'center', marginTop: '0.5rem' }}
+            >
+              Sign out
+            </a>
           </form>
         )}
         <div style={linksContainer}>
@@ -1,18 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import Footer from '../components/Footer';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../config/firebase';
 import { useNavigate } from 'react-router-dom';
 import { Timestamp } from 'firebase/firestore';
-import { auth } from '../config/firebase';
-import { onAuthStateChanged } from 'firebase/auth';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { reportRepository } from '../repositories';
+import { IncidentDetailData } from '../utils/incidentUtils';
 
-interface Incident {
-  id: string;
-  incidentType: string;
-  status: string;
-  dateReported: string;
-}
+type Incident = Pick<IncidentDetailData, 'id' | 'incidentType' | 'status' | 'dateReported'>;
 
 const formatDate = (date: any) => {
   if (!date) return '';
@@ -25,48 +19,25 @@ const formatDate = (date: any) => {
 const Notifications: React.FC = () => {
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
-  const [municipal, setMunicipal] = useState<string>('');
+  const { scope } = useMunicipalScope();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      if (!currentUser) {
-        setMunicipal('');
-        return;
-      }
-      const fetchUserMunicipal = async () => {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          setMunicipal(userDoc.municipal);
-        }
-      };
-      fetchUserMunicipal();
-    });
-    return () => unsubscribe();
-  }, []);
-
   useEffect(() => {
     const fetchIncidents = async () => {
-      if (!municipal) return;
+      if (scope.length === 0) return;
       setLoading(true);
-      const q = query(collection(db, 'reports'), where('reportState', '==', 'New'), where('municipal', '==', municipal));
-      const querySnapshot = await getDocs(q);
-      const data = querySnapshot.docs.map(doc => {
-        const d = doc.data();
-        return {
-          id: doc.id,
-          incidentType: d.incidentType || '',
-          status: d.reportState || 'New',
-          dateReported: formatDate(d.timestamp),
-        } as Incident;
-      });
+      const reports = await reportRepository.list({ reportState: 'New', municipal: scope });
+      const data: Incident[] = reports.map(r => ({
+        id: r.id,
+        incidentType: r.incidentType,
+        status: r.reportState,
+        dateReported: formatDate(r.timestamp),
+      }));
       setIncidents(data);
       setLoading(false);
     };
     fetchIncidents();
-  }, [municipal]);
+  }, [scope]);
 
   return (
     <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import PasswordChecklist from '../components/PasswordChecklist';
+import { meetsPasswordPolicy } from '../utils/passwordPolicy';
+import { resetStaffPassword } from '../utils/passwords';
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.8rem 1rem',
+  border: 'none',
+  borderRadius: 24,
+  background: '#f5f6f8',
+  fontSize: '1rem',
+  outline: 'none',
+  boxShadow: '0 2px 6px rgba(0,0,0,0.03)',
+  marginBottom: '1rem'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.8rem 0',
+  border: 'none',
+  borderRadius: 24,
+  background: '#19c6a7',
+  color: '#fff',
+  fontSize: '1.1rem',
+  fontWeight: 600,
+  cursor: 'pointer',
+  marginTop: '0.5rem'
+};
+
+// Landing page for the link in the password reset email (?mode=resetPassword&oobCode=...)
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const oobCode = searchParams.get('oobCode') || '';
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!meetsPasswordPolicy(newPassword)) {
+      setError('Password does not meet the requirements below.');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setSaving(true);
+    // The server also checks the password against the account's email and history
+    const result = await resetStaffPassword(oobCode, newPassword);
+    setSaving(false);
+    if (!result.ok) {
+      setError(result.message);
+      return;
+    }
+    setDone(true);
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f5f6f8' }}>
+      <div style={{ background: '#fff', padding: '2.5rem 2rem', borderRadius: 16, boxShadow: '0 4px 24px rgba(0,0,0,0.08)', width: 340 }}>
+        <h2 style={{ marginTop: 0, marginBottom: '1.5rem', fontSize: '1.4rem', fontWeight: 700, textAlign: 'center' }}>Choose a New Password</h2>
+        {!oobCode ? (
+          <p style={{ textAlign: 'center' }}>This reset link is incomplete. Request a new one from the login page.</p>
+        ) : done ? (
+          <>
+            <p style={{ textAlign: 'center' }}>Your password has been changed.</p>
+            <button style={{ ...buttonStyle, width: '100%' }} onClick={() => navigate('/')}>Go to Login</button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column' }}>
+            <input
+              type="password"
+              placeholder="New Password"
+              value={newPassword}
+              onChange={e => setNewPassword(e.target.value)}
+              required
+              style={inputStyle}
+            />
+            <PasswordChecklist password={newPassword} />
+            <input
+              type="password"
+              placeholder="Confirm New Password"
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+              required
+              style={inputStyle}
+            />
+            {error && <div style={{ color: '#d32f2f', marginBottom: '0.5rem', textAlign: 'center' }}>{error}</div>}
+            <button type="submit" style={buttonStyle} disabled={saving}>{saving ? 'Saving...' : 'Set New Password'}</button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,151 +1,92 @@
-import React, { useEffect, useState } from 'react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db, auth } from '../config/firebase';
-import { onAuthStateChanged } from 'firebase/auth';
+import React, { useEffect, useMemo, useState } from 'react';
 import Footer from '../components/Footer';
+import ExportMenu from '../components/ExportMenu';
+import SlaReportSettings from '../components/SlaReportSettings';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-
-interface Report {
-  id: string;
-  reportState: string;
-  severity?: string;
-  deadline?: any;
-  timestamp?: any;
-  resolvedAt?: any;
-  completedAt?: any;
-  incidentType?: string;
-  team?: string;
-  resolutionTimeHours?: number;
-  resolutionTimeFormatted?: string;
-  [key: string]: any;
-}
+import { HIGHLIGHT_COLORS, useLiveReports } from '../hooks/useLiveReports';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { slaCalendarRepository, slaPolicyRepository } from '../repositories';
+import { Report } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { isOverdue, toDate } from '../utils/incidentUtils';
+import { formatDuration, getReportDeadline, getResolutionHours, isResolvedOnTime } from '../utils/slaMetrics';
 
 // Time frame options
 type TimeFrame = 'day' | 'week' | 'month' | 'all';
 
-// Helper function to format hours into readable duration
-const formatDuration = (hours: number) => {
-  if (hours === 0) return '0 hours';
-  
-  const days = Math.floor(hours / 24);
-  const remainingHours = Math.floor(hours % 24);
-  
-  if (days === 0) {
-    return `${remainingHours} hour${remainingHours !== 1 ? 's' : ''}`;
+// Earliest report date in a time frame; null for all time
+const getTimeFrameStart = (timeFrame: TimeFrame): Date | null => {
+  if (timeFrame === 'all') return null;
+  const startDate = new Date();
+  if (timeFrame === 'day') {
+    startDate.setDate(startDate.getDate() - 1);
+  } else if (timeFrame === 'week') {
+    startDate.setDate(startDate.getDate() - 7);
   } else {
-    return `${days} day${days !== 1 ? 's' : ''} ${remainingHours} hour${remainingHours !== 1 ? 's' : ''}`;
+    startDate.setMonth(startDate.getMonth() - 1);
   }
+  return startDate;
 };
 
 const SLA: React.FC = () => {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [municipal, setMunicipal] = useState<string>('');
-  const [loading, setLoading] = useState(true);
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [calendars, setCalendars] = useState<Record<string, SlaCalendar>>({});
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('all');
+  const { scope, isAggregate, municipalities } = useMunicipalScope();
+  const { can } = useCurrentStaff();
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
-      if (!currentUser) {
-        setMunicipal('');
-        setReports([]);
-        return;
-      }
-      const fetchUserMunicipal = async () => {
-        const q = query(collection(db, 'users'), where('email', '==', currentUser.email));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-          const userDoc = querySnapshot.docs[0].data();
-          setMunicipal(userDoc.municipal);
-        }
-      };
-      fetchUserMunicipal();
-    });
-    return () => unsubscribe();
-  }, []);
+  // KPIs and the breach list follow reports as they arrive and change
+  const reportFilter = useMemo(() => (scope.length > 0 ? { municipal: scope } : null), [scope]);
+  const { reports, highlights, loading } = useLiveReports(reportFilter);
 
+  // Policies and calendars for every municipality; each report is matched to its own
   useEffect(() => {
-    const fetchReports = async () => {
-      if (!municipal) return;
-      setLoading(true);
-      const q = query(collection(db, 'reports'), where('municipal', '==', municipal));
-      const querySnapshot = await getDocs(q);
-      const data = querySnapshot.docs.map(doc => {
-        const d = doc.data();
-        return {
-          id: doc.id,
-          ...d
-        } as Report;
-      });
-      setReports(data);
-      setLoading(false);
+    const fetchSlaConfig = async () => {
+      const [allPolicies, allCalendars] = await Promise.all([
+        slaPolicyRepository.list().catch(error => {
+          console.error('Error loading SLA policies:', error);
+          return [];
+        }),
+        slaCalendarRepository.list().catch(error => {
+          console.error('Error loading SLA calendars:', error);
+          return {};
+        })
+      ]);
+      setPolicies(allPolicies);
+      setCalendars(allCalendars);
     };
-    fetchReports();
-  }, [municipal]);
+    fetchSlaConfig();
+  }, []);
 
   // Filter reports by selected time frame
+  const timeFrameStart = getTimeFrameStart(timeFrame);
   const getFilteredReports = () => {
-    const now = new Date();
-    
-    if (timeFrame === 'all') {
+    if (!timeFrameStart) {
       return reports;
     }
     
-    let startDate = new Date();
-    
-    if (timeFrame === 'day') {
-      startDate.setDate(now.getDate() - 1);
-    } else if (timeFrame === 'week') {
-      startDate.setDate(now.getDate() - 7);
-    } else if (timeFrame === 'month') {
-      startDate.setMonth(now.getMonth() - 1);
-    }
-    
     return reports.filter(report => {
-      const reportDate = report.timestamp?.seconds 
-        ? new Date(report.timestamp.seconds * 1000)
-        : new Date(report.timestamp);
-      
-      return reportDate >= startDate;
+      const reportDate = toDate(report.timestamp);
+      return reportDate !== null && reportDate >= timeFrameStart;
     });
   };
   
   const filteredReports = getFilteredReports();
 
+  const getDeadline = (r: Report) => getReportDeadline(r, policies, calendars);
+
   // --- KPI Calculations ---
-  // 1. Average Resolution Time (now using the stored resolutionTimeHours)
+  // 1. Average Resolution Time
   const completedReports = filteredReports.filter(r => r.reportState === 'Completed');
-  
-  // First try to use the stored resolution time
-  const reportsWithResolutionTime = completedReports.filter(r => typeof r.resolutionTimeHours === 'number');
-  
-  let avgResolutionHours = 0;
-  if (reportsWithResolutionTime.length > 0) {
-    // Use the pre-calculated resolution time when available
-    avgResolutionHours = reportsWithResolutionTime.reduce(
-      (sum, r) => sum + (r.resolutionTimeHours || 0), 0
-    ) / reportsWithResolutionTime.length;
-  } else {
-    // Fall back to legacy calculation method for older reports
-    const resolvedReports = filteredReports.filter(r => 
-      (r.reportState === 'Resolved' || r.reportState === 'Completed') && 
-      (r.resolvedAt || r.completedAt) && 
-      r.timestamp
-    );
-    
-    if (resolvedReports.length > 0) {
-      avgResolutionHours = resolvedReports.reduce((sum, r) => {
-        const start = r.timestamp?.seconds ? r.timestamp.seconds * 1000 : new Date(r.timestamp).getTime();
-        const end = r.completedAt?.seconds 
-          ? r.completedAt.seconds * 1000 
-          : r.resolvedAt?.seconds 
-            ? r.resolvedAt.seconds * 1000 
-            : new Date(r.resolvedAt || r.completedAt).getTime();
-        
-        // Convert ms to hours
-        return sum + ((end - start) / (1000 * 60 * 60));
-      }, 0) / resolvedReports.length;
-    }
-  }
+  const resolutionHours = completedReports
+    .map(r => getResolutionHours(r, policies, calendars))
+    .filter((hours): hours is number => hours !== null);
+
+  const avgResolutionHours = resolutionHours.length > 0
+    ? resolutionHours.reduce((sum, hours) => sum + hours, 0) / resolutionHours.length
+    : 0;
 
   // Convert average resolution hours to days for display
   const avgResolutionDays = avgResolutionHours / 24;
@@ -154,36 +95,32 @@ const SLA: React.FC = () => {
   const avgResolutionFormatted = formatDuration(avgResolutionHours);
 
   // 2. Percentage of On-Time Resolutions
-  const onTimeResolutions = completedReports.filter(r => {
-    if (!r.deadline || (!r.completedAt && !r.resolvedAt)) return false;
-    const deadline = r.deadline?.seconds ? r.deadline.seconds * 1000 : new Date(r.deadline).getTime();
-    const resolved = r.completedAt?.seconds 
-      ? r.completedAt.seconds * 1000 
-      : r.resolvedAt?.seconds 
-        ? r.resolvedAt.seconds * 1000 
-        : new Date(r.resolvedAt || r.completedAt).getTime();
-    return resolved <= deadline;
-  });
+  const onTimeResolutions = completedReports.filter(r => isResolvedOnTime(r, policies, calendars));
   const percentOnTime = completedReports.length > 0 ? Math.round((onTimeResolutions.length / completedReports.length) * 100) : 0;
 
+  // On-time rate per municipality, shown when viewing all of the user's municipalities
+  const municipalCompliance = Object.entries(
+    completedReports.reduce<Record<string, { total: number; onTime: number }>>((acc, r) => {
+      acc[r.municipal] = acc[r.municipal] || { total: 0, onTime: 0 };
+      acc[r.municipal].total += 1;
+      if (onTimeResolutions.includes(r)) acc[r.municipal].onTime += 1;
+      return acc;
+    }, {})
+  ).sort(([a], [b]) => a.localeCompare(b));
+
   // 3. Total Issues Resolved This Month
   const now = new Date();
   const thisMonth = now.getMonth();
   const thisYear = now.getFullYear();
   const resolvedThisMonth = completedReports.filter(r => {
-    const resolved = r.completedAt?.seconds 
-      ? new Date(r.completedAt.seconds * 1000) 
-      : r.resolvedAt?.seconds
-        ? new Date(r.resolvedAt.seconds * 1000)
-        : new Date(r.resolvedAt || r.completedAt);
-    return resolved.getMonth() === thisMonth && resolved.getFullYear() === thisYear;
+    const resolved = toDate(r.completedAt);
+    return resolved !== null && resolved.getMonth() === thisMonth && resolved.getFullYear() === thisYear;
   });
 
   // 4. Incidents Breaching SLA (not resolved and past deadline)
   const breachingSLA = filteredReports.filter(r => {
-    if (!r.deadline) return false;
-    const deadline = r.deadline?.seconds ? r.deadline.seconds * 1000 : new Date(r.deadline).getTime();
-    return r.reportState !== 'Completed' && r.reportState !== 'Resolved' && Date.now() > deadline;
+    // Paused incidents have their clock stopped, so they are not breaching
+    return isOverdue(getDeadline(r), r.reportState);
   });
 
   // --- SLA Compliance Over Time (Line Chart Data) ---
@@ -191,16 +128,13 @@ const SLA: React.FC = () => {
   const complianceData: { date: string, compliance: number }[] = [];
   const grouped: { [date: string]: { total: number, onTime: number } } = {};
   completedReports.forEach(r => {
-    const resolved = r.completedAt?.seconds 
-      ? new Date(r.completedAt.seconds * 1000) 
-      : r.resolvedAt?.seconds
-        ? new Date(r.resolvedAt.seconds * 1000)
-        : new Date(r.resolvedAt || r.completedAt);
+    const resolved = toDate(r.completedAt);
+    if (!resolved) return;
     const dateStr = resolved.toISOString().slice(0, 10);
     if (!grouped[dateStr]) grouped[dateStr] = { total: 0, onTime: 0 };
     grouped[dateStr].total++;
-    const deadline = r.deadline?.seconds ? r.deadline.seconds * 1000 : new Date(r.deadline).getTime();
-    if (resolved.getTime() <= deadline) grouped[dateStr].onTime++;
+    const deadline = getDeadline(r);
+    if (deadline && resolved <= deadline) grouped[dateStr].onTime++;
   });
   Object.entries(grouped).forEach(([date, { total, onTime }]) => {
     complianceData.push({ date, compliance: total > 0 ? Math.round((onTime / total) * 100) : 0 });
@@ -223,6 +157,24 @@ const SLA: React.FC = () => {
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
           <h2 style={{ fontWeight: 700, fontSize: 28, margin: 0 }}>SLA Compliance Over Time</h2>
           <div style={{ display: 'flex', gap: 12 }}>
+            <a
+              href="/sla/policies"
+              style={{
+                padding: '8px 16px',
+                borderRadius: 8,
+                border: '1px solid #ddd',
+                background: '#fff',
+                color: '#333',
+                textDecoration: 'none',
+              }}>
+              Manage Policies
+            </a>
+            <ExportMenu
+              filter={reportFilter && (timeFrameStart ? { ...reportFilter, since: timeFrameStart } : reportFilter)}
+              policies={policies}
+              calendars={calendars}
+              style={{ padding: '8px 16px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', color: '#333' }}
+            />
             <button 
               onClick={() => setTimeFrame('day')} 
               style={{ 
@@ -306,12 +258,41 @@ const SLA: React.FC = () => {
             <div style={{ color: '#7c4dff', fontSize: 32, fontWeight: 700 }}>{resolvedThisMonth.length}</div>
           </div>
         </div>
+        {isAggregate && (
+          <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24, marginBottom: 32 }}>
+            <h3 style={{ fontWeight: 700, fontSize: 22, marginBottom: 16 }}>Compliance by Municipality</h3>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 16 }}>
+                  <th style={{ padding: '1rem 0.5rem' }}>Municipality</th>
+                  <th>Resolved</th>
+                  <th>On Time</th>
+                  <th>Breaching SLA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {municipalCompliance.map(([name, { total, onTime }]) => (
+                  <tr key={name} style={{ borderTop: '1px solid #f0f0f0', fontSize: 15 }}>
+                    <td style={{ padding: '1rem 0.5rem' }}>{name}</td>
+                    <td>{total}</td>
+                    <td>{Math.round((onTime / total) * 100)}%</td>
+                    <td>{breachingSLA.filter(r => r.municipal === name).length}</td>
+                  </tr>
+                ))}
+                {municipalCompliance.length === 0 && !loading && (
+                  <tr><td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No resolved incidents.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
         <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24 }}>
           <h3 style={{ fontWeight: 700, fontSize: 22, marginBottom: 16 }}>Incidents Breaching SLA</h3>
           <table style={{ width: '100%', borderCollapse: 'collapse' }}>
             <thead>
               <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 16 }}>
                 <th style={{ padding: '1rem 0.5rem' }}>Incident ID</th>
+                {isAggregate && <th>Municipality</th>}
                 <th>Deadline</th>
                 <th>Status</th>
                 <th>Details</th>
@@ -319,19 +300,28 @@ const SLA: React.FC = () => {
             </thead>
             <tbody>
               {breachingSLA.map(r => (
-                <tr key={r.id} style={{ borderTop: '1px solid #f0f0f0', fontSize: 15 }}>
+                <tr key={r.id} style={{
+                  borderTop: '1px solid #f0f0f0',
+                  fontSize: 15,
+                  background: highlights[r.id] ? HIGHLIGHT_COLORS[highlights[r.id]] : 'transparent',
+                  transition: 'background 0.6s'
+                }}>
                   <td style={{ padding: '1rem 0.5rem' }}>{r.id}</td>
-                  <td>{r.deadline?.seconds ? new Date(r.deadline.seconds * 1000).toLocaleDateString() : ''}</td>
+                  {isAggregate && <td>{r.municipal}</td>}
+                  <td>{getDeadline(r)?.toLocaleDateString() || ''}</td>
                   <td>{r.reportState}</td>
                   <td>{r.incidentType || '-'}</td>
                 </tr>
               ))}
               {breachingSLA.length === 0 && !loading && (
-                <tr><td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No incidents breaching SLA.</td></tr>
+                <tr><td colSpan={isAggregate ? 5 : 4} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No incidents breaching SLA.</td></tr>
               )}
             </tbody>
           </table>
         </div>
+        {can('sla.receiveReports') && (
+          <SlaReportSettings municipalities={municipalities} policies={policies} calendars={calendars} />
+        )}
       </div>
       <Footer />
     </div>
@@ -0,0 +1,501 @@
+import React, { useEffect, useState } from 'react';
+import Footer from '../components/Footer';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { slaCalendarRepository, slaPolicyRepository } from '../repositories';
+import { Severity } from '../types/report';
+import { SlaPolicy, SlaPolicyInput } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { getAllIncidentTypes, IncidentTypeConfig } from '../utils/incidentTypeUtils';
+import { getSeverityColor, getSeverityRanking } from '../utils/incidentUtils';
+import { describePolicyScope } from '../utils/slaPolicyUtils';
+import { DEFAULT_SLA_TIMEZONE, describeCalendar, isValidTimezone, WEEKDAY_NAMES } from '../utils/slaCalendar';
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+const emptyPolicy = (municipal: string): SlaPolicyInput => ({
+  severity: 'Medium',
+  timeframeHours: 120,
+  businessHoursOnly: false,
+  municipal,
+  incidentType: '',
+  description: ''
+});
+
+// Deadlines follow on the next scheduled SLA sweep, which reloads policies and calendars
+const SAVED_MESSAGE = 'Changes saved. Deadlines for open incidents are recalculated on the next scheduled SLA sweep.';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 16,
+  boxSizing: 'border-box'
+};
+
+const SlaPolicies: React.FC = () => {
+  const { staff, can } = useCurrentStaff();
+  // firestore.rules leaves policies for all municipalities to admins
+  const canEditDefaults = can('sla.manageDefaultPolicies');
+  const municipal = staff?.municipal || '';
+  const userEmail = staff?.email || '';
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [incidentTypes, setIncidentTypes] = useState<IncidentTypeConfig[]>([]);
+  const [editing, setEditing] = useState<SlaPolicyInput | null>(null);
+  const [calendar, setCalendar] = useState<SlaCalendar | null>(null);
+  const [editingCalendar, setEditingCalendar] = useState<SlaCalendar | null>(null);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string>('');
+
+  const loadPolicies = async (forMunicipal: string) => {
+    try {
+      const data = await slaPolicyRepository.list(forMunicipal);
+      setPolicies(data);
+    } catch (error) {
+      console.error('Error loading SLA policies:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!municipal) return;
+    const fetchData = async () => {
+      setLoading(true);
+      await loadPolicies(municipal);
+      try {
+        setCalendar(await slaCalendarRepository.get(municipal));
+      } catch (error) {
+        console.error('Error loading SLA calendar:', error);
+      }
+      setIncidentTypes(await getAllIncidentTypes());
+      setLoading(false);
+    };
+    fetchData();
+  }, [municipal]);
+
+  const canEdit = (policy: SlaPolicy) => (policy.municipal ? policy.municipal === municipal : canEditDefaults);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    if (!(editing.timeframeHours > 0)) {
+      setMessage('Timeframe must be greater than zero.');
+      return;
+    }
+
+    setSaving(true);
+    setMessage('');
+    try {
+      await slaPolicyRepository.save({
+        ...editing,
+        municipal: editing.municipal || undefined,
+        incidentType: editing.incidentType || undefined,
+        updatedBy: userEmail
+      });
+      setEditing(null);
+      await loadPolicies(municipal);
+      setMessage(SAVED_MESSAGE);
+    } catch (error) {
+      console.error('Error saving SLA policy:', error);
+      setMessage('Failed to save policy. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async (policy: SlaPolicy) => {
+    if (!window.confirm(`Delete the ${policy.severity} policy for ${describePolicyScope(policy)}?`)) return;
+    setSaving(true);
+    setMessage('');
+    try {
+      await slaPolicyRepository.remove(policy.id);
+      await loadPolicies(municipal);
+      setMessage(SAVED_MESSAGE);
+    } catch (error) {
+      console.error('Error deleting SLA policy:', error);
+      setMessage('Failed to delete policy. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  const handleSaveCalendar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingCalendar) return;
+    if (!isValidTimezone(editingCalendar.timezone)) {
+      setMessage(`Unknown timezone "${editingCalendar.timezone}".`);
+      return;
+    }
+    if (editingCalendar.workEndHour <= editingCalendar.workStartHour) {
+      setMessage('Working hours must end after they start.');
+      return;
+    }
+
+    setSaving(true);
+    setMessage('');
+    try {
+      const updated = { ...editingCalendar, updatedBy: userEmail, updatedAt: new Date() };
+      await slaCalendarRepository.save(updated);
+      setCalendar(updated);
+      setEditingCalendar(null);
+      setMessage(SAVED_MESSAGE);
+    } catch (error) {
+      console.error('Error saving SLA calendar:', error);
+      setMessage('Failed to save calendar. Please try again.');
+    }
+    setSaving(false);
+  };
+
+  const toggleWorkingDay = (weekday: number) => {
+    if (!editingCalendar) return;
+    const workingDays = editingCalendar.workingDays.includes(weekday)
+      ? editingCalendar.workingDays.filter(d => d !== weekday)
+      : [...editingCalendar.workingDays, weekday].sort();
+    setEditingCalendar({ ...editingCalendar, workingDays });
+  };
+
+  const addHoliday = () => {
+    if (!editingCalendar || !newHoliday.date) return;
+    const holidays = [
+      ...editingCalendar.holidays.filter(h => h.date !== newHoliday.date),
+      { date: newHoliday.date, name: newHoliday.name || 'Holiday' }
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    setEditingCalendar({ ...editingCalendar, holidays });
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const sortedPolicies = [...policies].sort((a, b) =>
+    (a.municipal ? 1 : 0) - (b.municipal ? 1 : 0) ||
+    (a.incidentType || '').localeCompare(b.incidentType || '') ||
+    getSeverityRanking(b.severity) - getSeverityRanking(a.severity)
+  );
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
+          <h2 style={{ fontWeight: 700, fontSize: 28, margin: 0 }}>SLA Policies</h2>
+          <button
+            onClick={() => setEditing(emptyPolicy(municipal))}
+            disabled={!municipal || saving}
+            style={{
+              padding: '8px 16px',
+              borderRadius: 8,
+              border: 'none',
+              background: '#2ec4b6',
+              color: '#fff',
+              fontWeight: 600,
+              cursor: 'pointer'
+            }}>
+            Add Policy
+          </button>
+        </div>
+
+        <p style={{ color: '#666', marginTop: 0 }}>
+          The most specific policy wins: incident type and municipality, then incident type, then municipality,
+          then the defaults for all municipalities. After a policy or the calendar is saved, the scheduled SLA sweep recalculates deadlines for open incidents.
+          {!canEditDefaults && ' Only admins can change the defaults for all municipalities.'}
+        </p>
+
+        {message && (
+          <div style={{ background: '#e0f7fa', borderRadius: 8, padding: 12, marginBottom: 16 }}>{message}</div>
+        )}
+
+        {editing && (
+          <form onSubmit={handleSave} style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24, marginBottom: 24 }}>
+            <h3 style={{ marginTop: 0 }}>{editing.id ? 'Edit Policy' : 'New Policy'}</h3>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+              {canEditDefaults && (
+                <div style={{ gridColumn: '1 / span 2' }}>
+                  <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Municipality</label>
+                  <select
+                    value={editing.municipal || ''}
+                    onChange={(e) => setEditing({ ...editing, municipal: e.target.value })}
+                    style={inputStyle}
+                  >
+                    <option value={municipal}>{municipal}</option>
+                    <option value="">All municipalities</option>
+                  </select>
+                </div>
+              )}
+              <div>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Incident Type</label>
+                <select
+                  value={editing.incidentType || ''}
+                  onChange={(e) => setEditing({ ...editing, incidentType: e.target.value })}
+                  style={inputStyle}
+                >
+                  <option value="">All incident types</option>
+                  {incidentTypes.map(type => (
+                    <option key={type.id} value={type.name || type.id}>{type.name || type.id}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Severity</label>
+                <select
+                  value={editing.severity}
+                  onChange={(e) => setEditing({ ...editing, severity: e.target.value as Severity })}
+                  style={inputStyle}
+                >
+                  {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Timeframe (hours)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.timeframeHours}
+                  onChange={(e) => setEditing({ ...editing, timeframeHours: Number(e.target.value) })}
+                  style={inputStyle}
+                />
+              </div>
+              <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontWeight: 600, paddingBottom: 10 }}>
+                  <input
+                    type="checkbox"
+                    checked={editing.businessHoursOnly}
+                    onChange={(e) => setEditing({ ...editing, businessHoursOnly: e.target.checked })}
+                  />
+                  Business hours only
+                </label>
+              </div>
+              <div style={{ gridColumn: '1 / span 2' }}>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Description</label>
+                <input
+                  type="text"
+                  value={editing.description || ''}
+                  onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                  placeholder="e.g. Potholes on arterial roads"
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                style={{ padding: '8px 16px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer' }}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                style={{ padding: '8px 16px', border: 'none', borderRadius: 4, background: '#2ec4b6', color: 'white', fontWeight: 600, cursor: 'pointer' }}
+              >
+                {saving ? 'Saving...' : 'Save Policy'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24 }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 16 }}>
+                <th style={{ padding: '1rem 0.5rem' }}>Scope</th>
+                <th>Severity</th>
+                <th>Timeframe</th>
+                <th>Clock</th>
+                <th>Description</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedPolicies.map(p => (
+                <tr key={p.id} style={{ borderTop: '1px solid #f0f0f0', fontSize: 15 }}>
+                  <td style={{ padding: '1rem 0.5rem' }}>{describePolicyScope(p)}</td>
+                  <td style={{ color: getSeverityColor(p.severity), fontWeight: 600 }}>{p.severity}</td>
+                  <td>{p.timeframeHours}h</td>
+                  <td>{p.businessHoursOnly ? 'Business hours' : '24/7'}</td>
+                  <td>{p.description || '-'}</td>
+                  <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    {/* Defaults for all municipalities are shared, so only admins change them */}
+                    {canEdit(p) && (
+                      <>
+                        <button
+                          onClick={() => setEditing({ ...p })}
+                          disabled={saving}
+                          style={{ padding: '4px 12px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer', marginRight: 8 }}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(p)}
+                          disabled={saving}
+                          style={{ padding: '4px 12px', border: 'none', borderRadius: 4, background: '#d32f2f', color: 'white', cursor: 'pointer' }}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {sortedPolicies.length === 0 && !loading && (
+                <tr><td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No SLA policies configured. Built-in defaults are in use.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24, marginTop: 24 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h3 style={{ fontWeight: 700, fontSize: 22, margin: 0 }}>Working Calendar</h3>
+            {calendar && !editingCalendar && (
+              <button
+                onClick={() => setEditingCalendar(calendar.updatedAt
+                  ? { ...calendar }
+                  // Suggest this browser's timezone for a calendar that has never been saved
+                  : { ...calendar, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || calendar.timezone })}
+                disabled={saving}
+                style={{ padding: '4px 12px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer' }}
+              >
+                Edit
+              </button>
+            )}
+          </div>
+          <p style={{ color: '#666' }}>
+            Business-hours policies only count time inside these hours. Weekends and holidays do not use up the SLA.
+          </p>
+
+          {calendar && !editingCalendar && (
+            <>
+              <div style={{ fontWeight: 600, marginBottom: 8 }}>{describeCalendar(calendar)}</div>
+              {!calendar.updatedAt && (
+                <div style={{ color: '#b26a00', marginBottom: 8 }}>
+                  Not saved yet, so deadlines use {DEFAULT_SLA_TIMEZONE}. Edit and save the calendar to set your timezone.
+                </div>
+              )}
+              <div style={{ color: '#555' }}>
+                {calendar.holidays.length > 0
+                  ? calendar.holidays.map(h => `${h.date} (${h.name})`).join(', ')
+                  : 'No holidays configured.'}
+              </div>
+            </>
+          )}
+
+          {editingCalendar && (
+            <form onSubmit={handleSaveCalendar}>
+              <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: 16 }}>
+                <div>
+                  <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Timezone</label>
+                  <input
+                    type="text"
+                    value={editingCalendar.timezone}
+                    onChange={(e) => setEditingCalendar({ ...editingCalendar, timezone: e.target.value })}
+                    placeholder="e.g. America/Chicago"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Day starts (hour)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.5}
+                    value={editingCalendar.workStartHour}
+                    onChange={(e) => setEditingCalendar({ ...editingCalendar, workStartHour: Number(e.target.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Day ends (hour)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.5}
+                    value={editingCalendar.workEndHour}
+                    onChange={(e) => setEditingCalendar({ ...editingCalendar, workEndHour: Number(e.target.value) })}
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+
+              <div style={{ marginTop: 16 }}>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Working days</label>
+                <div style={{ display: 'flex', gap: 16 }}>
+                  {WEEKDAY_NAMES.map((name, weekday) => (
+                    <label key={name} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                      <input
+                        type="checkbox"
+                        checked={editingCalendar.workingDays.includes(weekday)}
+                        onChange={() => toggleWorkingDay(weekday)}
+                      />
+                      {name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ marginTop: 16 }}>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Public holidays</label>
+                {editingCalendar.holidays.map(h => (
+                  <div key={h.date} style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 6 }}>
+                    <span style={{ minWidth: 110 }}>{h.date}</span>
+                    <span style={{ flex: 1 }}>{h.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setEditingCalendar({
+                        ...editingCalendar,
+                        holidays: editingCalendar.holidays.filter(x => x.date !== h.date)
+                      })}
+                      style={{ padding: '2px 10px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: '#d32f2f', cursor: 'pointer' }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <div style={{ display: 'flex', gap: 12, marginTop: 8 }}>
+                  <input
+                    type="date"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                    style={{ ...inputStyle, width: 180 }}
+                  />
+                  <input
+                    type="text"
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                    placeholder="Holiday name"
+                    style={inputStyle}
+                  />
+                  <button
+                    type="button"
+                    onClick={addHoliday}
+                    style={{ padding: '8px 16px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                  >
+                    Add Holiday
+                  </button>
+                </div>
+              </div>
+
+              <div style={{ marginTop: 20, display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+                <button
+                  type="button"
+                  onClick={() => setEditingCalendar(null)}
+                  style={{ padding: '8px 16px', border: '1px solid #ccc', borderRadius: 4, background: 'white', color: 'black', cursor: 'pointer' }}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  style={{ padding: '8px 16px', border: 'none', borderRadius: 4, background: '#2ec4b6', color: 'white', fontWeight: 600, cursor: 'pointer' }}
+                >
+                  {saving ? 'Saving...' : 'Save Calendar'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default SlaPolicies;
@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Footer from '../components/Footer';
+import ReauthModal from '../components/ReauthModal';
+import StaffAccountModal, { StaffAccountValues } from '../components/StaffAccountModal';
+import { useCurrentStaff } from '../hooks/useCurrentStaff';
+import { useRecentAuth } from '../hooks/useRecentAuth';
+import { auditLogRepository } from '../repositories';
+import { StaffProfile } from '../types/staff';
+import { AuditEventType, logStaffAction } from '../utils/auditLogger';
+import { getFunctionErrorMessage } from '../utils/callableErrors';
+import { resetStaffMfa } from '../utils/mfa';
+import { getStaffRoleLabel } from '../utils/permissions';
+import { inviteStaff, setStaffActive } from '../utils/staffAdmin';
+import {
+  getCrews,
+  getStaffMunicipalities,
+  listStaff,
+  parseMunicipalityList,
+  updateStaffAccount
+} from '../utils/staffUtils';
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.6rem 0.8rem',
+  borderRadius: 8,
+  border: '1px solid #ddd',
+  fontSize: 15,
+  boxSizing: 'border-box'
+};
+
+const actionStyle = (color: string): React.CSSProperties => ({
+  padding: '4px 10px',
+  borderRadius: 6,
+  border: `1px solid ${color}`,
+  background: '#fff',
+  color,
+  cursor: 'pointer',
+  fontSize: 13
+});
+
+const toFormValues = (member: StaffProfile): StaffAccountValues => ({
+  email: member.email,
+  name: member.name || '',
+  municipal: member.municipal,
+  otherMunicipalities: getStaffMunicipalities(member).slice(1).join(', '),
+  staffRole: member.staffRole,
+  team: member.team || ''
+});
+
+// Admin page for inviting, editing and deactivating staff accounts
+const StaffAdmin: React.FC = () => {
+  const { staff: currentStaff } = useCurrentStaff();
+  const { withRecentAuth, reauthModalProps } = useRecentAuth();
+  const [staff, setStaff] = useState<StaffProfile[]>([]);
+  const [lastLogins, setLastLogins] = useState<Record<string, Date>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState('');
+  const [municipalFilter, setMunicipalFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  // null when closed, 'invite' for a new account, or the account being edited
+  const [editing, setEditing] = useState<StaffProfile | 'invite' | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Shown once after an invite so the admin can pass it on
+  const [tempPassword, setTempPassword] = useState<{ email: string; password: string } | null>(null);
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      setLoading(true);
+      const [members, logins] = await Promise.all([
+        listStaff(),
+        auditLogRepository.lastLogins().catch((err) => {
+          console.error('Error loading last logins:', err);
+          return {};
+        })
+      ]);
+      setStaff(members);
+      setLastLogins(logins);
+      setLoading(false);
+    };
+    fetchStaff();
+  }, [refreshKey]);
+
+  // Stable between renders so the modal does not reset what is being typed
+  const editValues = useMemo(() => editing && editing !== 'invite' ? toFormValues(editing) : undefined, [editing]);
+
+  const municipalities = Array.from(new Set(staff.flatMap(getStaffMunicipalities))).sort();
+
+  const filteredStaff = staff.filter(member => {
+    if (!showInactive && !member.active) return false;
+    if (municipalFilter && !getStaffMunicipalities(member).includes(municipalFilter)) return false;
+    const term = search.trim().toLowerCase();
+    return !term || member.email.toLowerCase().includes(term) || (member.name || '').toLowerCase().includes(term);
+  });
+
+  // Runs an admin action behind the password prompt and reloads the list afterwards
+  const runAction = (action: () => Promise<string>) => withRecentAuth(async () => {
+    setError('');
+    setMessage('');
+    try {
+      setMessage(await action());
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Staff administration failed:', err);
+      setError(getFunctionErrorMessage(err));
+    }
+  });
+
+  const handleSave = (values: StaffAccountValues) => {
+    const target = editing;
+    // The home municipality is stored separately, so it is not repeated in the list
+    const otherMunicipalities = parseMunicipalityList(values.otherMunicipalities).filter(m => m !== values.municipal);
+    runAction(async () => {
+      setSaving(true);
+      try {
+        if (target === 'invite') {
+          const password = await inviteStaff({
+            email: values.email,
+            name: values.name,
+            municipal: values.municipal,
+            municipalities: otherMunicipalities,
+            staffRole: values.staffRole,
+            team: values.team || undefined
+          });
+          setTempPassword({ email: values.email, password });
+          return `Invited ${values.email}.`;
+        }
+        if (!target) return '';
+        await updateStaffAccount(target.email, {
+          name: values.name,
+          municipal: values.municipal,
+          municipalities: otherMunicipalities,
+          staffRole: values.staffRole,
+          team: values.team
+        });
+        const changes = (['name', 'municipal', 'staffRole', 'team'] as const)
+          .filter(field => (target[field] || '') !== values[field])
+          .map(field => `${field}: ${target[field] || 'none'} -> ${values[field] || 'none'}`);
+        const previousOthers = getStaffMunicipalities(target).filter(m => m !== values.municipal).join(', ');
+        if (previousOthers !== otherMunicipalities.join(', ')) {
+          changes.push(`municipalities: ${previousOthers || 'none'} -> ${otherMunicipalities.join(', ') || 'none'}`);
+        }
+        await logStaffAction(AuditEventType.STAFF_UPDATED, undefined,
+          `Updated ${target.email}${changes.length ? ` (${changes.join('; ')})` : ''}`);
+        return `Saved ${target.email}.`;
+      } finally {
+        setSaving(false);
+        setEditing(null);
+      }
+    });
+  };
+
+  const handleToggleActive = (member: StaffProfile) => {
+    const verb = member.active ? 'Deactivate' : 'Reactivate';
+    if (!window.confirm(`${verb} ${member.email}?${member.active ? ' They will be signed out and unable to sign in.' : ''}`)) return;
+    runAction(async () => {
+      await setStaffActive(member.email, !member.active);
+      return `${verb}d ${member.email}.`;
+    });
+  };
+
+  const handleForceReset = (member: StaffProfile) => {
+    if (!window.confirm(`Require ${member.email} to choose a new password at their next sign-in?`)) return;
+    runAction(async () => {
+      await updateStaffAccount(member.email, { requiresPasswordSetup: true });
+      await logStaffAction(AuditEventType.STAFF_PASSWORD_RESET, undefined, `Required a new password for ${member.email}`);
+      return `${member.email} will be asked for a new password at next sign-in.`;
+    });
+  };
+
+  const handleResetMfa = (member: StaffProfile) => {
+    if (!window.confirm(`Reset two-factor authentication for ${member.email}? They will sign in with their password only until they set it up again.`)) return;
+    runAction(async () => {
+      await resetStaffMfa(member.email);
+      return `Two-factor authentication reset for ${member.email}.`;
+    });
+  };
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ flex: 1, width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
+          <h2 style={{ fontWeight: 700, fontSize: 28, margin: 0 }}>Staff</h2>
+          <button
+            onClick={() => { setTempPassword(null); setEditing('invite'); }}
+            style={{ padding: '8px 16px', borderRadius: 8, border: 'none', background: '#2ec4b6', color: '#fff', fontWeight: 600, cursor: 'pointer' }}
+          >
+            Invite Staff
+          </button>
+        </div>
+
+        {tempPassword && (
+          <div style={{ background: '#e8f5e9', borderRadius: 8, padding: '12px 16px', marginBottom: 16 }}>
+            Temporary password for <b>{tempPassword.email}</b>: <code style={{ fontSize: 16 }}>{tempPassword.password}</code>
+            <div style={{ color: '#555', fontSize: 14, marginTop: 4 }}>
+              Share it securely; it is not shown again. They will choose their own password at first sign-in.
+            </div>
+          </div>
+        )}
+        {message && <div style={{ color: '#2e7d32', marginBottom: 16 }}>{message}</div>}
+        {error && <div style={{ color: 'red', marginBottom: 16 }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: 12, marginBottom: 24, flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            placeholder="Search name or email"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            style={{ ...inputStyle, flex: 2 }}
+          />
+          <select value={municipalFilter} onChange={e => setMunicipalFilter(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+            <option value="">All municipalities</option>
+            {municipalities.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14, color: '#555' }}>
+            <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
+            Show deactivated
+          </label>
+        </div>
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>Loading staff...</div>
+        ) : (
+          <table style={{ width: '100%', background: '#fff', borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', borderCollapse: 'separate', borderSpacing: 0 }}>
+            <thead>
+              <tr style={{ textAlign: 'left', fontWeight: 700, fontSize: 15 }}>
+                <th style={{ padding: '1rem 0.5rem' }}>Name</th>
+                <th>Municipality</th>
+                <th>Role</th>
+                <th>Crew</th>
+                <th>2FA</th>
+                <th>Last Login</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredStaff.map(member => {
+                const isSelf = member.email === currentStaff?.email;
+                const lastLogin = lastLogins[member.email.toLowerCase()];
+                return (
+                  <tr key={member.id} style={{ borderTop: '1px solid #f0f0f0', fontSize: 14, color: member.active ? undefined : '#999' }}>
+                    <td style={{ padding: '0.8rem 0.5rem' }}>
+                      <div style={{ fontWeight: 600 }}>{member.name || '-'}</div>
+                      <div style={{ color: '#666' }}>{member.email}</div>
+                    </td>
+                    <td>
+                      {member.municipal || '-'}
+                      {getStaffMunicipalities(member).length > 1 && (
+                        <div style={{ color: '#666' }}>also {getStaffMunicipalities(member).slice(1).join(', ')}</div>
+                      )}
+                    </td>
+                    <td>{getStaffRoleLabel(member.staffRole)}</td>
+                    <td>{member.team || '-'}</td>
+                    <td style={{ color: member.mfaEnabled ? '#2e7d32' : '#e65100' }}>{member.mfaEnabled ? 'On' : 'Off'}</td>
+                    <td style={{ whiteSpace: 'nowrap' }}>{lastLogin ? lastLogin.toLocaleString() : 'Never'}</td>
+                    <td>
+                      {!member.active ? 'Deactivated' : member.requiresPasswordSetup ? 'Password reset pending' : 'Active'}
+                    </td>
+                    <td style={{ padding: '0.5rem', display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                      <button onClick={() => { setTempPassword(null); setEditing(member); }} style={actionStyle('#1976d2')}>Edit</button>
+                      {member.active && (
+                        <button onClick={() => handleForceReset(member)} style={actionStyle('#6d4c41')}>Reset Password</button>
+                      )}
+                      {member.mfaEnabled && (
+                        <button onClick={() => handleResetMfa(member)} style={actionStyle('#6d4c41')}>Reset 2FA</button>
+                      )}
+                      {!isSelf && (
+                        <button onClick={() => handleToggleActive(member)} style={actionStyle(member.active ? '#f44336' : '#2e7d32')}>
+                          {member.active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {filteredStaff.length === 0 && (
+                <tr><td colSpan={8} style={{ textAlign: 'center', padding: '2rem', color: '#888' }}>No staff found.</td></tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <StaffAccountModal
+        isOpen={editing !== null}
+        initial={editValues}
+        municipalities={municipalities}
+        crews={getCrews(staff)}
+        onClose={() => setEditing(null)}
+        onConfirm={handleSave}
+        isSubmitting={saving}
+      />
+      <ReauthModal {...reauthModalProps} />
+      <Footer />
+    </div>
+  );
+};
+
+export default StaffAdmin;
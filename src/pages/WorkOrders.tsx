@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import Footer from '../components/Footer';
+import { useMunicipalScope } from '../hooks/useMunicipalScope';
+import { reportRepository, slaCalendarRepository, slaPolicyRepository } from '../repositories';
+import { Report } from '../types/report';
+import { getSeverityColor } from '../utils/incidentUtils';
+import { getCrews, listStaff } from '../utils/staffUtils';
+import { WORK_ORDER_STATES, WorkOrderSla, downloadWorkOrders, getWorkOrderDeadline } from '../utils/workOrders';
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 16,
+  boxSizing: 'border-box'
+};
+
+// Today in the browser's time zone, as YYYY-MM-DD for a date input
+const todayInputValue = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Prints the day's work for a crew: every open incident assigned to the crew that
+ * is due by the end of the chosen day, overdue ones included, soonest first.
+ */
+const WorkOrders: React.FC = () => {
+  const { scope } = useMunicipalScope();
+  const [crews, setCrews] = useState<string[]>([]);
+  const [crew, setCrew] = useState('');
+  const [day, setDay] = useState(todayInputValue());
+  const [sla, setSla] = useState<WorkOrderSla | null>(null);
+  const [workOrders, setWorkOrders] = useState<{ report: Report; deadline: Date | null }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (scope.length === 0) return;
+    const fetchCrewsAndSla = async () => {
+      const [staffLists, policies, calendars] = await Promise.all([
+        Promise.all((Array.isArray(scope) ? scope : [scope]).map(m => listStaff(m))),
+        slaPolicyRepository.list().catch(error => {
+          console.error('Error loading SLA policies:', error);
+          return [];
+        }),
+        slaCalendarRepository.list().catch(error => {
+          console.error('Error loading SLA calendars:', error);
+          return {};
+        })
+      ]);
+      setCrews(getCrews(staffLists.flat()));
+      setSla({ policies, calendars });
+    };
+    fetchCrewsAndSla();
+  }, [scope]);
+
+  useEffect(() => {
+    if (!crew || !sla || scope.length === 0) {
+      setWorkOrders([]);
+      return;
+    }
+    let cancelled = false;
+    const fetchWorkOrders = async () => {
+      setLoading(true);
+      try {
+        const endOfDay = new Date(`${day}T23:59:59.999`);
+        const reports = await reportRepository.list({ municipal: scope, team: crew });
+        const due = reports
+          .filter(report => WORK_ORDER_STATES.includes(report.reportState))
+          .map(report => ({ report, deadline: getWorkOrderDeadline(report, sla) }))
+          .filter(({ deadline }) => !deadline || deadline <= endOfDay)
+          .sort((a, b) => (a.deadline?.getTime() ?? Infinity) - (b.deadline?.getTime() ?? Infinity));
+        if (!cancelled) setWorkOrders(due);
+      } catch (error) {
+        console.error('Error loading work orders:', error);
+        if (!cancelled) setWorkOrders([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchWorkOrders();
+    return () => {
+      cancelled = true;
+    };
+  }, [crew, day, sla, scope]);
+
+  const handleDownload = async () => {
+    if (!sla || workOrders.length === 0) return;
+    setDownloading(true);
+    try {
+      const filename = `work-orders-${crew.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${day}.pdf`;
+      await downloadWorkOrders(workOrders.map(({ report }) => report), sla, filename);
+    } catch (error) {
+      console.error('Error creating work orders:', error);
+      alert('Could not create the work orders. Please try again.');
+    }
+    setDownloading(false);
+  };
+
+  return (
+    <div style={{ background: '#f5f6f8', minHeight: '100vh', width: '100vw', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ width: '100%', maxWidth: 1200, margin: '0 auto', padding: '2rem 0' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 24 }}>
+          <h2 style={{ fontWeight: 700, fontSize: 28, margin: 0 }}>Work Orders</h2>
+          <button
+            onClick={handleDownload}
+            disabled={downloading || workOrders.length === 0}
+            style={{
+              padding: '8px 16px',
+              borderRadius: 8,
+              border: 'none',
+              background: downloading || workOrders.length === 0 ? '#ccc' : '#2ec4b6',
+              color: '#fff',
+              fontWeight: 600,
+              cursor: 'pointer'
+            }}>
+            {downloading ? 'Preparing PDF…' : `Download ${workOrders.length} Work Order${workOrders.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+
+        <p style={{ color: '#666', marginTop: 0 }}>
+          Open incidents assigned to the crew that are due by the end of the day, including overdue ones, soonest first.
+          Each work order starts on a new page.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16, marginBottom: 24 }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Crew</label>
+            <select value={crew} onChange={e => setCrew(e.target.value)} style={inputStyle}>
+              <option value="">Select a crew</option>
+              {crews.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: 8, fontWeight: 600 }}>Day</label>
+            <input type="date" value={day} onChange={e => setDay(e.target.value || todayInputValue())} style={inputStyle} />
+          </div>
+        </div>
+
+        <div style={{ background: '#fff', borderRadius: 16, boxShadow: '0 2px 8px rgba(0,0,0,0.04)', padding: 24 }}>
+          {!crew ? (
+            <div style={{ color: '#888' }}>Choose a crew to see its work orders.</div>
+          ) : loading ? (
+            <div style={{ color: '#888' }}>Loading…</div>
+          ) : workOrders.length === 0 ? (
+            <div style={{ color: '#888' }}>Nothing is due for {crew} by the end of this day.</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 15 }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: '#888' }}>
+                  <th style={{ padding: '8px 4px' }}>ID</th>
+                  <th>Type</th>
+                  <th>Severity</th>
+                  <th>Location</th>
+                  <th>Deadline</th>
+                </tr>
+              </thead>
+              <tbody>
+                {workOrders.map(({ report, deadline }) => (
+                  <tr key={report.id} style={{ borderTop: '1px solid #f0f0f0' }}>
+                    <td style={{ padding: '8px 4px' }}><a href={`/incidents/${report.id}`}>#{report.id}</a></td>
+                    <td>{report.incidentType}</td>
+                    <td style={{ color: getSeverityColor(report.severity || 'Low'), fontWeight: 600 }}>{report.severity || 'Low'}</td>
+                    <td>{report.location}</td>
+                    <td style={{ color: deadline && deadline < new Date() ? '#e53935' : undefined }}>
+                      {deadline ? deadline.toLocaleString() : 'No deadline'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default WorkOrders;
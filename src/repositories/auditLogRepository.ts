@@ -0,0 +1,102 @@
+import {
+  Firestore,
+  DocumentData,
+  Query,
+  collection,
+  documentId,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where
+} from 'firebase/firestore';
+import { AuditEventType, AuditLog, AuditLogFilter, AuditLogPage, AuditLogPageOptions } from '../types/auditLog';
+import { toDate } from '../utils/incidentUtils';
+
+export interface AuditLogRepository {
+  // One page, newest first
+  listPage(filter: AuditLogFilter, options: AuditLogPageOptions): Promise<AuditLogPage>;
+  // Most recent successful sign-in per user, keyed by lower-cased email
+  lastLogins(maxResults?: number): Promise<Record<string, Date>>;
+}
+
+const AUDIT_LOGS_COLLECTION = 'auditLogs';
+
+const DEFAULT_MAX_RESULTS = 1000;
+
+/**
+ * Map a raw `auditLogs` document to an AuditLog
+ */
+export const toAuditLog = (id: string, d: DocumentData): AuditLog => ({
+  id,
+  eventType: d.eventType as AuditEventType,
+  userId: d.userId,
+  userEmail: d.userEmail,
+  ipAddress: d.ipAddress,
+  userAgent: d.userAgent,
+  details: d.details,
+  incidentId: d.incidentId,
+  timestamp: d.timestamp
+});
+
+export class FirestoreAuditLogRepository implements AuditLogRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async listPage(filter: AuditLogFilter, options: AuditLogPageOptions): Promise<AuditLogPage> {
+    let q = query(this.buildQuery(filter), orderBy('timestamp', 'desc'), orderBy(documentId(), 'desc'));
+    if (options.after) {
+      q = query(q, startAfter(options.after.timestamp, options.after.id));
+    }
+    // One extra entry tells whether there is another page
+    const querySnapshot = await getDocs(query(q, limit(options.pageSize + 1)));
+    const logs = querySnapshot.docs.map(d => toAuditLog(d.id, d.data()));
+    return { logs: logs.slice(0, options.pageSize), hasMore: logs.length > options.pageSize };
+  }
+
+  // Equality filters are combined with the timestamp order by merging the
+  // per-field indexes in firestore.indexes.json
+  private buildQuery(filter: AuditLogFilter): Query<DocumentData> {
+    let q = query(collection(this.db, AUDIT_LOGS_COLLECTION));
+    if (filter.eventType) {
+      q = query(q, where('eventType', '==', filter.eventType));
+    }
+    if (filter.userEmail) {
+      q = query(q, where('userEmail', '==', filter.userEmail.trim().toLowerCase()));
+    }
+    if (filter.incidentId) {
+      q = query(q, where('incidentId', '==', filter.incidentId));
+    }
+    if (filter.from) {
+      q = query(q, where('timestamp', '>=', filter.from));
+    }
+    if (filter.to) {
+      q = query(q, where('timestamp', '<=', filter.to));
+    }
+    return q;
+  }
+
+  async lastLogins(maxResults: number = DEFAULT_MAX_RESULTS): Promise<Record<string, Date>> {
+    // Needs the eventType + timestamp index in firestore.indexes.json
+    const q = query(
+      collection(this.db, AUDIT_LOGS_COLLECTION),
+      where('eventType', '==', AuditEventType.LOGIN_SUCCESS),
+      orderBy('timestamp', 'desc'),
+      limit(maxResults)
+    );
+    const querySnapshot = await getDocs(q);
+    const logins: Record<string, Date> = {};
+    querySnapshot.docs.forEach(d => {
+      const log = toAuditLog(d.id, d.data());
+      const email = (log.userEmail || '').toLowerCase();
+      const loggedAt = toDate(log.timestamp);
+      // Newest first, so the first entry per email is the latest
+      if (email && loggedAt && !logins[email]) logins[email] = loggedAt;
+    });
+    return logins;
+  }
+}
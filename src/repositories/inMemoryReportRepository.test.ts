@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from '../types/report';
+import { InMemoryReportRepository } from './inMemoryReportRepository';
+import { planBulkChange } from './reportRepository';
+import { toDate } from '../utils/incidentUtils';
+
+const report = (id: string, fields: Partial<Report> = {}): Report => ({
+  id,
+  municipal: 'Springfield',
+  reportState: 'New',
+  location: '',
+  locationInfo: '',
+  incidentType: 'Pothole',
+  description: `Report ${id}`,
+  photos: [],
+  mediaUrls: [],
+  contact: '',
+  reporterName: '',
+  reporterEmail: '',
+  timestamp: new Date('2025-03-01T09:00:00Z'),
+  ...fields
+});
+
+const NOW = new Date('2025-03-02T09:00:00Z');
+
+describe('InMemoryReportRepository.listPage', () => {
+  // Three reports share a timestamp, so the cursor has to break ties by id
+  const reports = [
+    report('a', { timestamp: new Date('2025-03-01T08:00:00Z') }),
+    report('b'),
+    report('c'),
+    report('d'),
+    report('e', { timestamp: new Date('2025-03-01T10:00:00Z') }),
+    report('untimed', { timestamp: undefined })
+  ];
+
+  const collect = async (sort: 'newest' | 'oldest') => {
+    const repository = new InMemoryReportRepository(reports);
+    const pages: string[][] = [];
+    let page = await repository.listPage({}, { sort, pageSize: 2 });
+    pages.push(page.reports.map(r => r.id));
+    while (page.hasMore) {
+      const last = page.reports[page.reports.length - 1];
+      page = await repository.listPage({}, { sort, pageSize: 2, after: { timestamp: last.timestamp!, id: last.id } });
+      pages.push(page.reports.map(r => r.id));
+    }
+    return pages;
+  };
+
+  it('walks every timed report once, oldest first', async () => {
+    expect(await collect('oldest')).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('walks every timed report once, newest first', async () => {
+    expect(await collect('newest')).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+  });
+
+  it('pages within a filter', async () => {
+    const repository = new InMemoryReportRepository([...reports, report('other', { municipal: 'Shelbyville' })]);
+    const page = await repository.listPage({ municipal: 'Shelbyville' }, { sort: 'oldest', pageSize: 2 });
+    expect(page).toEqual({ reports: [expect.objectContaining({ id: 'other' })], hasMore: false });
+  });
+
+  it('pages through unassigned reports only', async () => {
+    const repository = new InMemoryReportRepository([
+      report('open', { isAssigned: false }),
+      report('taken', { isAssigned: true, team: 'Roads' }),
+      report('legacy')
+    ]);
+    const page = await repository.listPage({ unassigned: true }, { sort: 'oldest', pageSize: 2 });
+    expect(page.reports.map(r => r.id)).toEqual(['open']);
+    await repository.assign('open', { team: 'Roads' }, 'dispatch@example.org');
+    expect((await repository.listPage({ unassigned: true }, { sort: 'oldest', pageSize: 2 })).reports).toEqual([]);
+  });
+});
+
+describe('planBulkChange', () => {
+  it('skips merged reports whatever the action', () => {
+    const merged = report('m', { reportState: 'Merged', mergedInto: 'p' });
+    expect(planBulkChange(merged, { type: 'complete' }, NOW)).toEqual({ skipped: 'Merged into #p' });
+  });
+
+  it('skips a severity change that changes nothing', () => {
+    const plan = planBulkChange(report('a', { severity: 'High' }), { type: 'severity', severity: 'High' }, NOW);
+    expect(plan).toEqual({ skipped: 'Already High' });
+  });
+
+  it('completes with the resolution time', () => {
+    const plan = planBulkChange(report('a'), { type: 'complete' }, NOW);
+    if ('skipped' in plan) throw new Error(plan.skipped);
+    expect(plan.changes).toMatchObject({ reportState: 'Completed', isOverdue: false, completedAt: NOW, resolutionTimeHours: 24 });
+    expect(plan.event.action).toBe('completed');
+  });
+
+  it('skips reports that are already completed or flagged', () => {
+    expect(planBulkChange(report('a', { reportState: 'Completed' }), { type: 'complete' }, NOW))
+      .toEqual({ skipped: 'Already completed' });
+    expect(planBulkChange(report('a', { flagged: true }), { type: 'flag', reason: 'spam', notes: '' }, NOW))
+      .toEqual({ skipped: 'Already flagged' });
+  });
+
+  it('records the assignment in the history', () => {
+    const plan = planBulkChange(report('a'), {
+      type: 'assign',
+      assignment: { assignedTo: 'crew@example.org', team: 'Roads' },
+      assignedBy: 'dispatch@example.org'
+    }, NOW);
+    if ('skipped' in plan) throw new Error(plan.skipped);
+    expect(plan.changes).toMatchObject({
+      assignedTo: 'crew@example.org',
+      assignedToName: 'crew@example.org',
+      team: 'Roads',
+      assignmentHistory: [expect.objectContaining({ assignedBy: 'dispatch@example.org', assignedAt: NOW })]
+    });
+  });
+});
+
+describe('InMemoryReportRepository.merge', () => {
+  it('folds duplicates into the primary and logs both sides', async () => {
+    const repository = new InMemoryReportRepository([
+      report('p', { mediaUrls: ['p.jpg'] }),
+      report('d1', { mediaUrls: ['d1.jpg'] }),
+      report('d2')
+    ]);
+
+    await repository.merge('p', ['d1', 'd2']);
+
+    const primary = await repository.get('p');
+    expect(primary?.mediaUrls).toEqual(['p.jpg', 'd1.jpg']);
+    expect(primary?.description).toContain('--- Merged from report #d1 ---\nReport d1');
+    expect(primary?.mergedReports?.map(ref => ref.id)).toEqual(['d1', 'd2']);
+    expect(await repository.get('d1')).toMatchObject({ reportState: 'Merged', mergedInto: 'p' });
+    expect((await repository.listEvents('p')).map(e => e.action)).toEqual(['merged']);
+    expect((await repository.listEvents('d2')).map(e => e.action)).toEqual(['merged_into']);
+  });
+
+  it('fails without writing when a report is missing', async () => {
+    const repository = new InMemoryReportRepository([report('p'), report('d1')]);
+    await expect(repository.merge('p', ['d1', 'gone'])).rejects.toThrow('One of the reports no longer exists.');
+    expect((await repository.get('d1'))?.reportState).toBe('New');
+  });
+
+  it('refuses the primary itself and reports that are already merged', async () => {
+    const repository = new InMemoryReportRepository([report('p'), report('d1'), report('m', { reportState: 'Merged', mergedInto: 'q' })]);
+    await expect(repository.merge('p', ['d1', 'p'])).rejects.toThrow('cannot be merged into itself');
+    await expect(repository.merge('p', ['d1', 'm'])).rejects.toThrow('Report #m is already merged into #q');
+    expect((await repository.get('d1'))?.reportState).toBe('New');
+  });
+
+  it('can be undone with unmerge', async () => {
+    const repository = new InMemoryReportRepository([report('p'), report('d1')]);
+    await repository.merge('p', ['d1']);
+    await repository.unmerge('d1');
+    const restored = await repository.get('d1');
+    expect(restored?.reportState).toBe('In Progress');
+    expect(restored).not.toHaveProperty('mergedInto');
+    expect((await repository.get('p'))?.mergedReports).toEqual([]);
+  });
+});
+
+describe('InMemoryReportRepository deadlines', () => {
+  const sla = async () => ({ policies: [] });
+
+  it('recalculates the deadline with a severity change', async () => {
+    const repository = new InMemoryReportRepository([report('a', { severity: 'Low' })], undefined, sla);
+    await repository.update('a', { severity: 'Critical' });
+    const updated = await repository.get('a');
+    expect(toDate(updated?.deadline)?.toISOString()).toBe('2025-03-02T09:00:00.000Z');
+    expect((await repository.listEvents('a'))[0]).toMatchObject({ action: 'severity_changed', after: { severity: 'Critical' } });
+  });
+
+  it('recalculates bulk severity changes', async () => {
+    const repository = new InMemoryReportRepository([report('a', { severity: 'Low' })], undefined, sla);
+    await repository.bulkUpdate(['a'], { type: 'severity', severity: 'Critical' });
+    expect(toDate((await repository.get('a'))?.deadline)?.toISOString()).toBe('2025-03-02T09:00:00.000Z');
+  });
+
+  it('closes the pause when a paused report is bulk completed', async () => {
+    const repository = new InMemoryReportRepository([report('a', {
+      reportState: 'Paused',
+      pausedAt: new Date('2025-03-01T10:00:00Z'),
+      pauseReason: 'waiting_on_third_party',
+      pauseNote: 'Due Friday'
+    })], undefined, sla);
+    await repository.bulkUpdate(['a'], { type: 'complete' });
+    const completed = await repository.get('a');
+    expect(completed?.reportState).toBe('Completed');
+    expect(completed).not.toHaveProperty('pausedAt');
+    expect(completed).not.toHaveProperty('pauseReason');
+    expect(completed).not.toHaveProperty('pauseNote');
+    expect(completed?.pauseHistory).toHaveLength(1);
+  });
+
+  it('logs the SLA sweep as sla_overdue and writes nothing that is already stored', async () => {
+    const repository = new InMemoryReportRepository([report('a', { severity: 'Critical', isOverdue: false })]);
+    const listed = (await repository.get('a'))!;
+    const overdue = { reportState: 'Overdue' as const, isOverdue: true, overdueAt: NOW };
+    expect(await repository.updateSla(listed, overdue)).toBe(true);
+    expect(await repository.updateSla(listed, overdue)).toBe(false);
+    expect(await repository.updateSla(listed, { deadlineUpdatedAt: NOW })).toBe(false);
+    expect((await repository.listEvents('a')).map(e => e.action)).toEqual(['sla_overdue']);
+  });
+
+  it('pushes the deadline out by the paused time on resume', async () => {
+    const repository = new InMemoryReportRepository([report('a', {
+      severity: 'Critical',
+      reportState: 'Paused',
+      pausedAt: new Date('2025-03-01T10:00:00Z')
+    })], undefined, sla);
+    await repository.resume('a', new Date('2025-03-01T16:00:00Z'));
+    const resumed = await repository.get('a');
+    expect(toDate(resumed?.deadline)?.toISOString()).toBe('2025-03-02T15:00:00.000Z');
+    expect(resumed?.reportState).toBe('In Progress');
+  });
+});
@@ -0,0 +1,349 @@
+import { Unsubscribe } from 'firebase/firestore';
+import {
+  Assignment,
+  BulkAction,
+  BulkItemResult,
+  CompletionResult,
+  PauseReason,
+  Report,
+  ReportFilter,
+  ReportMessage,
+  ReportPage,
+  ReportPageOptions,
+  ReportUpdate
+} from '../types/report';
+import { ReportEvent, ReportEventInput, ReportEventMeta } from '../types/reportEvent';
+import { SlaSettings } from '../types/slaPolicy';
+import { SYSTEM_ACTOR, buildReportEvent } from '../utils/reportEvents';
+import {
+  CLEARED_ASSIGNMENT,
+  PAUSABLE_STATES,
+  ReportRepository,
+  SlaSettingsLoader,
+  assertCanMerge,
+  buildAssignment,
+  buildCompletion,
+  buildImportEvent,
+  buildMergeUpdates,
+  buildResume,
+  buildUnmerge,
+  matchesFilter,
+  paginateReports,
+  planBulkChange,
+  planBulkMerge,
+  planSlaUpdate,
+  withSlaUpdate
+} from './reportRepository';
+
+interface Watcher {
+  filter: ReportFilter;
+  onChange: (reports: Report[]) => void;
+}
+
+interface EventWatcher {
+  id: string;
+  onChange: (events: ReportEvent[]) => void;
+}
+
+/**
+ * In-memory ReportRepository with the same semantics as the Firestore one.
+ * Used for unit tests and local tooling that should not touch Firestore.
+ */
+export class InMemoryReportRepository implements ReportRepository {
+  private reports: Map<string, Report> = new Map();
+  private events: Map<string, ReportEvent[]> = new Map();
+  private messages: Map<string, ReportMessage[]> = new Map();
+  private watchers: Set<Watcher> = new Set();
+  private eventWatchers: Set<EventWatcher> = new Set();
+  private getActor: () => string;
+  private loadSla?: SlaSettingsLoader;
+  private nextEventId = 1;
+
+  constructor(initial: Report[] = [], getActor: () => string = () => SYSTEM_ACTOR, loadSla?: SlaSettingsLoader) {
+    initial.forEach(report => this.reports.set(report.id, { ...report }));
+    this.getActor = getActor;
+    this.loadSla = loadSla;
+  }
+
+  private async getSla(municipal: string): Promise<SlaSettings | undefined> {
+    return this.loadSla?.(municipal);
+  }
+
+  private snapshot(filter: ReportFilter): Report[] {
+    return Array.from(this.reports.values())
+      .filter(report => matchesFilter(report, filter))
+      .map(report => ({ ...report }));
+  }
+
+  private notify() {
+    this.watchers.forEach(w => w.onChange(this.snapshot(w.filter)));
+  }
+
+  private eventSnapshot(id: string): ReportEvent[] {
+    return (this.events.get(id) || []).map(event => ({ ...event }));
+  }
+
+  private addEvent(id: string, event: ReportEventInput) {
+    const events = this.events.get(id) || [];
+    events.push({ ...event, id: String(this.nextEventId++), actor: this.getActor(), at: new Date() });
+    this.events.set(id, events);
+    this.eventWatchers.forEach(w => {
+      if (w.id === id) w.onChange(this.eventSnapshot(id));
+    });
+  }
+
+  private getOrThrow(id: string): Report {
+    const report = this.reports.get(id);
+    if (!report) {
+      throw new Error('Incident not found');
+    }
+    return report;
+  }
+
+  async list(filter: ReportFilter = {}): Promise<Report[]> {
+    return this.snapshot(filter);
+  }
+
+  async get(id: string): Promise<Report | null> {
+    const report = this.reports.get(id);
+    return report ? { ...report } : null;
+  }
+
+  watch(filter: ReportFilter, onChange: (reports: Report[]) => void): Unsubscribe {
+    const watcher = { filter, onChange };
+    this.watchers.add(watcher);
+    onChange(this.snapshot(filter));
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+
+  async listPage(filter: ReportFilter, options: ReportPageOptions): Promise<ReportPage> {
+    return paginateReports(this.snapshot(filter), options);
+  }
+
+  watchPage(filter: ReportFilter, options: ReportPageOptions, onChange: (page: ReportPage) => void): Unsubscribe {
+    return this.watch(filter, reports => onChange(paginateReports(reports, options)));
+  }
+
+  async count(filter: ReportFilter = {}): Promise<number> {
+    return this.snapshot(filter).length;
+  }
+
+  async update(id: string, changes: ReportUpdate, meta?: ReportEventMeta): Promise<void> {
+    const report = this.reports.get(id);
+    if (!report) {
+      throw new Error(`No report found with id ${id}`);
+    }
+    const severityChanged = !!changes.severity && changes.severity !== report.severity;
+    const fields = severityChanged ? withSlaUpdate(report, changes, new Date(), await this.getSla(report.municipal)) : changes;
+    this.reports.set(id, { ...report, ...fields });
+    this.addEvent(id, buildReportEvent(report, fields, severityChanged ? { action: 'severity_changed', ...meta } : meta));
+    this.notify();
+  }
+
+  async updateSla(report: Report, changes: ReportUpdate, reason?: string): Promise<boolean> {
+    const current = this.getOrThrow(report.id);
+    const plan = planSlaUpdate(current, changes, reason);
+    if (!plan) return false;
+    this.reports.set(report.id, { ...current, ...plan.changes });
+    this.addEvent(report.id, plan.event);
+    this.notify();
+    return true;
+  }
+
+  async merge(primaryId: string, duplicateIds: string[]): Promise<void> {
+    const primary = this.reports.get(primaryId);
+    const duplicates = duplicateIds.map(id => this.reports.get(id));
+    if (!primary || duplicates.some(d => !d)) {
+      throw new Error('One of the reports no longer exists.');
+    }
+    assertCanMerge(primary, duplicates as Report[]);
+
+    const updates = buildMergeUpdates(primary, duplicates as Report[], new Date());
+    const existingRefs = primary.mergedReports || [];
+    this.reports.set(primaryId, {
+      ...primary,
+      ...updates.primary,
+      mergedReports: [
+        ...existingRefs,
+        ...updates.mergedRefs.filter(ref => !existingRefs.some(e => e.id === ref.id))
+      ]
+    });
+    this.addEvent(primaryId, { action: 'merged', after: { mergedReportIds: duplicateIds } });
+    for (const duplicate of duplicates as Report[]) {
+      this.reports.set(duplicate.id, { ...duplicate, ...updates.duplicate });
+      this.addEvent(duplicate.id, buildReportEvent(duplicate, updates.duplicate, { action: 'merged_into' }));
+    }
+    this.notify();
+  }
+
+  async unmerge(duplicateId: string): Promise<void> {
+    const duplicate = this.reports.get(duplicateId);
+    if (!duplicate || duplicate.reportState !== 'Merged' || !duplicate.mergedInto) {
+      throw new Error('Report is not merged');
+    }
+
+    const primary = this.reports.get(duplicate.mergedInto) || null;
+    const updates = buildUnmerge(primary, duplicateId);
+    const restored: Report = { ...duplicate, ...updates.duplicate };
+    delete restored.mergedInto;
+    delete restored.mergedAt;
+    this.reports.set(duplicateId, restored);
+    this.addEvent(duplicateId,
+      buildReportEvent(duplicate, { ...updates.duplicate, mergedInto: null }, { action: 'unmerged' }));
+    if (primary) {
+      this.reports.set(primary.id, { ...primary, ...updates.primary });
+      this.addEvent(primary.id, { action: 'unmerged', after: { unmergedReportId: duplicateId } });
+    }
+    this.notify();
+  }
+
+  async flag(id: string, reason: string, notes: string): Promise<void> {
+    await this.update(id, {
+      flagged: true,
+      flaggedAt: new Date(),
+      flagReason: reason,
+      flagNotes: notes,
+      flagStatus: 'pending_review'
+    }, { action: 'flagged', reason: notes });
+  }
+
+  async complete(id: string, completedAt: Date = new Date()): Promise<CompletionResult> {
+    const report = this.getOrThrow(id);
+
+    const result = buildCompletion(report, completedAt);
+    await this.update(id, {
+      reportState: 'Completed',
+      isOverdue: false,
+      ...result
+    }, { action: 'completed' });
+    return result;
+  }
+
+  async pause(id: string, reason: PauseReason, note: string): Promise<void> {
+    const report = this.getOrThrow(id);
+    if (!PAUSABLE_STATES.includes(report.reportState)) {
+      throw new Error(`Cannot pause an incident that is ${report.reportState}`);
+    }
+
+    const now = new Date();
+    await this.update(id, withSlaUpdate(report, {
+      reportState: 'Paused',
+      pauseReason: reason,
+      pauseNote: note,
+      pausedAt: now,
+      isOverdue: false
+    }, now, await this.getSla(report.municipal)), { action: 'paused', reason: note });
+  }
+
+  async resume(id: string, resumedAt: Date = new Date()): Promise<void> {
+    const report = this.reports.get(id);
+    if (!report || report.reportState !== 'Paused') {
+      throw new Error('Incident is not paused');
+    }
+
+    const changes = withSlaUpdate({ ...report, pausedAt: undefined }, buildResume(report, resumedAt), resumedAt,
+      await this.getSla(report.municipal));
+    const resumed: Report = { ...report, ...changes };
+    delete resumed.pauseReason;
+    delete resumed.pauseNote;
+    delete resumed.pausedAt;
+    this.reports.set(id, resumed);
+    this.addEvent(id, buildReportEvent(report, { ...changes, pauseReason: null }, { action: 'resumed' }));
+    this.notify();
+  }
+
+  async assign(id: string, assignment: Assignment, assignedBy: string, note: string = ''): Promise<void> {
+    const report = this.getOrThrow(id);
+
+    const changes = buildAssignment(report, assignment, assignedBy, new Date(), note);
+    const assigned: Report = { ...report };
+    delete assigned.assignedTo;
+    delete assigned.assignedToName;
+    delete assigned.team;
+    this.reports.set(id, { ...assigned, ...changes });
+    this.addEvent(id, buildReportEvent(report, { ...CLEARED_ASSIGNMENT, ...changes }, { action: 'assigned', reason: note }));
+    this.notify();
+  }
+
+  async listEvents(id: string): Promise<ReportEvent[]> {
+    return this.eventSnapshot(id);
+  }
+
+  watchEvents(id: string, onChange: (events: ReportEvent[]) => void): Unsubscribe {
+    const watcher = { id, onChange };
+    this.eventWatchers.add(watcher);
+    onChange(this.eventSnapshot(id));
+    return () => {
+      this.eventWatchers.delete(watcher);
+    };
+  }
+
+  async listMessages(id: string): Promise<ReportMessage[]> {
+    return (this.messages.get(id) || []).map(message => ({ ...message }));
+  }
+
+  // Not part of ReportRepository; the app writes chat messages directly
+  addMessage(id: string, message: Omit<ReportMessage, 'id'>) {
+    const messages = this.messages.get(id) || [];
+    messages.push({ ...message, id: String(messages.length + 1) });
+    this.messages.set(id, messages);
+  }
+
+  async bulkUpdate(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    const now = new Date();
+    const slaByMunicipality = new Map<string, SlaSettings | undefined>();
+    if (action.type === 'severity') {
+      for (const id of ids) {
+        const municipal = this.reports.get(id)?.municipal;
+        if (municipal !== undefined && !slaByMunicipality.has(municipal)) {
+          slaByMunicipality.set(municipal, await this.getSla(municipal));
+        }
+      }
+    }
+    const results = ids.map((id): BulkItemResult => {
+      const report = this.reports.get(id);
+      if (!report) return { id, status: 'failed', message: 'Report not found' };
+      const plan = planBulkChange(report, action, now, slaByMunicipality.get(report.municipal));
+      if ('skipped' in plan) return { id, status: 'skipped', message: plan.skipped };
+
+      const updated: Report = { ...report };
+      if (action.type === 'assign') {
+        delete updated.assignedTo;
+        delete updated.assignedToName;
+        delete updated.team;
+      } else if (action.type === 'complete') {
+        delete updated.pauseReason;
+        delete updated.pauseNote;
+        delete updated.pausedAt;
+      }
+      this.reports.set(id, { ...updated, ...plan.changes });
+      this.addEvent(id, plan.event);
+      return { id, status: 'updated' };
+    });
+    this.notify();
+    return results;
+  }
+
+  async bulkMerge(primaryId: string, ids: string[]): Promise<BulkItemResult[]> {
+    const primary = this.getOrThrow(primaryId);
+    if (primary.reportState === 'Merged') {
+      throw new Error(`Report #${primaryId} is itself merged and cannot be the primary`);
+    }
+    const { results, mergeIds } = planBulkMerge(primary, ids, ids.map(id => this.reports.get(id) || null));
+    if (mergeIds.length > 0) await this.merge(primaryId, mergeIds);
+    return results;
+  }
+
+  async importReports(reports: Report[]): Promise<BulkItemResult[]> {
+    const results = reports.map((report): BulkItemResult => {
+      if (this.reports.has(report.id)) return { id: report.id, status: 'skipped', message: 'Already imported' };
+      this.reports.set(report.id, { ...report });
+      this.addEvent(report.id, buildImportEvent(report));
+      return { id: report.id, status: 'updated' };
+    });
+    this.notify();
+    return results;
+  }
+}
@@ -0,0 +1,30 @@
+import { auth, db } from '../config/firebase';
+import { SYSTEM_ACTOR } from '../utils/reportEvents';
+import { FirestoreReportRepository, ReportRepository } from './reportRepository';
+import { FirestoreSlaPolicyRepository, SlaPolicyRepository } from './slaPolicyRepository';
+import { FirestoreSlaCalendarRepository, SlaCalendarRepository } from './slaCalendarRepository';
+import { AuditLogRepository, FirestoreAuditLogRepository } from './auditLogRepository';
+import { FirestoreLoginLockRepository, LoginLockRepository } from './loginLockRepository';
+import { FirestoreSearchIndexRepository, SearchIndexRepository } from './searchIndexRepository';
+
+// Shared repository instances used by the app
+export const slaPolicyRepository: SlaPolicyRepository = new FirestoreSlaPolicyRepository(db);
+export const slaCalendarRepository: SlaCalendarRepository = new FirestoreSlaCalendarRepository(db);
+export const reportRepository: ReportRepository = new FirestoreReportRepository(
+  db,
+  () => auth.currentUser?.email || SYSTEM_ACTOR,
+  async municipal => ({
+    policies: await slaPolicyRepository.list(municipal),
+    calendar: await slaCalendarRepository.get(municipal)
+  })
+);
+export const auditLogRepository: AuditLogRepository = new FirestoreAuditLogRepository(db);
+export const loginLockRepository: LoginLockRepository = new FirestoreLoginLockRepository(db);
+export const searchIndexRepository: SearchIndexRepository = new FirestoreSearchIndexRepository(db);
+
+export type { ReportRepository } from './reportRepository';
+export type { SlaPolicyRepository } from './slaPolicyRepository';
+export type { SlaCalendarRepository } from './slaCalendarRepository';
+export type { AuditLogRepository } from './auditLogRepository';
+export type { LoginLockRepository } from './loginLockRepository';
+export type { SearchIndexRepository } from './searchIndexRepository';
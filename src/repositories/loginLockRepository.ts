@@ -0,0 +1,53 @@
+import {
+  Firestore,
+  DocumentData,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  where
+} from 'firebase/firestore';
+import { LoginLock } from '../types/loginLock';
+
+export interface LoginLockRepository {
+  // Accounts and IPs that are locked out right now, longest lock first
+  listLocked(now?: Date): Promise<LoginLock[]>;
+  // Clears the counter so the next sign-in starts with no failures or backoff
+  unlock(id: string): Promise<void>;
+}
+
+const LOGIN_RATE_LIMITS_COLLECTION = 'loginRateLimits';
+
+export const toLoginLock = (id: string, d: DocumentData): LoginLock => ({
+  id,
+  kind: d.kind,
+  subject: d.subject,
+  failures: d.failures || 0,
+  lockouts: d.lockouts || 0,
+  blockedUntil: d.blockedUntil || null,
+  lastFailureAt: d.lastFailureAt
+});
+
+export class FirestoreLoginLockRepository implements LoginLockRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async listLocked(now: Date = new Date()): Promise<LoginLock[]> {
+    const q = query(
+      collection(this.db, LOGIN_RATE_LIMITS_COLLECTION),
+      where('blockedUntil', '>', now),
+      orderBy('blockedUntil', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(d => toLoginLock(d.id, d.data()));
+  }
+
+  async unlock(id: string): Promise<void> {
+    await deleteDoc(doc(this.db, LOGIN_RATE_LIMITS_COLLECTION, id));
+  }
+}
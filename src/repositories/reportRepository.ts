@@ -0,0 +1,953 @@
+import {
+  Firestore,
+  DocumentData,
+  Query,
+  Unsubscribe,
+  WriteBatch,
+  collection,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  writeBatch,
+  arrayUnion,
+  deleteField
+} from 'firebase/firestore';
+import { formatElapsedTime, normalizeSeverity, toDate } from '../utils/incidentUtils';
+import {
+  Assignment,
+  BulkAction,
+  BulkItemResult,
+  CompletionResult,
+  MergedReportRef,
+  PauseReason,
+  Report,
+  ReportFilter,
+  ReportMessage,
+  ReportPage,
+  ReportPageOptions,
+  ReportStatus,
+  ReportUpdate
+} from '../types/report';
+import { ReportEvent, ReportEventInput, ReportEventMeta } from '../types/reportEvent';
+import { SlaSettings } from '../types/slaPolicy';
+import { SYSTEM_ACTOR, buildReportEvent } from '../utils/reportEvents';
+import { computeSlaUpdate } from '../utils/slaPolicyUtils';
+
+export interface ReportRepository {
+  list(filter?: ReportFilter): Promise<Report[]>;
+  get(id: string): Promise<Report | null>;
+  watch(filter: ReportFilter, onChange: (reports: Report[]) => void): Unsubscribe;
+  // One page in timestamp order; reports without a timestamp are left out
+  listPage(filter: ReportFilter, options: ReportPageOptions): Promise<ReportPage>;
+  watchPage(filter: ReportFilter, options: ReportPageOptions, onChange: (page: ReportPage) => void): Unsubscribe;
+  // How many reports match, without loading them
+  count(filter?: ReportFilter): Promise<number>;
+  // Every change also appends an event to the report's event log. Severity
+  // changes, pauses and resumes recalculate the deadline in the same write.
+  update(id: string, changes: ReportUpdate, meta?: ReportEventMeta): Promise<void>;
+  // Write an SLA sweeper change to a report as listed, logged as sla_overdue or
+  // sla_recalculated. Nothing is written when the report already holds the new
+  // severity, deadline and overdue state; returns whether anything was.
+  updateSla(report: Report, changes: ReportUpdate, reason?: string): Promise<boolean>;
+  merge(primaryId: string, duplicateIds: string[]): Promise<void>;
+  // Restore a merged report; combined media and descriptions stay on the primary
+  unmerge(duplicateId: string): Promise<void>;
+  flag(id: string, reason: string, notes: string): Promise<void>;
+  complete(id: string, completedAt?: Date): Promise<CompletionResult>;
+  pause(id: string, reason: PauseReason, note: string): Promise<void>;
+  resume(id: string, resumedAt?: Date): Promise<void>;
+  // Replaces the current assignment and appends it to assignmentHistory
+  assign(id: string, assignment: Assignment, assignedBy: string, note?: string): Promise<void>;
+  // Event log, oldest first
+  listEvents(id: string): Promise<ReportEvent[]>;
+  watchEvents(id: string, onChange: (events: ReportEvent[]) => void): Unsubscribe;
+  // Incident chat, oldest first
+  listMessages(id: string): Promise<ReportMessage[]>;
+  // Apply one change to several reports in batched writes, with a result for each report
+  bulkUpdate(ids: string[], action: BulkAction): Promise<BulkItemResult[]>;
+  // Merge several reports into a primary in one write; ones that cannot be merged are skipped
+  bulkMerge(primaryId: string, ids: string[]): Promise<BulkItemResult[]>;
+  // Create reports brought in from another system under their own ids. Ids that
+  // already exist are skipped, so running the same import again changes nothing.
+  importReports(reports: Report[]): Promise<BulkItemResult[]>;
+}
+
+// The SLA settings for a municipality, for recalculating deadlines as reports change
+export type SlaSettingsLoader = (municipal: string) => Promise<SlaSettings>;
+
+const REPORTS_COLLECTION = 'reports';
+const EVENTS_COLLECTION = 'events';
+const MESSAGES_COLLECTION = 'messages';
+
+// Each report in a bulk action takes two writes (the report and its event); Firestore allows 500 per batch
+const BULK_BATCH_SIZE = 200;
+
+// Firestore allows 30 disjunctions per query; each municipality multiplies the reportState values
+const MAX_QUERY_DISJUNCTIONS = 30;
+
+// The stored reportState values for each state; legacy reports still say "Resolved" (see toReport)
+const storedStates = (reportState: ReportStatus | ReportStatus[]): string[] =>
+  (Array.isArray(reportState) ? reportState : [reportState])
+    .flatMap(state => (state === 'Completed' ? ['Completed', 'Resolved'] : [state]));
+
+/**
+ * Map a raw `reports` document to the canonical Report type
+ */
+export const toReport = (id: string, d: DocumentData): Report => ({
+  id,
+  municipal: d.municipal || '',
+  // Legacy reports used "Resolved"/resolvedAt before "Completed" was introduced
+  reportState: d.reportState === 'Resolved' ? 'Completed' : (d.reportState || 'New'),
+  location: d.location || '',
+  locationInfo: d.locationInfo || '',
+  latitude: d.latitude,
+  longitude: d.longitude,
+  incidentType: d.incidentType || '',
+  description: d.description || '',
+  photos: d.photos || [],
+  mediaUrls: d.mediaUrls || [],
+  contact: d.contact || '',
+  severity: d.severity ? normalizeSeverity(d.severity) : undefined,
+  deadline: d.deadline,
+  timestamp: d.timestamp,
+  isOverdue: d.isOverdue,
+  deadlineUpdatedAt: d.deadlineUpdatedAt,
+  overdueAt: d.overdueAt,
+  overdueClearedAt: d.overdueClearedAt,
+  reporterName: d.reporterName || '',
+  reporterEmail: d.reporterEmail || '',
+  isAnonymous: d.isAnonymous,
+  isGuestUser: d.isGuestUser,
+  resolutionTimeHours: d.resolutionTimeHours,
+  resolutionTimeFormatted: d.resolutionTimeFormatted,
+  completedAt: d.completedAt || d.resolvedAt,
+  flagged: d.flagged,
+  flaggedAt: d.flaggedAt,
+  flagReason: d.flagReason,
+  flagNotes: d.flagNotes,
+  flagStatus: d.flagStatus,
+  mergedInto: d.mergedInto,
+  mergedAt: d.mergedAt,
+  pauseReason: d.pauseReason,
+  pauseNote: d.pauseNote,
+  pausedAt: d.pausedAt,
+  pausedTotalMs: d.pausedTotalMs,
+  pauseHistory: d.pauseHistory || [],
+  assignedTo: d.assignedTo,
+  assignedToName: d.assignedToName,
+  team: d.team,
+  isAssigned: d.isAssigned,
+  assignedAt: d.assignedAt,
+  assignmentHistory: d.assignmentHistory || [],
+  mergedReports: d.mergedReports || [],
+  lastViewed: d.lastViewed,
+  importSource: d.importSource,
+  importSourceId: d.importSourceId,
+  importedAt: d.importedAt
+});
+
+/**
+ * Map a raw `reports/{id}/events` document to a ReportEvent
+ */
+export const toReportEvent = (id: string, d: DocumentData): ReportEvent => ({
+  id,
+  action: d.action || 'updated',
+  actor: d.actor || SYSTEM_ACTOR,
+  at: d.at,
+  before: d.before,
+  after: d.after,
+  reason: d.reason
+});
+
+/**
+ * Map a raw `reports/{id}/messages` document to a ReportMessage
+ */
+export const toReportMessage = (id: string, d: DocumentData): ReportMessage => ({
+  id,
+  senderId: d.senderId || '',
+  senderName: d.senderName || '',
+  text: d.text || '',
+  timestamp: d.timestamp,
+  isStaff: d.isStaff
+});
+
+/**
+ * Check whether a report satisfies a filter. Mirrors the Firestore query
+ * built by FirestoreReportRepository so fakes behave the same way.
+ */
+export const matchesFilter = (report: Report, filter: ReportFilter = {}): boolean => {
+  if (filter.id && report.id !== filter.id) return false;
+  if (filter.municipal) {
+    const municipalities = Array.isArray(filter.municipal) ? filter.municipal : [filter.municipal];
+    if (!municipalities.includes(report.municipal)) return false;
+  }
+  if (filter.reportState) {
+    const states: ReportStatus[] = Array.isArray(filter.reportState) ? filter.reportState : [filter.reportState];
+    if (!states.includes(report.reportState)) return false;
+  }
+  if (Array.isArray(filter.incidentType)) {
+    if (!filter.incidentType.includes(report.incidentType)) return false;
+  } else if (filter.incidentType && report.incidentType !== filter.incidentType) {
+    return false;
+  }
+  if (filter.severity && report.severity !== filter.severity) return false;
+  if (filter.mergedInto && report.mergedInto !== filter.mergedInto) return false;
+  if (filter.assignedTo && report.assignedTo !== filter.assignedTo) return false;
+  if (filter.team && report.team !== filter.team) return false;
+  if (filter.unassigned && report.isAssigned !== false) return false;
+  if (filter.since) {
+    const reported = toDate(report.timestamp);
+    if (!reported || reported < filter.since) return false;
+  }
+  return true;
+};
+
+const chunk = <T>(values: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Split a filter with long lists of incident types or municipalities into filters
+ * small enough for one query each. An empty list matches nothing, so no filters are returned.
+ */
+const splitFilter = (filter: ReportFilter): ReportFilter[] => {
+  const stateCount = filter.reportState ? Math.max(storedStates(filter.reportState).length, 1) : 1;
+  let filters: ReportFilter[] = [filter];
+  if (Array.isArray(filter.incidentType)) {
+    const types = Array.from(new Set(filter.incidentType));
+    filters = chunk(types, Math.max(1, Math.floor(MAX_QUERY_DISJUNCTIONS / stateCount)))
+      .map(incidentType => ({ ...filter, incidentType }));
+  }
+  if (Array.isArray(filter.municipal)) {
+    const municipalities = Array.from(new Set(filter.municipal));
+    filters = filters.flatMap(f => {
+      const perMunicipality = stateCount * (Array.isArray(f.incidentType) ? f.incidentType.length : 1);
+      return chunk(municipalities, Math.max(1, Math.floor(MAX_QUERY_DISJUNCTIONS / perMunicipality)))
+        .map(municipal => ({ ...f, municipal }));
+    });
+  }
+  return filters;
+};
+
+/**
+ * Order reports for a page and cut it to size, breaking timestamp ties by id.
+ * Mirrors the Firestore page query so fakes, and pages merged from several
+ * queries, come out the same.
+ */
+export const paginateReports = (reports: Report[], options: ReportPageOptions): ReportPage => {
+  const direction = options.sort === 'newest' ? -1 : 1;
+  const compare = (aTime: number, aId: string, bTime: number, bId: string) =>
+    (aTime - bTime || (aId < bId ? -1 : aId > bId ? 1 : 0)) * direction;
+  const timeOf = (report: Report) => toDate(report.timestamp)?.getTime() ?? 0;
+  const after = options.after;
+  const afterTime = after ? toDate(after.timestamp)?.getTime() ?? 0 : 0;
+
+  const sorted = reports
+    .filter(report => toDate(report.timestamp))
+    .filter(report => !after || compare(timeOf(report), report.id, afterTime, after.id) > 0)
+    .sort((a, b) => compare(timeOf(a), a.id, timeOf(b), b.id));
+  return { reports: sorted.slice(0, options.pageSize), hasMore: sorted.length > options.pageSize };
+};
+
+/**
+ * Compute the fields written when duplicates are merged into a primary report
+ */
+export const buildMergeUpdates = (primary: Report, duplicates: Report[], mergedAt: Date) => {
+  const mergedRefs: MergedReportRef[] = duplicates.map(d => ({
+    id: d.id,
+    timestamp: d.timestamp,
+    mergedAt
+  }));
+
+  return {
+    mergedRefs,
+    primary: {
+      // Combine media URLs from every report
+      mediaUrls: [
+        ...(primary.mediaUrls || []),
+        ...duplicates.flatMap(d => d.mediaUrls || [])
+      ],
+      // Keep every description, noting where it came from
+      description: primary.description +
+        duplicates.map(d => `\n\n--- Merged from report #${d.id} ---\n${d.description}`).join('')
+    },
+    duplicate: {
+      reportState: 'Merged' as ReportStatus,
+      mergedInto: primary.id,
+      mergedAt
+    }
+  };
+};
+
+/**
+ * Throw if duplicates cannot be merged into the primary: a report merged into
+ * itself or listed twice, or a primary or duplicate that is already merged.
+ */
+export const assertCanMerge = (primary: Report, duplicates: Report[]): void => {
+  if (primary.reportState === 'Merged') {
+    throw new Error(`Report #${primary.id} is itself merged and cannot be the primary`);
+  }
+  if (duplicates.some(d => d.id === primary.id)) {
+    throw new Error(`Report #${primary.id} cannot be merged into itself`);
+  }
+  if (new Set(duplicates.map(d => d.id)).size !== duplicates.length) {
+    throw new Error('A report is listed more than once');
+  }
+  const merged = duplicates.find(d => d.reportState === 'Merged');
+  if (merged) {
+    throw new Error(`Report #${merged.id} is already merged into #${merged.mergedInto || 'another report'}`);
+  }
+};
+
+/**
+ * Compute the fields written when a merged report is split back out of its primary.
+ * The caller also clears mergedInto/mergedAt on the duplicate.
+ */
+export const buildUnmerge = (primary: Report | null, duplicateId: string) => ({
+  primary: {
+    mergedReports: (primary?.mergedReports || []).filter(ref => ref.id !== duplicateId)
+  },
+  duplicate: {
+    reportState: 'In Progress' as ReportStatus
+  }
+});
+
+/**
+ * Compute the resolution fields written when a report is completed
+ */
+export const buildCompletion = (report: Report, completedAt: Date): CompletionResult => {
+  const startDate = toDate(report.timestamp);
+  if (!startDate) {
+    return { completedAt, resolutionTimeHours: 0, resolutionTimeFormatted: '' };
+  }
+
+  const diffMs = completedAt.getTime() - startDate.getTime();
+  return {
+    completedAt,
+    resolutionTimeHours: diffMs / (1000 * 60 * 60),
+    resolutionTimeFormatted: formatElapsedTime(diffMs)
+  };
+};
+
+/**
+ * Add the deadline and overdue fields that follow from a change to a report's
+ * severity or SLA clock, so both are written together. Without settings the
+ * change is returned as is and the SLA sweeper catches the deadline up.
+ */
+export const withSlaUpdate = (report: Report, changes: ReportUpdate, now: Date, sla?: SlaSettings): ReportUpdate =>
+  sla ? { ...changes, ...computeSlaUpdate({ ...report, ...changes }, now, sla.policies, sla.calendar) } : changes;
+
+// Fields an SLA sweep decides; its other changes are timestamps that go with them
+const SLA_FIELDS = ['severity', 'deadline', 'reportState', 'isOverdue'] as const;
+
+const slaFieldChanged = (report: Report, changes: ReportUpdate, field: typeof SLA_FIELDS[number]): boolean => {
+  if (changes[field] === undefined) return false;
+  if (field === 'deadline') return toDate(changes.deadline)?.getTime() !== toDate(report.deadline)?.getTime();
+  return changes[field] !== report[field];
+};
+
+/**
+ * The write and event for a change worked out by the SLA sweeper, or null when
+ * none of the fields it decides would change.
+ */
+export const planSlaUpdate = (
+  report: Report,
+  changes: ReportUpdate,
+  reason?: string
+): { changes: ReportUpdate; event: ReportEventInput } | null => {
+  if (!SLA_FIELDS.some(field => slaFieldChanged(report, changes, field))) return null;
+  const action = changes.reportState === 'Overdue' && report.reportState !== 'Overdue' ? 'sla_overdue' : 'sla_recalculated';
+  return { changes, event: buildReportEvent(report, changes, { action, reason }) };
+};
+
+// Only reports with a running SLA clock can be paused
+export const PAUSABLE_STATES: ReportStatus[] = ['New', 'In Progress', 'Overdue'];
+
+/**
+ * Compute the fields written when a paused report's SLA clock is resumed.
+ * The open pause is moved into pauseHistory; the caller clears pauseReason/pauseNote/pausedAt.
+ */
+export const buildResume = (report: Report, resumedAt: Date): ReportUpdate => {
+  const pausedAt = toDate(report.pausedAt) || resumedAt;
+  return {
+    reportState: 'In Progress',
+    pausedTotalMs: (report.pausedTotalMs || 0) + Math.max(0, resumedAt.getTime() - pausedAt.getTime()),
+    pauseHistory: [
+      ...(report.pauseHistory || []),
+      {
+        reason: report.pauseReason || 'waiting_on_reporter',
+        note: report.pauseNote || '',
+        pausedAt,
+        resumedAt
+      }
+    ]
+  };
+};
+
+// Recorded in the event log for assignment fields that a reassignment removes
+export const CLEARED_ASSIGNMENT = { assignedTo: null, assignedToName: null, team: null };
+
+/**
+ * Compute the fields written when a report is (re)assigned.
+ * Parts of the assignment left empty are not included; the caller clears them.
+ */
+export const buildAssignment = (
+  report: Report,
+  assignment: Assignment,
+  assignedBy: string,
+  assignedAt: Date,
+  note: string = ''
+): ReportUpdate => {
+  const current: Assignment = {};
+  if (assignment.assignedTo) {
+    current.assignedTo = assignment.assignedTo;
+    current.assignedToName = assignment.assignedToName || assignment.assignedTo;
+  }
+  if (assignment.team) {
+    current.team = assignment.team;
+  }
+  return {
+    ...current,
+    isAssigned: !!(current.assignedTo || current.team),
+    assignedAt,
+    assignmentHistory: [
+      ...(report.assignmentHistory || []),
+      { ...current, assignedBy, assignedAt, note }
+    ]
+  };
+};
+
+// The change a bulk action makes to one report, or why the report is left alone
+export type BulkPlan = { changes: ReportUpdate; event: ReportEventInput } | { skipped: string };
+
+/**
+ * Work out what a bulk action writes for a single report. Merged reports are
+ * skipped, as are reports the action would not change. `sla` holds the report's
+ * municipality settings, so severity changes move the deadline too.
+ */
+export const planBulkChange = (report: Report, action: BulkAction, now: Date, sla?: SlaSettings): BulkPlan => {
+  if (report.reportState === 'Merged') return { skipped: `Merged into #${report.mergedInto || 'another report'}` };
+
+  switch (action.type) {
+    case 'assign': {
+      const changes = buildAssignment(report, action.assignment, action.assignedBy, now, action.note || '');
+      return {
+        changes,
+        event: buildReportEvent(report, { ...CLEARED_ASSIGNMENT, ...changes }, { action: 'assigned', reason: action.note })
+      };
+    }
+    case 'severity': {
+      if (report.severity === action.severity) return { skipped: `Already ${action.severity}` };
+      const changes = withSlaUpdate(report, { severity: action.severity }, now, sla);
+      return { changes, event: buildReportEvent(report, changes, { action: 'severity_changed' }) };
+    }
+    case 'complete': {
+      if (report.reportState === 'Completed') return { skipped: 'Already completed' };
+      // A paused report's open pause is closed as on resume; the caller clears pauseReason/pauseNote/pausedAt
+      if (report.reportState === 'Paused') {
+        const changes: ReportUpdate = {
+          ...buildResume(report, now),
+          reportState: 'Completed',
+          isOverdue: false,
+          ...buildCompletion(report, now)
+        };
+        return { changes, event: buildReportEvent(report, { ...changes, pauseReason: null }, { action: 'completed' }) };
+      }
+      const changes: ReportUpdate = { reportState: 'Completed', isOverdue: false, ...buildCompletion(report, now) };
+      return { changes, event: buildReportEvent(report, changes, { action: 'completed' }) };
+    }
+    case 'flag': {
+      if (report.flagged) return { skipped: 'Already flagged' };
+      const changes: ReportUpdate = {
+        flagged: true,
+        flaggedAt: now,
+        flagReason: action.reason,
+        flagNotes: action.notes,
+        flagStatus: 'pending_review'
+      };
+      return { changes, event: buildReportEvent(report, changes, { action: 'flagged', reason: action.notes }) };
+    }
+  }
+};
+
+/**
+ * Check each report that a bulk merge would fold into the primary. Reports that
+ * can be merged are returned as 'updated' and listed in mergeIds.
+ */
+export const planBulkMerge = (primary: Report, ids: string[], reports: (Report | null)[]) => {
+  const mergeIds: string[] = [];
+  const results: BulkItemResult[] = ids.map((id, i): BulkItemResult => {
+    const report = reports[i];
+    if (id === primary.id) return { id, status: 'skipped', message: 'Chosen as the primary report' };
+    if (!report) return { id, status: 'failed', message: 'Report not found' };
+    if (report.reportState === 'Merged') {
+      return { id, status: 'skipped', message: `Already merged into #${report.mergedInto || 'another report'}` };
+    }
+    if (report.municipal !== primary.municipal) return { id, status: 'skipped', message: 'In a different municipality' };
+    mergeIds.push(id);
+    return { id, status: 'updated' };
+  });
+  return { results, mergeIds };
+};
+
+// The first event of an imported report
+export const buildImportEvent = (report: Report): ReportEventInput => ({
+  action: 'imported',
+  after: { importSource: report.importSource ?? null, importSourceId: report.importSourceId ?? null }
+});
+
+export class FirestoreReportRepository implements ReportRepository {
+  private db: Firestore;
+  private getActor: () => string;
+  private loadSla?: SlaSettingsLoader;
+
+  // getActor names whoever is making changes, for the event log; loadSla is
+  // needed to recalculate deadlines, which are otherwise left to the SLA sweeper
+  constructor(db: Firestore, getActor: () => string = () => SYSTEM_ACTOR, loadSla?: SlaSettingsLoader) {
+    this.db = db;
+    this.getActor = getActor;
+    this.loadSla = loadSla;
+  }
+
+  // A change still goes through without settings; the SLA sweeper catches its deadline up
+  private async getSla(municipal: string): Promise<SlaSettings | undefined> {
+    try {
+      return await this.loadSla?.(municipal);
+    } catch (error) {
+      console.error('Error loading SLA settings:', error);
+      return undefined;
+    }
+  }
+
+  private buildQuery(filter: ReportFilter = {}): Query<DocumentData> {
+    let q = query(collection(this.db, REPORTS_COLLECTION));
+    if (filter.id) {
+      q = query(q, where(documentId(), '==', filter.id));
+    }
+    if (Array.isArray(filter.municipal)) {
+      q = query(q, where('municipal', 'in', filter.municipal));
+    } else if (filter.municipal) {
+      q = query(q, where('municipal', '==', filter.municipal));
+    }
+    if (filter.reportState) {
+      const states = storedStates(filter.reportState);
+      q = states.length === 1
+        ? query(q, where('reportState', '==', states[0]))
+        : query(q, where('reportState', 'in', states));
+    }
+    if (Array.isArray(filter.incidentType)) {
+      q = query(q, where('incidentType', 'in', filter.incidentType));
+    } else if (filter.incidentType) {
+      q = query(q, where('incidentType', '==', filter.incidentType));
+    }
+    if (filter.severity) {
+      q = query(q, where('severity', '==', filter.severity));
+    }
+    if (filter.mergedInto) {
+      q = query(q, where('mergedInto', '==', filter.mergedInto));
+    }
+    if (filter.assignedTo) {
+      q = query(q, where('assignedTo', '==', filter.assignedTo));
+    }
+    if (filter.team) {
+      q = query(q, where('team', '==', filter.team));
+    }
+    if (filter.unassigned) {
+      q = query(q, where('isAssigned', '==', false));
+    }
+    if (filter.since) {
+      q = query(q, where('timestamp', '>=', filter.since));
+    }
+    return q;
+  }
+
+  // Equality filters are combined with the timestamp order by merging the
+  // per-field indexes in firestore.indexes.json
+  private buildPageQuery(filter: ReportFilter, options: ReportPageOptions): Query<DocumentData> {
+    // At most one report matches an id, so it needs no ordering (or index)
+    if (filter.id) return this.buildQuery(filter);
+    const direction = options.sort === 'newest' ? 'desc' : 'asc';
+    let q = query(this.buildQuery(filter), orderBy('timestamp', direction), orderBy(documentId(), direction));
+    if (options.after) {
+      q = query(q, startAfter(options.after.timestamp, options.after.id));
+    }
+    return query(q, limit(options.pageSize + 1));
+  }
+
+  // Listen to several queries and report their combined results once all have loaded
+  private listen(queries: Query<DocumentData>[], onChange: (reports: Report[]) => void): Unsubscribe {
+    const results: (Report[] | undefined)[] = queries.map(() => undefined);
+    const unsubscribes = queries.map((q, i) => onSnapshot(q, (querySnapshot) => {
+      results[i] = querySnapshot.docs.map(d => toReport(d.id, d.data()));
+      if (results.every(r => r !== undefined)) {
+        onChange((results as Report[][]).flat());
+      }
+    }, (error) => {
+      console.error('Error watching reports:', error);
+    }));
+    if (queries.length === 0) onChange([]);
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  private eventsCollection(id: string) {
+    return collection(this.db, REPORTS_COLLECTION, id, EVENTS_COLLECTION);
+  }
+
+  // Queue an event alongside the change it describes, so neither is written without the other
+  private addEvent(batch: WriteBatch, id: string, event: ReportEventInput) {
+    batch.set(doc(this.eventsCollection(id)), { ...event, actor: this.getActor(), at: new Date() });
+  }
+
+  private async commit(report: Report, fields: DocumentData, event: ReportEventInput): Promise<void> {
+    const batch = writeBatch(this.db);
+    batch.update(doc(this.db, REPORTS_COLLECTION, report.id), fields);
+    this.addEvent(batch, report.id, event);
+    await batch.commit();
+  }
+
+  private async getOrThrow(id: string): Promise<Report> {
+    const report = await this.get(id);
+    if (!report) {
+      throw new Error('Incident not found');
+    }
+    return report;
+  }
+
+  async list(filter: ReportFilter = {}): Promise<Report[]> {
+    const snapshots = await Promise.all(splitFilter(filter).map(f => getDocs(this.buildQuery(f))));
+    return snapshots.flatMap(querySnapshot => querySnapshot.docs.map(d => toReport(d.id, d.data())));
+  }
+
+  async get(id: string): Promise<Report | null> {
+    const docSnap = await getDoc(doc(this.db, REPORTS_COLLECTION, id));
+    return docSnap.exists() ? toReport(docSnap.id, docSnap.data()) : null;
+  }
+
+  watch(filter: ReportFilter, onChange: (reports: Report[]) => void): Unsubscribe {
+    return this.listen(splitFilter(filter).map(f => this.buildQuery(f)), onChange);
+  }
+
+  async listPage(filter: ReportFilter, options: ReportPageOptions): Promise<ReportPage> {
+    const snapshots = await Promise.all(splitFilter(filter).map(f => getDocs(this.buildPageQuery(f, options))));
+    return paginateReports(snapshots.flatMap(querySnapshot => querySnapshot.docs.map(d => toReport(d.id, d.data()))), options);
+  }
+
+  watchPage(filter: ReportFilter, options: ReportPageOptions, onChange: (page: ReportPage) => void): Unsubscribe {
+    return this.listen(
+      splitFilter(filter).map(f => this.buildPageQuery(f, options)),
+      (reports) => onChange(paginateReports(reports, options))
+    );
+  }
+
+  async count(filter: ReportFilter = {}): Promise<number> {
+    const counts = await Promise.all(splitFilter(filter).map(f => getCountFromServer(this.buildQuery(f))));
+    return counts.reduce((sum, c) => sum + c.data().count, 0);
+  }
+
+  async update(id: string, changes: ReportUpdate, meta?: ReportEventMeta): Promise<void> {
+    const report = await this.getOrThrow(id);
+    if (changes.severity && changes.severity !== report.severity) {
+      const fields = withSlaUpdate(report, changes, new Date(), await this.getSla(report.municipal));
+      await this.commit(report, fields, buildReportEvent(report, fields, { action: 'severity_changed', ...meta }));
+      return;
+    }
+    await this.commit(report, changes, buildReportEvent(report, changes, meta));
+  }
+
+  async updateSla(report: Report, changes: ReportUpdate, reason?: string): Promise<boolean> {
+    const plan = planSlaUpdate(report, changes, reason);
+    if (!plan) return false;
+    await this.commit(report, plan.changes, plan.event);
+    return true;
+  }
+
+  async merge(primaryId: string, duplicateIds: string[]): Promise<void> {
+    const primary = await this.get(primaryId);
+    const duplicates = await Promise.all(duplicateIds.map(id => this.get(id)));
+    if (!primary || duplicates.some(d => !d)) {
+      throw new Error('One of the reports no longer exists.');
+    }
+    assertCanMerge(primary, duplicates as Report[]);
+
+    const failed = (await this.writeMerge(primary, duplicates as Report[])).find(outcome => outcome.error);
+    if (failed) throw failed.error;
+  }
+
+  /**
+   * Merge in batches of BULK_BATCH_SIZE duplicates, each with its own update of the
+   * primary, so a large merge stays under Firestore's 500 writes per batch. A failed
+   * batch leaves earlier ones written; the outcome of each batch is returned.
+   */
+  private async writeMerge(primary: Report, duplicates: Report[]): Promise<{ ids: string[]; error?: unknown }[]> {
+    const mergedAt = new Date();
+    const outcomes: { ids: string[]; error?: unknown }[] = [];
+    let current = primary;
+    for (const group of chunk(duplicates, BULK_BATCH_SIZE)) {
+      const ids = group.map(d => d.id);
+      const updates = buildMergeUpdates(current, group, mergedAt);
+      const batch = writeBatch(this.db);
+      batch.update(doc(this.db, REPORTS_COLLECTION, primary.id), {
+        ...updates.primary,
+        mergedReports: arrayUnion(...updates.mergedRefs)
+      });
+      this.addEvent(batch, primary.id, { action: 'merged', after: { mergedReportIds: ids } });
+      for (const duplicate of group) {
+        batch.update(doc(this.db, REPORTS_COLLECTION, duplicate.id), updates.duplicate);
+        this.addEvent(batch, duplicate.id, buildReportEvent(duplicate, updates.duplicate, { action: 'merged_into' }));
+      }
+      try {
+        await batch.commit();
+        current = { ...current, ...updates.primary };
+        outcomes.push({ ids });
+      } catch (error) {
+        console.error('Error committing merge:', error);
+        outcomes.push({ ids, error });
+      }
+    }
+    return outcomes;
+  }
+
+  async unmerge(duplicateId: string): Promise<void> {
+    const duplicate = await this.get(duplicateId);
+    if (!duplicate || duplicate.reportState !== 'Merged' || !duplicate.mergedInto) {
+      throw new Error('Report is not merged');
+    }
+
+    const primary = await this.get(duplicate.mergedInto);
+    const updates = buildUnmerge(primary, duplicateId);
+    const batch = writeBatch(this.db);
+    batch.update(doc(this.db, REPORTS_COLLECTION, duplicateId), {
+      ...updates.duplicate,
+      mergedInto: deleteField(),
+      mergedAt: deleteField()
+    });
+    this.addEvent(batch, duplicateId,
+      buildReportEvent(duplicate, { ...updates.duplicate, mergedInto: null }, { action: 'unmerged' }));
+    if (primary) {
+      batch.update(doc(this.db, REPORTS_COLLECTION, primary.id), updates.primary);
+      this.addEvent(batch, primary.id, { action: 'unmerged', after: { unmergedReportId: duplicateId } });
+    }
+    await batch.commit();
+  }
+
+  async flag(id: string, reason: string, notes: string): Promise<void> {
+    await this.update(id, {
+      flagged: true,
+      flaggedAt: new Date(),
+      flagReason: reason,
+      flagNotes: notes,
+      flagStatus: 'pending_review' // Could be 'pending_review', 'confirmed_false', 'legitimate'
+    }, { action: 'flagged', reason: notes });
+  }
+
+  async complete(id: string, completedAt: Date = new Date()): Promise<CompletionResult> {
+    // Fetch the latest data to ensure we have accurate timestamps
+    const report = await this.getOrThrow(id);
+
+    const result = buildCompletion(report, completedAt);
+    const changes: ReportUpdate = {
+      reportState: 'Completed',
+      isOverdue: false, // Completed reports are never overdue
+      ...result
+    };
+    await this.commit(report, changes, buildReportEvent(report, changes, { action: 'completed' }));
+    return result;
+  }
+
+  async pause(id: string, reason: PauseReason, note: string): Promise<void> {
+    const report = await this.getOrThrow(id);
+    if (!PAUSABLE_STATES.includes(report.reportState)) {
+      throw new Error(`Cannot pause an incident that is ${report.reportState}`);
+    }
+
+    const now = new Date();
+    const changes = withSlaUpdate(report, {
+      reportState: 'Paused',
+      pauseReason: reason,
+      pauseNote: note,
+      pausedAt: now,
+      isOverdue: false // The clock is stopped while paused
+    }, now, await this.getSla(report.municipal));
+    await this.commit(report, changes, buildReportEvent(report, changes, { action: 'paused', reason: note }));
+  }
+
+  async resume(id: string, resumedAt: Date = new Date()): Promise<void> {
+    const report = await this.get(id);
+    if (!report || report.reportState !== 'Paused') {
+      throw new Error('Incident is not paused');
+    }
+
+    // The open pause is now in pauseHistory, so it is not counted twice
+    const changes = withSlaUpdate({ ...report, pausedAt: undefined }, buildResume(report, resumedAt), resumedAt,
+      await this.getSla(report.municipal));
+    await this.commit(report, {
+      ...changes,
+      pauseReason: deleteField(),
+      pauseNote: deleteField(),
+      pausedAt: deleteField()
+    }, buildReportEvent(report, { ...changes, pauseReason: null }, { action: 'resumed' }));
+  }
+
+  async assign(id: string, assignment: Assignment, assignedBy: string, note: string = ''): Promise<void> {
+    const report = await this.getOrThrow(id);
+
+    const changes = buildAssignment(report, assignment, assignedBy, new Date(), note);
+    await this.commit(report, {
+      assignedTo: deleteField(),
+      assignedToName: deleteField(),
+      team: deleteField(),
+      ...changes
+    }, buildReportEvent(report, { ...CLEARED_ASSIGNMENT, ...changes }, { action: 'assigned', reason: note }));
+  }
+
+  async listEvents(id: string): Promise<ReportEvent[]> {
+    const querySnapshot = await getDocs(query(this.eventsCollection(id), orderBy('at')));
+    return querySnapshot.docs.map(d => toReportEvent(d.id, d.data()));
+  }
+
+  watchEvents(id: string, onChange: (events: ReportEvent[]) => void): Unsubscribe {
+    return onSnapshot(query(this.eventsCollection(id), orderBy('at')), (querySnapshot) => {
+      onChange(querySnapshot.docs.map(d => toReportEvent(d.id, d.data())));
+    }, (error) => {
+      console.error('Error watching report events:', error);
+    });
+  }
+
+  async listMessages(id: string): Promise<ReportMessage[]> {
+    const querySnapshot = await getDocs(
+      query(collection(this.db, REPORTS_COLLECTION, id, MESSAGES_COLLECTION), orderBy('timestamp'))
+    );
+    return querySnapshot.docs.map(d => toReportMessage(d.id, d.data()));
+  }
+
+  async bulkUpdate(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    const now = new Date();
+    const reports = await Promise.all(ids.map(id => this.get(id).catch(() => null)));
+    const results = new Map<string, BulkItemResult>();
+    const planned: { report: Report; changes: ReportUpdate; event: ReportEventInput }[] = [];
+
+    // Severity changes move deadlines; settings are loaded once per municipality
+    const slaByMunicipality = new Map<string, SlaSettings | undefined>();
+    if (action.type === 'severity') {
+      for (const municipal of new Set(reports.flatMap(report => (report ? [report.municipal] : [])))) {
+        slaByMunicipality.set(municipal, await this.getSla(municipal));
+      }
+    }
+
+    ids.forEach((id, i) => {
+      const report = reports[i];
+      if (!report) {
+        results.set(id, { id, status: 'failed', message: 'Report not found' });
+        return;
+      }
+      const plan = planBulkChange(report, action, now, slaByMunicipality.get(report.municipal));
+      if ('skipped' in plan) {
+        results.set(id, { id, status: 'skipped', message: plan.skipped });
+        return;
+      }
+      planned.push({ report, ...plan });
+    });
+
+    // A failed batch fails only the reports in it; earlier batches stay written
+    for (let i = 0; i < planned.length; i += BULK_BATCH_SIZE) {
+      const chunkItems = planned.slice(i, i + BULK_BATCH_SIZE);
+      const batch = writeBatch(this.db);
+      chunkItems.forEach(({ report, changes, event }) => {
+        let fields: DocumentData = changes;
+        if (action.type === 'assign') {
+          fields = { assignedTo: deleteField(), assignedToName: deleteField(), team: deleteField(), ...changes };
+        } else if (action.type === 'complete' && report.reportState === 'Paused') {
+          fields = { ...changes, pauseReason: deleteField(), pauseNote: deleteField(), pausedAt: deleteField() };
+        }
+        batch.update(doc(this.db, REPORTS_COLLECTION, report.id), fields);
+        this.addEvent(batch, report.id, event);
+      });
+      try {
+        await batch.commit();
+        chunkItems.forEach(({ report }) => results.set(report.id, { id: report.id, status: 'updated' }));
+      } catch (error) {
+        console.error('Error committing bulk update:', error);
+        const message = error instanceof Error ? error.message : 'Write failed';
+        chunkItems.forEach(({ report }) => results.set(report.id, { id: report.id, status: 'failed', message }));
+      }
+    }
+
+    return ids.map(id => results.get(id) as BulkItemResult);
+  }
+
+  async bulkMerge(primaryId: string, ids: string[]): Promise<BulkItemResult[]> {
+    const primary = await this.getOrThrow(primaryId);
+    if (primary.reportState === 'Merged') {
+      throw new Error(`Report #${primaryId} is itself merged and cannot be the primary`);
+    }
+    const reports = await Promise.all(ids.map(id => this.get(id).catch(() => null)));
+    const { results, mergeIds } = planBulkMerge(primary, ids, reports);
+    if (mergeIds.length === 0) return results;
+
+    const duplicates = mergeIds.map(id => reports[ids.indexOf(id)] as Report);
+    const failures = new Map<string, string>();
+    (await this.writeMerge(primary, duplicates)).forEach(({ ids: batchIds, error }) => {
+      if (!error) return;
+      const message = error instanceof Error ? error.message : 'Write failed';
+      batchIds.forEach(id => failures.set(id, message));
+    });
+    return results.map(result => {
+      const message = failures.get(result.id);
+      return result.status === 'updated' && message ? { ...result, status: 'failed', message } : result;
+    });
+  }
+
+  async importReports(reports: Report[]): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+
+    for (let i = 0; i < reports.length; i += BULK_BATCH_SIZE) {
+      const chunkItems = reports.slice(i, i + BULK_BATCH_SIZE);
+      try {
+        const existing = new Set<string>();
+        for (let j = 0; j < chunkItems.length; j += 30) {
+          const ids = chunkItems.slice(j, j + 30).map(report => report.id);
+          const querySnapshot = await getDocs(query(collection(this.db, REPORTS_COLLECTION), where(documentId(), 'in', ids)));
+          querySnapshot.docs.forEach(d => existing.add(d.id));
+        }
+
+        const batch = writeBatch(this.db);
+        const created: string[] = [];
+        chunkItems.forEach(report => {
+          if (existing.has(report.id)) {
+            results.push({ id: report.id, status: 'skipped', message: 'Already imported' });
+            return;
+          }
+          // Firestore rejects undefined values, so leave unset fields out
+          const { id, ...fields } = report;
+          batch.set(doc(this.db, REPORTS_COLLECTION, id),
+            Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)));
+          this.addEvent(batch, id, buildImportEvent(report));
+          created.push(id);
+        });
+        await batch.commit();
+        created.forEach(id => results.push({ id, status: 'updated' }));
+      } catch (error) {
+        // A failed batch fails only the reports in it; earlier batches stay written
+        console.error('Error committing report import:', error);
+        const message = error instanceof Error ? error.message : 'Write failed';
+        chunkItems
+          .filter(report => !results.some(result => result.id === report.id))
+          .forEach(report => results.push({ id: report.id, status: 'failed', message }));
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Firestore,
+  DocumentData,
+  QueryConstraint,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  where
+} from 'firebase/firestore';
+import { SearchDocument, SearchQuery, SearchResult } from '../types/searchIndex';
+import { pickQueryTerm, rankSearchResults } from '../utils/searchIndex';
+
+export interface SearchIndexRepository {
+  // Ranked matches within the given municipalities, best first
+  search(q: SearchQuery, municipal: string | string[], maxResults?: number): Promise<SearchResult[]>;
+  list(municipal?: string): Promise<SearchDocument[]>;
+  save(document: SearchDocument): Promise<void>;
+}
+
+const SEARCH_INDEX_COLLECTION = 'searchIndex';
+
+// Newest candidates fetched per query before ranking; narrow by date to reach older reports
+const CANDIDATE_LIMIT = 200;
+
+// Firestore allows 30 values in an `in` filter
+const MAX_IN_VALUES = 30;
+
+/**
+ * Map a raw `searchIndex` document to a SearchDocument
+ */
+export const toSearchDocument = (id: string, d: DocumentData): SearchDocument => ({
+  reportId: id,
+  municipal: d.municipal || '',
+  incidentType: d.incidentType || '',
+  reportState: d.reportState || 'New',
+  timestamp: d.timestamp,
+  terms: Array.isArray(d.terms) ? d.terms : [],
+  location: d.location || '',
+  description: d.description || '',
+  chat: d.chat || '',
+  indexedAt: d.indexedAt
+});
+
+export class FirestoreSearchIndexRepository implements SearchIndexRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async search(q: SearchQuery, municipal: string | string[], maxResults: number = 20): Promise<SearchResult[]> {
+    const municipalities = Array.isArray(municipal) ? Array.from(new Set(municipal)) : [municipal];
+    const term = pickQueryTerm(q);
+
+    const constraints: QueryConstraint[] = [];
+    if (term) constraints.push(where('terms', 'array-contains', term));
+    if (q.from) constraints.push(where('timestamp', '>=', q.from));
+    if (q.to) constraints.push(where('timestamp', '<=', q.to));
+    constraints.push(orderBy('timestamp', 'desc'), limit(CANDIDATE_LIMIT));
+
+    const batches: string[][] = [];
+    for (let i = 0; i < municipalities.length; i += MAX_IN_VALUES) {
+      batches.push(municipalities.slice(i, i + MAX_IN_VALUES));
+    }
+
+    const snapshots = await Promise.all(batches.map(batch => getDocs(query(
+      collection(this.db, SEARCH_INDEX_COLLECTION),
+      batch.length === 1 ? where('municipal', '==', batch[0]) : where('municipal', 'in', batch),
+      ...constraints
+    ))));
+    const documents = snapshots.flatMap(snapshot => snapshot.docs.map(d => toSearchDocument(d.id, d.data())));
+    return rankSearchResults(documents, q).slice(0, maxResults);
+  }
+
+  async list(municipal?: string): Promise<SearchDocument[]> {
+    const ref = collection(this.db, SEARCH_INDEX_COLLECTION);
+    const querySnapshot = await getDocs(municipal ? query(ref, where('municipal', '==', municipal)) : ref);
+    return querySnapshot.docs.map(d => toSearchDocument(d.id, d.data()));
+  }
+
+  async save(document: SearchDocument): Promise<void> {
+    const { reportId, ...fields } = document;
+    // Firestore rejects undefined; reports without a timestamp are stored without one
+    const data: Record<string, unknown> = { ...fields, indexedAt: new Date() };
+    if (data.timestamp === undefined) delete data.timestamp;
+    await setDoc(doc(this.db, SEARCH_INDEX_COLLECTION, reportId), data);
+  }
+}
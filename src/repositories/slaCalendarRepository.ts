@@ -0,0 +1,69 @@
+import {
+  Firestore,
+  DocumentData,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc
+} from 'firebase/firestore';
+import { SlaCalendar } from '../types/slaCalendar';
+import { getDefaultSlaCalendar } from '../utils/slaCalendar';
+
+export interface SlaCalendarRepository {
+  // Falls back to the default calendar when the municipality has none stored
+  get(municipal: string): Promise<SlaCalendar>;
+  // Stored calendars keyed by municipality
+  list(): Promise<Record<string, SlaCalendar>>;
+  save(calendar: SlaCalendar): Promise<void>;
+}
+
+const CALENDARS_COLLECTION = 'slaCalendars';
+
+/**
+ * Map a raw `slaCalendars` document to an SlaCalendar, filling gaps from the default
+ */
+export const toSlaCalendar = (municipal: string, d: DocumentData): SlaCalendar => {
+  const defaults = getDefaultSlaCalendar(municipal);
+  return {
+    municipal,
+    timezone: d.timezone || defaults.timezone,
+    workingDays: Array.isArray(d.workingDays) ? d.workingDays : defaults.workingDays,
+    workStartHour: typeof d.workStartHour === 'number' ? d.workStartHour : defaults.workStartHour,
+    workEndHour: typeof d.workEndHour === 'number' ? d.workEndHour : defaults.workEndHour,
+    holidays: Array.isArray(d.holidays) ? d.holidays : [],
+    updatedAt: d.updatedAt,
+    updatedBy: d.updatedBy
+  };
+};
+
+export class FirestoreSlaCalendarRepository implements SlaCalendarRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async get(municipal: string): Promise<SlaCalendar> {
+    const docSnap = await getDoc(doc(this.db, CALENDARS_COLLECTION, municipal));
+    return docSnap.exists() ? toSlaCalendar(municipal, docSnap.data()) : getDefaultSlaCalendar(municipal);
+  }
+
+  async list(): Promise<Record<string, SlaCalendar>> {
+    const querySnapshot = await getDocs(collection(this.db, CALENDARS_COLLECTION));
+    const calendars: Record<string, SlaCalendar> = {};
+    querySnapshot.docs.forEach(d => {
+      calendars[d.id] = toSlaCalendar(d.id, d.data());
+    });
+    return calendars;
+  }
+
+  async save(calendar: SlaCalendar): Promise<void> {
+    const { municipal, ...fields } = calendar;
+    await setDoc(doc(this.db, CALENDARS_COLLECTION, municipal), {
+      ...fields,
+      updatedBy: fields.updatedBy || '',
+      updatedAt: new Date()
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Firestore,
+  DocumentData,
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  setDoc,
+  deleteDoc
+} from 'firebase/firestore';
+import { normalizeSeverity } from '../utils/incidentUtils';
+import { SlaPolicy, SlaPolicyInput } from '../types/slaPolicy';
+
+export interface SlaPolicyRepository {
+  // Policies for one municipality plus the ones that apply everywhere
+  list(municipal?: string): Promise<SlaPolicy[]>;
+  save(policy: SlaPolicyInput): Promise<string>;
+  remove(id: string): Promise<void>;
+}
+
+const POLICIES_COLLECTION = 'severityConfigs';
+
+/**
+ * Map a raw `severityConfigs` document to an SlaPolicy.
+ * Documents written by initializeSeverityConfigs use `level`/`timeframe`.
+ */
+export const toSlaPolicy = (id: string, d: DocumentData): SlaPolicy => ({
+  id,
+  severity: normalizeSeverity(d.severity || d.level),
+  timeframeHours: Number(d.timeframeHours ?? d.timeframe) || 0,
+  businessHoursOnly: !!d.businessHoursOnly,
+  municipal: d.municipal || undefined,
+  incidentType: d.incidentType || undefined,
+  description: d.description,
+  color: d.color,
+  updatedAt: d.updatedAt,
+  updatedBy: d.updatedBy
+});
+
+export class FirestoreSlaPolicyRepository implements SlaPolicyRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async list(municipal?: string): Promise<SlaPolicy[]> {
+    // The collection is small, so filter client-side rather than run two queries
+    const querySnapshot = await getDocs(collection(this.db, POLICIES_COLLECTION));
+    return querySnapshot.docs
+      .map(d => toSlaPolicy(d.id, d.data()))
+      .filter(p => p.timeframeHours > 0)
+      .filter(p => !municipal || !p.municipal || p.municipal === municipal);
+  }
+
+  async save(policy: SlaPolicyInput): Promise<string> {
+    const { id, ...fields } = policy;
+    // Firestore rejects undefined values
+    const data = Object.fromEntries(
+      Object.entries({ ...fields, updatedAt: new Date() }).filter(([, v]) => v !== undefined)
+    );
+
+    if (id) {
+      await setDoc(doc(this.db, POLICIES_COLLECTION, id), data);
+      return id;
+    }
+    const ref = await addDoc(collection(this.db, POLICIES_COLLECTION), data);
+    return ref.id;
+  }
+
+  async remove(id: string): Promise<void> {
+    await deleteDoc(doc(this.db, POLICIES_COLLECTION, id));
+  }
+}
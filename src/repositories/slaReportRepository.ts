@@ -0,0 +1,69 @@
+import {
+  Firestore,
+  DocumentData,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  where
+} from 'firebase/firestore';
+import { SlaReportDelivery, SlaReportRecipient } from '../types/slaReport';
+import { hasPermission, normalizeStaffRole } from '../utils/permissions';
+import { getSlaReportSubscription } from '../utils/slaReports';
+
+export interface SlaReportRepository {
+  // Active staff who subscribed and may receive reports, one entry per email
+  listRecipients(): Promise<SlaReportRecipient[]>;
+  hasDelivery(id: string): Promise<boolean>;
+  recordDelivery(delivery: SlaReportDelivery): Promise<void>;
+}
+
+const USERS_COLLECTION = 'users';
+const DELIVERIES_COLLECTION = 'slaReportDeliveries';
+
+/**
+ * Map a raw `users` document to a report recipient.
+ * Returns null for accounts that are inactive, not subscribed or not allowed reports.
+ */
+export const toSlaReportRecipient = (id: string, d: DocumentData): SlaReportRecipient | null => {
+  if (d.role !== 'staff' || d.active === false || !d.email) return null;
+  if (!hasPermission(normalizeStaffRole(d.staffRole), 'sla.receiveReports')) return null;
+  const subscription = getSlaReportSubscription(d.preferences || {});
+  if (!subscription) return null;
+  const municipalities: string[] = Array.from(new Set(
+    [d.municipal, ...(Array.isArray(d.municipalities) ? d.municipalities : [])].filter(Boolean)
+  ));
+  if (municipalities.length === 0) return null;
+  return { id, email: d.email, name: d.name, municipalities, subscription };
+};
+
+export class FirestoreSlaReportRepository implements SlaReportRepository {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async listRecipients(): Promise<SlaReportRecipient[]> {
+    const q = query(collection(this.db, USERS_COLLECTION), where('role', '==', 'staff'));
+    const querySnapshot = await getDocs(q);
+    // Linked accounts exist twice (legacy id and uid); preferences are saved on the `users/{uid}` copy
+    const byEmail = new Map<string, SlaReportRecipient | null>();
+    querySnapshot.docs
+      .sort((a, b) => Number(!!a.data().linkedFrom) - Number(!!b.data().linkedFrom))
+      .forEach(d => byEmail.set(d.data().email, toSlaReportRecipient(d.id, d.data())));
+    return Array.from(byEmail.values()).filter((recipient): recipient is SlaReportRecipient => !!recipient);
+  }
+
+  async hasDelivery(id: string): Promise<boolean> {
+    const snapshot = await getDoc(doc(this.db, DELIVERIES_COLLECTION, id));
+    return snapshot.exists();
+  }
+
+  async recordDelivery(delivery: SlaReportDelivery): Promise<void> {
+    const { id, ...fields } = delivery;
+    await setDoc(doc(this.db, DELIVERIES_COLLECTION, id), fields);
+  }
+}
@@ -0,0 +1,77 @@
+import { Timestamp } from 'firebase/firestore';
+
+export enum AuditEventType {
+  LOGIN_SUCCESS = 'LOGIN_SUCCESS',
+  LOGIN_FAILURE = 'LOGIN_FAILURE',
+  LOGOUT = 'LOGOUT',
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+  LOGIN_UNLOCK = 'LOGIN_UNLOCK',
+  // Two-factor authentication, logged by the MFA functions
+  MFA_ENROLLED = 'MFA_ENROLLED',
+  MFA_DISABLED = 'MFA_DISABLED',
+  MFA_FAILURE = 'MFA_FAILURE',
+  MFA_RECOVERY_CODE_USED = 'MFA_RECOVERY_CODE_USED',
+  MFA_RECOVERY_CODES_REGENERATED = 'MFA_RECOVERY_CODES_REGENERATED',
+  // Staff account administration
+  STAFF_INVITED = 'STAFF_INVITED',
+  STAFF_UPDATED = 'STAFF_UPDATED',
+  STAFF_DEACTIVATED = 'STAFF_DEACTIVATED',
+  STAFF_REACTIVATED = 'STAFF_REACTIVATED',
+  STAFF_PASSWORD_RESET = 'STAFF_PASSWORD_RESET',
+  SESSION_TIMEOUT = 'SESSION_TIMEOUT',
+  UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
+  // Staff actions on incidents
+  REPORT_MERGE = 'REPORT_MERGE',
+  REPORT_UNMERGE = 'REPORT_UNMERGE',
+  SEVERITY_CHANGE = 'SEVERITY_CHANGE',
+  REPORT_FLAG = 'REPORT_FLAG',
+  REPORT_COMPLETE = 'REPORT_COMPLETE',
+  TRUST_ADJUSTMENT = 'TRUST_ADJUSTMENT',
+  CHAT_MESSAGE = 'CHAT_MESSAGE',
+  REPORTS_IMPORTED = 'REPORTS_IMPORTED'
+}
+
+export interface AuditLogEntry {
+  eventType: AuditEventType;
+  userId?: string;
+  userEmail?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: string;
+  // Report the action was taken on, for staff actions
+  incidentId?: string;
+  timestamp: Timestamp | Date;
+}
+
+// A document in the `auditLogs` collection
+export interface AuditLog extends AuditLogEntry {
+  id: string;
+}
+
+// Every filter is applied by the query, so the user and incident must match exactly
+export interface AuditLogFilter {
+  from?: Date;
+  to?: Date;
+  // Compared lower-cased
+  userEmail?: string;
+  eventType?: AuditEventType;
+  incidentId?: string;
+}
+
+// Where a page ends: the last entry's timestamp and id
+export interface AuditLogCursor {
+  timestamp: Timestamp | Date;
+  id: string;
+}
+
+export interface AuditLogPageOptions {
+  pageSize: number;
+  // Start after this entry; omit for the first page
+  after?: AuditLogCursor;
+}
+
+export interface AuditLogPage {
+  logs: AuditLog[];
+  hasMore: boolean;
+}
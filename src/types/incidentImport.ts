@@ -0,0 +1,54 @@
+import { Report } from './report';
+
+// Report fields a column in the imported file can be mapped to
+export type ImportField =
+  | 'sourceId'          // the record's id in the old system; makes re-runs match up
+  | 'municipal'
+  | 'incidentType'
+  | 'description'
+  | 'location'
+  | 'locationInfo'
+  | 'latitude'
+  | 'longitude'
+  | 'severity'
+  | 'status'
+  | 'dateReported'
+  | 'completedAt'
+  | 'reporterName'
+  | 'reporterEmail'
+  | 'contact';
+
+// Column name for each field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// A parsed CSV or GeoJSON file: its columns and one record per row or feature
+export interface ImportSource {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportOptions {
+  // Name of the old system, stored on each report and part of its id
+  source: string;
+  // Used for rows without a municipality column
+  defaultMunicipal: string;
+  municipalities: string[];
+  incidentTypes: { name: string; severity: Report['severity'] }[];
+}
+
+export type ImportStatus =
+  | 'ready'
+  | 'invalid'
+  | 'existing'          // imported by an earlier run
+  | 'duplicate';        // looks like a report already in the app
+
+// A report that will be written, or why a row will not be
+export interface ImportCandidate {
+  // 1-based row in the file (feature index for GeoJSON)
+  row: number;
+  id: string;
+  status: ImportStatus;
+  report?: Report;
+  errors: string[];
+  duplicateOf?: string;
+}
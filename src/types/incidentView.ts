@@ -0,0 +1,23 @@
+import { ReportSort, ReportStatus, Severity } from './report';
+
+export type AssignmentFilter = 'me' | 'team' | 'unassigned';
+
+// The Incidents page filters, as kept in its URL query string
+export interface IncidentViewFilters {
+  search?: string;
+  status?: ReportStatus;
+  category?: string;
+  severity?: Severity;
+  assignment?: AssignmentFilter;
+  // One of the municipalities the staff member covers; the NavBar switcher applies otherwise
+  municipal?: string;
+  // Newest first when missing
+  sort?: ReportSort;
+}
+
+// A named set of filters shown as a tab on the Incidents page
+export interface SavedIncidentView {
+  id: string;
+  name: string;
+  filters: IncidentViewFilters;
+}
@@ -0,0 +1,16 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * A document in the `loginRateLimits` collection, written by the staffLogin function.
+ * The id is a hash of the subject so emails and IPs are not used as keys.
+ */
+export interface LoginLock {
+  id: string;
+  kind: 'account' | 'ip';
+  // Lower-cased email or client IP
+  subject: string;
+  failures: number;
+  lockouts: number;
+  blockedUntil: Timestamp | Date | null;
+  lastFailureAt: Timestamp | Date;
+}
@@ -0,0 +1,22 @@
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain-text version for mail clients that do not show HTML
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Delivers mail for background jobs. The jobs only depend on this interface,
+ * so SMTP can be swapped for a local file sink when testing.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
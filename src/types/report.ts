@@ -0,0 +1,149 @@
+import { Timestamp } from 'firebase/firestore';
+import { IncidentDetailData } from '../utils/incidentUtils';
+
+export type ReportStatus = IncidentDetailData['status'];
+export type Severity = IncidentDetailData['severity'];
+
+// Why the SLA clock was stopped
+export type PauseReason = 'waiting_on_reporter' | 'waiting_on_third_party';
+
+// A completed pause, stored in the report's `pauseHistory` array
+export interface SlaPauseInterval {
+  reason: PauseReason;
+  note?: string;
+  pausedAt: Timestamp | Date;
+  resumedAt: Timestamp | Date;
+}
+
+// Who an incident is assigned to; a staff member, a crew, or both
+export interface Assignment {
+  // Staff email, which stays the same when a legacy account is linked
+  assignedTo?: string;
+  assignedToName?: string;
+  team?: string;
+}
+
+// Entry stored in a report's `assignmentHistory` array, one per (re)assignment
+export interface AssignmentRecord extends Assignment {
+  assignedBy: string;
+  assignedAt: Timestamp | Date;
+  note?: string;
+}
+
+// Entry stored in a primary report's `mergedReports` array
+export interface MergedReportRef {
+  id: string;
+  timestamp?: Timestamp | Date;
+  mergedAt?: Timestamp | Date;
+}
+
+/**
+ * Canonical shape of a document in the `reports` collection.
+ * Derived from IncidentDetailData, but keeps the raw Firestore fields
+ * (reportState, timestamp) instead of the formatted view values.
+ */
+export interface Report extends Omit<IncidentDetailData, 'status' | 'dateReported' | 'severity'> {
+  municipal: string;
+  reportState: ReportStatus;
+  // Older reports may not have a severity yet; it is derived from incidentType
+  severity?: Severity;
+  timestamp?: Timestamp | Date;
+  isOverdue?: boolean;
+  // Written with severity and SLA clock changes, and by the SLA sweeper (see jobs/slaSweeper)
+  deadlineUpdatedAt?: Timestamp | Date;
+  overdueAt?: Timestamp | Date;
+  overdueClearedAt?: Timestamp | Date;
+  // Set while reportState is 'Paused'
+  pauseReason?: PauseReason;
+  pauseNote?: string;
+  pausedAt?: Timestamp | Date;
+  // Wall-clock time spent paused, accumulated on each resume
+  pausedTotalMs?: number;
+  pauseHistory?: SlaPauseInterval[];
+  // Current assignment; cleared fields are removed rather than blanked
+  assignedTo?: string;
+  assignedToName?: string;
+  team?: string;
+  // Whether assignedTo or team is set, so unassigned reports can be queried; absent
+  // on reports from the citizen app until the SLA sweeper gives them a deadline
+  isAssigned?: boolean;
+  assignedAt?: Timestamp | Date;
+  assignmentHistory?: AssignmentRecord[];
+  mergedReports?: MergedReportRef[];
+  flaggedAt?: Timestamp | Date;
+  lastViewed?: Timestamp | Date;
+  // Set on reports brought in from an older system (see utils/incidentImport)
+  importSource?: string;
+  importSourceId?: string;
+  importedAt?: Timestamp | Date;
+}
+
+// A document in the `reports/{id}/messages` subcollection (the incident chat)
+export interface ReportMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp?: Timestamp | Date;
+  isStaff?: boolean;
+}
+
+// Fields that may be written back to a report
+export type ReportUpdate = Partial<Omit<Report, 'id'>>;
+
+export interface ReportFilter {
+  id?: string;
+  // Several municipalities for staff who cover more than one
+  municipal?: string | string[];
+  reportState?: ReportStatus | ReportStatus[];
+  // Exact incident type, or any of several; an empty list matches nothing
+  incidentType?: string | string[];
+  // Reports from before severities were stored have none until they are first opened
+  severity?: Severity;
+  mergedInto?: string;
+  assignedTo?: string;
+  team?: string;
+  // Only reports with neither an assignee nor a team
+  unassigned?: boolean;
+  since?: Date;
+}
+
+export type ReportSort = 'newest' | 'oldest';
+
+// Where a page ends: the last report's timestamp and id
+export interface ReportCursor {
+  timestamp: Timestamp | Date;
+  id: string;
+}
+
+export interface ReportPageOptions {
+  sort: ReportSort;
+  pageSize: number;
+  // Start after this report; omit for the first page
+  after?: ReportCursor;
+}
+
+export interface ReportPage {
+  reports: Report[];
+  hasMore: boolean;
+}
+
+export interface CompletionResult {
+  completedAt: Date;
+  resolutionTimeHours: number;
+  resolutionTimeFormatted: string;
+}
+
+// A change applied to every selected report on the Incidents page
+export type BulkAction =
+  | { type: 'assign'; assignment: Assignment; assignedBy: string; note?: string }
+  | { type: 'severity'; severity: Severity }
+  | { type: 'complete' }
+  | { type: 'flag'; reason: string; notes: string };
+
+// Outcome for one report in a bulk action; message says why it was skipped or failed
+export interface BulkItemResult {
+  id: string;
+  status: 'updated' | 'skipped' | 'failed';
+  message?: string;
+}
@@ -0,0 +1,42 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type ReportEventAction =
+  | 'status_changed'
+  | 'severity_changed'
+  | 'sla_updated'       // deadline or overdue state recalculated with another change
+  | 'sla_overdue'       // the SLA sweeper found the deadline passed
+  | 'sla_recalculated'  // the SLA sweeper moved the deadline or cleared the overdue state
+  | 'completed'
+  | 'flagged'
+  | 'merged'            // other reports were merged into this one
+  | 'merged_into'       // this report was merged into another
+  | 'unmerged'
+  | 'paused'
+  | 'resumed'
+  | 'assigned'
+  | 'imported'          // created from a record in an older system
+  | 'updated';
+
+/**
+ * A document in the `reports/{id}/events` subcollection.
+ * Events are append-only; every change made through ReportRepository writes one.
+ */
+export interface ReportEvent {
+  id: string;
+  action: ReportEventAction;
+  // Staff email, or SYSTEM_ACTOR for scheduled jobs
+  actor: string;
+  at: Timestamp | Date;
+  // Values of the changed fields before and after the change
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  reason?: string;
+}
+
+// What a caller can say about a change; actor and time are filled in by the repository
+export interface ReportEventMeta {
+  action?: ReportEventAction;
+  reason?: string;
+}
+
+export type ReportEventInput = Omit<ReportEvent, 'id' | 'actor' | 'at'>;
@@ -0,0 +1,41 @@
+import { Timestamp } from 'firebase/firestore';
+import { ReportStatus } from './report';
+
+/**
+ * A document in the `searchIndex` collection, keyed by report id.
+ * Written by the search indexer (see jobs/searchIndexer); the app only reads it.
+ */
+export interface SearchDocument {
+  reportId: string;
+  municipal: string;
+  incidentType: string;
+  reportState: ReportStatus;
+  timestamp?: Timestamp | Date;
+  // Normalized, de-duplicated terms from every field; queried with array-contains
+  terms: string[];
+  // Stored text, used for phrase matching, ranking and result snippets
+  location: string;
+  description: string;
+  // Chat messages joined by newlines, oldest first
+  chat: string;
+  indexedAt?: Timestamp | Date;
+}
+
+// A search box query once `"phrases"`, `location:` and dates are pulled out
+export interface SearchQuery {
+  keywords: string[];
+  phrases: string[];
+  location?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type SearchField = 'incidentType' | 'location' | 'description' | 'chat';
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  // Field the snippet was taken from
+  matchedField: SearchField;
+  snippet: string;
+}
@@ -0,0 +1,21 @@
+import { Timestamp } from 'firebase/firestore';
+
+export interface SlaHoliday {
+  date: string; // YYYY-MM-DD in the calendar's timezone
+  name: string;
+}
+
+/**
+ * Working time for a municipality, stored in `slaCalendars/{municipal}`.
+ * Business-hours SLA policies only count time inside these hours.
+ */
+export interface SlaCalendar {
+  municipal: string;
+  timezone: string; // IANA name, e.g. "America/Chicago"
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  workStartHour: number; // e.g. 8 or 7.5 for 07:30
+  workEndHour: number;
+  holidays: SlaHoliday[];
+  updatedAt?: Timestamp | Date;
+  updatedBy?: string;
+}
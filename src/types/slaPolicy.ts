@@ -0,0 +1,40 @@
+import { Timestamp } from 'firebase/firestore';
+import { Severity } from './report';
+import { SlaCalendar } from './slaCalendar';
+
+/**
+ * A document in the `severityConfigs` collection.
+ * A policy without municipal/incidentType applies everywhere; the most
+ * specific matching policy wins (see resolveSlaPolicy).
+ */
+export interface SlaPolicy {
+  id: string;
+  severity: Severity;
+  timeframeHours: number;
+  // Only count working hours towards the timeframe
+  businessHoursOnly: boolean;
+  municipal?: string;
+  incidentType?: string;
+  description?: string;
+  color?: string;
+  updatedAt?: Timestamp | Date;
+  updatedBy?: string;
+}
+
+// Fields that may be written when creating or editing a policy
+export type SlaPolicyInput = Omit<SlaPolicy, 'id' | 'updatedAt'> & { id?: string };
+
+// The timeframe that applies to a single report
+export interface ResolvedSla {
+  timeframeHours: number;
+  businessHoursOnly: boolean;
+  // Undefined when no stored policy matched and the built-in fallback was used
+  policyId?: string;
+}
+
+// What a municipality's deadlines are calculated from
+export interface SlaSettings {
+  policies: SlaPolicy[];
+  // The default calendar is used when missing
+  calendar?: SlaCalendar;
+}
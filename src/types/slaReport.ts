@@ -0,0 +1,83 @@
+import { ReportStatus, Severity } from './report';
+
+export type SlaReportFrequency = 'weekly' | 'monthly';
+
+// HTML reports go in the email body; PDF ones are attached as well
+export type SlaReportFormat = 'html' | 'pdf';
+
+// A staff member's scheduled report settings, kept in their preferences
+export interface SlaReportSubscription {
+  frequencies: SlaReportFrequency[];
+  format: SlaReportFormat;
+  // One of the municipalities the staff member covers; all of them when missing
+  municipal?: string;
+}
+
+// The time covered by a report: from start up to but not including end
+export interface SlaReportPeriod {
+  frequency: SlaReportFrequency;
+  start: Date;
+  end: Date;
+  // e.g. "Week of 12 Oct 2026" or "September 2026"
+  label: string;
+}
+
+export interface SlaReportTotals {
+  received: number;
+  resolved: number;
+  resolvedOnTime: number;
+  // Percentage of resolved incidents that met their deadline; null when none were resolved
+  compliance: number | null;
+  averageResolutionHours: number | null;
+}
+
+// Resolutions in the period for one severity or incident type
+export interface SlaReportBreakdown {
+  key: string;
+  resolved: number;
+  resolvedOnTime: number;
+  averageResolutionHours: number | null;
+}
+
+export interface SlaReportOverdueIncident {
+  id: string;
+  municipal: string;
+  incidentType: string;
+  severity: Severity;
+  reportState: ReportStatus;
+  deadline: Date | null;
+  location: string;
+}
+
+export interface SlaComplianceReport {
+  period: SlaReportPeriod;
+  previousPeriod: SlaReportPeriod;
+  municipalities: string[];
+  current: SlaReportTotals;
+  previous: SlaReportTotals;
+  bySeverity: SlaReportBreakdown[];
+  byType: SlaReportBreakdown[];
+  // Open incidents past their deadline when the report was generated, oldest deadline first
+  overdue: SlaReportOverdueIncident[];
+  generatedAt: Date;
+}
+
+// A staff member the report job should send to
+export interface SlaReportRecipient {
+  id: string;
+  email: string;
+  name?: string;
+  municipalities: string[];
+  subscription: SlaReportSubscription;
+}
+
+// One report sent to one recipient, stored so a period is only sent once
+export interface SlaReportDelivery {
+  id: string;
+  recipientId: string;
+  email: string;
+  frequency: SlaReportFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  sentAt: Date;
+}
@@ -0,0 +1,46 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Access level of a staff account, stored as `staffRole` on the `users` document
+export type StaffRole = 'viewer' | 'dispatcher' | 'supervisor' | 'admin';
+
+export type Permission =
+  | 'incident.update'          // progress updates, pause/resume, mark as resolved
+  | 'incident.changeSeverity'
+  | 'incident.flag'
+  | 'incident.assign'          // assign to a staff member or crew
+  | 'incident.merge'
+  | 'reporter.adjustTrust'     // manual trust level changes
+  | 'sla.managePolicies'
+  | 'sla.manageDefaultPolicies' // policies for all municipalities
+  | 'sla.receiveReports'       // scheduled compliance reports by email
+  | 'audit.view'
+  | 'staff.manage'
+  | 'incident.import';         // bring in records from an older system
+
+// Per-user settings kept on the `users` document
+export type StaffPreferences = Record<string, unknown>;
+
+export interface StaffProfile {
+  id: string;
+  email: string;
+  name?: string;
+  // Home municipality, used for new records and as the default view
+  municipal: string;
+  // Further municipalities the staff member covers, e.g. a regional supervisor
+  municipalities?: string[];
+  staffRole: StaffRole;
+  // Crew the staff member works in, e.g. "Roads North"
+  team?: string;
+  // Set by the MFA functions when an authenticator app is enrolled
+  mfaEnabled?: boolean;
+  // Deactivated accounts cannot sign in; missing means active
+  active: boolean;
+  // Must choose a new password at next sign-in
+  requiresPasswordSetup?: boolean;
+  // Staff must choose a new password once this is PASSWORD_POLICY.maxAgeDays old
+  passwordChangedAt?: Timestamp | Date;
+  preferences: StaffPreferences;
+}
+
+// Fields an admin can edit on the Staff page
+export type StaffUpdate = Partial<Pick<StaffProfile, 'name' | 'municipal' | 'municipalities' | 'staffRole' | 'team' | 'requiresPasswordSetup'>>;
@@ -1,30 +1,15 @@
-import { db } from '../config/firebase';
+import { db, auth } from '../config/firebase';
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { AuditEventType, AuditLogEntry } from '../types/auditLog';
 
-export enum AuditEventType {
-  LOGIN_SUCCESS = 'LOGIN_SUCCESS',
-  LOGIN_FAILURE = 'LOGIN_FAILURE',
-  LOGOUT = 'LOGOUT',
-  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
-  RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
-  SESSION_TIMEOUT = 'SESSION_TIMEOUT',
-  UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS'
-}
-
-interface AuditLogEntry {
-  eventType: AuditEventType;
-  userId?: string;
-  userEmail?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  details?: string;
-  timestamp: any;
-}
+export { AuditEventType } from '../types/auditLog';
 
 export const logAuditEvent = async (entry: Omit<AuditLogEntry, 'timestamp'>) => {
   try {
+    // Firestore rejects undefined values, so leave unset fields out
+    const fields = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
     await addDoc(collection(db, 'auditLogs'), {
-      ...entry,
+      ...fields,
       timestamp: serverTimestamp()
     });
   } catch (error) {
@@ -32,9 +17,22 @@ export const logAuditEvent = async (entry: Omit<AuditLogEntry, 'timestamp'>) =>
   }
 };
 
+// The browser cannot see its own IP; sign-in events are logged with it by the staffLogin function
 export const getClientInfo = () => {
   return {
-    userAgent: navigator.userAgent,
-    ipAddress: '127.0.0.1' // In production, this should be obtained from the server
+    userAgent: navigator.userAgent
   };
-}; 
\ No newline at end of file
+};
+
+// Log an action taken by the signed-in staff member
+export const logStaffAction = async (eventType: AuditEventType, incidentId: string | undefined, details: string) => {
+  await logAuditEvent({
+    eventType,
+    userId: auth.currentUser?.uid,
+    // Lower-cased like the entries the functions write, so the Audit Log finds both by email
+    userEmail: auth.currentUser?.email?.toLowerCase() || undefined,
+    incidentId,
+    details,
+    ...getClientInfo()
+  });
+};
@@ -0,0 +1,7 @@
+import { FunctionsError } from 'firebase/functions';
+
+// Message thrown by a callable function, or a generic one for network and unexpected errors
+export const getFunctionErrorMessage = (error: unknown): string =>
+  error instanceof FunctionsError && error.code !== 'functions/internal'
+    ? error.message
+    : 'Something went wrong. Please try again.';
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv, toCsvLines } from './csv';
+
+describe('toCsv', () => {
+  it('quotes values with delimiters, quotes or line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', null]]))
+      .toBe('a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",');
+  });
+
+  it('prefixes text that would start a spreadsheet formula', () => {
+    expect(toCsvLines([['=SUM(A1:A2)', '+1', '-cmd', '@A1', '\tx', 'plain']]))
+      .toBe("'=SUM(A1:A2),'+1,'-cmd,'@A1,'\tx,plain");
+    expect(toCsvLines([['=HYPERLINK("x","y")']])).toBe(`"'=HYPERLINK(""x"",""y"")"`);
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsvLines([[-5, 2.5]])).toBe('-5,2.5');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads what toCsv writes', () => {
+    const rows = [['id', 'note'], ['1', 'x,y'], ['2', 'say "hi"\nthen leave']];
+    expect(parseCsv(toCsv(rows[0], rows.slice(1)))).toEqual(rows);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
@@ -0,0 +1,75 @@
+// Text a spreadsheet would read as a formula; numbers such as -5 are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quote a value for CSV if it contains a delimiter, quote or newline, and
+// prefix text that would start a formula with ' so it is shown, not run
+const escapeCsvValue = (value: unknown): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value !== 'number' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows without a header, so large exports can be written a chunk at a time
+export const toCsvLines = (rows: unknown[][]): string => {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+export const toCsv = (headers: string[], rows: unknown[][]): string => {
+  return toCsvLines([headers, ...rows]);
+};
+
+// Trigger a browser download of a file built elsewhere, e.g. from several chunks
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Trigger a browser download of a text file
+export const downloadFile = (filename: string, content: string, mimeType: string = 'text/csv;charset=utf-8') => {
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+};
+
+// Split CSV text into rows of fields, handling quoted delimiters, quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+
+  // Blank lines carry no record
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createExportWriter } from './exportWriters';
+
+const HEADERS = ['ID', 'Description', 'Hours'];
+
+const records = [
+  { values: ['r1', 'Pothole, deep', 4.5], latitude: 3.15, longitude: 101.7 },
+  { values: ['r2', '=cmd', -2] }
+];
+
+describe('createExportWriter', () => {
+  it('writes CSV a chunk at a time', async () => {
+    const writer = createExportWriter('csv', HEADERS);
+    writer.add(records.slice(0, 1));
+    writer.add([]);
+    writer.add(records.slice(1));
+    expect(await writer.finish().text()).toBe(`ID,Description,Hours\r\nr1,"Pothole, deep",4.5\r\nr2,'=cmd,-2`);
+  });
+
+  it('leaves records without coordinates out of GeoJSON', async () => {
+    const writer = createExportWriter('geojson', HEADERS);
+    writer.add(records);
+    const collection = JSON.parse(await writer.finish().text());
+    expect(collection.features).toEqual([{
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [101.7, 3.15] },
+      properties: { ID: 'r1', Description: 'Pothole, deep', Hours: 4.5 }
+    }]);
+  });
+
+  it('writes numbers as numbers and text as escaped inline strings in XLSX', async () => {
+    const writer = createExportWriter('xlsx', HEADERS, 'Q3 <draft>');
+    writer.add([{ values: ['r1', 'Pipe & valve\u0001\ttab', 4.5] }]);
+    const blob = writer.finish();
+    // Entries are stored uncompressed, so the sheet XML can be read from the archive as is
+    const text = await blob.text();
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(text).toContain('<sheet name="Q3 &lt;draft&gt;" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<c r="B2" t="inlineStr"><is><t xml:space="preserve">Pipe &amp; valve\ttab</t></is></c>');
+    expect(text).toContain('<c r="C2"><v>4.5</v></c>');
+  });
+});
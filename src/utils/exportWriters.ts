@@ -0,0 +1,139 @@
+import { toCsvLines } from './csv';
+import { ZipEntry, appendToZipEntry, buildZip, createZipEntry } from './zip';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'geojson';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV', extension: 'csv' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx' },
+  geojson: { label: 'GeoJSON', extension: 'geojson' }
+};
+
+// One exported row; coordinates are only used by GeoJSON
+export interface ExportRecord {
+  values: unknown[];
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Builds an export file a chunk of records at a time, so the whole data set
+ * never has to be turned into one string.
+ */
+export interface ExportWriter {
+  add(records: ExportRecord[]): void;
+  finish(): Blob;
+}
+
+const createCsvWriter = (headers: string[]): ExportWriter => {
+  const parts: string[] = [toCsvLines([headers])];
+  return {
+    add(records) {
+      if (records.length > 0) parts.push(`\r\n${toCsvLines(records.map(r => r.values))}`);
+    },
+    finish: () => new Blob(parts, { type: 'text/csv;charset=utf-8' })
+  };
+};
+
+// Drop the control characters XML 1.0 does not allow, even escaped; tab and line breaks stay
+const stripInvalidXmlChars = (text: string) => Array.from(text).filter(c => {
+  const code = c.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}).join('');
+
+const escapeXml = (text: string) => stripInvalidXmlChars(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const xlsxRow = (rowNumber: number, values: unknown[]): string => {
+  const cells = values.map((value, i) => {
+    const ref = `${columnName(i)}${rowNumber}`;
+    if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${cells.join('')}</row>`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// The smallest set of parts Excel, Numbers and LibreOffice open without complaint
+const xlsxPackageFiles = (sheetName: string): ZipEntry[] => [
+  createZipEntry('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>'),
+  createZipEntry('_rels/.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>'),
+  createZipEntry('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`),
+  createZipEntry('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>')
+];
+
+const createXlsxWriter = (headers: string[], sheetName: string): ExportWriter => {
+  const sheet = createZipEntry('xl/worksheets/sheet1.xml',
+    `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${xlsxRow(1, headers)}`);
+  let rowCount = 1;
+  return {
+    add(records) {
+      appendToZipEntry(sheet, records.map(r => xlsxRow(++rowCount, r.values)).join(''));
+    },
+    finish() {
+      appendToZipEntry(sheet, '</sheetData></worksheet>');
+      return buildZip([...xlsxPackageFiles(sheetName), sheet],
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    }
+  };
+};
+
+// Records without coordinates cannot be placed on a map, so they are left out
+const createGeoJsonWriter = (headers: string[]): ExportWriter => {
+  const parts: string[] = ['{"type":"FeatureCollection","features":['];
+  let first = true;
+  return {
+    add(records) {
+      const features = records
+        .filter(r => typeof r.latitude === 'number' && typeof r.longitude === 'number')
+        .map(r => JSON.stringify({
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [r.longitude, r.latitude] },
+          properties: Object.fromEntries(headers.map((h, i) => [h, r.values[i] ?? null]))
+        }));
+      if (features.length === 0) return;
+      parts.push(`${first ? '' : ','}${features.join(',')}`);
+      first = false;
+    },
+    finish() {
+      parts.push(']}');
+      return new Blob(parts, { type: 'application/geo+json' });
+    }
+  };
+};
+
+export const createExportWriter = (format: ExportFormat, headers: string[], sheetName: string = 'Incidents'): ExportWriter => {
+  switch (format) {
+    case 'xlsx':
+      return createXlsxWriter(headers, sheetName);
+    case 'geojson':
+      return createGeoJsonWriter(headers);
+    default:
+      return createCsvWriter(headers);
+  }
+};
@@ -0,0 +1,123 @@
+import { reportRepository } from '../repositories';
+import { Report, ReportCursor, ReportFilter, ReportSort } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { downloadBlob } from './csv';
+import { EXPORT_FORMATS, ExportFormat, ExportRecord, createExportWriter } from './exportWriters';
+import { getTimeRemaining, toDate } from './incidentUtils';
+import { fetchReporterTrustLevels, getTrustLevelLabel } from './reporterUtils';
+import { calculateReportDeadline, resolveSlaPolicy } from './slaPolicyUtils';
+import { getDefaultSlaCalendar } from './slaCalendar';
+
+// Reports fetched and written per chunk; the tab gets a chance to repaint between chunks
+const EXPORT_CHUNK_SIZE = 500;
+
+export const INCIDENT_EXPORT_COLUMNS = [
+  'ID', 'Municipality', 'Category', 'Status', 'Severity', 'Reported', 'Deadline', 'Time Remaining',
+  'Hours Remaining', 'Completed At', 'Resolution Time (hours)', 'Merged Into', 'Assigned To', 'Team',
+  'Location', 'Latitude', 'Longitude', 'Reporter Trust', 'Reporter Trust Level', 'Flagged', 'Description'
+];
+
+export interface IncidentExportOptions {
+  format: ExportFormat;
+  filter: ReportFilter;
+  sort: ReportSort;
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+  // Called after each chunk with the number of reports written so far
+  onProgress?: (exported: number) => void;
+}
+
+const isoDate = (value: unknown): string => toDate(value)?.toISOString() || '';
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+const toExportRecord = (
+  report: Report,
+  options: IncidentExportOptions,
+  trustLevels: Map<string, number>,
+  now: Date
+): ExportRecord => {
+  const calendar = options.calendars[report.municipal] || getDefaultSlaCalendar(report.municipal);
+  const sla = resolveSlaPolicy(options.policies, {
+    municipal: report.municipal,
+    incidentType: report.incidentType,
+    severity: report.severity || 'Low'
+  });
+  // Stored deadlines come from the SLA sweeper; calculate one for reports it has not reached yet
+  const deadline = toDate(report.deadline) || calculateReportDeadline(report, options.policies, calendar, now);
+  // Paused reports have no running clock, so both remaining-time columns leave them out
+  const open = report.reportState !== 'Completed' && report.reportState !== 'Merged' && report.reportState !== 'Paused';
+  const trust = report.isAnonymous || !report.reporterEmail ? undefined : trustLevels.get(report.reporterEmail);
+
+  return {
+    values: [
+      report.id,
+      report.municipal,
+      report.incidentType,
+      report.reportState,
+      report.severity || '',
+      isoDate(report.timestamp),
+      deadline?.toISOString() || '',
+      getTimeRemaining(deadline, report.reportState, true, now, sla.businessHoursOnly ? calendar : undefined),
+      open && deadline ? roundHours((deadline.getTime() - now.getTime()) / (1000 * 60 * 60)) : '',
+      isoDate(report.completedAt),
+      typeof report.resolutionTimeHours === 'number' ? roundHours(report.resolutionTimeHours) : '',
+      report.mergedInto || '',
+      report.assignedToName || report.assignedTo || '',
+      report.team || '',
+      report.location,
+      report.latitude ?? '',
+      report.longitude ?? '',
+      trust ?? '',
+      trust === undefined ? '' : getTrustLevelLabel(trust),
+      report.flagged ? 'Yes' : 'No',
+      report.description
+    ],
+    latitude: report.latitude,
+    longitude: report.longitude
+  };
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Downloads every report matching the filter. Reports are fetched and written a
+ * page at a time, so a large municipality is never loaded as one list.
+ * Returns the number of reports exported.
+ */
+export const exportIncidents = async (options: IncidentExportOptions): Promise<number> => {
+  const writer = createExportWriter(options.format, INCIDENT_EXPORT_COLUMNS);
+  const trustLevels = new Map<string, number>();
+  const lookedUp = new Set<string>();
+  const now = new Date();
+  let after: ReportCursor | undefined;
+  let exported = 0;
+
+  for (;;) {
+    const page = await reportRepository.listPage(options.filter, { sort: options.sort, pageSize: EXPORT_CHUNK_SIZE, after });
+    const reports = page.reports;
+
+    // Each reporter is looked up once per export, however many reports they made
+    const newEmails = Array.from(new Set(reports
+      .filter(report => !report.isAnonymous && report.reporterEmail && !lookedUp.has(report.reporterEmail))
+      .map(report => report.reporterEmail as string)));
+    if (newEmails.length > 0) {
+      newEmails.forEach(email => lookedUp.add(email));
+      (await fetchReporterTrustLevels(newEmails)).forEach((level, email) => trustLevels.set(email, level));
+    }
+
+    writer.add(reports.map(report => toExportRecord(report, options, trustLevels, now)));
+    exported += reports.length;
+    options.onProgress?.(exported);
+
+    const last = page.reports[page.reports.length - 1];
+    if (!page.hasMore || !last?.timestamp) break;
+    after = { timestamp: last.timestamp, id: last.id };
+    await nextTick();
+  }
+
+  const { extension } = EXPORT_FORMATS[options.format];
+  downloadBlob(`incidents-${now.toISOString().slice(0, 10)}.${extension}`, writer.finish());
+  return exported;
+};
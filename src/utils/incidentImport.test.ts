@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import { ImportOptions, ImportSource } from '../types/incidentImport';
+import { Report } from '../types/report';
+import {
+  buildImportCandidates,
+  buildImportId,
+  checkAgainstExistingReports,
+  guessColumnMapping,
+  parseImportDate,
+  parseImportFile
+} from './incidentImport';
+
+const NOW = new Date('2026-09-15T12:00:00Z');
+
+const OPTIONS: ImportOptions = {
+  source: 'Old CRM',
+  defaultMunicipal: 'Springfield',
+  municipalities: ['Springfield', 'Shelbyville'],
+  incidentTypes: [{ name: 'Pothole', severity: 'High' }, { name: 'Water', severity: 'Medium' }]
+};
+
+const COLUMNS = ['Ref', 'Created', 'Type', 'Status', 'Closed', 'Lat', 'Lng', 'Priority'];
+const MAPPING = guessColumnMapping(COLUMNS);
+
+const source = (...rows: Record<string, string>[]): ImportSource => ({ columns: COLUMNS, rows });
+
+const row = (fields: Record<string, string> = {}): Record<string, string> => ({
+  Ref: 'C-1',
+  Created: '2026-09-01 08:30',
+  Type: 'pothole',
+  Status: '',
+  Closed: '',
+  Lat: '39.78',
+  Lng: '-89.65',
+  Priority: '',
+  ...fields
+});
+
+const report = (id: string, fields: Partial<Report> = {}): Report => ({
+  id,
+  municipal: 'Springfield',
+  incidentType: 'Pothole',
+  reportState: 'New',
+  severity: 'High',
+  timestamp: new Date('2026-09-01T10:00:00Z'),
+  description: '',
+  location: '',
+  latitude: 39.78,
+  longitude: -89.65,
+  ...fields
+} as Report);
+
+describe('guessColumnMapping', () => {
+  it('matches aliases without case or punctuation and uses each column once', () => {
+    expect(guessColumnMapping(['Case ID', 'Date', 'Complaint Type', 'Long', 'Lat', 'E-mail'])).toEqual({
+      sourceId: 'Case ID',
+      dateReported: 'Date',
+      incidentType: 'Complaint Type',
+      latitude: 'Lat',
+      longitude: 'Long',
+      reporterEmail: 'E-mail'
+    });
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads CSV rows keyed by trimmed header', () => {
+    expect(parseImportFile('cases.csv', ' Ref ,Type\r\nC-1, pothole \r\nC-2')).toEqual({
+      columns: ['Ref', 'Type'],
+      rows: [{ Ref: 'C-1', Type: 'pothole' }, { Ref: 'C-2', Type: '' }]
+    });
+  });
+
+  it('turns GeoJSON points into latitude and longitude', () => {
+    const text = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{ properties: { id: 7, note: null }, geometry: { type: 'Point', coordinates: [-89.65, 39.78] } }]
+    });
+    expect(parseImportFile('cases.geojson', text)).toEqual({
+      columns: ['id', 'note', 'longitude', 'latitude'],
+      rows: [{ id: '7', longitude: '-89.65', latitude: '39.78' }]
+    });
+  });
+
+  it('rejects JSON that is not a feature collection', () => {
+    expect(() => parseImportFile('cases.json', '{"type":"Feature"}')).toThrow('Expected a GeoJSON FeatureCollection.');
+    expect(() => parseImportFile('cases.json', '{')).toThrow('The file is not valid JSON.');
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads ISO dates, spaced date-times and Unix times', () => {
+    expect(parseImportDate('2026-09-01T08:30:00Z')?.toISOString()).toBe('2026-09-01T08:30:00.000Z');
+    expect(parseImportDate('2026-09-01 08:30')?.getTime()).toBe(new Date('2026-09-01T08:30').getTime());
+    expect(parseImportDate('1788000000')?.getTime()).toBe(1788000000000);
+    expect(parseImportDate('1788000000123')?.getTime()).toBe(1788000000123);
+  });
+
+  it('returns null for empty or unreadable values', () => {
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate('next tuesday')).toBeNull();
+  });
+});
+
+describe('buildImportId', () => {
+  it('keeps safe keys and hashes the rest', () => {
+    expect(buildImportId('Old CRM', 'C-1')).toBe('import-old-crm-C-1');
+    const id = buildImportId('Old CRM', 'case/1 #2');
+    expect(id).toMatch(/^import-old-crm-case-1-2-[0-9a-f]{16}$/);
+    expect(buildImportId('Old CRM', 'case/1 #2')).toBe(id);
+    expect(buildImportId('Old CRM', 'case/1 #3')).not.toBe(id);
+  });
+
+  it('falls back to a default source name', () => {
+    expect(buildImportId('!!!', 'C-1')).toBe('import-legacy-C-1');
+  });
+});
+
+describe('buildImportCandidates', () => {
+  it('builds a report from a valid row', () => {
+    const [candidate] = buildImportCandidates(source(row()), MAPPING, OPTIONS, NOW);
+    expect(candidate).toMatchObject({ row: 1, id: 'import-old-crm-C-1', status: 'ready', errors: [] });
+    expect(candidate.report).toMatchObject({
+      municipal: 'Springfield',
+      incidentType: 'Pothole',
+      reportState: 'New',
+      severity: 'High',
+      latitude: 39.78,
+      longitude: -89.65,
+      isAnonymous: true,
+      importSource: 'Old CRM',
+      importSourceId: 'C-1',
+      importedAt: NOW
+    });
+  });
+
+  it('adds the resolution time to completed rows', () => {
+    const [candidate] = buildImportCandidates(
+      source(row({ Status: 'Closed', Closed: '2026-09-01 11:00' })), MAPPING, OPTIONS, NOW
+    );
+    expect(candidate.report).toMatchObject({ reportState: 'Completed', resolutionTimeHours: 2.5 });
+  });
+
+  it('lists every problem with a row', () => {
+    const [candidate] = buildImportCandidates(source(row({
+      Created: '2027-01-01',
+      Type: 'Graffiti',
+      Status: 'Paused',
+      Lat: '95',
+      Priority: 'urgent'
+    })), MAPPING, OPTIONS, NOW);
+    expect(candidate.status).toBe('invalid');
+    expect(candidate.report).toBeUndefined();
+    expect(candidate.errors).toEqual([
+      'Date reported is in the future',
+      'Unknown incident type "Graffiti"',
+      'Unknown severity "urgent"',
+      'Unsupported status "Paused"',
+      'Invalid latitude "95"'
+    ]);
+  });
+
+  it('gives rows without a source id the same id on every run', () => {
+    const rows = source(row({ Ref: '' }), row({ Ref: '', Lat: '39.79' }));
+    const first = buildImportCandidates(rows, MAPPING, OPTIONS, NOW).map(c => c.id);
+    const second = buildImportCandidates(rows, MAPPING, OPTIONS, new Date('2026-10-01T00:00:00Z')).map(c => c.id);
+    expect(second).toEqual(first);
+    expect(first[0]).not.toBe(first[1]);
+  });
+
+  it('marks a repeated record in the same file', () => {
+    const [, repeat] = buildImportCandidates(source(row(), row()), MAPPING, OPTIONS, NOW);
+    expect(repeat).toMatchObject({ status: 'invalid', errors: ['Same record as row 1'] });
+  });
+});
+
+describe('checkAgainstExistingReports', () => {
+  const candidates = buildImportCandidates(
+    source(row(), row({ Ref: 'C-2' }), row({ Ref: 'C-3', Type: 'Water' })), MAPPING, OPTIONS, NOW
+  );
+
+  it('marks rows imported before and nearby reports of the same type', () => {
+    const checked = checkAgainstExistingReports(candidates, [
+      report('import-old-crm-C-1'),
+      report('app-report', { longitude: -89.6504 })
+    ]);
+    expect(checked.map(c => [c.status, c.duplicateOf])).toEqual([
+      ['existing', undefined],
+      ['duplicate', 'import-old-crm-C-1'],
+      ['ready', undefined]
+    ]);
+  });
+
+  it('ignores reports more than a day apart', () => {
+    const checked = checkAgainstExistingReports(candidates, [
+      report('app-report', { timestamp: new Date('2026-09-03T10:00:00Z') })
+    ]);
+    expect(checked.map(c => c.status)).toEqual(['ready', 'ready', 'ready']);
+  });
+});
@@ -0,0 +1,297 @@
+import { ColumnMapping, ImportCandidate, ImportField, ImportOptions, ImportSource } from '../types/incidentImport';
+import { Report, ReportStatus } from '../types/report';
+import { buildCompletion } from '../repositories/reportRepository';
+import { parseCsv } from './csv';
+import { calculateDistance, checkDescriptionSimilarity, normalizeSeverity, toDate } from './incidentUtils';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'sourceId', label: 'Legacy ID' },
+  { field: 'dateReported', label: 'Date reported', required: true },
+  { field: 'incidentType', label: 'Incident type', required: true },
+  { field: 'municipal', label: 'Municipality' },
+  { field: 'description', label: 'Description' },
+  { field: 'location', label: 'Location' },
+  { field: 'locationInfo', label: 'Location details' },
+  { field: 'latitude', label: 'Latitude' },
+  { field: 'longitude', label: 'Longitude' },
+  { field: 'severity', label: 'Severity' },
+  { field: 'status', label: 'Status' },
+  { field: 'completedAt', label: 'Completed at' },
+  { field: 'reporterName', label: 'Reporter name' },
+  { field: 'reporterEmail', label: 'Reporter email' },
+  { field: 'contact', label: 'Contact' }
+];
+
+// Column names recognised for each field, compared without case, spaces or punctuation.
+// The headers of our own exports are included so exported files import cleanly.
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  sourceId: ['id', 'sourceid', 'legacyid', 'caseid', 'complaintid', 'reference', 'ref', 'ticketid'],
+  municipal: ['municipal', 'municipality', 'council', 'city', 'town'],
+  incidentType: ['incidenttype', 'type', 'category', 'complainttype'],
+  description: ['description', 'details', 'summary', 'comments'],
+  location: ['location', 'address', 'street'],
+  locationInfo: ['locationinfo', 'locationdetails', 'landmark'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  severity: ['severity', 'priority'],
+  status: ['status', 'state', 'reportstate'],
+  dateReported: ['datereported', 'reported', 'reportedat', 'created', 'createdat', 'opened', 'date', 'timestamp'],
+  completedAt: ['completedat', 'completed', 'resolvedat', 'resolved', 'closedat', 'closed', 'dateclosed'],
+  reporterName: ['reportername', 'complainant', 'name'],
+  reporterEmail: ['reporteremail', 'email'],
+  contact: ['contact', 'phone', 'telephone']
+};
+
+// Old systems' status names; paused and merged reports need history we cannot import
+const STATUS_ALIASES: Record<string, ReportStatus> = {
+  new: 'New',
+  open: 'New',
+  submitted: 'New',
+  received: 'New',
+  inprogress: 'In Progress',
+  assigned: 'In Progress',
+  overdue: 'In Progress',
+  completed: 'Completed',
+  complete: 'Completed',
+  resolved: 'Completed',
+  closed: 'Completed',
+  done: 'Completed',
+  fixed: 'Completed'
+};
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+// Reports this close in time and place, of the same type, are taken to be the same incident
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DUPLICATE_DISTANCE_M = 50;
+
+const normalizeKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const column = FIELD_ALIASES[field]
+      .map(alias => columns.find(c => !used.has(c) && normalizeKey(c) === alias))
+      .find(Boolean);
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+};
+
+interface GeoJsonFeature {
+  properties?: Record<string, unknown> | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+}
+
+// Each feature becomes a row of its properties; Point coordinates become latitude and longitude
+const parseGeoJson = (text: string): ImportSource => {
+  let data: { features?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data?.features)) throw new Error('Expected a GeoJSON FeatureCollection.');
+
+  const columns = new Set<string>();
+  const rows = (data.features as GeoJsonFeature[]).map(feature => {
+    const row: Record<string, string> = {};
+    Object.entries(feature?.properties || {}).forEach(([key, value]) => {
+      columns.add(key);
+      if (value === null || value === undefined) return;
+      row[key] = typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+    });
+    const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    if (Array.isArray(coordinates) && coordinates.length >= 2) {
+      columns.add('longitude').add('latitude');
+      row.longitude = String(coordinates[0]);
+      row.latitude = String(coordinates[1]);
+    }
+    return row;
+  });
+  return { columns: Array.from(columns), rows };
+};
+
+export const parseImportFile = (fileName: string, text: string): ImportSource => {
+  if (/\.(geo)?json$/i.test(fileName) || text.trim().startsWith('{')) return parseGeoJson(text);
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The file is empty.');
+  const columns = header.map(column => column.trim());
+  return {
+    columns,
+    rows: rows.map(values => Object.fromEntries(columns.map((column, i) => [column, (values[i] || '').trim()])))
+  };
+};
+
+// ISO dates, "YYYY-MM-DD HH:mm" and Unix times in seconds or milliseconds
+export const parseImportDate = (value: string): Date | null => {
+  if (!value) return null;
+  if (/^\d{9,13}$/.test(value)) return new Date(value.length <= 10 ? Number(value) * 1000 : Number(value));
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(value) ? value.replace(' ', 'T') : value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Two 32-bit FNV-1a hashes with different seeds, enough to tell years of records apart
+const fingerprint = (text: string): string => {
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (let i = 0; i < text.length; i++) {
+    a = Math.imul(a ^ text.charCodeAt(i), 0x01000193) >>> 0;
+    b = Math.imul(b ^ text.charCodeAt(i), 0x811c9dc5) >>> 0;
+  }
+  return a.toString(16).padStart(8, '0') + b.toString(16).padStart(8, '0');
+};
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Document id for an imported record. The same record always gets the same id,
+ * which is what makes a re-run skip what it already imported.
+ */
+export const buildImportId = (source: string, key: string): string => {
+  const safeKey = /^[A-Za-z0-9_-]{1,100}$/.test(key) ? key : `${slug(key).slice(0, 60)}-${fingerprint(key)}`;
+  return `import-${slug(source) || 'legacy'}-${safeKey}`;
+};
+
+const parseCoordinate = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+/**
+ * Validate every row and turn the valid ones into reports. Rows are never
+ * dropped: each comes back with its errors so the preview can show them.
+ */
+export const buildImportCandidates = (
+  source: ImportSource,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  now: Date = new Date()
+): ImportCandidate[] => {
+  const typesByName = new Map(options.incidentTypes.map(type => [type.name.trim().toLowerCase(), type]));
+  const municipalities = new Map(options.municipalities.map(m => [m.toLowerCase(), m]));
+  const firstRowById = new Map<string, number>();
+
+  return source.rows.map((row, index): ImportCandidate => {
+    const get = (field: ImportField) => (mapping[field] ? row[mapping[field] as string] || '' : '');
+    const errors: string[] = [];
+
+    const timestamp = parseImportDate(get('dateReported'));
+    if (!get('dateReported')) errors.push('Missing date reported');
+    else if (!timestamp) errors.push(`Unrecognised date "${get('dateReported')}"`);
+    else if (timestamp > now) errors.push('Date reported is in the future');
+
+    const completedAt = parseImportDate(get('completedAt'));
+    if (get('completedAt') && !completedAt) errors.push(`Unrecognised completion date "${get('completedAt')}"`);
+    if (timestamp && completedAt && completedAt < timestamp) errors.push('Completed before it was reported');
+
+    const type = typesByName.get(get('incidentType').toLowerCase());
+    if (!get('incidentType')) errors.push('Missing incident type');
+    else if (!type) errors.push(`Unknown incident type "${get('incidentType')}"`);
+
+    const municipal = municipalities.get((get('municipal') || options.defaultMunicipal).toLowerCase());
+    if (!municipal) errors.push(`Unknown municipality "${get('municipal') || options.defaultMunicipal}"`);
+
+    const severityText = get('severity');
+    if (severityText && !SEVERITIES.includes(severityText.toLowerCase())) errors.push(`Unknown severity "${severityText}"`);
+    const severity = normalizeSeverity(severityText || type?.severity || 'Low');
+
+    const statusText = get('status');
+    const status = statusText ? STATUS_ALIASES[normalizeKey(statusText)] : completedAt ? 'Completed' : 'New';
+    if (!status) errors.push(`Unsupported status "${statusText}"`);
+    if (status === 'Completed' && !completedAt) errors.push('Completed without a completion date');
+
+    const latitude = parseCoordinate(get('latitude'));
+    const longitude = parseCoordinate(get('longitude'));
+    if ((latitude === undefined) !== (longitude === undefined)) {
+      errors.push('Latitude and longitude must be given together');
+    } else if (latitude !== undefined && longitude !== undefined) {
+      if (isNaN(latitude) || latitude < -90 || latitude > 90) errors.push(`Invalid latitude "${get('latitude')}"`);
+      if (isNaN(longitude) || longitude < -180 || longitude > 180) errors.push(`Invalid longitude "${get('longitude')}"`);
+      if (latitude === 0 && longitude === 0) errors.push('Coordinates are 0, 0');
+    }
+
+    const reporterEmail = get('reporterEmail');
+    if (reporterEmail && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(reporterEmail)) errors.push(`Invalid email "${reporterEmail}"`);
+
+    const sourceId = get('sourceId');
+    const id = buildImportId(options.source, sourceId || [
+      timestamp?.toISOString(), get('incidentType'), latitude, longitude, get('location'), get('description')
+    ].join('|'));
+    const firstRow = firstRowById.get(id);
+    if (firstRow !== undefined) errors.push(`Same record as row ${firstRow}`);
+    else firstRowById.set(id, index + 1);
+
+    if (errors.length > 0 || !timestamp || !type || !municipal || !status) {
+      return { row: index + 1, id, status: 'invalid', errors };
+    }
+
+    const reporterName = get('reporterName');
+    const report: Report = {
+      id,
+      municipal,
+      reportState: status,
+      severity,
+      timestamp,
+      incidentType: type.name,
+      description: get('description'),
+      location: get('location'),
+      locationInfo: get('locationInfo'),
+      latitude,
+      longitude,
+      contact: get('contact'),
+      reporterName,
+      reporterEmail,
+      isAnonymous: !reporterName && !reporterEmail,
+      photos: [],
+      mediaUrls: [],
+      isAssigned: false,
+      importSource: options.source,
+      importSourceId: sourceId || undefined,
+      importedAt: now
+    };
+    return {
+      row: index + 1,
+      id,
+      status: 'ready',
+      report: completedAt ? { ...report, ...buildCompletion(report, completedAt) } : report,
+      errors
+    };
+  });
+};
+
+const looksLikeSameIncident = (a: Report, b: Report): boolean => {
+  const aTime = toDate(a.timestamp);
+  const bTime = toDate(b.timestamp);
+  if (!aTime || !bTime || Math.abs(aTime.getTime() - bTime.getTime()) > DUPLICATE_WINDOW_MS) return false;
+  if (a.latitude !== undefined && a.longitude !== undefined && b.latitude !== undefined && b.longitude !== undefined) {
+    return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) <= DUPLICATE_DISTANCE_M;
+  }
+  return !!a.location && a.location.trim().toLowerCase() === b.location.trim().toLowerCase()
+    && checkDescriptionSimilarity(a.description, b.description);
+};
+
+/**
+ * Compare ready rows with reports already in the app: ones imported by an earlier
+ * run are marked 'existing', and ones that look like the same incident 'duplicate'.
+ */
+export const checkAgainstExistingReports = (candidates: ImportCandidate[], existing: Report[]): ImportCandidate[] => {
+  const existingIds = new Set(existing.map(report => report.id));
+  const groupKey = (report: Report) => `${report.municipal}|${report.incidentType.toLowerCase()}`;
+  const groups = new Map<string, Report[]>();
+  existing.forEach(report => {
+    const group = groups.get(groupKey(report));
+    if (group) group.push(report);
+    else groups.set(groupKey(report), [report]);
+  });
+
+  return candidates.map(candidate => {
+    const report = candidate.report;
+    if (candidate.status !== 'ready' || !report) return candidate;
+    if (existingIds.has(candidate.id)) return { ...candidate, status: 'existing' };
+    const match = (groups.get(groupKey(report)) || []).find(other => looksLikeSameIncident(report, other));
+    return match ? { ...candidate, status: 'duplicate', duplicateOf: match.id } : candidate;
+  });
+};
@@ -155,4 +155,19 @@ export const getAllIncidentTypes = async (): Promise<IncidentTypeConfig[]> => {
     console.error('Error getting all incident types:', error);
     return [];
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Determine severity level based on incident type
+ * This function gets the severity from the existing incidentTypes collection
+ */
+export const determineSeverityFromType = async (incidentType: string): Promise<'Low' | 'Medium' | 'High' | 'Critical'> => {
+  if (!incidentType) return 'Medium';
+
+  try {
+    return await getIncidentTypeSeverity(incidentType);
+  } catch (error) {
+    console.error('Error determining severity from incident type:', error);
+    return 'Medium';
+  }
+};
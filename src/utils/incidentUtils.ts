@@ -1,5 +1,8 @@
 import { Timestamp } from 'firebase/firestore';
-import { getIncidentTypeSeverity } from './incidentTypeUtils';
+import type { Assignment } from '../types/report';
+import type { ResolvedSla } from '../types/slaPolicy';
+import type { SlaCalendar } from '../types/slaCalendar';
+import { addWorkingHours, getDefaultSlaCalendar, getWorkingMsBetween } from './slaCalendar';
 
 /**
  * Calculate distance between two geographic coordinates using Haversine formula
@@ -31,6 +34,42 @@ export const formatDate = (date: any) => {
   return '';
 };
 
+/**
+ * Convert a Firestore Timestamp, Date, {seconds} object or date string to a Date
+ */
+export const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const v = value as { toDate?: () => Date; seconds?: number };
+  if (typeof v.toDate === 'function') return v.toDate();
+  if (typeof v.seconds === 'number') return new Date(v.seconds * 1000);
+  return null;
+};
+
+/**
+ * Format a duration in milliseconds as "2d 3h 15m", days first
+ */
+export const formatElapsedTime = (diffMs: number): string => {
+  const days = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diffMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (days > 0) {
+    if (hours > 0 && minutes > 0) return `${days}d ${hours}h ${minutes}m`;
+    if (hours > 0) return `${days}d ${hours}h`;
+    return `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return minutes > 0 ? `${minutes}m` : 'Less than 1 minute';
+};
+
 // Normalize severity to ensure consistent capitalization
 export const normalizeSeverity = (severity: string): 'Low' | 'Medium' | 'High' | 'Critical' => {
   if (!severity) return "Low";
@@ -54,9 +93,18 @@ export const FALLBACK_TIMEFRAMES = {
  * Calculate the deadline for an incident based on its creation time and severity
  * @param creationTimestamp When the incident was reported
  * @param severity Severity level of the incident
+ * @param sla Timeframe resolved from the SLA policies; defaults to FALLBACK_TIMEFRAMES
+ * @param calendar Working hours and holidays used when the policy is business-hours only
+ * @param pausedMs Time the SLA clock was paused, measured on the same clock as the policy
  * @returns The deadline as a Date object
  */
-export const calculateDeadline = (creationTimestamp: any, severity: string): Date | null => {
+export const calculateDeadline = (
+  creationTimestamp: any,
+  severity: string,
+  sla?: ResolvedSla,
+  calendar?: SlaCalendar,
+  pausedMs: number = 0
+): Date | null => {
   if (!creationTimestamp) return null;
 
   // Convert creationTimestamp to Date
@@ -79,8 +127,14 @@ export const calculateDeadline = (creationTimestamp: any, severity: string): Dat
     severity.charAt(0).toUpperCase() + severity.slice(1).toLowerCase() :
     'Low';
 
-  // Get timeframe based on severity (now case-insensitive)
-  const timeframeHours = FALLBACK_TIMEFRAMES[normalizedSeverity as keyof typeof FALLBACK_TIMEFRAMES] || 24;
+  // Get timeframe from the resolved policy, or based on severity (now case-insensitive).
+  // Paused time pushes the deadline out.
+  const timeframeHours = (sla ? sla.timeframeHours :
+    FALLBACK_TIMEFRAMES[normalizedSeverity as keyof typeof FALLBACK_TIMEFRAMES] || 24) + pausedMs / (60 * 60 * 1000);
+
+  if (sla?.businessHoursOnly) {
+    return addWorkingHours(creationDate, timeframeHours, calendar || getDefaultSlaCalendar());
+  }
 
   // Calculate deadline: creation time + timeframe hours
   return new Date(creationDate.getTime() + (timeframeHours * 60 * 60 * 1000));
@@ -90,11 +144,12 @@ export const calculateDeadline = (creationTimestamp: any, severity: string): Dat
  * Check if an incident is overdue based on its deadline
  * @param deadline The deadline for resolution
  * @param status Current status of the incident
+ * @param currentTime Time to compare against (defaults to now)
  * @returns Boolean indicating whether the incident is overdue
  */
-export const isOverdue = (deadline: any, status: string): boolean => {
-  // Completed/Merged incidents cannot be overdue
-  if (status === 'Completed' || status === 'Merged') {
+export const isOverdue = (deadline: any, status: string, currentTime?: Date): boolean => {
+  // Completed/Merged incidents cannot be overdue, and paused ones have their clock stopped
+  if (status === 'Completed' || status === 'Merged' || status === 'Paused') {
     return false;
   }
 
@@ -114,7 +169,7 @@ export const isOverdue = (deadline: any, status: string): boolean => {
   }
 
   // Check if current time is past deadline
-  return new Date() > deadlineDate;
+  return (currentTime || new Date()) > deadlineDate;
 };
 
 /**
@@ -122,9 +177,17 @@ export const isOverdue = (deadline: any, status: string): boolean => {
  * @param deadline Deadline date for resolution
  * @param status Current status of the incident
  * @param showOverdueTime Whether to show detailed overdue time (for detail view) or just "Overdue"
+ * @param currentTime Time to compare against (defaults to now)
+ * @param calendar When set, only working time is counted (business-hours SLA policies)
  * @returns Formatted string representing time remaining or overdue status
  */
-export const getTimeRemaining = (deadline: any, status?: string, showOverdueTime: boolean = false, currentTime?: Date) => {
+export const getTimeRemaining = (
+  deadline: any,
+  status?: string,
+  showOverdueTime: boolean = false,
+  currentTime?: Date,
+  calendar?: SlaCalendar
+) => {
   // For merged reports, return a dash
   if (status === 'Merged') {
     return '-';
@@ -135,6 +198,11 @@ export const getTimeRemaining = (deadline: any, status?: string, showOverdueTime
     return 'Completed';
   }
 
+  // The SLA clock is stopped while waiting on someone else
+  if (status === 'Paused') {
+    return 'Paused';
+  }
+
   // If no deadline, return appropriate message
   if (!deadline) return 'No deadline';
 
@@ -151,10 +219,11 @@ export const getTimeRemaining = (deadline: any, status?: string, showOverdueTime
   }
 
   const now = currentTime || new Date();
-  const diffMs = deadlineDate.getTime() - now.getTime();
+  const wallClockDiffMs = deadlineDate.getTime() - now.getTime();
+  const diffMs = calendar ? getWorkingMsBetween(now, deadlineDate, calendar) : wallClockDiffMs;
 
   // If deadline has passed
-  if (diffMs <= 0) {
+  if (wallClockDiffMs <= 0) {
     // For detail page, show how much time has passed since deadline
     if (showOverdueTime) {
       const overdueMs = Math.abs(diffMs);
@@ -205,6 +274,7 @@ export const getTimeRemaining = (deadline: any, status?: string, showOverdueTime
 export const statusColors: Record<string, string> = {
   'New': '#29b6f6',
   'In Progress': '#ff7043',
+  'Paused': '#8e24aa',
   'Overdue': '#e53935',
   'Completed': '#222',
   'Merged': '#9e9e9e'
@@ -254,6 +324,27 @@ export const getSeverityRanking = (severity: string): number => {
   }
 };
 
+/**
+ * Severity of an incident type from the incidentTypes collection, given as severities
+ * keyed by type id and by lower-cased name, worked out as getIncidentTypeSeverity does
+ * for the browser: several types separated by , ; or / take the highest, and types
+ * that are not found count as Medium.
+ */
+export const getSeverityForType = (
+  incidentType: string,
+  severities: Record<string, 'Low' | 'Medium' | 'High' | 'Critical'>
+): 'Low' | 'Medium' | 'High' | 'Critical' => {
+  const found = incidentType.split(/[,;/]/).map(type => {
+    const name = type.trim();
+    return severities[name] || severities[name.toLowerCase()] || 'Medium';
+  });
+  if (found.length === 1) return found[0];
+  // As getIncidentTypeSeverity, several types are never below Medium
+  return found.reduce((highest, severity) => (
+    getSeverityRanking(severity) > getSeverityRanking(highest) ? severity : highest
+  ), 'Medium');
+};
+
 // Flag status and reason helpers
 export const getFlagReasonText = (reason: string): string => {
   return reason === 'duplicate' ? 'Duplicate Report' :
@@ -262,21 +353,6 @@ export const getFlagReasonText = (reason: string): string => {
         reason === 'spam' ? 'Spam' : 'Other';
 };
 
-/**
- * Determine severity level based on incident type
- * This function gets the severity from the existing incidentTypes collection
- */
-export const determineSeverityFromType = async (incidentType: string): Promise<'Low' | 'Medium' | 'High' | 'Critical'> => {
-  if (!incidentType) return 'Medium';
-
-  try {
-    return await getIncidentTypeSeverity(incidentType);
-  } catch (error) {
-    console.error('Error determining severity from incident type:', error);
-    return 'Medium';
-  }
-};
-
 // Incident Data interface
 export interface IncidentDetailData {
   id: string;
@@ -291,7 +367,7 @@ export interface IncidentDetailData {
   contact: string;
   severity: 'Low' | 'Medium' | 'High' | 'Critical';
   deadline?: any;
-  status: 'New' | 'In Progress' | 'Overdue' | 'Completed' | 'Merged';
+  status: 'New' | 'In Progress' | 'Paused' | 'Overdue' | 'Completed' | 'Merged';
   dateReported: string;
   reporterName?: string;
   reporterEmail?: string;
@@ -344,4 +420,9 @@ export const checkDescriptionSimilarity = (desc1: string = '', desc2: string = '
   const matchPercent = (matchCount / minWordCount) * 100;
 
   return matchPercent >= 30; // Consider similar if 30% or more words match
-}; 
\ No newline at end of file
+}; 
+// Display text for an assignment, e.g. "Jane Doe · Roads North"
+export const formatAssignment = (assignment: Assignment): string => {
+  const parts = [assignment.assignedToName || assignment.assignedTo, assignment.team].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Unassigned';
+};
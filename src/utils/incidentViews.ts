@@ -0,0 +1,88 @@
+import { AssignmentFilter, IncidentViewFilters, SavedIncidentView } from '../types/incidentView';
+import { ReportSort, ReportStatus, Severity } from '../types/report';
+import { StaffPreferences } from '../types/staff';
+
+// Keys in the staff member's `preferences` map
+const VIEWS_PREFERENCE = 'incidentViews';
+const DEFAULT_VIEW_PREFERENCE = 'defaultIncidentView';
+
+const STATUSES: ReportStatus[] = ['New', 'In Progress', 'Paused', 'Overdue', 'Completed', 'Merged'];
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+const ASSIGNMENTS: AssignmentFilter[] = ['me', 'team', 'unassigned'];
+const SORTS: ReportSort[] = ['newest', 'oldest'];
+
+// Query string parameter for each filter, e.g. /incidents?status=Overdue&severity=Critical
+const PARAMS: Record<keyof IncidentViewFilters, string> = {
+  search: 'q',
+  status: 'status',
+  category: 'category',
+  severity: 'severity',
+  assignment: 'assignment',
+  municipal: 'municipal',
+  sort: 'sort'
+};
+
+const oneOf = <T extends string>(values: T[], value: unknown): T | undefined =>
+  values.includes(value as T) ? (value as T) : undefined;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+// Drop unknown values and defaults so equal views compare equal
+const cleanFilters = (raw: Record<string, unknown>): IncidentViewFilters => {
+  const filters: IncidentViewFilters = {
+    search: text(raw.search),
+    status: oneOf(STATUSES, raw.status),
+    category: text(raw.category),
+    severity: oneOf(SEVERITIES, raw.severity),
+    assignment: oneOf(ASSIGNMENTS, raw.assignment),
+    municipal: text(raw.municipal),
+    sort: raw.sort === 'newest' ? undefined : oneOf(SORTS, raw.sort)
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): IncidentViewFilters =>
+  cleanFilters(Object.fromEntries(
+    (Object.keys(PARAMS) as (keyof IncidentViewFilters)[]).map(key => [key, params.get(PARAMS[key])])
+  ));
+
+export const filtersToSearchParams = (filters: IncidentViewFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(cleanFilters({ ...filters })).forEach(([key, value]) => {
+    params.set(PARAMS[key as keyof IncidentViewFilters], String(value));
+  });
+  return params;
+};
+
+export const hasViewFilters = (params: URLSearchParams): boolean =>
+  Object.values(PARAMS).some(param => params.has(param));
+
+export const isSameView = (a: IncidentViewFilters, b: IncidentViewFilters): boolean =>
+  filtersToSearchParams(a).toString() === filtersToSearchParams(b).toString();
+
+// Saved views from the preferences map, skipping any that are malformed
+export const getSavedViews = (preferences: StaffPreferences): SavedIncidentView[] => {
+  const views = preferences[VIEWS_PREFERENCE];
+  if (!Array.isArray(views)) return [];
+  return views
+    .filter(view => view && typeof view.id === 'string' && typeof view.name === 'string')
+    .map(view => ({ id: view.id, name: view.name, filters: cleanFilters(view.filters || {}) }));
+};
+
+export const getDefaultViewId = (preferences: StaffPreferences): string | undefined =>
+  text(preferences[DEFAULT_VIEW_PREFERENCE]);
+
+export const withSavedViews = (
+  preferences: StaffPreferences,
+  views: SavedIncidentView[],
+  defaultViewId?: string
+): StaffPreferences => ({
+  ...preferences,
+  [VIEWS_PREFERENCE]: views,
+  // A default that was deleted falls back to no default
+  [DEFAULT_VIEW_PREFERENCE]: views.some(view => view.id === defaultViewId) ? defaultViewId : ''
+});
+
+export const createViewId = (): string =>
+  `view-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
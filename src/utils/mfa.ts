@@ -0,0 +1,36 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../config/firebase';
+
+// Client side of the authenticator (TOTP) functions in functions/src/mfa.ts.
+// Each call needs a recent sign-in, so wrap them in useRecentAuth's withRecentAuth.
+
+export interface MfaEnrollment {
+  // Base32 key for typing into the app by hand
+  secret: string;
+  otpauthUrl: string;
+}
+
+const startEnrollmentCall = httpsCallable<void, MfaEnrollment>(functions, 'startMfaEnrollment');
+const confirmEnrollmentCall = httpsCallable<{ code: string }, { recoveryCodes: string[] }>(functions, 'confirmMfaEnrollment');
+const regenerateCodesCall = httpsCallable<{ code: string }, { recoveryCodes: string[] }>(functions, 'regenerateRecoveryCodes');
+const disableCall = httpsCallable<{ code?: string; email?: string }, { ok: boolean }>(functions, 'disableMfa');
+
+export const startMfaEnrollment = async (): Promise<MfaEnrollment> =>
+  (await startEnrollmentCall()).data;
+
+// Returns the recovery codes, which are only ever shown this once
+export const confirmMfaEnrollment = async (code: string): Promise<string[]> =>
+  (await confirmEnrollmentCall({ code })).data.recoveryCodes;
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> =>
+  (await regenerateCodesCall({ code })).data.recoveryCodes;
+
+// Turn off your own second factor with a current code
+export const disableMfa = async (code: string): Promise<void> => {
+  await disableCall({ code });
+};
+
+// Admins only: remove another user's second factor, e.g. after a lost phone
+export const resetStaffMfa = async (email: string): Promise<void> => {
+  await disableCall({ email });
+};
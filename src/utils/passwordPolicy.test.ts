@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { checkPasswordPolicy, getPasswordStrength, isPasswordExpired, meetsPasswordPolicy } from './passwordPolicy';
+
+const failedRules = (password: string, email?: string) =>
+  checkPasswordPolicy(password, email).filter(rule => !rule.passed).map(rule => rule.id);
+
+describe('checkPasswordPolicy', () => {
+  it('accepts a long password with every kind of character', () => {
+    expect(meetsPasswordPolicy('Pothole-Crew-42', 'dispatcher@springfield.gov')).toBe(true);
+  });
+
+  it('names each rule a password breaks', () => {
+    expect(failedRules('short')).toEqual(['length', 'uppercase', 'digit', 'symbol']);
+  });
+
+  it('treats common passwords with digits and symbols added as common', () => {
+    expect(failedRules('Password123!!!')).toEqual(['common']);
+    expect(failedRules('Supervisor2025!')).toEqual(['common']);
+  });
+
+  it('refuses passwords built from the email name', () => {
+    expect(failedRules('Jsmith-Rocks-99', 'j.smith@springfield.gov')).toEqual(['common']);
+  });
+});
+
+describe('getPasswordStrength', () => {
+  it('keeps passwords that break the policy weak', () => {
+    expect(getPasswordStrength('aaaaaaaaaaaaaaaaaaaa').score).toBeLessThanOrEqual(1);
+  });
+
+  it('rates long varied passwords strong', () => {
+    expect(getPasswordStrength('Pothole-Crew-42-Main-St')).toEqual({ score: 4, label: 'Strong' });
+  });
+});
+
+describe('isPasswordExpired', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  it('expires passwords older than 90 days', () => {
+    expect(isPasswordExpired(new Date('2025-03-01T00:00:00Z'), now)).toBe(true);
+    expect(isPasswordExpired(new Date('2025-03-05T00:00:00Z'), now)).toBe(false);
+  });
+
+  it('does not expire accounts with no recorded change', () => {
+    expect(isPasswordExpired(undefined, now)).toBe(false);
+  });
+});
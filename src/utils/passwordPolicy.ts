@@ -0,0 +1,79 @@
+import { toDate } from './incidentUtils';
+
+// Staff password rules. functions/src/passwordPolicy.ts enforces the same rules
+// on the server, along with password history; keep the two in step.
+
+export const PASSWORD_POLICY = {
+  minLength: 12,
+  // Recent passwords that may not be reused (checked on the server)
+  historySize: 5,
+  // Staff are asked for a new password once it is this old
+  maxAgeDays: 90
+};
+
+// Most common passwords and obvious choices for this app
+const BANNED_PASSWORDS = [
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'qwerty', 'qwerty123', 'qwertyuiop',
+  'letmein', 'welcome', 'welcome1', 'welcome123', 'admin', 'admin123', 'administrator', 'changeme',
+  'iloveyou', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess', 'trustno1',
+  '123456', '1234567', '12345678', '123456789', '1234567890', '111111', '000000', 'abc123',
+  'cityfix', 'municipal', 'municipality', 'incident', 'dispatcher', 'supervisor'
+];
+
+export type PasswordRuleId = 'length' | 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'common';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+// Compare without case, digits and symbols so "Password123!" counts as "password"
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+const isCommonPassword = (password: string, email: string): boolean => {
+  const core = normalize(password);
+  const emailName = normalize(email.split('@')[0]);
+  const banned = BANNED_PASSWORDS.some(word => {
+    const bannedCore = normalize(word);
+    return bannedCore.length > 0 ? core === bannedCore : password.toLowerCase() === word;
+  });
+  return banned || (emailName.length >= 3 && core.includes(emailName));
+};
+
+/**
+ * Each policy rule and whether the password meets it, for the live checklist.
+ * History is not included; only the server knows previous passwords.
+ */
+export const checkPasswordPolicy = (password: string, email: string = ''): PasswordRuleResult[] => [
+  { id: 'length', label: `At least ${PASSWORD_POLICY.minLength} characters`, passed: password.length >= PASSWORD_POLICY.minLength },
+  { id: 'lowercase', label: 'A lowercase letter', passed: /[a-z]/.test(password) },
+  { id: 'uppercase', label: 'An uppercase letter', passed: /[A-Z]/.test(password) },
+  { id: 'digit', label: 'A number', passed: /[0-9]/.test(password) },
+  { id: 'symbol', label: 'A symbol, e.g. ! ? # %', passed: /[^A-Za-z0-9]/.test(password) },
+  { id: 'common', label: 'Not a common password or your name', passed: password.length > 0 && !isCommonPassword(password, email) }
+];
+
+export const meetsPasswordPolicy = (password: string, email: string = ''): boolean =>
+  checkPasswordPolicy(password, email).every(rule => rule.passed);
+
+/**
+ * Rough strength from 0 (weak) to 4 (strong) for the meter. Length counts for
+ * more than character variety, and anything breaking the policy stays weak.
+ */
+export const getPasswordStrength = (password: string, email: string = ''): { score: number; label: string } => {
+  const labels = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+  if (!password) return { score: 0, label: labels[0] };
+  const rules = checkPasswordPolicy(password, email);
+  const classes = rules.filter(r => ['lowercase', 'uppercase', 'digit', 'symbol'].includes(r.id) && r.passed).length;
+  let score = Math.min(2, Math.floor(password.length / 8)) + (classes >= 3 ? 1 : 0) + (password.length >= 16 && classes === 4 ? 1 : 0);
+  if (!rules.every(r => r.passed)) score = Math.min(score, 1);
+  return { score, label: labels[score] };
+};
+
+// Accounts with no recorded change have not started the clock yet
+export const isPasswordExpired = (passwordChangedAt: unknown, now: Date = new Date()): boolean => {
+  const changedAt = toDate(passwordChangedAt);
+  if (!changedAt) return false;
+  return now.getTime() - changedAt.getTime() > PASSWORD_POLICY.maxAgeDays * 24 * 60 * 60 * 1000;
+};
@@ -0,0 +1,40 @@
+import { FunctionsError, httpsCallable } from 'firebase/functions';
+import { functions } from '../config/firebase';
+
+// Client side of the password functions in functions/src/passwords.ts
+
+export type PasswordChangeResult =
+  | { ok: true }
+  | { ok: false; message: string };
+
+const changePasswordCall = httpsCallable<{ newPassword: string }, { ok: boolean }>(functions, 'changeStaffPassword');
+const resetPasswordCall = httpsCallable<{ oobCode: string; newPassword: string }, { ok: boolean }>(functions, 'resetStaffPassword');
+
+const toResult = (error: unknown): PasswordChangeResult => {
+  // Policy rejections carry a message listing the rules that failed
+  if (error instanceof FunctionsError && error.code !== 'functions/internal') {
+    return { ok: false, message: error.message };
+  }
+  console.error('Password change failed:', error);
+  return { ok: false, message: 'Failed to update password. Please try again.' };
+};
+
+// Set a new password for the signed-in user, checked against the policy and history
+export const changeStaffPassword = async (newPassword: string): Promise<PasswordChangeResult> => {
+  try {
+    await changePasswordCall({ newPassword });
+    return { ok: true };
+  } catch (error) {
+    return toResult(error);
+  }
+};
+
+// Finish a forgotten-password reset using the code from the emailed link
+export const resetStaffPassword = async (oobCode: string, newPassword: string): Promise<PasswordChangeResult> => {
+  try {
+    await resetPasswordCall({ oobCode, newPassword });
+    return { ok: true };
+  } catch (error) {
+    return toResult(error);
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PAGE_HEIGHT, createPdfDocument } from './pdf';
+
+// One character per byte, so string offsets are byte offsets
+const readPdf = async (blob: Blob) => Array.from(new Uint8Array(await blob.arrayBuffer()), b => String.fromCharCode(b)).join('');
+
+describe('measure', () => {
+  it('sums Helvetica widths and widens bold text', () => {
+    const pdf = createPdfDocument();
+    expect(pdf.measure('Hello', 10)).toBeCloseTo(22.78);
+    expect(pdf.measure('Hello', 10, true)).toBeCloseTo(22.78 * 1.08);
+  });
+});
+
+describe('wrap', () => {
+  it('breaks between words and keeps blank lines', () => {
+    const pdf = createPdfDocument();
+    const width = pdf.measure('Broken main', 10);
+    expect(pdf.wrap('Broken main leaking\n\nNear  school', width, 10)).toEqual(['Broken main', 'leaking', '', 'Near school']);
+  });
+
+  it('leaves a word wider than the line on its own line', () => {
+    expect(createPdfDocument().wrap('a Streetlight b', 10, 10)).toEqual(['a', 'Streetlight', 'b']);
+  });
+});
+
+describe('createPdfDocument', () => {
+  it('escapes text, replaces what Helvetica cannot print and measures from the top', async () => {
+    const pdf = createPdfDocument();
+    pdf.text(40, 100, 'Pipe (main) \\ café ✓\tok', { size: 12, bold: true, color: [255, 0, 0] });
+    const text = await readPdf(pdf.finish());
+    expect(text).toContain(`BT /F2 12 Tf 1 0 0 rg 40 ${PAGE_HEIGHT - 100} Td (Pipe \\(main\\) \\\\ caf\xe9 ? ok) Tj ET`);
+  });
+
+  it('writes one page object per page and shares repeated images', async () => {
+    const image = { width: 2, height: 1, data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]) };
+    const pdf = createPdfDocument();
+    pdf.image(image, 0, 0, 20, 10);
+    pdf.addPage();
+    pdf.image(image, 0, 0, 20, 10);
+    const text = await readPdf(pdf.finish());
+    expect(text).toContain('/Kids [6 0 R 8 0 R] /Count 2');
+    expect(text.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    expect(text.match(/\/XObject << \/Im0 5 0 R >>/g)).toHaveLength(2);
+    expect(text).toContain('stream\n\xff\xd8\xff\xd9\nendstream');
+  });
+
+  it('points the cross-reference table at each object', async () => {
+    const pdf = createPdfDocument();
+    pdf.text(40, 60, 'Report');
+    pdf.addPage();
+    pdf.rect(40, 60, 100, 20, [200, 200, 200]);
+    const text = await readPdf(pdf.finish());
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+    const startXref = Number(/startxref\n(\d+)\n/.exec(text)?.[1]);
+    expect(text.startsWith('xref\n0 9\n', startXref)).toBe(true);
+    const offsets = Array.from(text.slice(startXref).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, i) => expect(text.startsWith(`${i + 1} 0 obj\n`, offset)).toBe(true));
+  });
+});
@@ -0,0 +1,183 @@
+// A minimal PDF writer: text in the standard Helvetica fonts, lines, boxes and JPEG images
+
+// A4, in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// JPEG bytes and their pixel size; PDF viewers decode JPEG themselves
+export interface PdfImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+/**
+ * Drawing operations for a PDF. Positions are measured from the top-left corner
+ * of the current page, in points; text is placed by its baseline.
+ */
+export interface PdfDocument {
+  addPage(): void;
+  text(x: number, y: number, text: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: PdfColor): void;
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void;
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void;
+  measure(text: string, size: number, bold?: boolean): number;
+  // Split text into lines no wider than width
+  wrap(text: string, width: number, size: number, bold?: boolean): string[];
+  finish(): Blob;
+}
+
+// Helvetica advance widths for characters 32-126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+// Helvetica-Bold is close enough to this much wider for wrapping
+const BOLD_FACTOR = 1.08;
+
+// The standard fonts only cover Latin-1; anything else prints as "?"
+const toWinAnsi = (text: string) => text.replace(/\s/g, ' ').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const charWidth = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const colorOps = ([r, g, b]: PdfColor, op: 'rg' | 'RG') => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)} ${op}`;
+
+const BLACK: PdfColor = [0, 0, 0];
+const LIGHT_GREY: PdfColor = [200, 200, 200];
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+export const createPdfDocument = (): PdfDocument => {
+  const pages: { ops: string[]; images: Set<number> }[] = [];
+  const images: PdfImage[] = [];
+
+  const page = () => {
+    if (pages.length === 0) pages.push({ ops: [], images: new Set() });
+    return pages[pages.length - 1];
+  };
+
+  const measure = (text: string, size: number, bold: boolean = false) =>
+    Array.from(toWinAnsi(text)).reduce((sum, char) => sum + charWidth(char), 0) * size / 1000 * (bold ? BOLD_FACTOR : 1);
+
+  return {
+    addPage() {
+      pages.push({ ops: [], images: new Set() });
+    },
+
+    text(x, y, text, options = {}) {
+      const { size = 11, bold = false, color = BLACK } = options;
+      const escaped = toWinAnsi(text).replace(/[\\()]/g, '\\$&');
+      page().ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${colorOps(color, 'rg')} ${num(x)} ${num(PAGE_HEIGHT - y)} Td (${escaped}) Tj ET`);
+    },
+
+    line(x1, y1, x2, y2, color = LIGHT_GREY) {
+      page().ops.push(`${colorOps(color, 'RG')} 0.75 w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    },
+
+    rect(x, y, width, height, color) {
+      page().ops.push(`${colorOps(color, 'rg')} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    image(image, x, y, width, height) {
+      let index = images.indexOf(image);
+      if (index === -1) index = images.push(image) - 1;
+      const current = page();
+      current.images.add(index);
+      current.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /Im${index} Do Q`);
+    },
+
+    measure,
+
+    wrap(text, width, size, bold = false) {
+      const lines: string[] = [];
+      text.split(/\r?\n/).forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+          const candidate = line ? `${line} ${word}` : word;
+          if (!line || measure(candidate, size, bold) <= width) {
+            line = candidate;
+          } else {
+            lines.push(line);
+            line = word;
+          }
+        });
+        lines.push(line);
+      });
+      return lines;
+    },
+
+    finish() {
+      if (pages.length === 0) page();
+      // 1 catalog, 2 page tree, 3-4 fonts, then images, then a page and its content per page
+      const firstImage = 5;
+      const firstPage = firstImage + images.length;
+      const pageId = (i: number) => firstPage + i * 2;
+
+      const objects: (string | Uint8Array)[][] = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        [`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`],
+        ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'],
+        ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+        ...images.map(image => [
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB ` +
+            `/BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+          image.data,
+          '\nendstream'
+        ]),
+        ...pages.flatMap(({ ops, images: used }, i) => {
+          const content = latin1(ops.join('\n'));
+          const xObjects = Array.from(used).map(index => `/Im${index} ${firstImage + index} 0 R`).join(' ');
+          return [
+            [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+              `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageId(i) + 1} 0 R >>`],
+            [`<< /Length ${content.length} >>\nstream\n`, content, '\nendstream']
+          ];
+        })
+      ];
+
+      const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+      let offset = parts[0].length;
+      const offsets: number[] = [];
+      objects.forEach((object, i) => {
+        offsets.push(offset);
+        [`${i + 1} 0 obj\n`, ...object, '\nendobj\n'].forEach(part => {
+          const bytes = typeof part === 'string' ? latin1(part) : part;
+          parts.push(bytes);
+          offset += bytes.length;
+        });
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        'startxref',
+        String(offset),
+        '%%EOF'
+      ].join('\n');
+      parts.push(latin1(`${xref}\n`));
+
+      return new Blob(parts, { type: 'application/pdf' });
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import { Permission, StaffRole } from '../types/staff';
+
+export const STAFF_ROLES: StaffRole[] = ['viewer', 'dispatcher', 'supervisor', 'admin'];
+
+// Staff accounts created before roles existed keep the day-to-day permissions they had
+export const DEFAULT_STAFF_ROLE: StaffRole = 'dispatcher';
+
+// Each role includes everything the role before it can do
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  viewer: [],
+  dispatcher: ['incident.update', 'incident.changeSeverity', 'incident.flag', 'incident.assign'],
+  supervisor: [
+    'incident.update', 'incident.changeSeverity', 'incident.flag', 'incident.assign',
+    'incident.merge', 'reporter.adjustTrust', 'sla.managePolicies', 'sla.receiveReports'
+  ],
+  admin: [
+    'incident.update', 'incident.changeSeverity', 'incident.flag', 'incident.assign',
+    'incident.merge', 'reporter.adjustTrust', 'sla.managePolicies', 'sla.receiveReports', 'audit.view',
+    'staff.manage', 'incident.import', 'sla.manageDefaultPolicies'
+  ]
+};
+
+export const normalizeStaffRole = (role: unknown): StaffRole => {
+  return STAFF_ROLES.includes(role as StaffRole) ? role as StaffRole : DEFAULT_STAFF_ROLE;
+};
+
+export const hasPermission = (role: StaffRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const getStaffRoleLabel = (role: StaffRole): string => {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+};
@@ -1,53 +1,54 @@
-interface RateLimitEntry {
-  attempts: number;
-  lastAttempt: number;
-  blockedUntil: number | null;
+import { FunctionsError, httpsCallable } from 'firebase/functions';
+import { functions } from '../config/firebase';
+
+// Failure counts and lockouts are kept by the staffLogin function (functions/src/loginRateLimit.ts)
+// against both the account and the caller's IP, so they survive refreshes and other tabs.
+
+// Staff with an authenticator enrolled send one of these with their password
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
 }
 
-const MAX_ATTEMPTS = 5;
-const BLOCK_DURATION = 15 * 60 * 1000; // 15 minutes in milliseconds
-const ATTEMPT_WINDOW = 5 * 60 * 1000; // 5 minutes in milliseconds
+export type StaffLoginResult =
+  | { ok: true; token: string }
+  | { ok: false; reason: 'mfa_required' }
+  | { ok: false; reason: 'invalid'; remainingAttempts?: number; mfaRequired: boolean }
+  | { ok: false; reason: 'blocked'; retryAfterMs: number }
+  | { ok: false; reason: 'disabled' | 'error'; message: string };
 
-class RateLimiter {
-  private attempts: Map<string, RateLimitEntry> = new Map();
+const staffLogin = httpsCallable<{ email: string; password: string } & SecondFactor, { token: string }>(functions, 'staffLogin');
 
-  isBlocked(ip: string): boolean {
-    const entry = this.attempts.get(ip);
-    if (!entry) return false;
-    if (entry.blockedUntil && Date.now() < entry.blockedUntil) {
-      return true;
+/**
+ * Check staff credentials on the server. On success the returned custom token
+ * is passed to signInWithCustomToken.
+ */
+export const requestStaffLogin = async (
+  email: string,
+  password: string,
+  secondFactor: SecondFactor = {}
+): Promise<StaffLoginResult> => {
+  try {
+    const { data } = await staffLogin({ email, password, ...secondFactor });
+    return { ok: true, token: data.token };
+  } catch (error) {
+    const details = (error instanceof FunctionsError ? error.details : undefined) as
+      { retryAfterMs?: number; remainingAttempts?: number; mfaRequired?: boolean } | undefined;
+    const code = error instanceof FunctionsError ? error.code : '';
+    if (code === 'functions/resource-exhausted') {
+      return { ok: false, reason: 'blocked', retryAfterMs: details?.retryAfterMs || 0 };
     }
-    // Reset if the attempt window has passed
-    if (Date.now() - entry.lastAttempt > ATTEMPT_WINDOW) {
-      this.attempts.delete(ip);
-      return false;
+    if (code === 'functions/failed-precondition' && details?.mfaRequired) {
+      return { ok: false, reason: 'mfa_required' };
     }
-    return false;
-  }
-
-  recordAttempt(ip: string): { blocked: boolean; remainingAttempts: number } {
-    const now = Date.now();
-    const entry = this.attempts.get(ip) || { attempts: 0, lastAttempt: now, blockedUntil: null };
-    // Reset if the attempt window has passed
-    if (now - entry.lastAttempt > ATTEMPT_WINDOW) {
-      entry.attempts = 0;
+    if (code === 'functions/unauthenticated') {
+      return { ok: false, reason: 'invalid', remainingAttempts: details?.remainingAttempts, mfaRequired: !!details?.mfaRequired };
     }
-    entry.attempts++;
-    entry.lastAttempt = now;
-    if (entry.attempts >= MAX_ATTEMPTS) {
-      entry.blockedUntil = now + BLOCK_DURATION;
-      this.attempts.set(ip, entry);
-      return { blocked: true, remainingAttempts: 0 };
+    // Disabled, deactivated and non-staff accounts; the function says which
+    if (code === 'functions/permission-denied') {
+      return { ok: false, reason: 'disabled', message: (error as FunctionsError).message || 'This account has been disabled.' };
     }
-    this.attempts.set(ip, entry);
-    return { blocked: false, remainingAttempts: MAX_ATTEMPTS - entry.attempts };
+    console.error('Staff login request failed:', error);
+    return { ok: false, reason: 'error', message: 'An error occurred during login. Please try again.' };
   }
-
-  getRemainingTime(ip: string): number {
-    const entry = this.attempts.get(ip);
-    if (!entry || !entry.blockedUntil) return 0;
-    return Math.max(0, entry.blockedUntil - Date.now());
-  }
-}
-
-export const rateLimiter = new RateLimiter(); 
\ No newline at end of file
+};
@@ -0,0 +1,34 @@
+import { Report } from '../types/report';
+
+// Which reports changed between two snapshots of a live query, by id
+export interface ReportDiff {
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
+export const isEmptyDiff = (diff: ReportDiff): boolean =>
+  diff.added.length === 0 && diff.modified.length === 0 && diff.removed.length === 0;
+
+/**
+ * Compare two snapshots so views only reprocess the reports that changed.
+ * Reports are compared by their serialized fields, which include Timestamps.
+ */
+export const diffReports = (previous: Report[], next: Report[]): ReportDiff => {
+  const before = new Map(previous.map(r => [r.id, JSON.stringify(r)]));
+  const nextIds = new Set(next.map(r => r.id));
+  const diff: ReportDiff = { added: [], modified: [], removed: [] };
+
+  next.forEach(report => {
+    const fingerprint = before.get(report.id);
+    if (fingerprint === undefined) {
+      diff.added.push(report.id);
+    } else if (fingerprint !== JSON.stringify(report)) {
+      diff.modified.push(report.id);
+    }
+  });
+  before.forEach((_, id) => {
+    if (!nextIds.has(id)) diff.removed.push(id);
+  });
+  return diff;
+};
@@ -0,0 +1,93 @@
+import { Assignment, Report, ReportUpdate } from '../types/report';
+import { ReportEvent, ReportEventAction, ReportEventInput, ReportEventMeta } from '../types/reportEvent';
+import { formatAssignment, getFlagReasonText, toDate } from './incidentUtils';
+import { getPauseReasonText } from './slaPause';
+
+// Actor recorded for changes made by scheduled jobs rather than a signed-in user
+export const SYSTEM_ACTOR = 'system';
+
+// Bulky or derived fields that are not repeated in an event's before/after
+const UNLOGGED_FIELDS = [
+  'description', 'mediaUrls', 'mergedReports', 'pauseHistory', 'assignmentHistory',
+  'deadlineUpdatedAt', 'lastViewed', 'isAssigned'
+];
+
+const inferAction = (changes: Record<string, unknown>): ReportEventAction => {
+  if (changes.reportState) return 'status_changed';
+  if (changes.severity) return 'severity_changed';
+  if (changes.deadline || changes.isOverdue !== undefined) return 'sla_updated';
+  return 'updated';
+};
+
+/**
+ * Build the event for a change to a report. Firestore rejects undefined,
+ * so fields that were not set before are recorded as null.
+ */
+export const buildReportEvent = (
+  report: Report,
+  changes: ReportUpdate | Record<string, unknown>,
+  meta: ReportEventMeta = {}
+): ReportEventInput => {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  Object.entries(changes).forEach(([field, value]) => {
+    if (UNLOGGED_FIELDS.includes(field) || value === undefined) return;
+    before[field] = report[field as keyof Report] ?? null;
+    after[field] = value;
+  });
+
+  const event: ReportEventInput = { action: meta.action || inferAction(changes), before, after };
+  if (meta.reason) event.reason = meta.reason;
+  return event;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  const date = toDate(value);
+  return date ? date.toLocaleString() : String(value);
+};
+
+// One line summary of an event for the incident history panel
+export const describeReportEvent = (event: ReportEvent): string => {
+  const before = event.before || {};
+  const after = event.after || {};
+  switch (event.action) {
+    case 'status_changed':
+      return `Status changed from ${formatValue(before.reportState)} to ${formatValue(after.reportState)}`;
+    case 'severity_changed':
+      return `Severity changed from ${formatValue(before.severity)} to ${formatValue(after.severity)}`;
+    case 'sla_overdue':
+      return 'SLA breached; marked overdue';
+    case 'sla_recalculated':
+    case 'sla_updated':
+      if (after.isOverdue === true) return 'SLA breached; marked overdue';
+      if (after.isOverdue === false && before.isOverdue === true) return 'No longer overdue';
+      return `Deadline recalculated to ${formatValue(after.deadline)}`;
+    case 'completed':
+      return `Marked as resolved${after.resolutionTimeFormatted ? ` after ${after.resolutionTimeFormatted}` : ''}`;
+    case 'flagged':
+      return `Flagged for review: ${getFlagReasonText(String(after.flagReason || ''))}`;
+    case 'merged': {
+      const ids = Array.isArray(after.mergedReportIds) ? after.mergedReportIds : [];
+      return `Merged ${ids.length} report${ids.length !== 1 ? 's' : ''} into this one (${ids.map(id => `#${id}`).join(', ')})`;
+    }
+    case 'merged_into':
+      return `Merged into report #${formatValue(after.mergedInto)}`;
+    case 'unmerged':
+      return after.unmergedReportId
+        ? `Report #${formatValue(after.unmergedReportId)} was unmerged from this one`
+        : `Unmerged from report #${formatValue(before.mergedInto)}`;
+    case 'paused':
+      return `SLA paused: ${getPauseReasonText(after.pauseReason as string | undefined)}`;
+    case 'resumed':
+      return 'SLA resumed';
+    case 'assigned':
+      return `Assigned to ${formatAssignment(after as Assignment)}`;
+    case 'imported':
+      return `Imported from ${formatValue(after.importSource)}${after.importSourceId ? ` (record ${formatValue(after.importSourceId)})` : ''}`;
+    default:
+      return `Updated ${Object.keys(after).join(', ') || 'report'}`;
+  }
+};
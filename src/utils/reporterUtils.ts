@@ -1,5 +1,9 @@
 import { doc, getDoc, updateDoc, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { getCurrentStaffProfile } from './staffUtils';
+import { hasPermission } from './permissions';
+import { AuditEventType, logStaffAction } from './auditLogger';
+import { hasRecentAuth } from './session';
 
 export interface Reporter {
   id: string;
@@ -64,6 +68,25 @@ export const fetchReporterById = async (reporterId: string): Promise<Reporter |
   }
 };
 
+// Trust levels for many reporters at once, keyed by email; unknown reporters are left out
+export const fetchReporterTrustLevels = async (emails: string[]): Promise<Map<string, number>> => {
+  const trustLevels = new Map<string, number>();
+  const unique = Array.from(new Set(emails.filter(Boolean)));
+  // Firestore allows at most 30 values in an `in` filter
+  for (let i = 0; i < unique.length; i += 30) {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'reporter'), where('email', 'in', unique.slice(i, i + 30))));
+      snapshot.docs.forEach(d => {
+        const data = d.data();
+        if (data.email) trustLevels.set(data.email, data.trustLevel || 0);
+      });
+    } catch (error) {
+      console.error('Error fetching reporter trust levels:', error);
+    }
+  }
+  return trustLevels;
+};
+
 // Calculate incident priority based on reporter's trust level and incident severity
 export const calculateIncidentPriority = (
   trustLevel: number = 0, 
@@ -284,18 +307,31 @@ export const updateReporterTrustOnFalseReport = async (reporterEmail: string): P
   }
 };
 
-// Update a reporter's trust level manually (for admin use)
+// Update a reporter's trust level manually (supervisors and admins only).
+// Callers confirm the password first with useRecentAuth; a stale sign-in is refused.
 export const updateReporterTrustManually = async (
   reporterId: string, 
   trustLevel: number,
   trustReason: string = 'Manual adjustment'
 ): Promise<boolean> => {
   try {
+    const staff = await getCurrentStaffProfile();
+    if (!hasPermission(staff?.staffRole, 'reporter.adjustTrust')) {
+      console.error('Manual trust adjustment denied for role:', staff?.staffRole);
+      return false;
+    }
+    if (!(await hasRecentAuth())) {
+      console.error('Manual trust adjustment needs a recent sign-in');
+      return false;
+    }
+
     await updateDoc(doc(db, 'reporter', reporterId), {
       trustLevel,
       trustReason,
       updatedAt: new Date()
     });
+    await logStaffAction(AuditEventType.TRUST_ADJUSTMENT, undefined,
+      `Reporter ${reporterId} trust level set to ${trustLevel}: ${trustReason}`);
     return true;
   } catch (error) {
     console.error('Error manually updating reporter trust:', error);
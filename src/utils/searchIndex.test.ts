@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { SearchDocument } from '../types/searchIndex';
+import {
+  MAX_INDEXED_TERMS,
+  collectTerms,
+  parseSearchQuery,
+  pickQueryTerm,
+  rankSearchResults,
+  tokenize
+} from './searchIndex';
+
+const document = (reportId: string, fields: Partial<SearchDocument> = {}): SearchDocument => ({
+  reportId,
+  municipal: 'Springfield',
+  incidentType: 'Water',
+  reportState: 'New',
+  timestamp: new Date('2026-09-10T09:00:00Z'),
+  terms: [],
+  location: '',
+  description: '',
+  chat: '',
+  ...fields
+});
+
+describe('tokenize', () => {
+  it('drops stop words and punctuation and folds plurals', () => {
+    expect(tokenize('The pipes, and the PUDDLES! Cities of bus')).toEqual(['pipe', 'puddle', 'city', 'bus']);
+  });
+
+  it('caps the terms collected for one document', () => {
+    const words = Array.from({ length: MAX_INDEXED_TERMS + 10 }, (_, i) => `word${i}`).join(' ');
+    expect(collectTerms(['pipe', words])).toHaveLength(MAX_INDEXED_TERMS);
+    expect(collectTerms(['pipe pipes', 'pipe'])).toEqual(['pipe']);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  const now = new Date(2026, 8, 30, 12);
+
+  it('separates keywords, phrases, location and dates', () => {
+    expect(parseSearchQuery('burst pipe "Jalan Ampang" location:"kuala lumpur" from:2026-09 to:2026-09-15', now)).toEqual({
+      keywords: ['burst', 'pipe'],
+      phrases: ['jalan ampang'],
+      location: 'kuala lumpur',
+      from: new Date(2026, 8, 1),
+      to: new Date(2026, 8, 15, 23, 59, 59, 999)
+    });
+  });
+
+  it('reads a number of days back and searches unknown prefixes as words', () => {
+    const q = parseSearchQuery('from:7d pipe:burst', now);
+    expect(q.from).toEqual(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000));
+    expect(q.keywords).toEqual(['pipe', 'burst']);
+  });
+
+  it('ignores dates it cannot read', () => {
+    expect(parseSearchQuery('from:yesterday', now)).toEqual({ keywords: [], phrases: [] });
+  });
+
+  it('queries the index on the longest term', () => {
+    expect(pickQueryTerm(parseSearchQuery('leak "burst pipes"', now))).toBe('burst');
+  });
+});
+
+describe('rankSearchResults', () => {
+  const docs = [
+    document('chat', { description: 'Water on the road', chat: 'The pipe is leaking again' }),
+    document('type', { incidentType: 'Burst pipe', description: 'Water everywhere', location: 'Jalan Ampang' }),
+    document('old', { description: 'Pipe burst', timestamp: new Date('2026-01-01T00:00:00Z') })
+  ];
+
+  it('ranks matches in the incident type above mentions in the chat', () => {
+    expect(rankSearchResults(docs, parseSearchQuery('pipe')).map(r => r.document.reportId)).toEqual(['type', 'old', 'chat']);
+  });
+
+  it('requires every keyword, phrase and the location', () => {
+    expect(rankSearchResults(docs, parseSearchQuery('pipe everywhere')).map(r => r.document.reportId)).toEqual(['type']);
+    expect(rankSearchResults(docs, parseSearchQuery('"pipe burst"')).map(r => r.document.reportId)).toEqual(['old']);
+    expect(rankSearchResults(docs, parseSearchQuery('pipe loc:ampang')).map(r => r.document.reportId)).toEqual(['type']);
+  });
+
+  it('leaves out reports outside the dates', () => {
+    const q = parseSearchQuery('pipe from:2026-09-01', new Date(2026, 8, 30));
+    expect(rankSearchResults(docs, q).map(r => r.document.reportId)).toEqual(['type', 'chat']);
+  });
+
+  it('takes the snippet from the best matching field', () => {
+    const [result] = rankSearchResults([docs[0]], parseSearchQuery('leaking'));
+    expect(result).toMatchObject({ matchedField: 'chat', snippet: 'The pipe is leaking again' });
+  });
+});
@@ -0,0 +1,206 @@
+import { SearchDocument, SearchField, SearchQuery, SearchResult } from '../types/searchIndex';
+import { toDate } from './incidentUtils';
+
+// Words too common to narrow a search; dropped from the index and from queries
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with'
+]);
+
+// Keeps index documents well under Firestore's per-document index entry limit
+export const MAX_INDEXED_TERMS = 500;
+
+// Matches in the incident type and location count for more than a mention in the chat
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  incidentType: 3,
+  location: 3,
+  description: 2,
+  chat: 1
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+const PHRASE_BONUS = 5;
+const SNIPPET_LENGTH = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lower case with punctuation collapsed to single spaces, for phrase and location matching
+export const normalizeText = (text: string): string =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(' ');
+
+// Crude plural folding so "pipes" finds "pipe"; applied to the index and queries alike
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Split text into index terms: lower case, stop words removed, plurals folded.
+ * Terms are returned in order and may repeat.
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text).split(' ').filter(word => word && !STOP_WORDS.has(word)).map(stem);
+
+// Unique terms across several texts, earlier texts first, capped at MAX_INDEXED_TERMS
+export const collectTerms = (texts: string[]): string[] => {
+  const terms = new Set<string>();
+  for (const text of texts) {
+    for (const term of tokenize(text)) {
+      if (terms.size >= MAX_INDEXED_TERMS) return Array.from(terms);
+      terms.add(term);
+    }
+  }
+  return Array.from(terms);
+};
+
+// from:2026-09-01, from:2026-09 (whole month) or from:30d (the last 30 days)
+const parseDateBound = (value: string, bound: 'from' | 'to', now: Date): Date | undefined => {
+  const relative = value.match(/^(\d+)d$/);
+  if (relative) return new Date(now.getTime() - Number(relative[1]) * DAY_MS);
+
+  const month = value.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const year = Number(month[1]);
+    const monthIndex = Number(month[2]) - 1;
+    return bound === 'from'
+      ? new Date(year, monthIndex, 1)
+      : new Date(year, monthIndex + 1, 0, 23, 59, 59, 999);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T${bound === 'from' ? '00:00:00' : '23:59:59.999'}`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+};
+
+/**
+ * Parse the search box syntax:
+ *   burst pipe "jalan ampang" location:ampang from:2026-09 to:2026-09-30
+ * Quoted text is a phrase; location: takes a word or a quoted phrase;
+ * from:/to: take a date, a month or a number of days back.
+ */
+export const parseSearchQuery = (input: string, now: Date = new Date()): SearchQuery => {
+  const result: SearchQuery = { keywords: [], phrases: [] };
+  const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+  for (const match of input.matchAll(pattern)) {
+    const key = (match[1] || match[3] || '').toLowerCase();
+    const value = match[2] ?? match[4] ?? '';
+
+    if (key === 'location' || key === 'loc') {
+      const location = normalizeText(value);
+      if (location) result.location = location;
+    } else if (key === 'from' || key === 'to') {
+      const date = parseDateBound(value, key, now);
+      if (date) result[key] = date;
+    } else if (match[5] !== undefined) {
+      const phrase = normalizeText(match[5]);
+      if (phrase) result.phrases.push(phrase);
+    } else {
+      // Unknown prefixes such as "pipe:burst" are searched as plain words
+      result.keywords.push(...normalizeText(match[0]).split(' ').filter(word => word && !STOP_WORDS.has(word)));
+    }
+  }
+  return result;
+};
+
+export const isEmptySearchQuery = (q: SearchQuery): boolean =>
+  q.keywords.length === 0 && q.phrases.length === 0 && !q.location && !q.from && !q.to;
+
+/**
+ * The single term the index query filters on with array-contains.
+ * The longest term is usually the rarest, so it returns the fewest candidates.
+ */
+export const pickQueryTerm = (q: SearchQuery): string | undefined => {
+  const terms = [
+    ...q.keywords.map(stem),
+    ...q.phrases.flatMap(tokenize),
+    ...(q.location ? tokenize(q.location) : [])
+  ];
+  return terms.sort((a, b) => b.length - a.length)[0];
+};
+
+const fieldText = (doc: SearchDocument, field: SearchField): string => doc[field] || '';
+
+const countOccurrences = (terms: string[], term: string) => terms.filter(t => t === term).length;
+
+// Text around the first match, on word boundaries where possible
+const buildSnippet = (text: string, needles: string[]): string => {
+  const lower = text.toLowerCase();
+  const index = needles.reduce((first, needle) => {
+    const at = needle ? lower.indexOf(needle) : -1;
+    return at >= 0 && (first < 0 || at < first) ? at : first;
+  }, -1);
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const start = Math.max(0, (index < 0 ? 0 : index) - SNIPPET_LENGTH / 3);
+  const from = start > 0 ? text.indexOf(' ', start) + 1 || start : 0;
+  const snippet = text.slice(from, from + SNIPPET_LENGTH).trim();
+  return `${from > 0 ? '…' : ''}${snippet}${from + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+};
+
+/**
+ * Score one index document against a query. Returns null when it does not match:
+ * every keyword and phrase must appear somewhere, the location text must appear
+ * in the location, and the report date must fall within from/to.
+ */
+export const scoreSearchDocument = (doc: SearchDocument, q: SearchQuery): SearchResult | null => {
+  const reportedAt = toDate(doc.timestamp);
+  if (q.from && (!reportedAt || reportedAt < q.from)) return null;
+  if (q.to && (!reportedAt || reportedAt > q.to)) return null;
+
+  const normalized = {} as Record<SearchField, string>;
+  const tokens = {} as Record<SearchField, string[]>;
+  const fieldScores = {} as Record<SearchField, number>;
+  SEARCH_FIELDS.forEach(field => {
+    normalized[field] = normalizeText(fieldText(doc, field));
+    tokens[field] = tokenize(fieldText(doc, field));
+    fieldScores[field] = 0;
+  });
+
+  if (q.location && !normalized.location.includes(q.location)) return null;
+
+  for (const keyword of q.keywords) {
+    const term = stem(keyword);
+    let found = false;
+    SEARCH_FIELDS.forEach(field => {
+      const count = countOccurrences(tokens[field], term);
+      if (count > 0) found = true;
+      // Repeats add a little; one mention in the right field matters more than many in the chat
+      fieldScores[field] += count > 0 ? FIELD_WEIGHTS[field] * (1 + Math.log(count)) : 0;
+    });
+    if (!found) return null;
+  }
+
+  for (const phrase of q.phrases) {
+    let found = false;
+    SEARCH_FIELDS.forEach(field => {
+      if (normalized[field].includes(phrase)) {
+        found = true;
+        fieldScores[field] += FIELD_WEIGHTS[field] * PHRASE_BONUS;
+      }
+    });
+    if (!found) return null;
+  }
+
+  if (q.location) fieldScores.location += FIELD_WEIGHTS.location * PHRASE_BONUS;
+
+  const matchedField = SEARCH_FIELDS.reduce<SearchField>((best, field) => (fieldScores[field] > fieldScores[best] ? field : best), 'description');
+  const needles = [...q.phrases, ...(q.location ? [q.location] : []), ...q.keywords];
+  return {
+    document: doc,
+    score: SEARCH_FIELDS.reduce((sum, field) => sum + fieldScores[field], 0),
+    matchedField,
+    snippet: buildSnippet(fieldText(doc, matchedField), needles)
+  };
+};
+
+// Matching documents, best first; equal scores go to the most recent report
+export const rankSearchResults = (docs: SearchDocument[], q: SearchQuery): SearchResult[] =>
+  docs
+    .map(doc => scoreSearchDocument(doc, q))
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) => b.score - a.score
+      || (toDate(b.document.timestamp)?.getTime() ?? 0) - (toDate(a.document.timestamp)?.getTime() ?? 0));
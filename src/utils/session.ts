@@ -0,0 +1,54 @@
+import { signInWithCustomToken, signOut } from 'firebase/auth';
+import { auth } from '../config/firebase';
+import { AuditEventType, logStaffAction } from './auditLogger';
+import { requestStaffLogin, SecondFactor, StaffLoginResult } from './rateLimiter';
+
+const minutesFromEnv = (value: string | undefined, fallbackMinutes: number): number => {
+  const minutes = Number(value);
+  return (minutes > 0 ? minutes : fallbackMinutes) * 60 * 1000;
+};
+
+// Inactivity before staff are signed out; override with VITE_SESSION_TIMEOUT_MINUTES
+export const SESSION_TIMEOUT_MS = minutesFromEnv(import.meta.env.VITE_SESSION_TIMEOUT_MINUTES, 15);
+
+// How long before the timeout the warning is shown
+export const SESSION_WARNING_MS = 60 * 1000;
+
+// Merges, unmerges and trust overrides need a sign-in at least this recent.
+// firestore.rules allows a few minutes more so a prompt just before the limit still succeeds.
+export const RECENT_AUTH_MS = 5 * 60 * 1000;
+
+// Shared by the NavBar Logout button and the idle timeout
+export const signOutStaff = async (
+  eventType: AuditEventType.LOGOUT | AuditEventType.SESSION_TIMEOUT = AuditEventType.LOGOUT,
+  details: string = 'Signed out'
+) => {
+  if (auth.currentUser) {
+    await logStaffAction(eventType, undefined, details);
+  }
+  await signOut(auth);
+};
+
+export const hasRecentAuth = async (): Promise<boolean> => {
+  const user = auth.currentUser;
+  if (!user) return false;
+  const { authTime } = await user.getIdTokenResult();
+  return Date.now() - new Date(authTime).getTime() < RECENT_AUTH_MS;
+};
+
+/**
+ * Confirm the signed-in user's password, plus an authenticator code if they have one.
+ * Goes through the staffLogin function so wrong attempts count against the same
+ * limits as the login page.
+ */
+export const reauthenticate = async (password: string, secondFactor: SecondFactor = {}): Promise<StaffLoginResult> => {
+  const email = auth.currentUser?.email;
+  if (!email) {
+    return { ok: false, reason: 'error', message: 'You are no longer signed in.' };
+  }
+  const result = await requestStaffLogin(email, password, secondFactor);
+  if (result.ok) {
+    await signInWithCustomToken(auth, result.token);
+  }
+  return result;
+};
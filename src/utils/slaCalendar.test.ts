@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { SlaCalendar } from '../types/slaCalendar';
+import { addWorkingHours, describeCalendar, getDefaultSlaCalendar, getWorkingMsBetween } from './slaCalendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Mon-Fri 08:00-17:00 UTC
+const utc = getDefaultSlaCalendar('Springfield');
+
+const chicago: SlaCalendar = { ...utc, timezone: 'America/Chicago' };
+
+describe('addWorkingHours', () => {
+  it('adds hours inside a working day', () => {
+    expect(addWorkingHours(new Date('2025-03-03T10:00:00Z'), 3, utc).toISOString()).toBe('2025-03-03T13:00:00.000Z');
+  });
+
+  it('starts counting at the next opening time', () => {
+    expect(addWorkingHours(new Date('2025-03-03T06:00:00Z'), 1, utc).toISOString()).toBe('2025-03-03T09:00:00.000Z');
+  });
+
+  it('carries the rest over the weekend', () => {
+    // Friday 15:00 leaves two hours that day, the other two are on Monday
+    expect(addWorkingHours(new Date('2025-03-07T15:00:00Z'), 4, utc).toISOString()).toBe('2025-03-10T10:00:00.000Z');
+  });
+
+  it('skips holidays', () => {
+    const calendar = { ...utc, holidays: [{ date: '2025-03-10', name: 'Founders Day' }] };
+    expect(addWorkingHours(new Date('2025-03-07T15:00:00Z'), 4, calendar).toISOString()).toBe('2025-03-11T10:00:00.000Z');
+  });
+
+  it('keeps local opening hours across a DST change', () => {
+    // 16:00 CST on Friday; Chicago moves to CDT on Sunday 9 March, so Monday opens at 13:00 UTC
+    expect(addWorkingHours(new Date('2025-03-07T22:00:00Z'), 2, chicago).toISOString()).toBe('2025-03-10T14:00:00.000Z');
+  });
+
+  it('falls back to the wall clock without working days', () => {
+    const calendar = { ...utc, workingDays: [] };
+    expect(addWorkingHours(new Date('2025-03-03T10:00:00Z'), 30, calendar).toISOString()).toBe('2025-03-04T16:00:00.000Z');
+  });
+});
+
+describe('getWorkingMsBetween', () => {
+  it('counts only working time', () => {
+    const start = new Date('2025-03-07T15:00:00Z');
+    const end = new Date('2025-03-10T10:00:00Z');
+    expect(getWorkingMsBetween(start, end, utc)).toBe(4 * HOUR_MS);
+    expect(getWorkingMsBetween(end, start, utc)).toBe(-4 * HOUR_MS);
+  });
+
+  it('counts a full day across a DST change', () => {
+    const start = new Date('2025-03-07T14:00:00Z'); // Friday 08:00 CST
+    const end = new Date('2025-03-10T22:00:00Z'); // Monday 17:00 CDT
+    expect(getWorkingMsBetween(start, end, chicago)).toBe(18 * HOUR_MS);
+  });
+
+  it('is zero over a weekend', () => {
+    expect(getWorkingMsBetween(new Date('2025-03-08T09:00:00Z'), new Date('2025-03-09T18:00:00Z'), utc)).toBe(0);
+  });
+});
+
+describe('describeCalendar', () => {
+  it('lists the working days and hours', () => {
+    expect(describeCalendar({ ...chicago, workStartHour: 7.5 })).toBe('Mon, Tue, Wed, Thu, Fri 07:30-17:00 (America/Chicago)');
+  });
+});
@@ -0,0 +1,164 @@
+import { SlaCalendar } from '../types/slaCalendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Upper bound on days scanned, so a calendar without working days cannot loop forever
+const MAX_DAYS_SCANNED = 3660;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Fixed rather than the host's, so the browser and the Node jobs calculate the same deadlines
+export const DEFAULT_SLA_TIMEZONE = 'UTC';
+
+// Used for municipalities that have not configured a calendar yet
+export const getDefaultSlaCalendar = (municipal: string = ''): SlaCalendar => ({
+  municipal,
+  timezone: DEFAULT_SLA_TIMEZONE,
+  workingDays: [1, 2, 3, 4, 5],
+  workStartHour: 8,
+  workEndHour: 17,
+  holidays: []
+});
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+interface CalendarDay {
+  year: number;
+  month: number; // 0-based, like Date
+  day: number;
+}
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  if (!formatterCache[timezone]) {
+    formatterCache[timezone] = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  }
+  return formatterCache[timezone];
+};
+
+// Offset of the timezone from UTC at the given instant, in ms
+const getTimezoneOffset = (instant: number, timezone: string): number => {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone).formatToParts(new Date(instant)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Calendar day that an instant falls on in the given timezone
+const toCalendarDay = (instant: number, timezone: string): CalendarDay => {
+  const local = new Date(instant + getTimezoneOffset(instant, timezone));
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+};
+
+// Instant of a wall-clock time on a calendar day in the given timezone
+const fromCalendarDay = (day: CalendarDay, hour: number, timezone: string): number => {
+  const wallClock = Date.UTC(day.year, day.month, day.day, 0, Math.round(hour * 60));
+  const guess = wallClock - getTimezoneOffset(wallClock, timezone);
+  // Re-check the offset in case the guess crossed a DST change
+  return wallClock - getTimezoneOffset(guess, timezone);
+};
+
+const nextCalendarDay = (day: CalendarDay): CalendarDay => {
+  const next = new Date(Date.UTC(day.year, day.month, day.day + 1));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth(), day: next.getUTCDate() };
+};
+
+const toIsoDate = (day: CalendarDay): string =>
+  `${day.year}-${String(day.month + 1).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+
+const isWorkingDay = (day: CalendarDay, calendar: SlaCalendar): boolean => {
+  const weekday = new Date(Date.UTC(day.year, day.month, day.day)).getUTCDay();
+  if (!calendar.workingDays.includes(weekday)) return false;
+  const isoDate = toIsoDate(day);
+  return !calendar.holidays.some(h => h.date === isoDate);
+};
+
+// Working window [start, end) for a calendar day, or null if crews are off that day
+const getWorkingWindow = (day: CalendarDay, calendar: SlaCalendar): [number, number] | null => {
+  if (!isWorkingDay(day, calendar) || calendar.workEndHour <= calendar.workStartHour) return null;
+  return [
+    fromCalendarDay(day, calendar.workStartHour, calendar.timezone),
+    fromCalendarDay(day, calendar.workEndHour, calendar.timezone)
+  ];
+};
+
+/**
+ * Add working hours to a date, skipping time outside working hours,
+ * non-working days and holidays
+ */
+export const addWorkingHours = (start: Date, hours: number, calendar: SlaCalendar): Date => {
+  let remainingMs = hours * HOUR_MS;
+  let cursor = start.getTime();
+  let day = toCalendarDay(cursor, calendar.timezone);
+
+  for (let i = 0; i < MAX_DAYS_SCANNED; i++) {
+    const window = getWorkingWindow(day, calendar);
+    if (window) {
+      const from = Math.max(cursor, window[0]);
+      if (from < window[1]) {
+        if (from + remainingMs <= window[1]) {
+          return new Date(from + remainingMs);
+        }
+        remainingMs -= window[1] - from;
+      }
+    }
+    day = nextCalendarDay(day);
+    cursor = fromCalendarDay(day, 0, calendar.timezone);
+  }
+
+  // No working time configured; fall back to the wall clock
+  return new Date(start.getTime() + hours * HOUR_MS);
+};
+
+/**
+ * Working time between two dates in ms. Negative if end is before start.
+ */
+export const getWorkingMsBetween = (start: Date, end: Date, calendar: SlaCalendar): number => {
+  if (end < start) return -getWorkingMsBetween(end, start, calendar);
+
+  const endMs = end.getTime();
+  let total = 0;
+  let day = toCalendarDay(start.getTime(), calendar.timezone);
+
+  for (let i = 0; i < MAX_DAYS_SCANNED; i++) {
+    const window = getWorkingWindow(day, calendar);
+    if (window) {
+      if (window[0] >= endMs) break;
+      const from = Math.max(start.getTime(), window[0]);
+      const to = Math.min(endMs, window[1]);
+      if (to > from) total += to - from;
+    } else if (fromCalendarDay(day, 0, calendar.timezone) >= endMs) {
+      break;
+    }
+    day = nextCalendarDay(day);
+  }
+
+  return total;
+};
+
+// Short summary for display, e.g. "Mon, Tue, Wed 08:00-17:00 (America/Chicago)"
+export const describeCalendar = (calendar: SlaCalendar): string => {
+  const formatHour = (hour: number) =>
+    `${String(Math.floor(hour)).padStart(2, '0')}:${String(Math.round((hour % 1) * 60)).padStart(2, '0')}`;
+  const days = calendar.workingDays.slice().sort().map(d => WEEKDAY_NAMES[d]).join(', ');
+  return `${days || 'No working days'} ${formatHour(calendar.workStartHour)}-${formatHour(calendar.workEndHour)} (${calendar.timezone})`;
+};
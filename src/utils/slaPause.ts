@@ -0,0 +1,42 @@
+import { PauseReason, Report } from '../types/report';
+import { SlaCalendar } from '../types/slaCalendar';
+import { toDate } from './incidentUtils';
+import { getWorkingMsBetween } from './slaCalendar';
+
+export const PAUSE_REASONS: PauseReason[] = ['waiting_on_reporter', 'waiting_on_third_party'];
+
+export const getPauseReasonText = (reason?: string): string => {
+  return reason === 'waiting_on_reporter' ? 'Waiting on Reporter' :
+    reason === 'waiting_on_third_party' ? 'Waiting on Third Party' : 'Paused';
+};
+
+/**
+ * Total time a report's SLA clock has been paused, including a pause still in progress.
+ * With a calendar only working time counts, matching business-hours deadlines.
+ */
+export const getPausedMs = (
+  report: Pick<Report, 'pauseHistory' | 'pausedAt' | 'pausedTotalMs'>,
+  now: Date = new Date(),
+  calendar?: SlaCalendar
+): number => {
+  const measure = (start: Date, end: Date) =>
+    calendar ? getWorkingMsBetween(start, end, calendar) : Math.max(0, end.getTime() - start.getTime());
+
+  let total = 0;
+  const history = report.pauseHistory || [];
+  if (history.length > 0) {
+    history.forEach(interval => {
+      const start = toDate(interval.pausedAt);
+      const end = toDate(interval.resumedAt);
+      if (start && end) total += measure(start, end);
+    });
+  } else {
+    // Only the accumulated wall-clock total is available
+    total = report.pausedTotalMs || 0;
+  }
+
+  const pausedAt = toDate(report.pausedAt);
+  if (pausedAt) total += measure(pausedAt, now);
+
+  return total;
+};
@@ -0,0 +1,186 @@
+import { Timestamp } from 'firebase/firestore';
+import { Report, ReportUpdate, Severity } from '../types/report';
+import { ResolvedSla, SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { calculateDeadline, FALLBACK_TIMEFRAMES, isOverdue, toDate } from './incidentUtils';
+import { getDefaultSlaCalendar } from './slaCalendar';
+import { getPausedMs } from './slaPause';
+
+export interface SlaContext {
+  municipal?: string;
+  incidentType?: string;
+  severity: Severity;
+}
+
+// Reports may list several types, e.g. "Pothole, Road Damage"
+const splitIncidentTypes = (incidentType: string = ''): string[] =>
+  incidentType.split(/[,;/]/).map(t => t.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * How specific a policy is for a report, or -1 if it does not apply.
+ * An incident type rule outranks a municipality-wide rule, and a rule
+ * for both outranks either.
+ */
+export const policySpecificity = (policy: SlaPolicy, context: SlaContext): number => {
+  if (policy.severity !== context.severity) return -1;
+
+  let score = 0;
+  if (policy.municipal) {
+    if (policy.municipal !== context.municipal) return -1;
+    score += 1;
+  }
+  if (policy.incidentType) {
+    if (!splitIncidentTypes(context.incidentType).includes(policy.incidentType.trim().toLowerCase())) return -1;
+    score += 2;
+  }
+  return score;
+};
+
+/**
+ * Pick the timeframe for a report from the stored SLA policies.
+ * Ties between equally specific policies go to the shortest timeframe.
+ */
+export const resolveSlaPolicy = (policies: SlaPolicy[], context: SlaContext): ResolvedSla => {
+  let best: SlaPolicy | null = null;
+  let bestScore = -1;
+
+  for (const policy of policies) {
+    const score = policySpecificity(policy, context);
+    if (score < 0) continue;
+    if (score > bestScore || (score === bestScore && best && policy.timeframeHours < best.timeframeHours)) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+
+  if (!best) {
+    return { timeframeHours: FALLBACK_TIMEFRAMES[context.severity], businessHoursOnly: false };
+  }
+  return { timeframeHours: best.timeframeHours, businessHoursOnly: best.businessHoursOnly, policyId: best.id };
+};
+
+/**
+ * Deadline for a report under the stored policies, pushed out by any time spent paused
+ */
+export const calculateReportDeadline = (
+  report: Pick<Report, 'timestamp' | 'severity' | 'municipal' | 'incidentType' | 'pauseHistory' | 'pausedAt' | 'pausedTotalMs'>,
+  policies: SlaPolicy[],
+  calendar?: SlaCalendar,
+  now: Date = new Date()
+): Date | null => {
+  const severity = report.severity || 'Low';
+  const sla = resolveSlaPolicy(policies, { municipal: report.municipal, incidentType: report.incidentType, severity });
+  // Paused time is measured on the same clock as the policy
+  const clock = sla.businessHoursOnly ? calendar || getDefaultSlaCalendar(report.municipal) : undefined;
+  return calculateDeadline(report.timestamp, severity, sla, clock, getPausedMs(report, now, clock));
+};
+
+// Stored deadlines within this tolerance are left alone
+const DEADLINE_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Work out which deadline/overdue fields need to change for a single report.
+ * Returns null when the stored values are already correct.
+ */
+export const computeSlaUpdate = (
+  report: Report,
+  now: Date,
+  policies: SlaPolicy[] = [],
+  calendar?: SlaCalendar
+): ReportUpdate | null => {
+  const deadline = calculateReportDeadline(report, policies, calendar, now);
+  if (!deadline) return null;
+
+  const updates: ReportUpdate = {};
+
+  const storedDeadline = toDate(report.deadline);
+  if (!storedDeadline || Math.abs(storedDeadline.getTime() - deadline.getTime()) > DEADLINE_TOLERANCE_MS) {
+    updates.deadline = Timestamp.fromDate(deadline);
+    updates.deadlineUpdatedAt = now;
+  }
+
+  const overdue = isOverdue(deadline, report.reportState, now);
+  if (overdue && report.reportState !== 'Overdue') {
+    updates.reportState = 'Overdue';
+    updates.overdueAt = now;
+  } else if (!overdue && report.reportState === 'Overdue') {
+    // Deadline moved out (e.g. severity lowered or policy relaxed), so the clock is running again
+    updates.reportState = 'In Progress';
+    updates.overdueClearedAt = now;
+  }
+
+  if (report.isOverdue !== overdue) {
+    updates.isOverdue = overdue;
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+};
+
+// How a severity change would move the deadlines of several reports at once
+export interface SeverityChangeSummary {
+  changing: number;
+  // Already at the new severity, or merged into another report
+  unchanged: number;
+  earlier: number;
+  later: number;
+  sameDeadline: number;
+  // Open reports whose new deadline has already passed
+  overdueNow: number;
+  earliestDeadline: Date | null;
+}
+
+// Deadlines this close together count as unchanged
+const SAME_DEADLINE_MS = 60 * 1000;
+
+export const summarizeSeverityChange = (
+  reports: Report[],
+  severity: Severity,
+  policies: SlaPolicy[],
+  calendars: Record<string, SlaCalendar> = {},
+  now: Date = new Date()
+): SeverityChangeSummary => {
+  const summary: SeverityChangeSummary = {
+    changing: 0, unchanged: 0, earlier: 0, later: 0, sameDeadline: 0, overdueNow: 0, earliestDeadline: null
+  };
+
+  reports.forEach(report => {
+    if (report.reportState === 'Merged' || report.severity === severity) {
+      summary.unchanged++;
+      return;
+    }
+    summary.changing++;
+
+    const calendar = calendars[report.municipal];
+    const current = toDate(report.deadline) || calculateReportDeadline(report, policies, calendar, now);
+    const next = calculateReportDeadline({ ...report, severity }, policies, calendar, now);
+    if (!next) return;
+
+    const diff = current ? next.getTime() - current.getTime() : 0;
+    if (Math.abs(diff) <= SAME_DEADLINE_MS) summary.sameDeadline++;
+    else if (diff < 0) summary.earlier++;
+    else summary.later++;
+
+    if (isOverdue(next, report.reportState, now)) summary.overdueNow++;
+    const open = report.reportState !== 'Completed' && report.reportState !== 'Paused';
+    if (open && (!summary.earliestDeadline || next < summary.earliestDeadline)) {
+      summary.earliestDeadline = next;
+    }
+  });
+  return summary;
+};
+
+// Human readable timeframe, e.g. "3 days" or "48 business hours"
+export const describeSlaTimeframe = (sla: ResolvedSla): string => {
+  if (sla.businessHoursOnly) return `${sla.timeframeHours} business hours`;
+  if (sla.timeframeHours % 24 === 0) {
+    const days = sla.timeframeHours / 24;
+    return `${days} day${days !== 1 ? 's' : ''}`;
+  }
+  return `${sla.timeframeHours} hours`;
+};
+
+// Human readable scope for a policy, e.g. "Pothole in Springfield"
+export const describePolicyScope = (policy: SlaPolicy): string => {
+  const type = policy.incidentType || 'All incident types';
+  return policy.municipal ? `${type} in ${policy.municipal}` : `${type} (all municipalities)`;
+};
@@ -0,0 +1,192 @@
+import { SlaComplianceReport, SlaReportBreakdown } from '../types/slaReport';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfColor, createPdfDocument } from './pdf';
+import { formatDuration } from './slaMetrics';
+
+// Longer overdue lists are cut here; the count in the heading is always complete
+const OVERDUE_LIMIT = 50;
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const GREY: PdfColor = [100, 100, 100];
+
+const formatPercent = (value: number | null) => (value === null ? 'N/A' : `${value}%`);
+
+const formatHours = (hours: number | null) => (hours === null ? 'N/A' : formatDuration(hours));
+
+const formatDate = (date: Date | null) =>
+  date ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'No deadline';
+
+// e.g. "+4 pts" or "-2 hours"; empty when either side has no value
+const formatChange = (current: number | null, previous: number | null, unit: string) => {
+  if (current === null || previous === null) return '';
+  const change = Math.round(current - previous);
+  return `${change > 0 ? '+' : ''}${change}${unit ? ` ${unit}` : ''}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rows of the headline table: label, this period, previous period, change
+const getSummaryRows = (report: SlaComplianceReport): [string, string, string, string][] => {
+  const { current, previous } = report;
+  return [
+    ['On-time resolutions', formatPercent(current.compliance), formatPercent(previous.compliance),
+      formatChange(current.compliance, previous.compliance, 'pts')],
+    ['Average resolution time', formatHours(current.averageResolutionHours), formatHours(previous.averageResolutionHours),
+      formatChange(current.averageResolutionHours, previous.averageResolutionHours, 'hours')],
+    ['Incidents received', String(current.received), String(previous.received), formatChange(current.received, previous.received, '')],
+    ['Incidents resolved', String(current.resolved), String(previous.resolved), formatChange(current.resolved, previous.resolved, '')]
+  ];
+};
+
+const getBreakdownRows = (groups: SlaReportBreakdown[]): [string, string, string, string][] =>
+  groups.map(group => [
+    group.key,
+    String(group.resolved),
+    formatPercent(Math.round((group.resolvedOnTime / group.resolved) * 100)),
+    formatHours(group.averageResolutionHours)
+  ]);
+
+export const getSlaReportSubject = (report: SlaComplianceReport) =>
+  `SLA compliance report: ${report.period.label} (${report.municipalities.join(', ')})`;
+
+export const renderSlaReportText = (report: SlaComplianceReport): string => {
+  const lines = [
+    getSlaReportSubject(report),
+    '',
+    ...getSummaryRows(report).map(([label, current, previous, change]) =>
+      `${label}: ${current} (previous: ${previous}${change ? `, ${change}` : ''})`),
+    '',
+    'Average resolution by severity:',
+    ...getBreakdownRows(report.bySeverity).map(([key, resolved, onTime, hours]) => `  ${key}: ${hours} (${resolved} resolved, ${onTime} on time)`),
+    '',
+    'Average resolution by incident type:',
+    ...getBreakdownRows(report.byType).map(([key, resolved, onTime, hours]) => `  ${key}: ${hours} (${resolved} resolved, ${onTime} on time)`),
+    '',
+    `Overdue incidents (${report.overdue.length}):`,
+    ...report.overdue.slice(0, OVERDUE_LIMIT).map(incident =>
+      `  #${incident.id} ${incident.incidentType}, ${incident.severity}, ${incident.municipal}, due ${formatDate(incident.deadline)}`),
+    ...(report.overdue.length > OVERDUE_LIMIT ? [`  and ${report.overdue.length - OVERDUE_LIMIT} more`] : [])
+  ];
+  return lines.join('\n');
+};
+
+/**
+ * A standalone HTML page for the email body. Styles are inline because
+ * most mail clients drop <style> blocks.
+ */
+export const renderSlaReportHtml = (report: SlaComplianceReport): string => {
+  const cell = 'padding:6px 8px;border-bottom:1px solid #eee;text-align:left;';
+  const table = (headings: string[], rows: string[][], empty: string) => rows.length === 0
+    ? `<p style="color:#888;">${escapeHtml(empty)}</p>`
+    : `<table style="width:100%;border-collapse:collapse;font-size:14px;">` +
+      `<tr>${headings.map(h => `<th style="${cell}color:#666;">${escapeHtml(h)}</th>`).join('')}</tr>` +
+      rows.map(row => `<tr>${row.map(value => `<td style="${cell}">${escapeHtml(value)}</td>`).join('')}</tr>`).join('') +
+      '</table>';
+  const heading = (text: string) => `<h3 style="margin:24px 0 8px;font-size:17px;">${escapeHtml(text)}</h3>`;
+  const overdueRows = report.overdue.slice(0, OVERDUE_LIMIT).map(incident => [
+    `#${incident.id}`, incident.incidentType, incident.severity, incident.municipal, incident.location, formatDate(incident.deadline)
+  ]);
+
+  return [
+    '<!DOCTYPE html><html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(getSlaReportSubject(report))}</title></head>`,
+    '<body style="font-family:Arial,Helvetica,sans-serif;color:#222;max-width:760px;margin:0 auto;padding:16px;">',
+    `<h2 style="margin:0 0 4px;">SLA Compliance Report: ${escapeHtml(report.period.label)}</h2>`,
+    `<p style="margin:0;color:#666;">${escapeHtml(report.municipalities.join(', '))}. ` +
+      `Compared with ${escapeHtml(report.previousPeriod.label)}.</p>`,
+    heading('Summary'),
+    table(['', 'This period', 'Previous period', 'Change'], getSummaryRows(report), ''),
+    heading('Average resolution by severity'),
+    table(['Severity', 'Resolved', 'On time', 'Average resolution'], getBreakdownRows(report.bySeverity), 'No incidents were resolved.'),
+    heading('Average resolution by incident type'),
+    table(['Incident type', 'Resolved', 'On time', 'Average resolution'], getBreakdownRows(report.byType), 'No incidents were resolved.'),
+    heading(`Overdue incidents (${report.overdue.length})`),
+    table(['ID', 'Type', 'Severity', 'Municipality', 'Location', 'Deadline'], overdueRows, 'No incidents are overdue.'),
+    report.overdue.length > OVERDUE_LIMIT
+      ? `<p style="color:#666;">And ${report.overdue.length - OVERDUE_LIMIT} more.</p>`
+      : '',
+    `<p style="margin-top:32px;color:#999;font-size:12px;">Generated ${escapeHtml(formatDate(report.generatedAt))}. ` +
+      'Change or stop these emails on the SLA page.</p>',
+    '</body></html>'
+  ].join('\n');
+};
+
+// The same content as the HTML version, laid out for A4
+export const renderSlaReportPdf = (report: SlaComplianceReport): Blob => {
+  const pdf = createPdfDocument();
+  let y = MARGIN;
+  pdf.addPage();
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Columns share the width equally after a wider first one
+  const table = (headings: string[], rows: string[][], empty: string) => {
+    const first = CONTENT_WIDTH * 0.34;
+    const rest = (CONTENT_WIDTH - first) / (headings.length - 1);
+    const x = (i: number) => MARGIN + (i === 0 ? 0 : first + (i - 1) * rest);
+    const width = (i: number) => (i === 0 ? first : rest) - 6;
+    const drawRow = (row: string[], bold: boolean) => {
+      const cells = row.map((value, i) => pdf.wrap(value, width(i), 9, bold));
+      const height = Math.max(...cells.map(lines => lines.length)) * 12 + 6;
+      ensureSpace(height);
+      cells.forEach((lines, i) => lines.forEach((line, j) =>
+        pdf.text(x(i), y + 10 + j * 12, line, { size: 9, bold, color: bold ? GREY : undefined })));
+      y += height;
+      pdf.line(MARGIN, y - 3, PAGE_WIDTH - MARGIN, y - 3);
+    };
+    if (rows.length === 0) {
+      ensureSpace(16);
+      pdf.text(MARGIN, y + 11, empty, { size: 10, color: GREY });
+      y += 16;
+      return;
+    }
+    drawRow(headings, true);
+    rows.forEach(row => drawRow(row, false));
+  };
+
+  const heading = (text: string) => {
+    y += 14;
+    ensureSpace(40);
+    pdf.text(MARGIN, y + 13, text, { size: 13, bold: true });
+    y += 22;
+  };
+
+  pdf.text(MARGIN, y + 18, `SLA Compliance Report: ${report.period.label}`, { size: 18, bold: true });
+  y += 28;
+  pdf.wrap(`${report.municipalities.join(', ')}. Compared with ${report.previousPeriod.label}.`, CONTENT_WIDTH, 10).forEach(line => {
+    pdf.text(MARGIN, y + 11, line, { size: 10, color: GREY });
+    y += 14;
+  });
+
+  heading('Summary');
+  table(['', 'This period', 'Previous period', 'Change'], getSummaryRows(report), '');
+  heading('Average resolution by severity');
+  table(['Severity', 'Resolved', 'On time', 'Average resolution'], getBreakdownRows(report.bySeverity), 'No incidents were resolved.');
+  heading('Average resolution by incident type');
+  table(['Incident type', 'Resolved', 'On time', 'Average resolution'], getBreakdownRows(report.byType), 'No incidents were resolved.');
+  heading(`Overdue incidents (${report.overdue.length})`);
+  table(
+    ['Incident', 'Severity', 'Municipality', 'Deadline'],
+    report.overdue.slice(0, OVERDUE_LIMIT).map(incident => [
+      `#${incident.id} ${incident.incidentType}${incident.location ? `, ${incident.location}` : ''}`,
+      incident.severity,
+      incident.municipal,
+      formatDate(incident.deadline)
+    ]),
+    'No incidents are overdue.'
+  );
+  if (report.overdue.length > OVERDUE_LIMIT) {
+    ensureSpace(16);
+    pdf.text(MARGIN, y + 11, `And ${report.overdue.length - OVERDUE_LIMIT} more.`, { size: 10, color: GREY });
+    y += 16;
+  }
+
+  ensureSpace(30);
+  pdf.text(MARGIN, y + 24, `Generated ${formatDate(report.generatedAt)}`, { size: 8, color: GREY });
+  return pdf.finish();
+};
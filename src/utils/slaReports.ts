@@ -0,0 +1,183 @@
+import { Report, Severity } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { StaffPreferences } from '../types/staff';
+import {
+  SlaComplianceReport,
+  SlaReportBreakdown,
+  SlaReportFormat,
+  SlaReportFrequency,
+  SlaReportOverdueIncident,
+  SlaReportPeriod,
+  SlaReportSubscription,
+  SlaReportTotals
+} from '../types/slaReport';
+import { isOverdue, toDate } from './incidentUtils';
+import { getReportDeadline, getResolutionHours, isResolvedOnTime } from './slaMetrics';
+
+// Key in the staff member's `preferences` map
+const SUBSCRIPTION_PREFERENCE = 'slaReports';
+
+export const SLA_REPORT_FREQUENCIES: SlaReportFrequency[] = ['weekly', 'monthly'];
+const FORMATS: SlaReportFormat[] = ['html', 'pdf'];
+const SEVERITY_ORDER: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+// Subscription from the preferences map; null when the staff member has not subscribed
+export const getSlaReportSubscription = (preferences: StaffPreferences): SlaReportSubscription | null => {
+  const raw = preferences[SUBSCRIPTION_PREFERENCE] as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== 'object') return null;
+  const frequencies = SLA_REPORT_FREQUENCIES.filter(f => Array.isArray(raw.frequencies) && raw.frequencies.includes(f));
+  if (frequencies.length === 0) return null;
+  return {
+    frequencies,
+    format: FORMATS.includes(raw.format as SlaReportFormat) ? raw.format as SlaReportFormat : 'html',
+    municipal: typeof raw.municipal === 'string' && raw.municipal ? raw.municipal : undefined
+  };
+};
+
+// Pass null to unsubscribe
+export const withSlaReportSubscription = (
+  preferences: StaffPreferences,
+  subscription: SlaReportSubscription | null
+): StaffPreferences => ({
+  ...preferences,
+  // Firestore rejects undefined values
+  [SUBSCRIPTION_PREFERENCE]: subscription
+    ? { frequencies: subscription.frequencies, format: subscription.format, municipal: subscription.municipal || '' }
+    : { frequencies: [] }
+});
+
+// The subscribed municipality if the staff member still covers it, otherwise all they cover
+export const getSubscriptionMunicipalities = (subscription: SlaReportSubscription, covered: string[]): string[] =>
+  subscription.municipal && covered.includes(subscription.municipal) ? [subscription.municipal] : covered;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const toPeriod = (frequency: SlaReportFrequency, start: Date, end: Date): SlaReportPeriod => ({
+  frequency,
+  start,
+  end,
+  label: frequency === 'weekly'
+    ? `Week of ${start.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+});
+
+/**
+ * The last complete period before `now`: Monday to Sunday for weekly reports,
+ * the previous calendar month for monthly ones. Uses the local time zone.
+ */
+export const getSlaReportPeriod = (frequency: SlaReportFrequency, now: Date = new Date()): SlaReportPeriod => {
+  if (frequency === 'monthly') {
+    return toPeriod(frequency, new Date(now.getFullYear(), now.getMonth() - 1, 1), new Date(now.getFullYear(), now.getMonth(), 1));
+  }
+  const today = startOfDay(now);
+  // getDay() is 0 on Sunday
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+  return toPeriod(frequency, new Date(end.getFullYear(), end.getMonth(), end.getDate() - 7), end);
+};
+
+// The period just before the given one, for the trend comparison
+export const getPreviousSlaReportPeriod = (period: SlaReportPeriod): SlaReportPeriod => {
+  const { frequency, start } = period;
+  return frequency === 'monthly'
+    ? toPeriod(frequency, new Date(start.getFullYear(), start.getMonth() - 1, 1), start)
+    : toPeriod(frequency, new Date(start.getFullYear(), start.getMonth(), start.getDate() - 7), start);
+};
+
+const inPeriod = (value: unknown, period: SlaReportPeriod) => {
+  const date = toDate(value);
+  return date !== null && date >= period.start && date < period.end;
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export interface SlaReportInput {
+  reports: Report[];
+  period: SlaReportPeriod;
+  municipalities: string[];
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+  now?: Date;
+}
+
+/**
+ * Compliance figures for a period and the one before it, from every report in the
+ * municipalities. Merged reports are duplicates, so they are left out of the counts.
+ */
+export const buildSlaComplianceReport = ({
+  reports,
+  period,
+  municipalities,
+  policies,
+  calendars,
+  now = new Date()
+}: SlaReportInput): SlaComplianceReport => {
+  const inScope = reports.filter(r => municipalities.includes(r.municipal) && r.reportState !== 'Merged');
+  const previousPeriod = getPreviousSlaReportPeriod(period);
+
+  const resolvedIn = (p: SlaReportPeriod) =>
+    inScope.filter(r => r.reportState === 'Completed' && inPeriod(r.completedAt, p));
+
+  const summarize = (resolved: Report[]) => {
+    const resolvedOnTime = resolved.filter(r => isResolvedOnTime(r, policies, calendars)).length;
+    const hours = resolved
+      .map(r => getResolutionHours(r, policies, calendars, now))
+      .filter((h): h is number => h !== null);
+    return {
+      resolved: resolved.length,
+      resolvedOnTime,
+      averageResolutionHours: average(hours)
+    };
+  };
+
+  const totals = (p: SlaReportPeriod): SlaReportTotals => {
+    const summary = summarize(resolvedIn(p));
+    return {
+      received: inScope.filter(r => inPeriod(r.timestamp, p)).length,
+      ...summary,
+      compliance: summary.resolved > 0 ? Math.round((summary.resolvedOnTime / summary.resolved) * 100) : null
+    };
+  };
+
+  const breakdown = (resolved: Report[], keyOf: (r: Report) => string): SlaReportBreakdown[] => {
+    const groups = resolved.reduce<Record<string, Report[]>>((acc, r) => {
+      const key = keyOf(r);
+      acc[key] = [...(acc[key] || []), r];
+      return acc;
+    }, {});
+    return Object.entries(groups).map(([key, group]) => ({ key, ...summarize(group) }));
+  };
+
+  const resolved = resolvedIn(period);
+  const bySeverity = breakdown(resolved, r => r.severity || 'Low')
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.key as Severity) - SEVERITY_ORDER.indexOf(b.key as Severity));
+  const byType = breakdown(resolved, r => r.incidentType || 'Other')
+    .sort((a, b) => b.resolved - a.resolved || a.key.localeCompare(b.key));
+
+  const overdue: SlaReportOverdueIncident[] = inScope
+    .map(r => ({ report: r, deadline: getReportDeadline(r, policies, calendars) }))
+    .filter(({ report, deadline }) => isOverdue(deadline, report.reportState, now))
+    .sort((a, b) => (a.deadline?.getTime() ?? 0) - (b.deadline?.getTime() ?? 0))
+    .map(({ report, deadline }) => ({
+      id: report.id,
+      municipal: report.municipal,
+      incidentType: report.incidentType || 'Other',
+      severity: report.severity || 'Low',
+      reportState: report.reportState,
+      deadline,
+      location: report.location || ''
+    }));
+
+  return {
+    period,
+    previousPeriod,
+    municipalities,
+    current: totals(period),
+    previous: totals(previousPeriod),
+    bySeverity,
+    byType,
+    overdue,
+    generatedAt: now
+  };
+};
@@ -0,0 +1,26 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../config/firebase';
+import { StaffRole } from '../types/staff';
+
+// Client side of the staff administration functions in functions/src/staffAdmin.ts.
+// Both need a recent sign-in, so wrap them in useRecentAuth's withRecentAuth.
+
+export interface StaffInvite {
+  email: string;
+  name: string;
+  municipal: string;
+  municipalities?: string[];
+  staffRole: StaffRole;
+  team?: string;
+}
+
+const inviteCall = httpsCallable<StaffInvite, { uid: string; tempPassword: string }>(functions, 'inviteStaff');
+const setActiveCall = httpsCallable<{ email: string; active: boolean }, { ok: boolean }>(functions, 'setStaffActive');
+
+// Returns the temporary password to pass on to the new staff member
+export const inviteStaff = async (invite: StaffInvite): Promise<string> =>
+  (await inviteCall(invite)).data.tempPassword;
+
+export const setStaffActive = async (email: string, active: boolean): Promise<void> => {
+  await setActiveCall({ email, active });
+};
@@ -0,0 +1,134 @@
+import { db, auth } from '../config/firebase';
+import { collection, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch, DocumentData } from 'firebase/firestore';
+import { User } from 'firebase/auth';
+import { StaffPreferences, StaffProfile, StaffUpdate } from '../types/staff';
+import { normalizeStaffRole } from './permissions';
+
+export const toStaffProfile = (id: string, data: DocumentData): StaffProfile => ({
+  id,
+  email: data.email || '',
+  name: data.name,
+  municipal: data.municipal || '',
+  municipalities: Array.isArray(data.municipalities) ? data.municipalities : undefined,
+  staffRole: normalizeStaffRole(data.staffRole),
+  team: data.team || undefined,
+  mfaEnabled: !!data.mfaEnabled,
+  active: data.active !== false,
+  requiresPasswordSetup: !!data.requiresPasswordSetup,
+  passwordChangedAt: data.passwordChangedAt,
+  preferences: data.preferences || {}
+});
+
+// Every municipality a staff member can work in, home municipality first
+export const getStaffMunicipalities = (staff: Pick<StaffProfile, 'municipal' | 'municipalities'> | null): string[] => {
+  if (!staff) return [];
+  return Array.from(new Set([staff.municipal, ...(staff.municipalities || [])].filter(Boolean)));
+};
+
+// e.g. "Springfield, Shelbyville" from the staff form
+export const parseMunicipalityList = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(m => m.trim()).filter(Boolean)));
+
+/**
+ * Load the staff profile for a signed-in user.
+ * Prefers the `users/{uid}` document that security rules check, falling back
+ * to the email lookup used for accounts that have not been linked yet.
+ */
+export const getStaffProfile = async (user: User): Promise<StaffProfile | null> => {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', user.uid));
+    if (userDoc.exists() && userDoc.data().role === 'staff') {
+      return toStaffProfile(userDoc.id, userDoc.data());
+    }
+
+    const q = query(collection(db, 'users'), where('email', '==', user.email));
+    const querySnapshot = await getDocs(q);
+    const staffDoc = querySnapshot.docs.find(d => d.data().role === 'staff');
+    return staffDoc ? toStaffProfile(staffDoc.id, staffDoc.data()) : null;
+  } catch (error) {
+    console.error('Error loading staff profile:', error);
+    return null;
+  }
+};
+
+export const getCurrentStaffProfile = async (): Promise<StaffProfile | null> => {
+  return auth.currentUser ? getStaffProfile(auth.currentUser) : null;
+};
+
+/**
+ * Security rules look staff up by `users/{uid}`. Older accounts were stored under
+ * a generated id, so copy them across on sign-in; the rules only allow an exact copy.
+ */
+export const linkStaffAccount = async (user: User, legacyDocId: string, data: DocumentData): Promise<void> => {
+  if (legacyDocId === user.uid) return;
+  try {
+    const linkedRef = doc(db, 'users', user.uid);
+    const linkedDoc = await getDoc(linkedRef);
+    if (linkedDoc.exists()) return;
+
+    await setDoc(linkedRef, {
+      email: data.email,
+      name: data.name || '',
+      municipal: data.municipal,
+      role: data.role,
+      staffRole: normalizeStaffRole(data.staffRole),
+      active: data.active !== false,
+      // Carried over so the copy is held for a new password just as the original was
+      ...(data.requiresPasswordSetup ? { requiresPasswordSetup: true } : {}),
+      ...(data.passwordChangedAt ? { passwordChangedAt: data.passwordChangedAt } : {}),
+      linkedFrom: legacyDocId
+    });
+  } catch (error) {
+    console.error('Error linking staff account:', error);
+  }
+};
+
+/**
+ * Staff accounts for a municipality, or every municipality when none is given, sorted by name.
+ * Linked accounts exist twice (legacy id and uid), so keep the `users/{uid}` copy.
+ */
+export const listStaff = async (municipal?: string): Promise<StaffProfile[]> => {
+  try {
+    const q = municipal
+      ? query(collection(db, 'users'), where('municipal', '==', municipal))
+      : query(collection(db, 'users'), where('role', '==', 'staff'));
+    const querySnapshot = await getDocs(q);
+    const byEmail = new Map<string, StaffProfile>();
+    querySnapshot.docs
+      .filter(d => d.data().role === 'staff')
+      .sort((a, b) => Number(!!a.data().linkedFrom) - Number(!!b.data().linkedFrom))
+      .forEach(d => byEmail.set(d.data().email, toStaffProfile(d.id, d.data())));
+    return Array.from(byEmail.values())
+      .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email));
+  } catch (error) {
+    console.error('Error listing staff:', error);
+    return [];
+  }
+};
+
+/**
+ * Apply an admin's changes to a staff account. Linked accounts have two documents,
+ * so every document with the email is updated.
+ */
+export const updateStaffAccount = async (email: string, changes: StaffUpdate): Promise<void> => {
+  // Firestore rejects undefined, and clearing a team is stored as an empty string
+  const fields = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+  const querySnapshot = await getDocs(query(collection(db, 'users'), where('email', '==', email)));
+  const batch = writeBatch(db);
+  querySnapshot.docs.forEach(d => batch.update(d.ref, fields));
+  await batch.commit();
+};
+
+/**
+ * Replace the signed-in staff member's preferences. Security rules let staff
+ * change only this field on their own `users/{uid}` document.
+ */
+export const saveStaffPreferences = async (preferences: StaffPreferences): Promise<void> => {
+  if (!auth.currentUser) throw new Error('Not signed in');
+  await updateDoc(doc(db, 'users', auth.currentUser.uid), { preferences });
+};
+
+// Crews are the distinct teams staff members belong to
+export const getCrews = (staff: StaffProfile[]): string[] => {
+  return Array.from(new Set(staff.map(s => s.team).filter((t): t is string => !!t))).sort();
+};
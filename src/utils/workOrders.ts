@@ -0,0 +1,234 @@
+import { Report } from '../types/report';
+import { SlaPolicy } from '../types/slaPolicy';
+import { SlaCalendar } from '../types/slaCalendar';
+import { downloadBlob } from './csv';
+import { formatAssignment, getTimeRemaining, toDate } from './incidentUtils';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, PdfImage, createPdfDocument } from './pdf';
+import { getReportCalendar, getReportDeadline } from './slaMetrics';
+import { resolveSlaPolicy } from './slaPolicyUtils';
+
+const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LABEL_WIDTH = 120;
+const MAX_PHOTOS = 6;
+// Images are loaded at twice their printed size so they stay sharp on paper
+const IMAGE_SCALE = 2;
+
+const SEVERITY_COLORS: Record<string, [number, number, number]> = {
+  Critical: [211, 47, 47],
+  High: [245, 124, 0],
+  Medium: [251, 192, 45],
+  Low: [56, 142, 60]
+};
+
+// Open states a crew can still work on; paused reports are waiting on someone else
+export const WORK_ORDER_STATES: Report['reportState'][] = ['New', 'In Progress', 'Overdue'];
+
+export interface WorkOrderSla {
+  policies: SlaPolicy[];
+  calendars: Record<string, SlaCalendar>;
+}
+
+/**
+ * Load an image and re-encode it as a JPEG no larger than the given size.
+ * Resolves to null when the image cannot be loaded or read (e.g. no CORS access, or a video).
+ */
+export const loadJpegImage = (url: string, maxWidth: number, maxHeight: number): Promise<PdfImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, maxWidth / img.naturalWidth, maxHeight / img.naturalHeight);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const context = canvas.getContext('2d');
+        if (!context) {
+          resolve(null);
+          return;
+        }
+        // JPEG has no transparency
+        context.fillStyle = '#fff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(img, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(async blob => {
+          resolve(blob ? { width: canvas.width, height: canvas.height, data: new Uint8Array(await blob.arrayBuffer()) } : null);
+        }, 'image/jpeg', 0.85);
+      } catch (error) {
+        console.error('Error converting image for work order:', error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+// Google Static Maps image of the incident's location, when a Maps key is configured
+export const getStaticMapUrl = (latitude: number, longitude: number): string | null => {
+  if (!GOOGLE_MAPS_API_KEY) return null;
+  const center = `${latitude},${longitude}`;
+  return `https://maps.googleapis.com/maps/api/staticmap?center=${center}&zoom=16&size=640x300&scale=2` +
+    `&markers=color:red%7C${center}&key=${GOOGLE_MAPS_API_KEY}`;
+};
+
+export const getWorkOrderDeadline = (report: Report, sla: WorkOrderSla): Date | null =>
+  getReportDeadline(report, sla.policies, sla.calendars);
+
+const formatDateTime = (date: Date | null) =>
+  date ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'N/A';
+
+interface WorkOrderImages {
+  map: PdfImage | null;
+  photos: (PdfImage | null)[];
+}
+
+const loadWorkOrderImages = async (report: Report): Promise<WorkOrderImages> => {
+  const hasLocation = typeof report.latitude === 'number' && typeof report.longitude === 'number';
+  const mapUrl = hasLocation ? getStaticMapUrl(report.latitude as number, report.longitude as number) : null;
+  const photoSize = (CONTENT_WIDTH / 2) * IMAGE_SCALE;
+  const [map, ...photos] = await Promise.all([
+    mapUrl ? loadJpegImage(mapUrl, CONTENT_WIDTH * IMAGE_SCALE, 300 * IMAGE_SCALE) : Promise.resolve(null),
+    ...(report.mediaUrls || []).slice(0, MAX_PHOTOS).map(url => loadJpegImage(url, photoSize, photoSize))
+  ]);
+  return { map, photos };
+};
+
+// Draw one work order, starting on a new page and continuing onto more pages if needed
+const drawWorkOrder = (pdf: PdfDocument, report: Report, sla: WorkOrderSla, images: WorkOrderImages, now: Date) => {
+  let y = MARGIN;
+  pdf.addPage();
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Header
+  pdf.text(MARGIN, y + 16, 'WORK ORDER', { size: 20, bold: true });
+  const municipality = report.municipal || '';
+  pdf.text(PAGE_WIDTH - MARGIN - pdf.measure(municipality, 11), y + 16, municipality, { color: [100, 100, 100] });
+  y += 28;
+  pdf.text(MARGIN, y + 14, `Incident #${report.id}`, { size: 14, bold: true });
+  const severity = report.severity || 'Low';
+  const badgeWidth = pdf.measure(severity, 11, true) + 16;
+  pdf.rect(PAGE_WIDTH - MARGIN - badgeWidth, y, badgeWidth, 20, SEVERITY_COLORS[severity] || [117, 117, 117]);
+  pdf.text(PAGE_WIDTH - MARGIN - badgeWidth + 8, y + 14, severity, { bold: true, color: [255, 255, 255] });
+  y += 30;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 8;
+
+  // Details
+  const calendar = getReportCalendar(report, sla.calendars);
+  const businessHours = resolveSlaPolicy(sla.policies, {
+    municipal: report.municipal,
+    incidentType: report.incidentType,
+    severity
+  }).businessHoursOnly;
+  const deadline = getWorkOrderDeadline(report, sla);
+  const remaining = getTimeRemaining(deadline, report.reportState, true, now, businessHours ? calendar : undefined);
+  const hasLocation = typeof report.latitude === 'number' && typeof report.longitude === 'number';
+  // Anonymous reporters asked not to be contacted, so none of their details are printed
+  const reporter = report.isAnonymous
+    ? 'Anonymous'
+    : [report.reporterName, report.reporterEmail, report.contact].filter(Boolean).join(' · ') || 'N/A';
+  const merged = (report.mergedReports || []).map(ref => `#${ref.id}`).join(', ');
+
+  const details: [string, string][] = [
+    ['Incident type', report.incidentType || 'N/A'],
+    ['Status', report.reportState],
+    ['Reported', formatDateTime(toDate(report.timestamp))],
+    ['Deadline', deadline ? `${formatDateTime(deadline)} (${remaining})` : 'No deadline'],
+    ['Assigned to', formatAssignment(report)],
+    ['Location', report.location || 'N/A'],
+    ...(report.locationInfo ? [['Location details', report.locationInfo] as [string, string]] : []),
+    ...(hasLocation ? [['Coordinates', `${report.latitude}, ${report.longitude}`] as [string, string]] : []),
+    ['Reporter', reporter],
+    ...(merged ? [['Merged reports', merged] as [string, string]] : [])
+  ];
+  details.forEach(([label, value]) => {
+    const lines = pdf.wrap(value, CONTENT_WIDTH - LABEL_WIDTH, 11);
+    ensureSpace(lines.length * 15 + 4);
+    pdf.text(MARGIN, y + 12, label, { bold: true, color: [90, 90, 90] });
+    lines.forEach((line, i) => pdf.text(MARGIN + LABEL_WIDTH, y + 12 + i * 15, line));
+    y += lines.length * 15 + 4;
+  });
+
+  // Description
+  y += 8;
+  ensureSpace(40);
+  pdf.text(MARGIN, y + 12, 'Description', { size: 13, bold: true });
+  y += 20;
+  pdf.wrap(report.description || 'No description.', CONTENT_WIDTH, 11).forEach(line => {
+    ensureSpace(15);
+    pdf.text(MARGIN, y + 12, line);
+    y += 15;
+  });
+
+  // Map
+  if (images.map) {
+    const height = CONTENT_WIDTH * images.map.height / images.map.width;
+    y += 12;
+    ensureSpace(height + 20);
+    pdf.text(MARGIN, y + 12, 'Map', { size: 13, bold: true });
+    y += 20;
+    pdf.image(images.map, MARGIN, y, CONTENT_WIDTH, height);
+    y += height;
+  }
+
+  // Photos, two to a row; ones that could not be loaded are listed by link instead
+  const photos = images.photos.filter((photo): photo is PdfImage => !!photo);
+  const missing = (report.mediaUrls || []).slice(0, MAX_PHOTOS).filter((_, i) => !images.photos[i]);
+  if (photos.length > 0 || missing.length > 0) {
+    y += 12;
+    ensureSpace(40);
+    pdf.text(MARGIN, y + 12, 'Photos', { size: 13, bold: true });
+    y += 20;
+  }
+  const cellWidth = (CONTENT_WIDTH - 10) / 2;
+  for (let i = 0; i < photos.length; i += 2) {
+    const row = photos.slice(i, i + 2);
+    const height = Math.max(...row.map(photo => cellWidth * photo.height / photo.width));
+    ensureSpace(height + 10);
+    row.forEach((photo, j) => pdf.image(photo, MARGIN + j * (cellWidth + 10), y, cellWidth, cellWidth * photo.height / photo.width));
+    y += height + 10;
+  }
+  missing.forEach(url => {
+    pdf.wrap(url, CONTENT_WIDTH, 8).forEach(line => {
+      ensureSpace(11);
+      pdf.text(MARGIN, y + 9, line, { size: 8, color: [25, 118, 210] });
+      y += 11;
+    });
+  });
+
+  // Sign-off for the crew
+  y += 20;
+  ensureSpace(90);
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 24;
+  ['Work carried out', 'Completed by', 'Date and time'].forEach(label => {
+    pdf.text(MARGIN, y, `${label}:`, { bold: true, color: [90, 90, 90] });
+    pdf.line(MARGIN + LABEL_WIDTH, y + 2, PAGE_WIDTH - MARGIN, y + 2, [150, 150, 150]);
+    y += 24;
+  });
+};
+
+/**
+ * Build a PDF with one work order per report, each starting on a new page.
+ * Photos and the map are fetched in the browser; any that fail are left out.
+ */
+export const createWorkOrdersPdf = async (reports: Report[], sla: WorkOrderSla): Promise<Blob> => {
+  const pdf = createPdfDocument();
+  const now = new Date();
+  for (const report of reports) {
+    drawWorkOrder(pdf, report, sla, await loadWorkOrderImages(report), now);
+  }
+  return pdf.finish();
+};
+
+export const downloadWorkOrders = async (reports: Report[], sla: WorkOrderSla, filename: string) => {
+  downloadBlob(filename, await createWorkOrdersPdf(reports, sla));
+};
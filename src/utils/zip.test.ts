@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { appendToZipEntry, buildZip, createZipEntry } from './zip';
+
+const FOX = 'The quick brown fox jumps over the lazy dog';
+
+const readZip = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+describe('zip entries', () => {
+  it('checksum the text with CRC-32', () => {
+    expect(createZipEntry('fox.txt', FOX)).toMatchObject({ size: 43, crc: 0x414fa339 });
+  });
+
+  it('give the same checksum when filled a chunk at a time', () => {
+    const entry = createZipEntry('fox.txt');
+    appendToZipEntry(entry, 'The quick brown fox ');
+    appendToZipEntry(entry, 'jumps over the lazy dog');
+    expect(entry).toMatchObject({ size: 43, crc: 0x414fa339 });
+  });
+});
+
+describe('buildZip', () => {
+  it('writes local headers, the central directory and the end record', async () => {
+    const blob = buildZip([createZipEntry('a.txt', 'hello'), createZipEntry('dir/b.txt', FOX)]);
+    const view = await readZip(blob);
+    expect(blob.type).toBe('application/zip');
+
+    // First local header, then its name and data
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(18, true)).toBe(5);
+    const second = 30 + 'a.txt'.length + 5;
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    expect(view.getUint32(second + 14, true)).toBe(0x414fa339);
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset).toBe(second + 30 + 'dir/b.txt'.length + 43);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    // The second central record points back at the second local header
+    expect(view.getUint32(centralOffset + 46 + 'a.txt'.length + 42, true)).toBe(second);
+  });
+});
@@ -0,0 +1,108 @@
+// A minimal ZIP writer (stored, uncompressed) for building XLSX files in the browser
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Continue a CRC-32 over more bytes; start from 0
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const encoder = new TextEncoder();
+
+// A file in the archive, filled a chunk at a time so the checksum is never recomputed
+export interface ZipEntry {
+  name: string;
+  parts: Uint8Array[];
+  size: number;
+  crc: number;
+}
+
+export const createZipEntry = (name: string, text: string = ''): ZipEntry => {
+  const entry: ZipEntry = { name, parts: [], size: 0, crc: 0 };
+  if (text) appendToZipEntry(entry, text);
+  return entry;
+};
+
+export const appendToZipEntry = (entry: ZipEntry, text: string) => {
+  const bytes = encoder.encode(text);
+  entry.parts.push(bytes);
+  entry.size += bytes.length;
+  entry.crc = updateCrc32(entry.crc, bytes);
+};
+
+// 1980-01-01 00:00, the earliest date ZIP can store; the timestamp is not meaningful here
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+const header = (size: number, write: (view: DataView) => void): Uint8Array => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+export const buildZip = (entries: ZipEntry[], mimeType: string = 'application/zip'): Blob => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    parts.push(header(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, UTF8_FLAG, true);
+      view.setUint16(8, 0, true);
+      view.setUint16(10, DOS_TIME, true);
+      view.setUint16(12, DOS_DATE, true);
+      view.setUint32(14, entry.crc, true);
+      view.setUint32(18, entry.size, true);
+      view.setUint32(22, entry.size, true);
+      view.setUint16(26, name.length, true);
+      view.setUint16(28, 0, true);
+    }), name, ...entry.parts);
+
+    central.push(header(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, 20, true);
+      view.setUint16(8, UTF8_FLAG, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, DOS_TIME, true);
+      view.setUint16(14, DOS_DATE, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, name.length, true);
+      view.setUint32(42, offset, true);
+    }), name);
+
+    offset += 30 + name.length + entry.size;
+  });
+
+  const centralSize = central.reduce((sum, bytes) => sum + bytes.length, 0);
+  const end = header(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+  });
+
+  return new Blob([...parts, ...central, end], { type: mimeType });
+};
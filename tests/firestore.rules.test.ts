@@ -0,0 +1,244 @@
+/**
+ * Security rules specs, run against the Firestore emulator (firebase-tools, which
+ * needs Java) as the second half of `npm test`, or on their own:
+ *
+ *   npm run test:rules
+ *
+ * Skipped by the plain vitest run (`npm run test:unit`) unless FIRESTORE_EMULATOR_HOST is set.
+ */
+import { readFileSync } from 'node:fs';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  RulesTestEnvironment,
+  TokenOptions,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const STAFF = {
+  dispatcher: { email: 'dispatcher@springfield.gov', staffRole: 'dispatcher', municipal: 'Springfield' },
+  supervisor: { email: 'supervisor@springfield.gov', staffRole: 'supervisor', municipal: 'Springfield' },
+  admin: { email: 'admin@cityfix.org', staffRole: 'admin', municipal: 'Springfield' },
+  elsewhere: { email: 'dispatcher@shelbyville.gov', staffRole: 'dispatcher', municipal: 'Shelbyville' },
+  inactive: { email: 'former@springfield.gov', staffRole: 'supervisor', municipal: 'Springfield', active: false }
+};
+
+type StaffName = keyof typeof STAFF;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-cityfix',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async context => {
+      const db = context.firestore();
+      for (const [uid, staff] of Object.entries(STAFF)) {
+        await db.doc(`users/${uid}`).set({ role: 'staff', active: true, ...staff });
+      }
+      await db.doc('users/citizen').set({ role: 'citizen', email: 'citizen@example.org' });
+      await db.doc('users/legacy-id').set({
+        role: 'staff', email: 'legacy@springfield.gov', name: 'Legacy', municipal: 'Springfield', staffRole: 'supervisor'
+      });
+      await db.doc('users/pending-id').set({
+        role: 'staff', email: 'pending@springfield.gov', name: 'Pending', municipal: 'Springfield', staffRole: 'dispatcher',
+        requiresPasswordSetup: true
+      });
+      await db.doc('users/deactivated-id').set({
+        role: 'staff', email: 'gone@springfield.gov', name: 'Gone', municipal: 'Springfield', staffRole: 'dispatcher', active: false
+      });
+      await db.doc('reports/r1').set({ municipal: 'Springfield', reportState: 'New', severity: 'Low' });
+      await db.doc('reporter/p1').set({ email: 'citizen@example.org', trustLevel: 20, verifiedReports: 2, falseReports: 0 });
+    });
+  });
+
+  // Signed in as one of STAFF (or any uid) through the staff login, recently unless `recent` is false
+  const as = (uid: string, options: TokenOptions & { recent?: boolean } = {}) => {
+    const { recent = true, ...token } = options;
+    return env.authenticatedContext(uid, {
+      email: STAFF[uid as StaffName]?.email,
+      auth_time: recent ? nowSeconds() : nowSeconds() - 3600,
+      staffSession: true,
+      ...token
+    }).firestore();
+  };
+
+  describe('staff sessions', () => {
+    it('does not treat a direct password sign-in as staff', async () => {
+      const direct = as('dispatcher', { staffSession: false });
+      await assertFails(direct.doc('reports/r1').get());
+      await assertFails(direct.doc('reports/r1').update({ severity: 'High' }));
+      await assertFails(direct.collection('users').where('email', '==', STAFF.dispatcher.email).get());
+      await assertSucceeds(direct.doc('users/dispatcher').get());
+    });
+  });
+
+  describe('users', () => {
+    it('lets staff read any account', async () => {
+      await assertSucceeds(as('dispatcher').doc('users/supervisor').get());
+      await assertSucceeds(as('dispatcher').collection('users').where('municipal', '==', 'Springfield').get());
+    });
+
+    it('lets anyone else read only their own account', async () => {
+      const citizen = as('citizen', { email: 'citizen@example.org' });
+      await assertSucceeds(citizen.doc('users/citizen').get());
+      await assertFails(citizen.doc('users/dispatcher').get());
+      await assertFails(citizen.collection('users').where('role', '==', 'staff').get());
+    });
+
+    it('lets an unlinked account find itself by email', async () => {
+      const legacy = as('legacy-uid', { email: 'legacy@springfield.gov' });
+      await assertSucceeds(legacy.collection('users').where('email', '==', 'legacy@springfield.gov').get());
+      await assertFails(legacy.collection('users').where('email', '==', 'admin@cityfix.org').get());
+    });
+
+    it('lets deactivated staff read only their own account', async () => {
+      await assertSucceeds(as('inactive').doc('users/inactive').get());
+      await assertFails(as('inactive').doc('users/dispatcher').get());
+    });
+
+    const legacyCopy = {
+      email: 'legacy@springfield.gov',
+      name: 'Legacy',
+      municipal: 'Springfield',
+      role: 'staff',
+      staffRole: 'supervisor',
+      active: true,
+      linkedFrom: 'legacy-id'
+    };
+
+    it('allows an exact copy of a legacy account under the caller uid', async () => {
+      await assertSucceeds(as('legacy-uid', { email: 'legacy@springfield.gov' }).doc('users/legacy-uid').set(legacyCopy));
+    });
+
+    it('refuses a legacy copy with changes or extra fields', async () => {
+      const legacy = as('legacy-uid', { email: 'legacy@springfield.gov' });
+      await assertFails(legacy.doc('users/legacy-uid').set({ ...legacyCopy, staffRole: 'admin' }));
+      await assertFails(legacy.doc('users/legacy-uid').set({ ...legacyCopy, municipalities: ['Shelbyville'] }));
+      await assertFails(legacy.doc('users/other-uid').set(legacyCopy));
+      await assertFails(as('someone', { email: 'someone@example.org' }).doc('users/someone').set(legacyCopy));
+    });
+
+    it('carries a pending password setup over to the copy', async () => {
+      const pending = as('pending-uid', { email: 'pending@springfield.gov' });
+      const copy = {
+        email: 'pending@springfield.gov', name: 'Pending', municipal: 'Springfield', role: 'staff',
+        staffRole: 'dispatcher', active: true, linkedFrom: 'pending-id'
+      };
+      await assertFails(pending.doc('users/pending-uid').set(copy));
+      await assertSucceeds(pending.doc('users/pending-uid').set({ ...copy, requiresPasswordSetup: true }));
+    });
+
+    it('refuses to link a deactivated legacy account', async () => {
+      const gone = as('gone-uid', { email: 'gone@springfield.gov' });
+      await assertFails(gone.doc('users/gone-uid').set({
+        email: 'gone@springfield.gov', name: 'Gone', municipal: 'Springfield', role: 'staff',
+        staffRole: 'dispatcher', active: true, linkedFrom: 'deactivated-id'
+      }));
+    });
+
+    it('lets staff change only their own preferences', async () => {
+      await assertSucceeds(as('dispatcher').doc('users/dispatcher').update({ preferences: { incidentViews: [] } }));
+      await assertFails(as('dispatcher').doc('users/dispatcher').update({ staffRole: 'admin' }));
+      await assertFails(as('dispatcher').doc('users/supervisor').update({ preferences: {} }));
+      await assertSucceeds(as('admin').doc('users/dispatcher').update({ team: 'Roads' }));
+    });
+  });
+
+  describe('reports', () => {
+    it('lets dispatchers update reports in their municipality', async () => {
+      await assertSucceeds(as('dispatcher').doc('reports/r1').update({ severity: 'High' }));
+      await assertFails(as('elsewhere').doc('reports/r1').update({ severity: 'High' }));
+      await assertFails(as('inactive').doc('reports/r1').update({ severity: 'High' }));
+      await assertSucceeds(as('admin').doc('reports/r1').update({ severity: 'High' }));
+    });
+
+    it('keeps merges for supervisors who signed in recently', async () => {
+      await assertFails(as('dispatcher').doc('reports/r1').update({ reportState: 'Merged', mergedInto: 'r2' }));
+      await assertFails(as('supervisor', { recent: false }).doc('reports/r1').update({ reportState: 'Merged', mergedInto: 'r2' }));
+      await assertSucceeds(as('supervisor').doc('reports/r1').update({ reportState: 'Merged', mergedInto: 'r2' }));
+    });
+
+    it('hides reports from anyone but staff', async () => {
+      await assertSucceeds(as('dispatcher').doc('reports/r1').get());
+      await assertFails(as('citizen', { email: 'citizen@example.org' }).doc('reports/r1').get());
+    });
+  });
+
+  describe('reporter trust', () => {
+    it('lets dispatchers recalculate trust with one more verified or false report', async () => {
+      await assertSucceeds(as('dispatcher').doc('reporter/p1').update({ verifiedReports: 3, trustLevel: 45 }));
+      await assertSucceeds(as('dispatcher').doc('reporter/p1').update({ falseReports: 1, trustLevel: 10 }));
+    });
+
+    it('refuses other changes to trust by dispatchers', async () => {
+      await assertFails(as('dispatcher').doc('reporter/p1').update({ trustLevel: 100 }));
+      await assertFails(as('dispatcher').doc('reporter/p1').update({ verifiedReports: 10, trustLevel: 100 }));
+      await assertFails(as('dispatcher').doc('reporter/p1').update({ verifiedReports: 3, trustLevel: 500 }));
+      await assertFails(as('dispatcher').doc('reporter/p1').update({ trustReason: 'Known reporter' }));
+    });
+
+    it('lets supervisors who signed in recently set trust by hand', async () => {
+      await assertSucceeds(as('supervisor').doc('reporter/p1').update({ trustLevel: 90, trustReason: 'Known reporter' }));
+      await assertFails(as('supervisor', { recent: false }).doc('reporter/p1').update({ trustLevel: 90, trustReason: 'Known reporter' }));
+    });
+  });
+
+  describe('audit log', () => {
+    const entry = (uid: string) => ({
+      eventType: 'REPORT_COMPLETE',
+      userId: uid,
+      userEmail: STAFF[uid as StaffName]?.email,
+      incidentId: 'r1',
+      details: 'Resolved',
+      timestamp: firebase.firestore.FieldValue.serverTimestamp()
+    });
+
+    it('lets staff record their own actions', async () => {
+      await assertSucceeds(as('dispatcher').collection('auditLogs').add(entry('dispatcher')));
+    });
+
+    it('refuses entries from anyone else, for someone else or with other fields', async () => {
+      await assertFails(as('citizen', { email: 'citizen@example.org' }).collection('auditLogs').add(entry('citizen')));
+      await assertFails(as('inactive').collection('auditLogs').add(entry('inactive')));
+      await assertFails(as('dispatcher').collection('auditLogs').add(entry('supervisor')));
+      await assertFails(as('dispatcher').collection('auditLogs').add({ ...entry('dispatcher'), ipAddress: '10.0.0.1' }));
+      await assertFails(as('dispatcher').collection('auditLogs').add({ ...entry('dispatcher'), timestamp: new Date(0) }));
+    });
+
+    it('is read by admins only', async () => {
+      await assertSucceeds(as('admin').collection('auditLogs').get());
+      await assertFails(as('supervisor').collection('auditLogs').get());
+    });
+  });
+
+  describe('SLA policies', () => {
+    const policy = { severity: 'High', timeframeHours: 24, businessHoursOnly: false };
+
+    it('lets supervisors edit policies for their municipality only', async () => {
+      await assertSucceeds(as('supervisor').doc('severityConfigs/p1').set({ ...policy, municipal: 'Springfield' }));
+      await assertFails(as('supervisor').doc('severityConfigs/p2').set({ ...policy, municipal: 'Shelbyville' }));
+      await assertFails(as('supervisor').doc('severityConfigs/p3').set(policy));
+      await assertFails(as('dispatcher').doc('severityConfigs/p4').set({ ...policy, municipal: 'Springfield' }));
+    });
+
+    it('leaves policies for all municipalities to admins', async () => {
+      await assertSucceeds(as('admin').doc('severityConfigs/p5').set(policy));
+    });
+  });
+});